@@ -0,0 +1,532 @@
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import {
+    bigIntToBytes,
+    bytesToHex,
+    concatBytes,
+    hexToBytes,
+    isValidAddress,
+    isValidChecksumAddress,
+    setLengthLeft,
+    setLengthRight,
+    utf8ToBytes,
+} from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { Abi, AbiItem, AbiParameter } from '../types/abiConfig';
+import { DeploymentConfig } from '../types/deploymentConfig';
+import { TransactionConfig } from '../types/transactionConfig';
+import { isValidHex } from '../utils/utils';
+
+const WORD_SIZE = 32;
+
+/**
+ * Type of an ABI parameter, parsed from its canonical string.
+ */
+export type ParsedType =
+    | { kind: 'uint' | 'int'; bits: number }
+    | { kind: 'address' | 'bool' | 'bytes' | 'string' }
+    | { kind: 'fixedBytes'; size: number }
+    | { kind: 'array'; item: ParsedParameter; length: number | undefined }
+    | { kind: 'tuple'; components: ParsedParameter[] };
+
+/**
+ * ABI parameter with its parsed type.
+ */
+export interface ParsedParameter {
+    name: string | undefined;
+    type: string;
+    parsed: ParsedType;
+}
+
+function invalidAbi(message: string): NickMethodError {
+    return new NickMethodError('INVALID_ABI', message, { field: 'abi' });
+}
+
+/**
+ * Parses an ABI parameter, resolving the `uint` and `int` aliases and nested arrays and tuples.
+ *
+ * @throws {NickMethodError} If the type is not a valid ABI type (`INVALID_ABI`).
+ */
+export function parseParameter(parameter: AbiParameter): ParsedParameter {
+    if (!parameter || typeof parameter.type !== 'string') {
+        throw invalidAbi('Invalid ABI parameter: missing type');
+    }
+    const { type } = parameter;
+
+    const array = /^(.*)\[(\d*)\]$/.exec(type);
+    if (array !== null) {
+        const length = array[2] === '' ? undefined : Number(array[2]);
+        if (length === 0) {
+            throw invalidAbi(`Invalid ABI type "${type}": fixed arrays cannot be empty`);
+        }
+        const item = parseParameter({ ...parameter, name: undefined, type: array[1] });
+        return {
+            name: parameter.name,
+            type: `${item.type}[${array[2]}]`,
+            parsed: { kind: 'array', item, length },
+        };
+    }
+
+    if (type === 'tuple') {
+        if (!Array.isArray(parameter.components)) {
+            throw invalidAbi('Invalid ABI type "tuple": missing components');
+        }
+        const components = parameter.components.map(parseParameter);
+        return {
+            name: parameter.name,
+            type: `(${components.map((component) => component.type).join(',')})`,
+            parsed: { kind: 'tuple', components },
+        };
+    }
+
+    const integer = /^(u?int)(\d*)$/.exec(type);
+    if (integer !== null) {
+        const bits = integer[2] === '' ? 256 : Number(integer[2]);
+        if (bits % 8 !== 0 || bits < 8 || bits > 256) {
+            throw invalidAbi(`Invalid ABI type "${type}"`);
+        }
+        const kind = integer[1] as 'uint' | 'int';
+        return { name: parameter.name, type: `${kind}${bits}`, parsed: { kind, bits } };
+    }
+
+    const fixedBytes = /^bytes(\d+)$/.exec(type);
+    if (fixedBytes !== null) {
+        const size = Number(fixedBytes[1]);
+        if (size < 1 || size > 32) {
+            throw invalidAbi(`Invalid ABI type "${type}"`);
+        }
+        return { name: parameter.name, type, parsed: { kind: 'fixedBytes', size } };
+    }
+
+    if (type === 'address' || type === 'bool' || type === 'bytes' || type === 'string') {
+        return { name: parameter.name, type, parsed: { kind: type } };
+    }
+
+    throw invalidAbi(`Unsupported ABI type "${type}"`);
+}
+
+/**
+ * Whether values of a type are encoded in the tail of their enclosing tuple.
+ */
+export function isDynamic(parsed: ParsedType): boolean {
+    switch (parsed.kind) {
+        case 'bytes':
+        case 'string':
+            return true;
+        case 'array':
+            return parsed.length === undefined || isDynamic(parsed.item.parsed);
+        case 'tuple':
+            return parsed.components.some((component) => isDynamic(component.parsed));
+        default:
+            return false;
+    }
+}
+
+/**
+ * Returns the canonical signature of a function, event, error or constructor, e.g. `transfer(address,uint256)`.
+ *
+ * @param {AbiItem} item - The ABI item.
+ * @returns {string} The signature.
+ * @throws {NickMethodError} If a parameter type is invalid (`INVALID_ABI`).
+ */
+export function formatSignature(item: AbiItem): string {
+    const types = (item.inputs ?? []).map((input) => parseParameter(input).type);
+    return `${item.name ?? item.type}(${types.join(',')})`;
+}
+
+/**
+ * Returns the 4-byte selector of a function, the first bytes of the keccak256 hash of its signature.
+ *
+ * @param {AbiItem | string} item - The ABI item, or its signature.
+ * @returns {string} The selector as a hexadecimal string.
+ */
+export function getFunctionSelector(item: AbiItem | string): string {
+    const signature = typeof item === 'string' ? item : formatSignature(item);
+    return bytesToHex(keccak256(utf8ToBytes(signature)).subarray(0, 4));
+}
+
+function invalidArgument(path: string, type: string, reason: string): NickMethodError {
+    const message = `Invalid argument ${path} (${type}): ${reason}`;
+    return new NickMethodError('INVALID_ARGUMENTS', message, { field: path });
+}
+
+function describe(value: unknown): string {
+    if (typeof value === 'bigint') {
+        return `${value}n`;
+    }
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+function toInteger(value: unknown): bigint | undefined {
+    if (typeof value === 'bigint') {
+        return value;
+    }
+    if (typeof value === 'number') {
+        return Number.isSafeInteger(value) ? BigInt(value) : undefined;
+    }
+    if (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value)) {
+        return value.startsWith('-') ? -BigInt(value.slice(1)) : BigInt(value);
+    }
+    return undefined;
+}
+
+function toBytes(value: unknown): Uint8Array | undefined {
+    if (value instanceof Uint8Array) {
+        return value;
+    }
+    if (typeof value === 'string' && isValidHex(value) && value.length % 2 === 0) {
+        return hexToBytes(value);
+    }
+    return undefined;
+}
+
+function encodeLength(length: number): Uint8Array {
+    return setLengthLeft(bigIntToBytes(BigInt(length)), WORD_SIZE);
+}
+
+function padRight(bytes: Uint8Array): Uint8Array {
+    return setLengthRight(bytes, Math.ceil(bytes.length / WORD_SIZE) * WORD_SIZE);
+}
+
+function encodeValue(parameter: ParsedParameter, value: unknown, path: string): Uint8Array {
+    const { parsed, type } = parameter;
+
+    switch (parsed.kind) {
+        case 'uint':
+        case 'int': {
+            const integer = toInteger(value);
+            if (integer === undefined) {
+                throw invalidArgument(path, type, `expected an integer, got ${describe(value)}`);
+            }
+            const bits = BigInt(parsed.bits);
+            const [min, max] =
+                parsed.kind === 'uint'
+                    ? [BigInt(0), (BigInt(1) << bits) - BigInt(1)]
+                    : [
+                          -(BigInt(1) << (bits - BigInt(1))),
+                          (BigInt(1) << (bits - BigInt(1))) - BigInt(1),
+                      ];
+            if (integer < min || integer > max) {
+                throw invalidArgument(path, type, `${integer} is out of range`);
+            }
+            const word = integer < BigInt(0) ? (BigInt(1) << BigInt(256)) + integer : integer;
+            return setLengthLeft(bigIntToBytes(word), WORD_SIZE);
+        }
+        case 'address': {
+            if (
+                typeof value !== 'string' ||
+                !isValidAddress(value) ||
+                (value.slice(2) !== value.slice(2).toLowerCase() &&
+                    value.slice(2) !== value.slice(2).toUpperCase() &&
+                    !isValidChecksumAddress(value))
+            ) {
+                throw invalidArgument(path, type, `expected an address, got ${describe(value)}`);
+            }
+            return setLengthLeft(hexToBytes(value), WORD_SIZE);
+        }
+        case 'bool':
+            if (typeof value !== 'boolean') {
+                throw invalidArgument(path, type, `expected a boolean, got ${describe(value)}`);
+            }
+            return setLengthLeft(Uint8Array.of(value ? 1 : 0), WORD_SIZE);
+        case 'fixedBytes': {
+            const bytes = toBytes(value);
+            if (bytes === undefined || bytes.length !== parsed.size) {
+                throw invalidArgument(
+                    path,
+                    type,
+                    `expected ${parsed.size} bytes of hex, got ${describe(value)}`,
+                );
+            }
+            return setLengthRight(bytes, WORD_SIZE);
+        }
+        case 'bytes': {
+            const bytes = toBytes(value);
+            if (bytes === undefined) {
+                throw invalidArgument(path, type, `expected hex bytes, got ${describe(value)}`);
+            }
+            return concatBytes(encodeLength(bytes.length), padRight(bytes));
+        }
+        case 'string': {
+            if (typeof value !== 'string') {
+                throw invalidArgument(path, type, `expected a string, got ${describe(value)}`);
+            }
+            const bytes = utf8ToBytes(value);
+            return concatBytes(encodeLength(bytes.length), padRight(bytes));
+        }
+        case 'array': {
+            if (!Array.isArray(value)) {
+                throw invalidArgument(path, type, `expected an array, got ${describe(value)}`);
+            }
+            if (parsed.length !== undefined && value.length !== parsed.length) {
+                throw invalidArgument(
+                    path,
+                    type,
+                    `expected ${parsed.length} items, got ${value.length}`,
+                );
+            }
+            const items = encodeTuple(
+                value.map(() => parsed.item),
+                value,
+                value.map((_, index) => `${path}[${index}]`),
+            );
+            return parsed.length === undefined
+                ? concatBytes(encodeLength(value.length), items)
+                : items;
+        }
+        case 'tuple': {
+            const { components } = parsed;
+            let values: unknown[];
+            if (Array.isArray(value)) {
+                values = value;
+            } else if (typeof value === 'object' && value !== null) {
+                values = components.map((component) =>
+                    component.name ? (value as Record<string, unknown>)[component.name] : undefined,
+                );
+                const missing = values.findIndex((member) => member === undefined);
+                if (missing !== -1) {
+                    throw invalidArgument(
+                        path,
+                        type,
+                        `missing member ${components[missing].name ?? missing}`,
+                    );
+                }
+            } else {
+                throw invalidArgument(
+                    path,
+                    type,
+                    `expected an array or an object, got ${describe(value)}`,
+                );
+            }
+            if (values.length !== components.length) {
+                throw invalidArgument(
+                    path,
+                    type,
+                    `expected ${components.length} members, got ${values.length}`,
+                );
+            }
+            return encodeTuple(
+                components,
+                values,
+                components.map((component, index) =>
+                    component.name ? `${path}.${component.name}` : `${path}[${index}]`,
+                ),
+            );
+        }
+    }
+}
+
+function encodeTuple(
+    parameters: ParsedParameter[],
+    values: readonly unknown[],
+    paths: string[],
+): Uint8Array {
+    const encoded = parameters.map((parameter, index) => ({
+        dynamic: isDynamic(parameter.parsed),
+        data: encodeValue(parameter, values[index], paths[index]),
+    }));
+
+    const headSize = encoded.reduce(
+        (size, { dynamic, data }) => size + (dynamic ? WORD_SIZE : data.length),
+        0,
+    );
+    const heads: Uint8Array[] = [];
+    const tails: Uint8Array[] = [];
+    let offset = headSize;
+
+    for (const { dynamic, data } of encoded) {
+        if (dynamic) {
+            heads.push(encodeLength(offset));
+            tails.push(data);
+            offset += data.length;
+        } else {
+            heads.push(data);
+        }
+    }
+
+    return concatBytes(...heads, ...tails);
+}
+
+/**
+ * ABI-encodes values against a list of parameters, as for function or constructor arguments.
+ *
+ * Integers are accepted as bigints, safe integer numbers, decimal or hex strings; `bytes` and `bytesN` as
+ * hex strings or `Uint8Array`s; tuples as arrays or as objects keyed by member name.
+ *
+ * @param {readonly AbiParameter[]} parameters - The ABI parameters.
+ * @param {readonly unknown[]} values - The values, one per parameter.
+ * @returns {string} The encoded values as a hexadecimal string, without selector.
+ *
+ * @throws {NickMethodError} If a parameter type is invalid (`INVALID_ABI`), or if the number of values or a
+ * value does not match its parameter (`INVALID_ARGUMENTS`). The `field` property holds the path of the value,
+ * such as `args[1].amount`.
+ */
+export function encodeAbiParameters(
+    parameters: readonly AbiParameter[],
+    values: readonly unknown[],
+): string {
+    const parsed = parameters.map(parseParameter);
+    if (!Array.isArray(values) || values.length !== parsed.length) {
+        throw new NickMethodError(
+            'INVALID_ARGUMENTS',
+            `Expected ${parsed.length} arguments, got ${Array.isArray(values) ? values.length : describe(values)}`,
+            { field: 'args' },
+        );
+    }
+    return bytesToHex(
+        encodeTuple(
+            parsed,
+            values,
+            parsed.map((_, index) => `args[${index}]`),
+        ),
+    );
+}
+
+/**
+ * Finds a function of an ABI by name or full signature. Overloads sharing a name are told apart
+ * by their number of arguments.
+ *
+ * @throws {NickMethodError} If no function, or more than one, matches (`INVALID_ABI`).
+ */
+export function findFunction(abi: Abi, functionName: string, argCount?: number): AbiItem {
+    if (!Array.isArray(abi)) {
+        throw invalidAbi('Invalid ABI: expected an array of ABI items');
+    }
+    const functions = abi.filter((item) => item?.type === 'function');
+    let candidates = functionName.includes('(')
+        ? functions.filter((item) => formatSignature(item) === functionName.replace(/\s/g, ''))
+        : functions.filter((item) => item.name === functionName);
+
+    if (candidates.length > 1 && argCount !== undefined) {
+        candidates = candidates.filter((item) => (item.inputs ?? []).length === argCount);
+    }
+    if (candidates.length === 0) {
+        throw invalidAbi(`Function "${functionName}" not found in the ABI`);
+    }
+    if (candidates.length > 1) {
+        throw invalidAbi(
+            `Function "${functionName}" is ambiguous, use one of ${candidates.map(formatSignature).join(', ')}`,
+        );
+    }
+    return candidates[0];
+}
+
+/**
+ * Encodes the calldata of a function call: the function selector followed by the ABI-encoded arguments.
+ *
+ * @param {object} config - The function to call.
+ * @param {Abi} config.abi - The ABI of the contract.
+ * @param {string} config.functionName - The name of the function, or its full signature to select an overload.
+ * @param {readonly unknown[]} [config.args] - The function arguments.
+ * @returns {string} The calldata as a hexadecimal string.
+ *
+ * @throws {NickMethodError} If the function cannot be found (`INVALID_ABI`), or if the arguments do not
+ * match its inputs (`INVALID_ARGUMENTS`).
+ */
+export function encodeFunctionData(config: {
+    abi: Abi;
+    functionName: string;
+    args?: readonly unknown[];
+}): string {
+    const args = config.args ?? [];
+    const item = findFunction(config.abi, config.functionName, args.length);
+    return `${getFunctionSelector(item)}${encodeAbiParameters(item.inputs ?? [], args).slice(2)}`;
+}
+
+/**
+ * Encodes the data of a contract creation: the creation bytecode followed by the ABI-encoded
+ * constructor arguments.
+ *
+ * @param {object} config - The contract to create.
+ * @param {Abi} config.abi - The ABI of the contract. Without constructor, no argument is expected.
+ * @param {string} config.bytecode - The creation bytecode of the contract.
+ * @param {readonly unknown[]} [config.args] - The constructor arguments.
+ * @returns {string} The creation data as a hexadecimal string.
+ *
+ * @throws {NickMethodError} If the bytecode is not valid hex (`INVALID_HEX`), the ABI is malformed
+ * (`INVALID_ABI`), or if the arguments do not match the constructor inputs (`INVALID_ARGUMENTS`).
+ */
+export function encodeDeployData(config: {
+    abi: Abi;
+    bytecode: string;
+    args?: readonly unknown[];
+}): string {
+    if (!isValidHex(config.bytecode) || config.bytecode.length % 2 !== 0) {
+        throw new NickMethodError(
+            'INVALID_HEX',
+            'Invalid bytecode: constructor arguments can only be appended to bytecode with an even hex length',
+            { field: 'bytecode' },
+        );
+    }
+    if (!Array.isArray(config.abi)) {
+        throw invalidAbi('Invalid ABI: expected an array of ABI items');
+    }
+    const constructor = config.abi.find((item) => item?.type === 'constructor');
+    return `${config.bytecode}${encodeAbiParameters(constructor?.inputs ?? [], config.args ?? []).slice(2)}`;
+}
+
+/**
+ * Returns the bytecode of a deployment configuration, with its constructor arguments ABI-encoded
+ * when an `abi` or `args` is provided.
+ *
+ * @throws {NickMethodError} If `args` are provided without `abi` (`MISSING_FIELD`), or if the encoding fails.
+ */
+export function resolveDeploymentBytecode(config: DeploymentConfig): string {
+    if (config.abi === undefined && config.args === undefined) {
+        return config.bytecode;
+    }
+    if (config.abi === undefined) {
+        throw new NickMethodError(
+            'MISSING_FIELD',
+            'An abi is required to encode constructor args',
+            {
+                field: 'abi',
+            },
+        );
+    }
+    return encodeDeployData({ abi: config.abi, bytecode: config.bytecode, args: config.args });
+}
+
+/**
+ * Returns the data of a transaction configuration, encoded from `abi`, `functionName` and `args`
+ * when a `functionName` is provided.
+ *
+ * @throws {NickMethodError} If both `data` and `functionName` are provided (`INVALID_OPTION`), if `functionName`
+ * or `args` are provided without `abi` (`MISSING_FIELD`), or if the encoding fails.
+ */
+export function resolveTransactionData(config: TransactionConfig): string | undefined {
+    if (
+        config.functionName === undefined &&
+        config.abi === undefined &&
+        config.args === undefined
+    ) {
+        return config.data;
+    }
+    if (config.data !== undefined) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Provide either data, or abi and functionName, but not both',
+            { field: 'data' },
+        );
+    }
+    for (const field of ['abi', 'functionName'] as const) {
+        if (config[field] === undefined) {
+            throw new NickMethodError(
+                'MISSING_FIELD',
+                `An abi and a functionName are required to encode data: ${field} is missing`,
+                {
+                    field,
+                },
+            );
+        }
+    }
+    return encodeFunctionData({
+        abi: config.abi as Abi,
+        functionName: config.functionName as string,
+        args: config.args,
+    });
+}
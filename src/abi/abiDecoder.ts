@@ -0,0 +1,296 @@
+import {
+    bytesToBigInt,
+    bytesToHex,
+    bytesToUtf8,
+    hexToBytes,
+    toChecksumAddress,
+} from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import {
+    Abi,
+    AbiParameter,
+    DecodedArgument,
+    DecodedTransactionData,
+    DecodeOptions,
+} from '../types/abiConfig';
+import { isValidHex } from '../utils/utils';
+import {
+    formatSignature,
+    getFunctionSelector,
+    isDynamic,
+    ParsedParameter,
+    ParsedType,
+    parseParameter,
+} from './abi';
+
+const WORD_SIZE = 32;
+
+function decodeError(message: string): NickMethodError {
+    return new NickMethodError('ABI_DECODE_FAILED', `Cannot decode ABI data: ${message}`, {
+        field: 'data',
+    });
+}
+
+/**
+ * Size of a value in the head of its enclosing tuple.
+ */
+function headSize(parsed: ParsedType): number {
+    if (isDynamic(parsed)) {
+        return WORD_SIZE;
+    }
+    if (parsed.kind === 'tuple') {
+        return parsed.components.reduce((size, component) => size + headSize(component.parsed), 0);
+    }
+    if (parsed.kind === 'array') {
+        return (parsed.length as number) * headSize(parsed.item.parsed);
+    }
+    return WORD_SIZE;
+}
+
+function readWord(data: Uint8Array, offset: number): Uint8Array {
+    if (offset + WORD_SIZE > data.length) {
+        throw decodeError(`unexpected end of data at offset ${offset}`);
+    }
+    return data.subarray(offset, offset + WORD_SIZE);
+}
+
+function readUint(data: Uint8Array, offset: number): bigint {
+    return bytesToBigInt(readWord(data, offset));
+}
+
+/**
+ * Reads an offset or a length, which must point inside the data.
+ */
+function readSize(data: Uint8Array, offset: number): number {
+    const size = readUint(data, offset);
+    if (size > BigInt(data.length)) {
+        throw decodeError(`offset or length ${size} at offset ${offset} exceeds the data`);
+    }
+    return Number(size);
+}
+
+function readBytes(data: Uint8Array, offset: number): Uint8Array {
+    const length = readSize(data, offset);
+    const start = offset + WORD_SIZE;
+    if (start + length > data.length) {
+        throw decodeError(`unexpected end of data at offset ${start}`);
+    }
+    return data.subarray(start, start + length);
+}
+
+function decodeValue(parameter: ParsedParameter, data: Uint8Array, offset: number): unknown {
+    const { parsed, type } = parameter;
+
+    switch (parsed.kind) {
+        case 'uint':
+        case 'int': {
+            const word = readUint(data, offset);
+            const bits = BigInt(parsed.bits);
+            const value =
+                parsed.kind === 'int' && word >> BigInt(255) === BigInt(1)
+                    ? word - (BigInt(1) << BigInt(256))
+                    : word;
+            const [min, max] =
+                parsed.kind === 'uint'
+                    ? [BigInt(0), (BigInt(1) << bits) - BigInt(1)]
+                    : [
+                          -(BigInt(1) << (bits - BigInt(1))),
+                          (BigInt(1) << (bits - BigInt(1))) - BigInt(1),
+                      ];
+            if (value < min || value > max) {
+                throw decodeError(`value at offset ${offset} is out of range for ${type}`);
+            }
+            return value;
+        }
+        case 'address': {
+            const word = readWord(data, offset);
+            if (word.subarray(0, 12).some((byte) => byte !== 0)) {
+                throw decodeError(`value at offset ${offset} is not an address`);
+            }
+            return toChecksumAddress(bytesToHex(word.subarray(12)));
+        }
+        case 'bool': {
+            const word = readUint(data, offset);
+            if (word > BigInt(1)) {
+                throw decodeError(`value at offset ${offset} is not a boolean`);
+            }
+            return word === BigInt(1);
+        }
+        case 'fixedBytes':
+            return bytesToHex(readWord(data, offset).subarray(0, parsed.size));
+        case 'bytes':
+            return bytesToHex(readBytes(data, offset));
+        case 'string':
+            return bytesToUtf8(readBytes(data, offset));
+        case 'array': {
+            if (parsed.length !== undefined) {
+                return decodeTuple(new Array(parsed.length).fill(parsed.item), data, offset);
+            }
+            const length = readSize(data, offset);
+            return decodeTuple(new Array(length).fill(parsed.item), data, offset + WORD_SIZE);
+        }
+        case 'tuple': {
+            const values = decodeTuple(parsed.components, data, offset);
+            if (parsed.components.some((component) => !component.name)) {
+                return values;
+            }
+            return Object.fromEntries(
+                parsed.components.map((component, index) => [component.name, values[index]]),
+            );
+        }
+    }
+}
+
+function decodeTuple(parameters: ParsedParameter[], data: Uint8Array, offset: number): unknown[] {
+    let cursor = offset;
+    return parameters.map((parameter) => {
+        const value = isDynamic(parameter.parsed)
+            ? decodeValue(parameter, data, offset + readSize(data, cursor))
+            : decodeValue(parameter, data, cursor);
+        cursor += headSize(parameter.parsed);
+        return value;
+    });
+}
+
+/**
+ * ABI-decodes values against a list of parameters, as for function or constructor arguments.
+ *
+ * Integers are decoded as bigints, addresses as checksummed strings, `bytes` and `bytesN` as hex strings,
+ * and tuples as objects keyed by member name, or as arrays when a member is unnamed.
+ *
+ * @param {readonly AbiParameter[]} parameters - The ABI parameters.
+ * @param {string} data - The encoded values as a hexadecimal string, without selector.
+ * @returns {DecodedArgument[]} The decoded values, with the name and canonical type of their parameter.
+ *
+ * @throws {NickMethodError} If a parameter type is invalid (`INVALID_ABI`), or if the data is not hex or
+ * does not hold valid values of the parameter types (`ABI_DECODE_FAILED`).
+ */
+export function decodeAbiParameters(
+    parameters: readonly AbiParameter[],
+    data: string,
+): DecodedArgument[] {
+    const parsed = parameters.map(parseParameter);
+    if (typeof data !== 'string' || !isValidHex(data) || data.length % 2 !== 0) {
+        throw decodeError('data is not a valid hex string');
+    }
+    const values = decodeTuple(parsed, hexToBytes(data), 0);
+    return parsed.map((parameter, index) => ({
+        name: parameter.name || undefined,
+        type: parameter.type,
+        value: values[index],
+    }));
+}
+
+function flattenAbis(abi: Abi | Abi[] | undefined): Abi {
+    if (abi === undefined) {
+        return [];
+    }
+    if (!Array.isArray(abi)) {
+        throw new NickMethodError('INVALID_ABI', 'Invalid ABI: expected an array of ABI items', {
+            field: 'abi',
+        });
+    }
+    const items: readonly unknown[] = abi;
+    return items.every((item) => Array.isArray(item))
+        ? (items as readonly Abi[]).flat()
+        : (items as Abi);
+}
+
+function decodeDeployment(data: string, abi: Abi, options: DecodeOptions): DecodedTransactionData {
+    let bytecodeLength: number;
+    if (options.bytecode !== undefined) {
+        if (!isValidHex(options.bytecode) || options.bytecode.length % 2 !== 0) {
+            throw new NickMethodError('INVALID_HEX', 'Invalid hex value for bytecode', {
+                field: 'bytecode',
+            });
+        }
+        if (!data.toLowerCase().startsWith(options.bytecode.toLowerCase())) {
+            throw new NickMethodError(
+                'ABI_DECODE_FAILED',
+                'Cannot decode constructor arguments: the creation data does not start with the bytecode',
+                { field: 'bytecode' },
+            );
+        }
+        bytecodeLength = (options.bytecode.length - 2) / 2;
+    } else if (options.bytecodeLength !== undefined) {
+        if (
+            !Number.isInteger(options.bytecodeLength) ||
+            options.bytecodeLength < 0 ||
+            options.bytecodeLength > (data.length - 2) / 2
+        ) {
+            throw new NickMethodError(
+                'INVALID_OPTION',
+                'Invalid bytecodeLength: must be an integer between 0 and the length of the creation data',
+                { field: 'bytecodeLength' },
+            );
+        }
+        bytecodeLength = options.bytecodeLength;
+    } else {
+        throw new NickMethodError(
+            'MISSING_FIELD',
+            'The bytecode or bytecodeLength is required to decode constructor arguments',
+            { field: 'bytecode' },
+        );
+    }
+
+    const split = 2 + bytecodeLength * 2;
+    const encodedArgs = `0x${data.slice(split)}`;
+    const constructor = abi.find((item) => item?.type === 'constructor');
+    return {
+        kind: 'deployment',
+        bytecode: data.slice(0, split),
+        encodedArgs,
+        constructorArgs: decodeAbiParameters(constructor?.inputs ?? [], encodedArgs),
+    };
+}
+
+/**
+ * Decodes the data of a transaction, such as a result of `recoverRawTransaction`.
+ *
+ * For a call, the 4-byte selector is looked up in the functions of the ABIs, and the arguments are decoded
+ * against the matching one. A selector that matches no function is reported as `unknown-selector`.
+ * For a contract creation, the constructor arguments are split off the creation bytecode, given as
+ * `bytecode` or `bytecodeLength`, and decoded against the constructor of the ABIs.
+ *
+ * @param {{ to: string | undefined, data: string }} transaction - The recipient and data of the transaction.
+ * @param {DecodeOptions} [options] - The ABIs, and the creation bytecode or its length for contract creations.
+ * An artifact with `abi` and `bytecode` properties can be passed as is.
+ * @returns {DecodedTransactionData} The decoded data, discriminated by `kind`.
+ *
+ * @throws {NickMethodError} If an ABI is malformed (`INVALID_ABI`), if the bytecode is missing or does not
+ * match a contract creation, or if the arguments cannot be decoded (`ABI_DECODE_FAILED`).
+ */
+export function decodeTransactionData(
+    transaction: { to: string | undefined; data: string },
+    options: DecodeOptions = {},
+): DecodedTransactionData {
+    const { to, data } = transaction;
+    if (typeof data !== 'string' || !isValidHex(data) || data.length % 2 !== 0) {
+        throw decodeError('data is not a valid hex string');
+    }
+    const abi = flattenAbis(options.abi);
+
+    if (to === undefined) {
+        return decodeDeployment(data, abi, options);
+    }
+    if (data.length === 2) {
+        return { kind: 'empty' };
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    const item = abi.find(
+        (candidate) =>
+            candidate?.type === 'function' && getFunctionSelector(candidate) === selector,
+    );
+    if (item === undefined || data.length < 10) {
+        return { kind: 'unknown-selector', selector, data };
+    }
+
+    return {
+        kind: 'call',
+        selector,
+        functionName: item.name as string,
+        signature: formatSignature(item),
+        args: decodeAbiParameters(item.inputs ?? [], `0x${data.slice(10)}`),
+    };
+}
@@ -0,0 +1,241 @@
+import {
+    bytesToHex,
+    hexToBytes,
+    isValidAddress,
+    setLengthLeft,
+    toChecksumAddress,
+} from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { recoverRawTransaction } from '../recoverRawTransaction/recoverRawTransaction';
+import {
+    AdaptableResult,
+    EthersTransactionLike,
+    Hex,
+    ViemLegacyTransaction,
+} from '../types/adapterConfig';
+import { DeploymentConfig } from '../types/deploymentConfig';
+import { RecoveredLegacyTransaction } from '../types/rawTransactionConfig';
+import { TransactionConfig } from '../types/transactionConfig';
+import { isValidHex } from '../utils/utils';
+
+/**
+ * Fields of an ethers or viem legacy transaction, as needed to rebuild its configuration.
+ */
+interface LegacyTransactionLike {
+    to: string | null | undefined;
+    nonce: number | bigint | null | undefined;
+    gasLimit: bigint | null | undefined;
+    gasPrice: bigint | null | undefined;
+    value: bigint | null | undefined;
+    data: string | null | undefined;
+    chainId: number | bigint | null | undefined;
+    r: string | undefined;
+    s: string | undefined;
+    v: number | bigint | undefined;
+}
+
+function unsupportedType(type: string | number): NickMethodError {
+    return new NickMethodError(
+        'UNSUPPORTED_TRANSACTION_TYPE',
+        `Unsupported transaction type ${type}: only legacy transactions can be converted`,
+        { field: 'type' },
+    );
+}
+
+/**
+ * Decodes a generated result, or checks a recovered one, as a legacy transaction.
+ */
+function toLegacyTransaction(result: AdaptableResult): RecoveredLegacyTransaction {
+    const tx = 'rawTx' in result ? recoverRawTransaction(result.rawTx) : result;
+    if (tx.type !== 'legacy') {
+        throw unsupportedType(tx.type);
+    }
+    return tx;
+}
+
+/**
+ * Left-pads a signature value to 32 bytes, as both libraries expect.
+ */
+function toWord(value: string): Hex {
+    return bytesToHex(setLengthLeft(hexToBytes(value), 32)) as Hex;
+}
+
+function toConfig(tx: LegacyTransactionLike): DeploymentConfig | TransactionConfig {
+    for (const field of ['gasLimit', 'gasPrice'] as const) {
+        if (tx[field] === undefined || tx[field] === null) {
+            throw new NickMethodError('MISSING_FIELD', `Missing required field: ${field}`, {
+                field,
+            });
+        }
+    }
+    if (tx.chainId !== undefined && tx.chainId !== null && BigInt(tx.chainId) !== BigInt(0)) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Invalid chainId: keyless transactions are valid on every chain, so cannot sign a chain id',
+            { field: 'chainId' },
+        );
+    }
+    if (tx.nonce !== undefined && tx.nonce !== null && BigInt(tx.nonce) !== BigInt(0)) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Invalid nonce: keyless transactions are the first and only transaction of their sender',
+            { field: 'nonce' },
+        );
+    }
+    const v = tx.v !== undefined ? Number(tx.v) : undefined;
+    if (v !== undefined && v !== 27 && v !== 28) {
+        throw new NickMethodError(
+            'INVALID_SIGNATURE',
+            `Invalid v: keyless transactions are signed with v = 27 or 28, got v = ${v}`,
+            { field: 'v' },
+        );
+    }
+    const data = tx.data ?? '0x';
+    if (!isValidHex(data)) {
+        throw new NickMethodError('INVALID_HEX', 'Invalid hex value for data', { field: 'data' });
+    }
+
+    const config = {
+        value: tx.value ?? BigInt(0),
+        gasLimit: tx.gasLimit as bigint,
+        gasPrice: tx.gasPrice as bigint,
+        ...(tx.r !== undefined && { r: tx.r }),
+        ...(tx.s !== undefined && { s: tx.s }),
+        ...(v !== undefined && { v: v as 27 | 28 }),
+    };
+    if (tx.to === undefined || tx.to === null) {
+        return { ...config, bytecode: data };
+    }
+    if (!isValidAddress(tx.to)) {
+        throw new NickMethodError('NON_CHECKSUM_ADDRESS', `Invalid 'to' address: ${tx.to}`, {
+            field: 'to',
+        });
+    }
+    return { ...config, to: toChecksumAddress(tx.to), data };
+}
+
+/**
+ * Converts a generated deployment or transaction, or a recovered legacy transaction, into an object shaped
+ * like ethers v6 `TransactionLike`. `Transaction.from` serializes a signed transaction back to the exact same
+ * bytes.
+ *
+ * Transactions valid on every chain have a chain id of 0, which ethers serializes without EIP-155.
+ *
+ * @param {AdaptableResult} result - The result of `genRawDeployment`, `genRawTransaction` or
+ * `recoverRawTransaction`.
+ * @returns {EthersTransactionLike} The transaction, with its sender, hash and signature when signed.
+ *
+ * @throws {NickMethodError} If the transaction is not a legacy one (`UNSUPPORTED_TRANSACTION_TYPE`), or its
+ * raw transaction cannot be recovered.
+ */
+export function toEthersTransaction(result: AdaptableResult): EthersTransactionLike {
+    const tx = toLegacyTransaction(result);
+    return {
+        type: 0,
+        to: tx.to !== undefined ? toChecksumAddress(tx.to) : null,
+        from: tx.senderAddress ?? null,
+        nonce: Number(tx.nonce),
+        gasLimit: tx.gasLimit,
+        gasPrice: tx.gasPrice,
+        data: tx.data,
+        value: tx.value,
+        chainId: tx.chainId ?? BigInt(0),
+        hash: tx.hash ?? null,
+        signature:
+            tx.v !== undefined && tx.r !== undefined && tx.s !== undefined
+                ? { r: toWord(tx.r), s: toWord(tx.s), v: Number(tx.v) }
+                : null,
+    };
+}
+
+/**
+ * Parses an ethers v6 legacy transaction, a `TransactionLike` or a `Transaction`, back into the configuration
+ * of `genRawDeployment` when it creates a contract, or of `genRawTransaction` otherwise.
+ *
+ * @param {EthersTransactionLike} tx - The ethers transaction.
+ * @returns {DeploymentConfig | TransactionConfig} The configuration, with the signature values if signed.
+ *
+ * @throws {NickMethodError} If the transaction is not a legacy one (`UNSUPPORTED_TRANSACTION_TYPE`), lacks its
+ * gas limit or price (`MISSING_FIELD`), is bound to a chain or has a non-zero nonce (`INVALID_OPTION`), or has
+ * a v other than 27 or 28 (`INVALID_SIGNATURE`).
+ */
+export function fromEthersTransaction(
+    tx: EthersTransactionLike,
+): DeploymentConfig | TransactionConfig {
+    if (tx.type !== undefined && tx.type !== null && tx.type !== 0) {
+        throw unsupportedType(tx.type);
+    }
+    return toConfig({
+        to: tx.to,
+        nonce: tx.nonce,
+        gasLimit: tx.gasLimit,
+        gasPrice: tx.gasPrice,
+        value: tx.value,
+        data: tx.data,
+        chainId: tx.chainId,
+        r: tx.signature?.r,
+        s: tx.signature?.s,
+        v: tx.signature?.v,
+    });
+}
+
+/**
+ * Converts a generated deployment or transaction, or a recovered legacy transaction, into an object shaped
+ * like viem's `TransactionSerializableLegacy`, with its signature inline. Passed to `serializeTransaction`
+ * with its `r`, `s` and `v` as the signature, a signed transaction serializes back to the exact same bytes.
+ *
+ * @param {AdaptableResult} result - The result of `genRawDeployment`, `genRawTransaction` or
+ * `recoverRawTransaction`.
+ * @returns {ViemLegacyTransaction} The transaction, with its signature when signed.
+ *
+ * @throws {NickMethodError} If the transaction is not a legacy one (`UNSUPPORTED_TRANSACTION_TYPE`), or its
+ * raw transaction cannot be recovered.
+ */
+export function toViemTransaction(result: AdaptableResult): ViemLegacyTransaction {
+    const tx = toLegacyTransaction(result);
+    const signed = tx.v !== undefined && tx.r !== undefined && tx.s !== undefined;
+    return {
+        type: 'legacy',
+        to: tx.to !== undefined ? (toChecksumAddress(tx.to) as Hex) : null,
+        nonce: Number(tx.nonce),
+        gas: tx.gasLimit,
+        gasPrice: tx.gasPrice,
+        value: tx.value,
+        data: tx.data as Hex,
+        chainId: tx.chainId !== undefined ? Number(tx.chainId) : undefined,
+        r: signed ? toWord(tx.r as string) : undefined,
+        s: signed ? toWord(tx.s as string) : undefined,
+        v: signed ? BigInt(tx.v as string) : undefined,
+    };
+}
+
+/**
+ * Parses a viem legacy transaction back into the configuration of `genRawDeployment` when it creates a
+ * contract, or of `genRawTransaction` otherwise.
+ *
+ * @param {ViemLegacyTransaction} tx - The viem transaction, with its signature inline if signed.
+ * @returns {DeploymentConfig | TransactionConfig} The configuration, with the signature values if signed.
+ *
+ * @throws {NickMethodError} If the transaction is not a legacy one (`UNSUPPORTED_TRANSACTION_TYPE`), lacks its
+ * gas limit or price (`MISSING_FIELD`), is bound to a chain or has a non-zero nonce (`INVALID_OPTION`), or has
+ * a v other than 27 or 28 (`INVALID_SIGNATURE`).
+ */
+export function fromViemTransaction(
+    tx: ViemLegacyTransaction,
+): DeploymentConfig | TransactionConfig {
+    if (tx.type !== undefined && tx.type !== 'legacy') {
+        throw unsupportedType(tx.type);
+    }
+    return toConfig({
+        to: tx.to,
+        nonce: tx.nonce,
+        gasLimit: tx.gas,
+        gasPrice: tx.gasPrice,
+        value: tx.value,
+        data: tx.data,
+        chainId: tx.chainId,
+        r: tx.r,
+        s: tx.s,
+        v: tx.v,
+    });
+}
@@ -0,0 +1,210 @@
+import { RLP } from '@ethereumjs/rlp';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import {
+    bigIntToBytes,
+    bytesToHex,
+    concatBytes,
+    hexToBytes,
+    isValidAddress,
+    setLengthLeft,
+    toChecksumAddress,
+} from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { AddressPrediction, AddressTree, PredictedAddress } from '../types/addressConfig';
+import { DeploymentResult } from '../types/deploymentConfig';
+import { isValidHex } from '../utils/utils';
+
+/** EIP-2681 limit on account nonces. */
+const MAX_NONCE = BigInt(2) ** BigInt(64) - BigInt(1);
+
+/**
+ * Creation code of the minimal proxy used by the common CREATE3 implementations (Solmate, 0xSequence):
+ * it deploys the calldata it receives with CREATE.
+ */
+export const CREATE3_PROXY_INITCODE = '0x67363d3d37363d34f03d5260086018f3';
+
+const CREATE3_PROXY_INITCODE_HASH = keccak256(hexToBytes(CREATE3_PROXY_INITCODE));
+
+/**
+ * Validates a salt and left-pads it to 32 bytes.
+ */
+export function parseSalt(salt: string, field: string): Uint8Array {
+    if (typeof salt !== 'string' || !isValidHex(salt) || salt.length > 66) {
+        throw new NickMethodError(
+            'INVALID_HEX',
+            `Invalid ${field}: must be a hex string of up to 32 bytes`,
+            { field },
+        );
+    }
+    return setLengthLeft(hexToBytes(salt), 32);
+}
+
+/**
+ * Validates an initcode and converts it to bytes, left-padding odd lengths like the generators do.
+ */
+export function parseInitcode(initcode: string, field = 'initcode'): Uint8Array {
+    if (typeof initcode !== 'string' || !isValidHex(initcode)) {
+        throw new NickMethodError('INVALID_HEX', `Invalid hex value for ${field}`, { field });
+    }
+    return hexToBytes(initcode);
+}
+
+/**
+ * Derives a CREATE2 address: the last 20 bytes of keccak256(0xff ++ deployer ++ salt ++ keccak256(initcode)).
+ */
+export function create2Address(
+    deployer: string,
+    salt: Uint8Array,
+    initcodeHash: Uint8Array,
+): Uint8Array {
+    const preimage = concatBytes(Uint8Array.of(0xff), hexToBytes(deployer), salt, initcodeHash);
+    return keccak256(preimage).subarray(12);
+}
+
+function parseAddress(address: string, field: string): string {
+    if (typeof address !== 'string' || !isValidAddress(address)) {
+        throw new NickMethodError('INVALID_HEX', `Invalid address provided for "${field}"`, {
+            field,
+        });
+    }
+    return address;
+}
+
+function parseNonce(nonce: number | bigint): bigint {
+    if (
+        (typeof nonce !== 'bigint' && !Number.isSafeInteger(nonce)) ||
+        BigInt(nonce) < BigInt(0) ||
+        BigInt(nonce) >= MAX_NONCE
+    ) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Invalid nonce: must be an integer between 0 and 2^64 - 2',
+            { field: 'nonce' },
+        );
+    }
+    return BigInt(nonce);
+}
+
+/**
+ * Derives a CREATE address: the last 20 bytes of keccak256(rlp([deployer, nonce])).
+ */
+export function createAddress(deployer: Uint8Array, nonce: bigint): Uint8Array {
+    return keccak256(RLP.encode([deployer, bigIntToBytes(nonce)])).subarray(12);
+}
+
+function checksummed(address: Uint8Array): string {
+    return toChecksumAddress(bytesToHex(address));
+}
+
+/**
+ * Computes the address of a contract created with CREATE: the last 20 bytes of
+ * keccak256(rlp([deployer, nonce])).
+ *
+ * Keyless deployers create their contract at nonce 0, while contracts start creating at nonce 1 (EIP-161).
+ *
+ * @param {string} deployer - The address of the creating account or contract.
+ * @param {number | bigint} nonce - The nonce of the deployer when creating the contract.
+ * @returns {string} The checksummed address of the created contract.
+ *
+ * @throws {NickMethodError} If the deployer is not an address (`INVALID_HEX`) or the nonce is out of range
+ * (`INVALID_OPTION`).
+ */
+export function computeCreateAddress(deployer: string, nonce: number | bigint): string {
+    const from = hexToBytes(parseAddress(deployer, 'deployer'));
+    return checksummed(createAddress(from, parseNonce(nonce)));
+}
+
+/**
+ * Computes the address of a contract created through the common CREATE3 proxy pattern: the deployer
+ * creates a minimal proxy with CREATE2 from the salt, and the proxy creates the contract with CREATE
+ * at its nonce 1. The address does not depend on the initcode of the contract.
+ *
+ * @param {string} deployer - The address of the CREATE3 factory or contract.
+ * @param {string} salt - The salt, as a hex string of up to 32 bytes.
+ * @returns {{ address: string, proxyAddress: string }} The checksummed addresses of the contract and of the proxy.
+ *
+ * @throws {NickMethodError} If the deployer is not an address or the salt is not valid hex (`INVALID_HEX`).
+ */
+export function computeCreate3Address(
+    deployer: string,
+    salt: string,
+): { address: string; proxyAddress: string } {
+    const proxy = create2Address(
+        parseAddress(deployer, 'deployer'),
+        parseSalt(salt, 'salt'),
+        CREATE3_PROXY_INITCODE_HASH,
+    );
+    return {
+        address: computeCreateAddress(bytesToHex(proxy), 1),
+        proxyAddress: checksummed(proxy),
+    };
+}
+
+function predict(deployer: string, prediction: AddressPrediction): PredictedAddress {
+    let address: string;
+    let proxyAddress: string | undefined;
+
+    switch (prediction.kind) {
+        case 'create':
+            address = computeCreateAddress(deployer, prediction.nonce);
+            break;
+        case 'create2': {
+            const initcodeHash =
+                'initcodeHash' in prediction
+                    ? parseInitcode(prediction.initcodeHash, 'initcodeHash')
+                    : keccak256(parseInitcode(prediction.initcode));
+            if (initcodeHash.length !== 32) {
+                throw new NickMethodError('INVALID_HEX', 'Invalid initcodeHash: must be 32 bytes', {
+                    field: 'initcodeHash',
+                });
+            }
+            address = checksummed(
+                create2Address(deployer, parseSalt(prediction.salt, 'salt'), initcodeHash),
+            );
+            break;
+        }
+        case 'create3':
+            ({ address, proxyAddress } = computeCreate3Address(deployer, prediction.salt));
+            break;
+        default:
+            throw new NickMethodError(
+                'INVALID_OPTION',
+                `Unknown address prediction kind "${(prediction as { kind: string }).kind}"`,
+                { field: 'kind' },
+            );
+    }
+
+    return {
+        kind: prediction.kind,
+        label: prediction.label,
+        deployer,
+        address,
+        ...(proxyAddress !== undefined && { proxyAddress }),
+        children: (prediction.children ?? []).map((child) => predict(address, child)),
+    };
+}
+
+/**
+ * Predicts the addresses of the contracts created by a keyless-deployed contract, and recursively of the
+ * contracts they create, so that the whole address tree can be published before broadcasting anything.
+ *
+ * @param {DeploymentResult} deployment - The keyless deployment, as returned by `genRawDeployment`.
+ * @param {AddressPrediction[]} children - The contracts created by the deployed contract.
+ * @returns {AddressTree} The deployer and contract addresses, with the predicted children.
+ *
+ * @throws {NickMethodError} If a nonce, salt or initcode is invalid.
+ */
+export function predictAddresses(
+    deployment: Pick<DeploymentResult, 'deployerAddress' | 'contractAddress'>,
+    children: AddressPrediction[],
+): AddressTree {
+    const contractAddress = toChecksumAddress(
+        parseAddress(deployment.contractAddress, 'contractAddress'),
+    );
+    return {
+        deployerAddress: deployment.deployerAddress,
+        contractAddress,
+        children: children.map((child) => predict(contractAddress, child)),
+    };
+}
@@ -0,0 +1,337 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+
+import { NickMethodError } from '../errors/errors';
+import { genRawDeployment } from '../genRawDeployment/genRawDeployment';
+import { findPlaceholders } from '../linking/linking';
+import { Abi } from '../types/abiConfig';
+import {
+    ArtifactDeploymentConfig,
+    ArtifactDeploymentResult,
+    ArtifactFormat,
+    ArtifactOptions,
+    ArtifactProvenance,
+    ContractArtifact,
+} from '../types/artifactConfig';
+import { LinkReferences } from '../types/linkingConfig';
+
+/**
+ * Contract as found in an artifact, before its bytecode is scanned.
+ */
+interface RawContract {
+    format: ArtifactFormat;
+    contractName: string | undefined;
+    sourceName: string | undefined;
+    compilerVersion: string | undefined;
+    abi: unknown;
+    bytecode: unknown;
+    linkReferences: unknown;
+}
+
+function invalidArtifact(message: string, field?: string): NickMethodError {
+    return new NickMethodError('INVALID_ARTIFACT', `Invalid artifact: ${message}`, { field });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Reads the compiler version and compilation target from solc metadata, given as an object or its JSON.
+ */
+function readMetadata(metadata: unknown): {
+    compilerVersion: string | undefined;
+    target: [string, string] | undefined;
+} {
+    let parsed = metadata;
+    if (typeof metadata === 'string') {
+        try {
+            parsed = JSON.parse(metadata);
+        } catch {
+            parsed = undefined;
+        }
+    }
+    if (!isObject(parsed)) {
+        return { compilerVersion: undefined, target: undefined };
+    }
+    const { compiler, settings } = parsed;
+    const version = isObject(compiler) ? compiler.version : undefined;
+    const compilationTarget = isObject(settings) ? settings.compilationTarget : undefined;
+    const [target] = isObject(compilationTarget) ? Object.entries(compilationTarget) : [];
+    return {
+        compilerVersion: optionalString(version),
+        target:
+            target !== undefined && typeof target[1] === 'string'
+                ? [target[0], target[1]]
+                : undefined,
+    };
+}
+
+/**
+ * Tells whether a name, `Name` or `path/Source.sol:Name`, designates a contract.
+ */
+function matchesName(name: string, contractName: string, sourceName: string | undefined): boolean {
+    return name === contractName || name === `${sourceName}:${contractName}`;
+}
+
+function fromHardhat(artifact: Record<string, unknown>): RawContract {
+    return {
+        format: 'hardhat',
+        contractName: optionalString(artifact.contractName),
+        sourceName: optionalString(artifact.sourceName),
+        compilerVersion: undefined,
+        abi: artifact.abi,
+        bytecode: artifact.bytecode,
+        linkReferences: artifact.linkReferences,
+    };
+}
+
+function fromFoundry(
+    artifact: Record<string, unknown>,
+    bytecode: Record<string, unknown>,
+    options: ArtifactOptions,
+): RawContract {
+    const { compilerVersion, target } = readMetadata(artifact.metadata ?? artifact.rawMetadata);
+    // Foundry names artifacts after their contract, e.g. `out/Counter.sol/Counter.json`
+    const fileName = options.path !== undefined ? basename(options.path, '.json') : undefined;
+    return {
+        format: 'foundry',
+        contractName: target?.[1] ?? fileName,
+        sourceName: target?.[0],
+        compilerVersion,
+        abi: artifact.abi,
+        bytecode: bytecode.object,
+        linkReferences: bytecode.linkReferences,
+    };
+}
+
+function fromSolc(contracts: Record<string, unknown>, options: ArtifactOptions): RawContract {
+    const candidates: [string, string, unknown][] = [];
+    for (const [sourceName, sourceContracts] of Object.entries(contracts)) {
+        if (!isObject(sourceContracts)) {
+            throw invalidArtifact(`malformed contracts of ${sourceName}`, 'contracts');
+        }
+        for (const [contractName, contract] of Object.entries(sourceContracts)) {
+            candidates.push([sourceName, contractName, contract]);
+        }
+    }
+
+    const { contractName } = options;
+    const matches =
+        contractName === undefined
+            ? candidates
+            : candidates.filter(([sourceName, name]) =>
+                  matchesName(contractName, name, sourceName),
+              );
+    if (matches.length !== 1) {
+        const names = candidates.map(([sourceName, name]) => `${sourceName}:${name}`).join(', ');
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            matches.length === 0
+                ? `Invalid contractName: ${contractName} is not in the compiler output (${names})`
+                : `Invalid contractName: pick one of ${matches.map(([sourceName, name]) => `${sourceName}:${name}`).join(', ')}`,
+            { field: 'contractName' },
+        );
+    }
+
+    const [sourceName, name, contract] = matches[0];
+    const evm = isObject(contract) ? contract.evm : undefined;
+    const bytecode = isObject(evm) ? evm.bytecode : undefined;
+    if (!isObject(contract) || !isObject(bytecode)) {
+        throw invalidArtifact(`${sourceName}:${name} has no evm.bytecode output`, 'evm.bytecode');
+    }
+    const { object, linkReferences } = bytecode;
+    return {
+        format: 'solc',
+        contractName: name,
+        sourceName,
+        compilerVersion: readMetadata(contract.metadata).compilerVersion,
+        abi: contract.abi,
+        bytecode: typeof object === 'string' && !object.startsWith('0x') ? `0x${object}` : object,
+        linkReferences,
+    };
+}
+
+/**
+ * Parses a compiler artifact: a Hardhat artifact, a Foundry `out/*.json` artifact, or a solc standard-JSON
+ * output along with the name of the contract to pick.
+ *
+ * The creation bytecode is kept as is: placeholders of libraries compiled without linking are reported in
+ * `placeholders`, named after the artifact's link references, and must be linked before deploying.
+ *
+ * @param {string} json - The JSON content of the artifact.
+ * @param {ArtifactOptions} [options] - The contract to pick and the path of the artifact.
+ * @returns {ContractArtifact} The contract, with its ABI, creation bytecode and provenance.
+ *
+ * @throws {NickMethodError} If the artifact is malformed or holds no creation bytecode (`INVALID_ARTIFACT`), or
+ * the contract name is missing, ambiguous or does not match the artifact (`INVALID_OPTION`).
+ */
+export function parseArtifact(json: string, options: ArtifactOptions = {}): ContractArtifact {
+    let artifact: unknown;
+    try {
+        artifact = JSON.parse(json);
+    } catch (error) {
+        throw new NickMethodError(
+            'INVALID_ARTIFACT',
+            `Invalid artifact: ${(error as Error).message}`,
+            {
+                cause: error,
+            },
+        );
+    }
+    if (!isObject(artifact)) {
+        throw invalidArtifact('expected a JSON object');
+    }
+
+    let contract: RawContract;
+    if (isObject(artifact.contracts)) {
+        contract = fromSolc(artifact.contracts, options);
+    } else if (isObject(artifact.bytecode) && typeof artifact.bytecode.object === 'string') {
+        contract = fromFoundry(artifact, artifact.bytecode, options);
+    } else if (typeof artifact.bytecode === 'string') {
+        contract = fromHardhat(artifact);
+    } else {
+        throw invalidArtifact(
+            'expected a Hardhat or Foundry artifact, or a solc standard-JSON output',
+        );
+    }
+
+    const { contractName, sourceName, abi, bytecode, linkReferences } = contract;
+    if (contractName === undefined) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Invalid contractName: the artifact does not name its contract, so it must be provided',
+            { field: 'contractName' },
+        );
+    }
+    if (
+        options.contractName !== undefined &&
+        !matchesName(options.contractName, contractName, sourceName)
+    ) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            `Invalid contractName: the artifact holds ${contractName}, not ${options.contractName}`,
+            { field: 'contractName' },
+        );
+    }
+    if (!Array.isArray(abi)) {
+        throw invalidArtifact(`${contractName} has no ABI`, 'abi');
+    }
+    if (typeof bytecode !== 'string' || !/^0x([0-9a-fA-F]|__.{36}__)*$/.test(bytecode)) {
+        throw invalidArtifact(`${contractName} has a malformed bytecode`, 'bytecode');
+    }
+    if (bytecode === '0x') {
+        throw invalidArtifact(
+            `${contractName} has no creation bytecode, as an abstract contract or an interface`,
+            'bytecode',
+        );
+    }
+
+    return {
+        format: contract.format,
+        path: options.path,
+        contractName,
+        sourceName,
+        compilerVersion: contract.compilerVersion,
+        abi: abi as Abi,
+        bytecode,
+        placeholders: findPlaceholders(
+            bytecode,
+            isObject(linkReferences) ? (linkReferences as LinkReferences) : {},
+        ),
+    };
+}
+
+/**
+ * Reads the solc version of a Hardhat artifact from the build info its debug file points to.
+ */
+function readHardhatCompilerVersion(path: string): string | undefined {
+    const debugPath = path.replace(/\.json$/, '.dbg.json');
+    try {
+        const debug: unknown = JSON.parse(readFileSync(debugPath, 'utf8'));
+        if (!isObject(debug) || typeof debug.buildInfo !== 'string') {
+            return undefined;
+        }
+        const buildInfoPath = resolve(dirname(debugPath), debug.buildInfo);
+        if (!existsSync(buildInfoPath)) {
+            return undefined;
+        }
+        const buildInfo: unknown = JSON.parse(readFileSync(buildInfoPath, 'utf8'));
+        if (!isObject(buildInfo)) {
+            return undefined;
+        }
+        return optionalString(buildInfo.solcLongVersion) ?? optionalString(buildInfo.solcVersion);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Reads a compiler artifact from a JSON file. See `parseArtifact`.
+ *
+ * The compiler version of a Hardhat artifact is read from the build info referenced by its `.dbg.json`
+ * file, when present.
+ *
+ * @param {string} path - The path of the artifact.
+ * @param {ArtifactOptions} [options] - The contract to pick.
+ * @returns {ContractArtifact} The contract, with its ABI, creation bytecode and provenance.
+ *
+ * @throws {NickMethodError} If the artifact is invalid, or the contract name is missing, ambiguous or wrong.
+ * @throws {Error} If the file cannot be read.
+ */
+export function readArtifact(
+    path: string,
+    options: Omit<ArtifactOptions, 'path'> = {},
+): ContractArtifact {
+    const artifact = parseArtifact(readFileSync(path, 'utf8'), { ...options, path });
+    if (artifact.format === 'hardhat' && artifact.compilerVersion === undefined) {
+        artifact.compilerVersion = readHardhatCompilerVersion(path);
+    }
+    return artifact;
+}
+
+/**
+ * Generates a keyless deployment of the contract of an artifact with `genRawDeployment`, encoding the
+ * constructor arguments against the artifact's ABI.
+ *
+ * @param {ContractArtifact} artifact - The contract, from `parseArtifact` or `readArtifact`.
+ * @param {ArtifactDeploymentConfig} config - The gas, value, constructor arguments and signature.
+ * @returns {ArtifactDeploymentResult} The deployment, with the provenance of its bytecode.
+ *
+ * @throws {NickMethodError} If the bytecode has unlinked libraries (`UNLINKED_LIBRARIES`), or the
+ * configuration is invalid.
+ */
+export function genArtifactDeployment(
+    artifact: ContractArtifact,
+    config: ArtifactDeploymentConfig,
+): ArtifactDeploymentResult {
+    if (artifact.placeholders.length > 0) {
+        const libraries = artifact.placeholders.map(
+            ({ library, placeholder }) => library ?? placeholder,
+        );
+        throw new NickMethodError(
+            'UNLINKED_LIBRARIES',
+            `Cannot deploy ${artifact.contractName}: link libraries ${libraries.join(', ')} first, with linkBytecode or planLinkedDeployments`,
+            { field: 'bytecode' },
+        );
+    }
+
+    const result = genRawDeployment({
+        ...config,
+        bytecode: artifact.bytecode,
+        ...(config.args !== undefined && { abi: artifact.abi }),
+    });
+    const { format, path, contractName, sourceName, compilerVersion } = artifact;
+    const provenance: ArtifactProvenance = {
+        format,
+        path,
+        contractName,
+        sourceName,
+        compilerVersion,
+    };
+    return { ...result, provenance };
+}
@@ -0,0 +1,239 @@
+import { NickMethodError } from '../errors/errors';
+import { hashTransaction } from '../transaction/transaction';
+import {
+    BroadcastEvent,
+    BroadcastOptions,
+    BroadcastTarget,
+    Provider,
+} from '../types/broadcastConfig';
+import { DeploymentResult } from '../types/deploymentConfig';
+import { createJsonRpcProvider } from './jsonRpcProvider';
+
+type Deployment = Pick<
+    DeploymentResult,
+    'rawTx' | 'deployerAddress' | 'contractAddress' | 'upfrontCost'
+>;
+
+function aborted(): NickMethodError {
+    return new NickMethodError('ABORTED', 'Broadcast aborted');
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(aborted());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(aborted());
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function hasCode(code: string): boolean {
+    return code !== '' && code !== '0x';
+}
+
+async function deployOnChain(
+    deployment: Deployment,
+    chainId: number,
+    provider: Provider,
+    options: Required<Omit<BroadcastOptions, 'fund' | 'rpc' | 'signal'>> & BroadcastOptions,
+    signal: AbortSignal,
+    emit: (event: BroadcastEvent) => void,
+): Promise<void> {
+    const { rawTx, deployerAddress, contractAddress, upfrontCost } = deployment;
+    const { confirmations, pollInterval, fundingTimeout, receiptTimeout } = options;
+
+    // A signal aborted before the broadcast starts sends no request at all
+    if (signal.aborted) {
+        throw aborted();
+    }
+    emit({ chainId, status: 'checking' });
+    if (hasCode(await provider.getCode(contractAddress))) {
+        emit({ chainId, status: 'already-deployed', contractAddress });
+        return;
+    }
+
+    const nonce = await provider.getTransactionCount(deployerAddress);
+    if (nonce > BigInt(0)) {
+        throw new NickMethodError(
+            'DEPLOYMENT_FAILED',
+            `The deployer ${deployerAddress} already sent ${nonce} transaction(s) but there is no code at ` +
+                `${contractAddress}: the deployment can no longer happen on this chain`,
+        );
+    }
+
+    let balance = await provider.getBalance(deployerAddress);
+    if (balance < upfrontCost) {
+        emit({ chainId, status: 'awaiting-funds', balance, required: upfrontCost });
+        await options.fund?.(chainId, deployerAddress, upfrontCost - balance);
+
+        const deadline = Date.now() + fundingTimeout;
+        while ((balance = await provider.getBalance(deployerAddress)) < upfrontCost) {
+            if (Date.now() >= deadline) {
+                throw new NickMethodError(
+                    'DEPLOYMENT_FAILED',
+                    `Insufficient funds: the deployer ${deployerAddress} holds ${balance} wei ` +
+                        `but the deployment costs ${upfrontCost} wei`,
+                );
+            }
+            await sleep(pollInterval, signal);
+        }
+    }
+    emit({ chainId, status: 'funded', balance });
+
+    const transactionHash = hashTransaction(rawTx);
+    try {
+        await provider.sendRawTransaction(rawTx);
+    } catch (error) {
+        // A previous attempt, or another node, may have broadcast it already
+        if (!/already known|known transaction/i.test((error as Error).message)) {
+            throw error;
+        }
+    }
+    emit({ chainId, status: 'sent', transactionHash });
+
+    const deadline = Date.now() + receiptTimeout;
+    const waitOrTimeout = async () => {
+        if (Date.now() >= deadline) {
+            throw new NickMethodError(
+                'DEPLOYMENT_FAILED',
+                `Timed out waiting for the deployment transaction ${transactionHash}`,
+            );
+        }
+        await sleep(pollInterval, signal);
+    };
+
+    let receipt;
+    while ((receipt = await provider.getTransactionReceipt(transactionHash)) === null) {
+        await waitOrTimeout();
+    }
+    emit({ chainId, status: 'mined', transactionHash, blockNumber: receipt.blockNumber });
+    // Receipts without a status (before Byzantium) are settled by the code check below
+    if (receipt.status === false) {
+        throw new NickMethodError(
+            'DEPLOYMENT_FAILED',
+            `The deployment transaction ${transactionHash} reverted`,
+        );
+    }
+
+    let observed = 0;
+    for (;;) {
+        const current = Number((await provider.getBlockNumber()) - receipt.blockNumber + BigInt(1));
+        if (current > observed) {
+            observed = Math.min(current, confirmations);
+            emit({ chainId, status: 'confirming', transactionHash, confirmations: observed });
+        }
+        if (observed >= confirmations) {
+            break;
+        }
+        await waitOrTimeout();
+    }
+
+    if (!hasCode(await provider.getCode(contractAddress))) {
+        throw new NickMethodError(
+            'DEPLOYMENT_FAILED',
+            `There is no code at ${contractAddress} after the deployment transaction`,
+        );
+    }
+    emit({
+        chainId,
+        status: 'deployed',
+        transactionHash,
+        blockNumber: receipt.blockNumber,
+        contractAddress,
+    });
+}
+
+/**
+ * Broadcasts a keyless deployment on several chains in parallel, streaming progress events.
+ *
+ * On each chain, the orchestrator checks whether the contract is already deployed, that the deployer
+ * nonce is still unused and that its balance covers the upfront cost (waiting for it to be funded if needed),
+ * then broadcasts the raw transaction, waits for its receipt and confirmations, and checks the code at the
+ * contract address. A failure on one chain is reported as a `failed` event and does not affect the others.
+ *
+ * Breaking out of the iteration stops the broadcast on every chain.
+ *
+ * @param {Deployment} deployment - The output of `genRawDeployment`.
+ * @param {BroadcastTarget[]} targets - The chains to deploy on.
+ * @param {BroadcastOptions} [options] - Confirmation, polling, funding and RPC options.
+ * @returns {AsyncGenerator<BroadcastEvent>} The progress events of every chain, as they happen.
+ *
+ * @throws {NickMethodError} If the confirmation count is not a positive integer.
+ */
+export async function* broadcastDeployment(
+    deployment: Deployment,
+    targets: BroadcastTarget[],
+    options: BroadcastOptions = {},
+): AsyncGenerator<BroadcastEvent> {
+    const settings = {
+        confirmations: 1,
+        pollInterval: 4000,
+        fundingTimeout: 0,
+        receiptTimeout: 300000,
+        ...options,
+    };
+    if (!Number.isSafeInteger(settings.confirmations) || settings.confirmations < 1) {
+        throw new NickMethodError('INVALID_OPTION', 'Confirmations must be a positive integer', {
+            field: 'confirmations',
+        });
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (options.signal?.aborted) {
+        controller.abort();
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const queue: BroadcastEvent[] = [];
+    let wake: (() => void) | undefined;
+    const emit = (event: BroadcastEvent) => {
+        queue.push(event);
+        wake?.();
+    };
+
+    let running = targets.length;
+    for (const { chainId, provider } of targets) {
+        Promise.resolve()
+            .then(() =>
+                deployOnChain(
+                    deployment,
+                    chainId,
+                    Array.isArray(provider)
+                        ? createJsonRpcProvider(provider, options.rpc)
+                        : provider,
+                    settings,
+                    controller.signal,
+                    emit,
+                ),
+            )
+            .catch((error: Error) => emit({ chainId, status: 'failed', error }))
+            .finally(() => {
+                running--;
+                wake?.();
+            });
+    }
+
+    try {
+        while (running > 0 || queue.length > 0) {
+            if (queue.length === 0) {
+                await new Promise<void>((resolve) => (wake = resolve));
+                wake = undefined;
+                continue;
+            }
+            yield queue.shift() as BroadcastEvent;
+        }
+    } finally {
+        options.signal?.removeEventListener('abort', onAbort);
+        controller.abort();
+    }
+}
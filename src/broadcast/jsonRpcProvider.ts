@@ -0,0 +1,115 @@
+import { NickMethodError } from '../errors/errors';
+import { JsonRpcProviderOptions, Provider, TransactionReceipt } from '../types/broadcastConfig';
+
+/**
+ * Error returned by a JSON-RPC node, e.g. a rejected transaction. Not retried, since another node
+ * would most likely return the same error. Its `code` is the numeric JSON-RPC error code, so unlike
+ * the other errors of the library it is not a `NickMethodError`.
+ */
+export class JsonRpcError extends Error {
+    readonly code: number;
+    readonly data: unknown;
+
+    constructor(code: number, message: string, data?: unknown) {
+        super(message);
+        this.name = 'JsonRpcError';
+        this.code = code;
+        this.data = data;
+    }
+}
+
+interface RawReceipt {
+    transactionHash: string;
+    blockNumber: string;
+    status?: string | null;
+    contractAddress: string | null;
+    gasUsed: string;
+}
+
+/**
+ * Creates a provider sending JSON-RPC requests over HTTP with `fetch`.
+ *
+ * Requests go to the first URL and fail over to the next ones on network errors, HTTP errors and timeouts.
+ * When every URL failed, the whole list is retried after a delay, then the request rejects with an
+ * `RPC_UNAVAILABLE` error.
+ *
+ * @param {string[]} urls - The JSON-RPC URLs of a single chain, in order of preference.
+ * @param {JsonRpcProviderOptions} [options] - Retry and timeout options.
+ * @returns {Provider} The provider.
+ *
+ * @throws {NickMethodError} If no URL is given.
+ */
+export function createJsonRpcProvider(
+    urls: string[],
+    options: JsonRpcProviderOptions = {},
+): Provider {
+    const { retries = 2, retryDelay = 1000, timeout = 10000 } = options;
+    if (urls.length === 0) {
+        throw new NickMethodError('INVALID_OPTION', 'At least one RPC URL is required', {
+            field: 'urls',
+        });
+    }
+
+    let id = 0;
+    async function request<T>(method: string, params: unknown[]): Promise<T> {
+        const failures: string[] = [];
+        for (let round = 0; round <= retries; round++) {
+            if (round > 0) {
+                await new Promise((resolve) => setTimeout(resolve, retryDelay));
+            }
+            for (const url of urls) {
+                let body: { result?: T; error?: { code: number; message: string; data?: unknown } };
+                try {
+                    const response = await fetch(url, {
+                        method: 'POST',
+                        headers: { 'content-type': 'application/json' },
+                        body: JSON.stringify({ jsonrpc: '2.0', id: ++id, method, params }),
+                        signal: AbortSignal.timeout(timeout),
+                    });
+                    if (!response.ok) {
+                        throw new Error(`HTTP ${response.status}`);
+                    }
+                    body = await response.json();
+                } catch (error) {
+                    failures.push(`${url}: ${(error as Error).message}`);
+                    continue;
+                }
+
+                if (body.error !== undefined) {
+                    throw new JsonRpcError(body.error.code, body.error.message, body.error.data);
+                }
+                return body.result as T;
+            }
+        }
+        throw new NickMethodError(
+            'RPC_UNAVAILABLE',
+            `${method} failed on every RPC URL:\n  ${failures.join('\n  ')}`,
+        );
+    }
+
+    return {
+        getBalance: async (address) =>
+            BigInt(await request<string>('eth_getBalance', [address, 'latest'])),
+        getTransactionCount: async (address) =>
+            BigInt(await request<string>('eth_getTransactionCount', [address, 'latest'])),
+        getCode: (address) => request<string>('eth_getCode', [address, 'latest']),
+        sendRawTransaction: (rawTx) => request<string>('eth_sendRawTransaction', [rawTx]),
+        getTransactionReceipt: async (hash): Promise<TransactionReceipt | null> => {
+            const receipt = await request<RawReceipt | null>('eth_getTransactionReceipt', [hash]);
+            if (receipt === null) {
+                return null;
+            }
+            return {
+                transactionHash: receipt.transactionHash,
+                blockNumber: BigInt(receipt.blockNumber),
+                status:
+                    typeof receipt.status === 'string'
+                        ? BigInt(receipt.status) === BigInt(1)
+                        : undefined,
+                contractAddress: receipt.contractAddress ?? undefined,
+                gasUsed: BigInt(receipt.gasUsed),
+            };
+        },
+        getBlockNumber: async () => BigInt(await request<string>('eth_blockNumber', [])),
+    };
+}
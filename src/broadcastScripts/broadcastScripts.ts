@@ -0,0 +1,544 @@
+import { NickMethodError } from '../errors/errors';
+import { BUILTIN_CHAINS } from '../chains/registry';
+import { PACKAGE_NAME } from '../package/package';
+import { hashTransaction } from '../transaction/transaction';
+import { ChainRegistry } from '../types/chainConfig';
+import {
+    BroadcastScriptOptions,
+    HardhatTaskOptions,
+    ScriptableResult,
+    ScriptChain,
+} from '../types/scriptConfig';
+import { formatUnits } from '../utils/utils';
+
+/**
+ * What a script sends, and how it tells a chain is already done.
+ */
+interface ScriptSubject {
+    description: string;
+    rawTx: string;
+    hash: string;
+    sender: string;
+    contract: string | undefined;
+    upfrontCost: bigint;
+}
+
+/**
+ * Shell helpers comparing and subtracting wei amounts as decimal strings, since balances overflow shell
+ * arithmetic.
+ */
+const DECIMAL_HELPERS = `# Tells whether the decimal $1 is less than the decimal $2, compared as strings to avoid overflows
+less_than() {
+    awk -v a="$1" -v b="$2" 'BEGIN { exit !(length(a) < length(b) || (length(a) == length(b) && a "" < b "")) }'
+}
+
+# Subtracts the decimal $2 from the greater decimal $1, digit by digit to avoid overflows
+subtract() {
+    awk -v a="$1" -v b="$2" 'BEGIN {
+        while (length(b) < length(a)) b = "0" b
+        for (i = length(a); i > 0; i--) {
+            d = substr(a, i, 1) - substr(b, i, 1) - borrow
+            borrow = d < 0
+            out = (d + 10 * borrow) out
+        }
+        sub(/^0+/, "", out)
+        print (out == "" ? 0 : out)
+    }'
+}`;
+
+function invalidChains(message: string): NickMethodError {
+    return new NickMethodError('INVALID_OPTION', `Invalid chains: ${message}`, { field: 'chains' });
+}
+
+function validateChains(chains: ScriptChain[]): void {
+    if (!Array.isArray(chains) || chains.length === 0) {
+        throw invalidChains('expected at least one chain');
+    }
+    const seen = new Set<number>();
+    for (const { chainId, rpcUrl } of chains) {
+        if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+            throw invalidChains(`${chainId} is not a valid chain id`);
+        }
+        if (seen.has(chainId)) {
+            throw invalidChains(`chain ${chainId} is listed twice`);
+        }
+        seen.add(chainId);
+        // URLs are embedded in shell words and `${...:-url}` defaults, so must hold no quote, expansion,
+        // brace or whitespace
+        if (rpcUrl !== undefined && !/^https?:\/\/[^\s'"`$\\{}]+$/.test(rpcUrl)) {
+            throw invalidChains(`${rpcUrl} is not a valid RPC URL for chain ${chainId}`);
+        }
+    }
+}
+
+function toSubject(result: ScriptableResult): ScriptSubject {
+    if ('contractAddress' in result) {
+        return {
+            description: `Keyless deployment of ${result.contractAddress}`,
+            rawTx: result.rawTx,
+            hash: hashTransaction(result.rawTx),
+            sender: result.deployerAddress,
+            contract: result.contractAddress,
+            upfrontCost: result.upfrontCost,
+        };
+    }
+    return {
+        description: `Keyless transaction from ${result.senderAddress}`,
+        rawTx: result.rawTx,
+        hash: hashTransaction(result.rawTx),
+        sender: result.senderAddress,
+        contract: undefined,
+        upfrontCost: result.upfrontCost,
+    };
+}
+
+/**
+ * Lists the chains, with their names and the cost of the transaction in their native currency.
+ */
+function describeChains(
+    subject: ScriptSubject,
+    chains: ScriptChain[],
+    registry: ChainRegistry | undefined,
+): string[] {
+    return chains.map(({ chainId }) => {
+        const profile =
+            registry?.get(chainId) ?? BUILTIN_CHAINS.find((chain) => chain.chainId === chainId);
+        if (profile === undefined) {
+            return `chain ${chainId}: ${subject.upfrontCost} wei`;
+        }
+        const { symbol, decimals } = profile.nativeCurrency;
+        return `${profile.name} (${chainId}): ${formatUnits(subject.upfrontCost, decimals)} ${symbol}`;
+    });
+}
+
+/**
+ * Header of the shell scripts, describing the transaction and the chains.
+ */
+function shellHeader(
+    subject: ScriptSubject,
+    options: BroadcastScriptOptions,
+    usage: string[],
+): string {
+    const lines = [
+        `${subject.description}, generated by ${PACKAGE_NAME}.`,
+        '',
+        ...usage,
+        '',
+        `Sender:       ${subject.sender}`,
+        ...(subject.contract !== undefined ? [`Contract:     ${subject.contract}`] : []),
+        `Upfront cost: ${subject.upfrontCost} wei, on each chain:`,
+        ...describeChains(subject, options.chains, options.registry).map((line) => `  - ${line}`),
+    ];
+    return [
+        '#!/bin/sh',
+        ...lines.map((line) => (line === '' ? '#' : `# ${line}`)),
+        'set -u',
+        '',
+        `RAW_TX='${subject.rawTx}'`,
+        `TX_HASH='${subject.hash}'`,
+        `SENDER='${subject.sender}'`,
+        ...(subject.contract !== undefined ? [`CONTRACT='${subject.contract}'`] : []),
+        `UPFRONT_COST='${subject.upfrontCost}'`,
+    ].join('\n');
+}
+
+/**
+ * Calls of the per-chain function, collecting failures into the exit status.
+ */
+function shellCalls(chains: ScriptChain[]): string {
+    return [
+        'status=0',
+        ...chains.map(
+            ({ chainId, rpcUrl }) =>
+                `broadcast ${chainId} "\${RPC_URL_${chainId}:-${rpcUrl ?? ''}}" || status=1`,
+        ),
+        'exit $status',
+    ].join('\n');
+}
+
+/**
+ * Generates a POSIX shell script sending a keyless transaction on several chains with Foundry's `cast`.
+ *
+ * On each chain, the script checks the RPC URL serves the expected chain, skips the chain if the contract
+ * already has code (or, for other transactions, if the sender already sent it), funds the sender with the
+ * missing amount from `FUNDER_PRIVATE_KEY` when set, publishes the raw transaction unless already pending,
+ * waits for it and checks the contract code. It can be run again until every chain is done. RPC URLs are read from `RPC_URL_<chainId>`,
+ * defaulting to the given ones.
+ *
+ * @param {ScriptableResult} result - The result of `genRawDeployment` or `genRawTransaction`.
+ * @param {BroadcastScriptOptions} options - The chains to send the transaction on.
+ * @returns {string} The script.
+ *
+ * @throws {NickMethodError} If the chains are missing, duplicated or have invalid RPC URLs (`INVALID_OPTION`).
+ */
+export function genCastScript(result: ScriptableResult, options: BroadcastScriptOptions): string {
+    validateChains(options.chains);
+    const subject = toSubject(result);
+    const deployment = subject.contract !== undefined;
+
+    const header = shellHeader(subject, options, [
+        "Requires Foundry's cast. RPC URLs are read from RPC_URL_<chain id>, defaulting to the ones below.",
+        'When the sender cannot pay for the transaction, the missing amount is sent from FUNDER_PRIVATE_KEY',
+        'if set. Chains already done are skipped, so the script can be run again until all are.',
+    ]);
+    const skip = deployment
+        ? `    code=$(cast code "$CONTRACT" --rpc-url "$rpc_url") || return 1
+    if [ "$code" != "0x" ]; then
+        echo "[$chain_id] already deployed at $CONTRACT"
+        return 0
+    fi
+    nonce=$(cast nonce "$SENDER" --rpc-url "$rpc_url") || return 1
+    if [ "$nonce" != "0" ]; then
+        echo "[$chain_id] the deployer already sent $nonce transaction(s) but there is no code at $CONTRACT:" \\
+            "the deployment can no longer happen on this chain" >&2
+        return 1
+    fi`
+        : `    nonce=$(cast nonce "$SENDER" --rpc-url "$rpc_url") || return 1
+    if [ "$nonce" != "0" ]; then
+        echo "[$chain_id] already sent"
+        return 0
+    fi`;
+    const check = deployment
+        ? `    code=$(cast code "$CONTRACT" --rpc-url "$rpc_url") || return 1
+    if [ "$code" = "0x" ]; then
+        echo "[$chain_id] the transaction was mined but there is no code at $CONTRACT" >&2
+        return 1
+    fi
+    echo "[$chain_id] deployed at $CONTRACT"`
+        : `    echo "[$chain_id] sent"`;
+
+    return `${header}
+
+${DECIMAL_HELPERS}
+
+broadcast() {
+    chain_id=$1
+    rpc_url=$2
+    if [ -z "$rpc_url" ]; then
+        echo "[$chain_id] no RPC URL: set RPC_URL_$chain_id" >&2
+        return 1
+    fi
+    actual_chain_id=$(cast chain-id --rpc-url "$rpc_url") || return 1
+    if [ "$actual_chain_id" != "$chain_id" ]; then
+        echo "[$chain_id] the RPC URL serves chain $actual_chain_id" >&2
+        return 1
+    fi
+
+${skip}
+
+    # The sender can only have sent this transaction, so a pending one is left to be mined
+    pending=$(cast nonce "$SENDER" --block pending --rpc-url "$rpc_url") || return 1
+    if [ "$pending" != "0" ]; then
+        echo "[$chain_id] the transaction is pending"
+    else
+        balance=$(cast balance "$SENDER" --rpc-url "$rpc_url") || return 1
+        if less_than "$balance" "$UPFRONT_COST"; then
+            missing=$(subtract "$UPFRONT_COST" "$balance")
+            if [ -z "\${FUNDER_PRIVATE_KEY:-}" ]; then
+                echo "[$chain_id] send $missing wei to $SENDER, or set FUNDER_PRIVATE_KEY" >&2
+                return 1
+            fi
+            echo "[$chain_id] funding $SENDER with $missing wei"
+            cast send "$SENDER" --value "$missing" --private-key "$FUNDER_PRIVATE_KEY" --rpc-url "$rpc_url" \\
+                >/dev/null || return 1
+        fi
+
+        echo "[$chain_id] publishing the transaction"
+        # Nodes not counting pending transactions reject a resent one as already known
+        output=$(cast publish "$RAW_TX" --async --rpc-url "$rpc_url" 2>&1) || case $output in
+            *'already known'*) ;;
+            *)
+                echo "$output" >&2
+                return 1
+                ;;
+        esac
+    fi
+    cast receipt "$TX_HASH" --rpc-url "$rpc_url" >/dev/null || return 1
+${check}
+}
+
+${shellCalls(options.chains)}
+`;
+}
+
+/**
+ * Generates a POSIX shell script sending a keyless transaction on several chains through JSON-RPC with
+ * `curl`, for machines without Foundry or Node.
+ *
+ * It runs the same checks as `genCastScript`, waiting up to 5 minutes for the transaction, but cannot sign the funding transaction: chains where the
+ * sender cannot pay are reported with the missing amount. RPC URLs are read from `RPC_URL_<chainId>`,
+ * defaulting to the given ones.
+ *
+ * @param {ScriptableResult} result - The result of `genRawDeployment` or `genRawTransaction`.
+ * @param {BroadcastScriptOptions} options - The chains to send the transaction on.
+ * @returns {string} The script.
+ *
+ * @throws {NickMethodError} If the chains are missing, duplicated or have invalid RPC URLs (`INVALID_OPTION`).
+ */
+export function genCurlScript(result: ScriptableResult, options: BroadcastScriptOptions): string {
+    validateChains(options.chains);
+    const subject = toSubject(result);
+    const deployment = subject.contract !== undefined;
+
+    const header = shellHeader(subject, options, [
+        'Requires curl, sed and awk. RPC URLs are read from RPC_URL_<chain id>, defaulting to the ones below.',
+        'Chains already done are skipped, so the script can be run again until all are, e.g. once the',
+        'sender has been funded.',
+    ]);
+    const skip = deployment
+        ? `    code=$(result "$rpc_url" eth_getCode "\\"$CONTRACT\\", \\"latest\\"") || return 1
+    if [ "$code" != "0x" ]; then
+        echo "[$chain_id] already deployed at $CONTRACT"
+        return 0
+    fi
+    nonce=$(result "$rpc_url" eth_getTransactionCount "\\"$SENDER\\", \\"latest\\"") || return 1
+    if [ "$(to_decimal "$nonce")" != "0" ]; then
+        echo "[$chain_id] the deployer already sent $(to_decimal "$nonce") transaction(s) but there is no code" \\
+            "at $CONTRACT: the deployment can no longer happen on this chain" >&2
+        return 1
+    fi`
+        : `    nonce=$(result "$rpc_url" eth_getTransactionCount "\\"$SENDER\\", \\"latest\\"") || return 1
+    if [ "$(to_decimal "$nonce")" != "0" ]; then
+        echo "[$chain_id] already sent"
+        return 0
+    fi`;
+    const check = deployment
+        ? `    code=$(result "$rpc_url" eth_getCode "\\"$CONTRACT\\", \\"latest\\"") || return 1
+    if [ "$code" = "0x" ]; then
+        echo "[$chain_id] the transaction was mined but there is no code at $CONTRACT" >&2
+        return 1
+    fi
+    echo "[$chain_id] deployed at $CONTRACT"`
+        : `    echo "[$chain_id] sent"`;
+
+    return `${header}
+
+# Sends a JSON-RPC request and prints the response, failing on errors
+rpc() {
+    response=$(curl -sS --fail --max-time 30 -H 'Content-Type: application/json' \\
+        --data "{\\"jsonrpc\\":\\"2.0\\",\\"id\\":1,\\"method\\":\\"$2\\",\\"params\\":[$3]}" "$1") || return 1
+    case $response in
+        *'"error"'*)
+            echo "$2 failed: $response" >&2
+            return 1
+            ;;
+    esac
+    printf '%s\\n' "$response"
+}
+
+# Prints the value of a string or null field of a JSON object
+field() {
+    printf '%s\\n' "$1" | sed -n "s/.*\\"$2\\" *: *\\"\\{0,1\\}\\([^\\",}]*\\)\\"\\{0,1\\}.*/\\1/p"
+}
+
+# Sends a JSON-RPC request and prints its result
+result() {
+    response=$(rpc "$@") || return 1
+    field "$response" result
+}
+
+# Converts a hex quantity to decimal, digit by digit to avoid overflows
+to_decimal() {
+    awk -v hex="$1" 'BEGIN {
+        hex = tolower(substr(hex, 3))
+        dec = "0"
+        for (i = 1; i <= length(hex); i++) {
+            carry = index("0123456789abcdef", substr(hex, i, 1)) - 1
+            out = ""
+            for (j = length(dec); j > 0; j--) {
+                d = substr(dec, j, 1) * 16 + carry
+                carry = int(d / 10)
+                out = (d % 10) out
+            }
+            for (; carry > 0; carry = int(carry / 10)) out = (carry % 10) out
+            dec = out
+        }
+        sub(/^0+/, "", dec)
+        print (dec == "" ? 0 : dec)
+    }'
+}
+
+${DECIMAL_HELPERS}
+
+broadcast() {
+    chain_id=$1
+    rpc_url=$2
+    if [ -z "$rpc_url" ]; then
+        echo "[$chain_id] no RPC URL: set RPC_URL_$chain_id" >&2
+        return 1
+    fi
+    actual_chain_id=$(result "$rpc_url" eth_chainId "") || return 1
+    if [ "$(to_decimal "$actual_chain_id")" != "$chain_id" ]; then
+        echo "[$chain_id] the RPC URL serves chain $(to_decimal "$actual_chain_id")" >&2
+        return 1
+    fi
+
+${skip}
+
+    # The sender can only have sent this transaction, so a pending one is left to be mined
+    pending=$(result "$rpc_url" eth_getTransactionCount "\\"$SENDER\\", \\"pending\\"") || return 1
+    if [ "$(to_decimal "$pending")" != "0" ]; then
+        echo "[$chain_id] the transaction is pending"
+    else
+        balance=$(result "$rpc_url" eth_getBalance "\\"$SENDER\\", \\"latest\\"") || return 1
+        balance=$(to_decimal "$balance")
+        if less_than "$balance" "$UPFRONT_COST"; then
+            echo "[$chain_id] send $(subtract "$UPFRONT_COST" "$balance") wei to $SENDER, then run the script again" >&2
+            return 1
+        fi
+
+        echo "[$chain_id] sending the transaction"
+        # Nodes not counting pending transactions reject a resent one as already known
+        output=$(rpc "$rpc_url" eth_sendRawTransaction "\\"$RAW_TX\\"" 2>&1) || case $output in
+            *'already known'*) ;;
+            *)
+                echo "$output" >&2
+                return 1
+                ;;
+        esac
+    fi
+    hash=$TX_HASH
+    attempts=0
+    while :; do
+        receipt=$(rpc "$rpc_url" eth_getTransactionReceipt "\\"$hash\\"") || return 1
+        [ "$(field "$receipt" result)" != "null" ] && break
+        attempts=$((attempts + 1))
+        if [ "$attempts" -ge 60 ]; then
+            echo "[$chain_id] $hash is not mined after 5 minutes, run the script again later" >&2
+            return 1
+        fi
+        sleep 5
+    done
+    if [ "$(field "$receipt" status)" != "0x1" ]; then
+        echo "[$chain_id] $hash reverted" >&2
+        return 1
+    fi
+${check}
+}
+
+${shellCalls(options.chains)}
+`;
+}
+
+/**
+ * Generates a Hardhat task file sending a keyless transaction on the network Hardhat runs against, through
+ * its EIP-1193 provider: `npx hardhat <task> --network <name>`, once per chain.
+ *
+ * The task refuses networks that are not among the given chains, skips chains already done, funds the
+ * sender with the missing amount from the first account of the network unless the transaction is already
+ * pending, and waits up to 5 minutes for each transaction.
+ *
+ * @param {ScriptableResult} result - The result of `genRawDeployment` or `genRawTransaction`.
+ * @param {HardhatTaskOptions} options - The chains to send the transaction on, and the name of the task.
+ * @returns {string} The task file, a CommonJS module to require from the Hardhat configuration.
+ *
+ * @throws {NickMethodError} If the chains are missing or duplicated, or the task name is invalid
+ * (`INVALID_OPTION`).
+ */
+export function genHardhatTask(result: ScriptableResult, options: HardhatTaskOptions): string {
+    validateChains(options.chains);
+    const { taskName = 'nick-method-broadcast' } = options;
+    if (!/^[a-zA-Z][\w:-]*$/.test(taskName)) {
+        throw new NickMethodError('INVALID_OPTION', `Invalid task name: ${taskName}`, {
+            field: 'taskName',
+        });
+    }
+    const subject = toSubject(result);
+    const deployment = subject.contract !== undefined;
+
+    const header = [
+        `${subject.description}, generated by ${PACKAGE_NAME}.`,
+        '',
+        `Require this file from the Hardhat configuration, then run on each network:`,
+        `  npx hardhat ${taskName} --network <name>`,
+        'When the sender cannot pay for the transaction, the missing amount is sent from the first account of',
+        'the network. Chains already done are skipped.',
+        '',
+        `Upfront cost: ${subject.upfrontCost} wei, on each chain:`,
+        ...describeChains(subject, options.chains, options.registry).map((line) => `  - ${line}`),
+    ];
+    const skip = deployment
+        ? `    if ((await request('eth_getCode', [CONTRACT, 'latest'])) !== '0x') {
+        console.log(\`[\${chainId}] already deployed at \${CONTRACT}\`);
+        return;
+    }
+    const nonce = BigInt(await request('eth_getTransactionCount', [SENDER, 'latest']));
+    if (nonce > BigInt(0)) {
+        throw new Error(
+            \`The deployer \${SENDER} already sent \${nonce} transaction(s) but there is no code at \` +
+                \`\${CONTRACT}: the deployment can no longer happen on chain \${chainId}\`,
+        );
+    }`
+        : `    if (BigInt(await request('eth_getTransactionCount', [SENDER, 'latest'])) > BigInt(0)) {
+        console.log(\`[\${chainId}] already sent\`);
+        return;
+    }`;
+    const check = deployment
+        ? `    if ((await request('eth_getCode', [CONTRACT, 'latest'])) === '0x') {
+        throw new Error(\`The transaction was mined but there is no code at \${CONTRACT}\`);
+    }
+    console.log(\`[\${chainId}] deployed at \${CONTRACT}\`);`
+        : `    console.log(\`[\${chainId}] sent\`);`;
+
+    return `${header.map((line) => (line === '' ? '//' : `// ${line}`)).join('\n')}
+const { task } = require('hardhat/config');
+
+const RAW_TX = '${subject.rawTx}';
+const TX_HASH = '${subject.hash}';
+const SENDER = '${subject.sender}';
+${deployment ? `const CONTRACT = '${subject.contract}';\n` : ''}const UPFRONT_COST = BigInt('${subject.upfrontCost}');
+const CHAIN_IDS = [${options.chains.map(({ chainId }) => chainId).join(', ')}];
+
+async function waitForReceipt(request, hash) {
+    for (let attempt = 0; attempt < 60; attempt++) {
+        const receipt = await request('eth_getTransactionReceipt', [hash]);
+        if (receipt !== null) {
+            if (receipt.status !== '0x1') {
+                throw new Error(\`Transaction \${hash} reverted\`);
+            }
+            return receipt;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
+    throw new Error(\`Transaction \${hash} is not mined after 5 minutes, run the task again later\`);
+}
+
+task('${taskName}', '${subject.description}').setAction(async (_, hre) => {
+    const request = (method, params = []) => hre.network.provider.request({ method, params });
+    const chainId = Number(await request('eth_chainId'));
+    if (!CHAIN_IDS.includes(chainId)) {
+        throw new Error(\`Chain \${chainId} is not a target of this transaction: \${CHAIN_IDS.join(', ')}\`);
+    }
+
+${skip}
+
+    // The sender can only have sent this transaction, so a pending one is left to be mined
+    if (BigInt(await request('eth_getTransactionCount', [SENDER, 'pending'])) > BigInt(0)) {
+        console.log(\`[\${chainId}] the transaction is pending\`);
+    } else {
+        const balance = BigInt(await request('eth_getBalance', [SENDER, 'latest']));
+        if (balance < UPFRONT_COST) {
+            const [funder] = await request('eth_accounts');
+            if (funder === undefined) {
+                throw new Error(\`Send \${UPFRONT_COST - balance} wei to \${SENDER}, or configure an account\`);
+            }
+            console.log(\`[\${chainId}] funding \${SENDER} with \${UPFRONT_COST - balance} wei from \${funder}\`);
+            const value = \`0x\${(UPFRONT_COST - balance).toString(16)}\`;
+            await waitForReceipt(request, await request('eth_sendTransaction', [{ from: funder, to: SENDER, value }]));
+        }
+
+        console.log(\`[\${chainId}] sending the transaction\`);
+        try {
+            await request('eth_sendRawTransaction', [RAW_TX]);
+        } catch (error) {
+            // Nodes not counting pending transactions reject a resent one as already known
+            if (!/already known/i.test(error.message)) {
+                throw error;
+            }
+        }
+    }
+    await waitForReceipt(request, TX_HASH);
+${check}
+});
+`;
+}
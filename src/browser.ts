@@ -0,0 +1,198 @@
+// Entry point for browsers and edge runtimes, free of Node built-ins and globals. Vanity mining
+// (worker threads), manifests, chain registries and artifact readers (file system) and simulation
+// (Buffer-based ethereumjs VM) are only available from the main entry point.
+
+// Types
+export {
+    Abi,
+    AbiItem,
+    AbiParameter,
+    ConstructorAbiConfig,
+    DecodedArgument,
+    DecodedTransactionData,
+    DecodeOptions,
+    FunctionAbiConfig,
+} from './types/abiConfig';
+export { DeploymentConfig, DeploymentResult } from './types/deploymentConfig';
+export { TransactionConfig, TransactionResult } from './types/transactionConfig';
+export {
+    AccessListEntry,
+    RecoveredAccessListTransaction,
+    RecoveredBlobTransaction,
+    RecoveredFeeMarketTransaction,
+    RecoveredLegacyTransaction,
+    RecoveredTransactionFields,
+    RecoveredTransactionResult,
+    RecoveredTypedTransactionFields,
+    SafeRecoverResult,
+    SignatureKind,
+} from './types/rawTransactionConfig';
+export {
+    KnownDeployment,
+    KnownDeploymentId,
+    KnownDeploymentReproduction,
+} from './types/catalogConfig';
+export { AddressPrediction, AddressTree, PredictedAddress } from './types/addressConfig';
+export {
+    AdaptableResult,
+    EthersSignatureLike,
+    EthersTransactionLike,
+    Hex,
+    ViemLegacyTransaction,
+} from './types/adapterConfig';
+export {
+    Create2Config,
+    Create2DeploymentConfig,
+    Create2DeploymentResult,
+    Create2Factory,
+    Create2SaltConfig,
+    Create2SaltOptions,
+    Create2SaltResult,
+} from './types/create2Config';
+export {
+    FundingPlan,
+    FundingPlanEntry,
+    FundingPlanOptions,
+    FundingTarget,
+    FundingTransaction,
+    FundingTransactionOptions,
+    FundingTransactionParams,
+    Keystore,
+} from './types/fundingConfig';
+export {
+    LibraryAddresses,
+    LinkedDeployment,
+    LinkedDeploymentConfig,
+    LinkedDeploymentPlan,
+    LinkReferences,
+} from './types/linkingConfig';
+export {
+    BroadcastScriptOptions,
+    HardhatTaskOptions,
+    ScriptableResult,
+    ScriptChain,
+} from './types/scriptConfig';
+export {
+    ChainDeploymentStatus,
+    DeploymentState,
+    DeploymentStatusOptions,
+    DeploymentStatusReport,
+} from './types/statusConfig';
+export { Quantity } from './types/quantity';
+export { NickMethodErrorCode, NickMethodErrorOptions } from './types/errorConfig';
+export { KeylessSignature, SignatureConfig } from './types/signatureConfig';
+export {
+    VanityTarget,
+    VanityConfig,
+    VanityCheckpoint,
+    VanityProgress,
+    VanityOptions,
+    VanityResult,
+} from './types/vanityConfig';
+export {
+    KeylessDeploymentExpectations,
+    VerificationCheck,
+    VerificationCheckName,
+    VerificationReport,
+} from './types/verifyConfig';
+export {
+    DeploymentManifest,
+    ManifestConfig,
+    ManifestDrift,
+    ManifestDriftCause,
+    ManifestEntry,
+    ManifestOverrides,
+    ManifestResult,
+} from './types/manifestConfig';
+export {
+    AddressDerivation,
+    ChainCompatibility,
+    ChainProfile,
+    ChainRegistry,
+    CompatibilityIssue,
+    CompatibilityIssueCode,
+    EvmVersion,
+} from './types/chainConfig';
+export {
+    BroadcastEvent,
+    BroadcastOptions,
+    BroadcastTarget,
+    JsonRpcProviderOptions,
+    Provider,
+    TransactionReceipt,
+} from './types/broadcastConfig';
+export {
+    AutoGasDeploymentConfig,
+    AutoGasTransactionConfig,
+    SimulatedDeployment,
+    SimulatedTransaction,
+    SimulationAccount,
+    SimulationLog,
+    SimulationOptions,
+    SimulationResult,
+} from './types/simulationConfig';
+export {
+    GenerationOptions,
+    PreflightIssue,
+    PreflightIssueCode,
+    PreflightOptions,
+    PreflightReport,
+} from './types/preflightConfig';
+
+// Functions
+export { isNickMethodError, NickMethodError } from './errors/errors';
+export {
+    encodeAbiParameters,
+    encodeDeployData,
+    encodeFunctionData,
+    formatSignature,
+    getFunctionSelector,
+} from './abi/abi';
+export { decodeAbiParameters, decodeTransactionData } from './abi/abiDecoder';
+export { genRawDeployment } from './genRawDeployment/genRawDeployment';
+export { genRawTransaction } from './genRawTransaction/genRawTransaction';
+export {
+    recoverRawTransaction,
+    safeRecoverRawTransaction,
+} from './recoverRawTransaction/recoverRawTransaction';
+export {
+    HARDCODED_R,
+    HARDCODED_S,
+    HARDCODED_V,
+    isValidXCoordinate,
+    resolveSignature,
+} from './signature/signature';
+export { BUILTIN_CHAINS } from './chains/registry';
+export { broadcastDeployment } from './broadcast/broadcast';
+export { createJsonRpcProvider, JsonRpcError } from './broadcast/jsonRpcProvider';
+export { preflight, PreflightError } from './preflight/preflight';
+export {
+    computeCreate3Address,
+    computeCreateAddress,
+    CREATE3_PROXY_INITCODE,
+    predictAddresses,
+} from './addresses/addresses';
+export {
+    CANONICAL_CREATE2_FACTORY,
+    computeCreate2Address,
+    encodeCreate2Calldata,
+    genCreate2Deployment,
+    mineCreate2Salt,
+} from './create2/create2';
+export { verifyKeylessDeployment } from './verify/verify';
+export {
+    fromEthersTransaction,
+    fromViemTransaction,
+    toEthersTransaction,
+    toViemTransaction,
+} from './adapters/adapters';
+export { findKnownDeployment, reproduceKnownDeployment } from './catalog/catalog';
+export { KNOWN_DEPLOYMENTS } from './catalog/registry';
+export { linkBytecode, planLinkedDeployments } from './linking/linking';
+export { genCastScript, genCurlScript, genHardhatTask } from './broadcastScripts/broadcastScripts';
+export { checkDeploymentStatus } from './status/status';
+export { buildFundingTransactions, planFunding } from './funding/funding';
+export { decryptKeystore } from './funding/keystore';
+
+// Utils
+export { formatUnits, parseQuantity, parseUnits } from './utils/utils';
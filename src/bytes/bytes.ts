@@ -0,0 +1,126 @@
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+/**
+ * Converts a `0x`-prefixed hex string to bytes, left-padding odd lengths with a zero.
+ *
+ * @param {string} hex - The hex string, assumed to be valid.
+ * @returns {Uint8Array} The bytes.
+ */
+export function hexToBytes(hex: string): Uint8Array {
+    const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+    const even = digits.length % 2 === 0 ? digits : `0${digits}`;
+    const bytes = new Uint8Array(even.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(even.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+/**
+ * Converts bytes to a lowercase `0x`-prefixed hex string.
+ *
+ * @param {Uint8Array} bytes - The bytes.
+ * @returns {string} The hex string.
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+    let hex = '0x';
+    for (const byte of bytes) {
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * Concatenates byte arrays.
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(arrays.reduce((length, array) => length + array.length, 0));
+    let offset = 0;
+    for (const array of arrays) {
+        result.set(array, offset);
+        offset += array.length;
+    }
+    return result;
+}
+
+/**
+ * Converts a non-negative bigint to its minimal big-endian bytes, empty for zero as in RLP.
+ */
+export function bigIntToBytes(value: bigint): Uint8Array {
+    return value === BigInt(0) ? new Uint8Array(0) : hexToBytes(value.toString(16));
+}
+
+/**
+ * Converts big-endian bytes to a bigint, zero for empty bytes.
+ */
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+    return bytes.length === 0 ? BigInt(0) : BigInt(bytesToHex(bytes));
+}
+
+/**
+ * Left-pads bytes with zeros to a given length, keeping the last bytes of longer arrays.
+ */
+export function setLengthLeft(bytes: Uint8Array, length: number): Uint8Array {
+    if (bytes.length >= length) {
+        return bytes.subarray(bytes.length - length);
+    }
+    const result = new Uint8Array(length);
+    result.set(bytes, length - bytes.length);
+    return result;
+}
+
+/**
+ * Right-pads bytes with zeros to a given length, keeping the first bytes of longer arrays.
+ */
+export function setLengthRight(bytes: Uint8Array, length: number): Uint8Array {
+    if (bytes.length >= length) {
+        return bytes.subarray(0, length);
+    }
+    const result = new Uint8Array(length);
+    result.set(bytes);
+    return result;
+}
+
+/**
+ * Encodes a string as UTF-8 bytes.
+ */
+export function utf8ToBytes(value: string): Uint8Array {
+    return new TextEncoder().encode(value);
+}
+
+/**
+ * Decodes UTF-8 bytes, replacing invalid sequences.
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+    return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Tells whether a value is a `0x`-prefixed 20-byte hex string, regardless of its casing.
+ */
+export function isValidAddress(value: string): boolean {
+    return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * Converts an address to its EIP-55 mixed-case checksum form.
+ *
+ * @param {string} address - The address, assumed to be a 20-byte hex string.
+ * @returns {string} The checksummed address.
+ */
+export function toChecksumAddress(address: string): string {
+    const lowercase = address.slice(2).toLowerCase();
+    const hash = bytesToHex(keccak256(utf8ToBytes(lowercase))).slice(2);
+    let checksummed = '0x';
+    for (let i = 0; i < lowercase.length; i++) {
+        checksummed += parseInt(hash[i], 16) >= 8 ? lowercase[i].toUpperCase() : lowercase[i];
+    }
+    return checksummed;
+}
+
+/**
+ * Tells whether a value is an address in its EIP-55 checksum form.
+ */
+export function isValidChecksumAddress(value: string): boolean {
+    return isValidAddress(value) && toChecksumAddress(value) === value;
+}
@@ -0,0 +1,62 @@
+import { NickMethodError } from '../errors/errors';
+import { genRawDeployment } from '../genRawDeployment/genRawDeployment';
+import { KnownDeployment, KnownDeploymentReproduction } from '../types/catalogConfig';
+import { isValidHex } from '../utils/utils';
+import { KNOWN_DEPLOYMENTS } from './registry';
+
+/**
+ * Looks up a well-known keyless deployment by its contract address, its deployer address or the hash
+ * of its raw transaction. Addresses are compared regardless of their checksum casing.
+ *
+ * @param {string} addressOrHash - A 20-byte address or a 32-byte transaction hash.
+ * @param {readonly KnownDeployment[]} [catalog] - The deployments to search. Defaults to the built-in catalog.
+ * @returns {KnownDeployment | undefined} The matching deployment, if any.
+ *
+ * @throws {NickMethodError} If the value is not a 20- or 32-byte hex string (`INVALID_HEX`).
+ */
+export function findKnownDeployment(
+    addressOrHash: string,
+    catalog: readonly KnownDeployment[] = KNOWN_DEPLOYMENTS,
+): KnownDeployment | undefined {
+    if (
+        !isValidHex(addressOrHash) ||
+        (addressOrHash.length !== 42 && addressOrHash.length !== 66)
+    ) {
+        throw new NickMethodError(
+            'INVALID_HEX',
+            'Invalid addressOrHash: expected a 20-byte address or a 32-byte transaction hash',
+            { field: 'addressOrHash' },
+        );
+    }
+
+    const value = addressOrHash.toLowerCase();
+    return catalog.find(
+        ({ contractAddress, deployerAddress, hash }) =>
+            contractAddress.toLowerCase() === value ||
+            deployerAddress.toLowerCase() === value ||
+            hash.toLowerCase() === value,
+    );
+}
+
+/**
+ * Regenerates a known deployment with `genRawDeployment`, proving the published raw transaction
+ * is reproducible from its configuration.
+ *
+ * @param {KnownDeployment} knownDeployment - The catalog entry to regenerate.
+ * @returns {KnownDeploymentReproduction} The generated deployment, and whether it matches the published one.
+ *
+ * @throws {NickMethodError} If the deployment configuration is invalid.
+ */
+export function reproduceKnownDeployment(
+    knownDeployment: KnownDeployment,
+): KnownDeploymentReproduction {
+    const result = genRawDeployment(knownDeployment.deployment);
+    return {
+        knownDeployment,
+        result,
+        reproducible:
+            result.rawTx.toLowerCase() === knownDeployment.rawTx.toLowerCase() &&
+            result.deployerAddress === knownDeployment.deployerAddress &&
+            result.contractAddress === knownDeployment.contractAddress,
+    };
+}
@@ -0,0 +1,176 @@
+import { readFileSync } from 'fs';
+
+import { hexToBytes } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { recoverRawTransaction } from '../recoverRawTransaction/recoverRawTransaction';
+import {
+    ChainCompatibility,
+    ChainProfile,
+    ChainRegistry,
+    CompatibilityIssue,
+} from '../types/chainConfig';
+import { DeploymentResult } from '../types/deploymentConfig';
+import { formatUnits, isValidQuantity, parseQuantity } from '../utils/utils';
+import { EVM_VERSIONS, findUnsupportedOpcodes } from './opcodes';
+import { BUILTIN_CHAINS } from './registry';
+
+function validateProfile(profile: ChainProfile, index: number): void {
+    const id = Number.isSafeInteger(profile?.chainId) ? profile.chainId : `#${index}`;
+    const invalid = (field: keyof ChainProfile, requirement: string) =>
+        new NickMethodError(
+            'INVALID_OPTION',
+            `Invalid chain profile ${id}: ${field} ${requirement}`,
+            {
+                field,
+            },
+        );
+
+    if (!Number.isSafeInteger(profile?.chainId) || profile.chainId <= 0) {
+        throw invalid('chainId', 'must be a positive integer');
+    }
+    if (typeof profile.name !== 'string' || profile.name === '') {
+        throw invalid('name', 'must be a non-empty string');
+    }
+    if (
+        typeof profile.nativeCurrency?.symbol !== 'string' ||
+        !Number.isInteger(profile.nativeCurrency.decimals) ||
+        profile.nativeCurrency.decimals < 0
+    ) {
+        throw invalid('nativeCurrency', 'must have a symbol and non-negative integer decimals');
+    }
+    if (!EVM_VERSIONS.includes(profile.evmVersion)) {
+        throw invalid('evmVersion', `must be one of ${EVM_VERSIONS.join(', ')}`);
+    }
+    if (typeof profile.acceptsUnprotectedTransactions !== 'boolean') {
+        throw invalid('acceptsUnprotectedTransactions', 'must be a boolean');
+    }
+    if (profile.addressDerivation !== 'standard' && profile.addressDerivation !== 'zksync') {
+        throw invalid('addressDerivation', 'must be "standard" or "zksync"');
+    }
+    if (typeof profile.minGasPrice !== 'string' || !isValidQuantity(profile.minGasPrice)) {
+        throw invalid('minGasPrice', 'must be a quantity string (e.g. "1 gwei")');
+    }
+}
+
+/**
+ * Creates a chain registry from the built-in profiles, extended or overridden by custom ones.
+ *
+ * @param {ChainProfile[]} [profiles] - Additional profiles. A profile replaces any other with the same chain id.
+ * @param {readonly ChainProfile[]} [base] - The profiles to extend. Defaults to the built-in ones.
+ * @returns {ChainRegistry} The registry, by chain id.
+ *
+ * @throws {NickMethodError} If a profile is incomplete or invalid (`INVALID_OPTION`).
+ */
+export function createChainRegistry(
+    profiles: ChainProfile[] = [],
+    base: readonly ChainProfile[] = BUILTIN_CHAINS,
+): ChainRegistry {
+    const registry: ChainRegistry = new Map();
+    [...base, ...profiles].forEach((profile, index) => {
+        validateProfile(profile, index);
+        registry.set(profile.chainId, profile);
+    });
+    return registry;
+}
+
+/**
+ * Creates a chain registry from the built-in profiles, extended or overridden by those of a JSON file.
+ * The file contains an array of {@link ChainProfile} objects.
+ *
+ * @param {string} path - The path of the JSON file.
+ * @param {readonly ChainProfile[]} [base] - The profiles to extend. Defaults to the built-in ones.
+ * @returns {ChainRegistry} The registry, by chain id.
+ *
+ * @throws {Error} If the file cannot be read, is not an array of profiles, or a profile is invalid.
+ */
+export function loadChainRegistry(
+    path: string,
+    base: readonly ChainProfile[] = BUILTIN_CHAINS,
+): ChainRegistry {
+    const profiles = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(profiles)) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            `Invalid chain registry ${path}: expected an array of chain profiles`,
+        );
+    }
+    return createChainRegistry(profiles, base);
+}
+
+/**
+ * Tells, for each chain, whether a generated transaction can land there as is, and why not.
+ *
+ * A chain is incompatible when the transaction is replay-protected for another chain, when it rejects
+ * unprotected (pre-EIP-155) transactions, derives contract
+ * addresses differently, lacks an opcode used by the bytecode, or usually requires a higher gas price
+ * than the one signed into the transaction.
+ *
+ * @param {Pick<DeploymentResult, 'rawTx'>} result - The output of `genRawDeployment` (or `genRawTransaction`).
+ * @param {number[]} chains - The ids of the chains to check.
+ * @param {ChainRegistry} [registry] - The chain profiles to check against. Defaults to the built-in ones.
+ * @returns {ChainCompatibility[]} The compatibility of the transaction with each chain, in the given order.
+ *
+ * @throws {NickMethodError} If the raw transaction is not valid hex or cannot be decoded.
+ */
+export function checkCompatibility(
+    result: Pick<DeploymentResult, 'rawTx'>,
+    chains: number[],
+    registry: ChainRegistry = createChainRegistry(),
+): ChainCompatibility[] {
+    const tx = recoverRawTransaction(result.rawTx);
+    const isDeployment = tx.to === undefined;
+    const bytecode = hexToBytes(tx.data);
+    // Fee market transactions are compared by the most they are willing to pay
+    const gasPrice = 'gasPrice' in tx ? tx.gasPrice : tx.maxFeePerGas;
+
+    return chains.map((chainId) => {
+        const profile = registry.get(chainId);
+        if (profile === undefined) {
+            return {
+                chainId,
+                name: undefined,
+                compatible: false,
+                issues: [
+                    { code: 'UNKNOWN_CHAIN', message: `Chain ${chainId} is not in the registry` },
+                ],
+            };
+        }
+
+        const issues: CompatibilityIssue[] = [];
+        if (tx.chainId !== undefined && tx.chainId !== BigInt(chainId)) {
+            issues.push({
+                code: 'CHAIN_ID_MISMATCH',
+                message: `The transaction is signed for chain ${tx.chainId}, so ${profile.name} rejects it`,
+            });
+        }
+        if (tx.chainId === undefined && !profile.acceptsUnprotectedTransactions) {
+            issues.push({
+                code: 'UNPROTECTED_TX_REJECTED',
+                message: `${profile.name} rejects transactions without EIP-155 replay protection`,
+            });
+        }
+        if (isDeployment && profile.addressDerivation !== 'standard') {
+            issues.push({
+                code: 'NON_STANDARD_ADDRESS_DERIVATION',
+                message: `${profile.name} uses ${profile.addressDerivation}-style address derivation, so the contract would be deployed at another address`,
+            });
+        }
+        if (isDeployment) {
+            for (const opcode of findUnsupportedOpcodes(bytecode, profile.evmVersion)) {
+                issues.push({
+                    code: 'UNSUPPORTED_OPCODE',
+                    message: `The bytecode uses ${opcode.name} (${opcode.since}), which ${profile.name} (${profile.evmVersion}) does not support`,
+                });
+            }
+        }
+        const minGasPrice = parseQuantity(profile.minGasPrice);
+        if (gasPrice < minGasPrice) {
+            issues.push({
+                code: 'GAS_PRICE_TOO_LOW',
+                message: `The gas price of ${formatUnits(gasPrice, 9)} gwei is below the typical minimum of ${formatUnits(minGasPrice, 9)} gwei on ${profile.name}`,
+            });
+        }
+
+        return { chainId, name: profile.name, compatible: issues.length === 0, issues };
+    });
+}
@@ -0,0 +1,80 @@
+import { EvmVersion } from '../types/chainConfig';
+
+/**
+ * Hardforks in activation order, used to compare EVM versions.
+ */
+export const EVM_VERSIONS: readonly EvmVersion[] = [
+    'frontier',
+    'homestead',
+    'byzantium',
+    'constantinople',
+    'petersburg',
+    'istanbul',
+    'berlin',
+    'london',
+    'paris',
+    'shanghai',
+    'cancun',
+    'prague',
+];
+
+/**
+ * Opcodes introduced after frontier, with the hardfork that introduced them.
+ */
+const OPCODES: { [opcode: number]: { name: string; since: EvmVersion } } = {
+    0x1b: { name: 'SHL', since: 'constantinople' },
+    0x1c: { name: 'SHR', since: 'constantinople' },
+    0x1d: { name: 'SAR', since: 'constantinople' },
+    0x3d: { name: 'RETURNDATASIZE', since: 'byzantium' },
+    0x3e: { name: 'RETURNDATACOPY', since: 'byzantium' },
+    0x3f: { name: 'EXTCODEHASH', since: 'constantinople' },
+    0x46: { name: 'CHAINID', since: 'istanbul' },
+    0x47: { name: 'SELFBALANCE', since: 'istanbul' },
+    0x48: { name: 'BASEFEE', since: 'london' },
+    0x49: { name: 'BLOBHASH', since: 'cancun' },
+    0x4a: { name: 'BLOBBASEFEE', since: 'cancun' },
+    0x5c: { name: 'TLOAD', since: 'cancun' },
+    0x5d: { name: 'TSTORE', since: 'cancun' },
+    0x5e: { name: 'MCOPY', since: 'cancun' },
+    0x5f: { name: 'PUSH0', since: 'shanghai' },
+    0xf4: { name: 'DELEGATECALL', since: 'homestead' },
+    0xf5: { name: 'CREATE2', since: 'constantinople' },
+    0xfa: { name: 'STATICCALL', since: 'byzantium' },
+    0xfd: { name: 'REVERT', since: 'byzantium' },
+};
+
+/**
+ * Returns whether an EVM version includes every opcode of another one.
+ */
+export function isEvmVersionAtLeast(version: EvmVersion, required: EvmVersion): boolean {
+    return EVM_VERSIONS.indexOf(version) >= EVM_VERSIONS.indexOf(required);
+}
+
+/**
+ * Lists the opcodes of a bytecode that are not supported by an EVM version, skipping push data.
+ *
+ * Embedded data (e.g. the metadata trailer or the runtime code's immutables) is scanned like code,
+ * so the result errs on the side of reporting an opcode that is never executed.
+ *
+ * @param {Uint8Array} bytecode - The bytecode to scan.
+ * @param {EvmVersion} evmVersion - The EVM version of the target chain.
+ * @returns {{ name: string, since: EvmVersion }[]} The unsupported opcodes, once each, in order of appearance.
+ */
+export function findUnsupportedOpcodes(
+    bytecode: Uint8Array,
+    evmVersion: EvmVersion,
+): { name: string; since: EvmVersion }[] {
+    const found = new Map<number, { name: string; since: EvmVersion }>();
+    for (let i = 0; i < bytecode.length; i++) {
+        const opcode = bytecode[i];
+        const info = OPCODES[opcode];
+        if (info !== undefined && !isEvmVersionAtLeast(evmVersion, info.since)) {
+            found.set(opcode, info);
+        }
+        // PUSH1 to PUSH32 are followed by 1 to 32 bytes of data
+        if (opcode >= 0x60 && opcode <= 0x7f) {
+            i += opcode - 0x5f;
+        }
+    }
+    return [...found.values()];
+}
@@ -0,0 +1,120 @@
+import { ChainProfile } from '../types/chainConfig';
+
+const ETH = { symbol: 'ETH', decimals: 18 };
+
+/**
+ * Built-in chain profiles. Gas prices are typical floors, not guarantees: a transaction priced
+ * at or above them is likely, but not certain, to be included.
+ */
+export const BUILTIN_CHAINS: readonly ChainProfile[] = [
+    {
+        chainId: 1,
+        name: 'Ethereum',
+        nativeCurrency: ETH,
+        evmVersion: 'prague',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '1 gwei',
+        notes: 'Geth rejects unprotected transactions over RPC by default; use a provider that allows them.',
+    },
+    {
+        chainId: 11155111,
+        name: 'Sepolia',
+        nativeCurrency: ETH,
+        evmVersion: 'prague',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '1 mwei',
+    },
+    {
+        chainId: 10,
+        name: 'OP Mainnet',
+        nativeCurrency: ETH,
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '1 mwei',
+    },
+    {
+        chainId: 8453,
+        name: 'Base',
+        nativeCurrency: ETH,
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '1 mwei',
+    },
+    {
+        chainId: 42161,
+        name: 'Arbitrum One',
+        nativeCurrency: ETH,
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '0.01 gwei',
+    },
+    {
+        chainId: 56,
+        name: 'BNB Smart Chain',
+        nativeCurrency: { symbol: 'BNB', decimals: 18 },
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '0.1 gwei',
+    },
+    {
+        chainId: 137,
+        name: 'Polygon PoS',
+        nativeCurrency: { symbol: 'POL', decimals: 18 },
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '30 gwei',
+    },
+    {
+        chainId: 100,
+        name: 'Gnosis',
+        nativeCurrency: { symbol: 'XDAI', decimals: 18 },
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '1 gwei',
+    },
+    {
+        chainId: 43114,
+        name: 'Avalanche C-Chain',
+        nativeCurrency: { symbol: 'AVAX', decimals: 18 },
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '1 gwei',
+    },
+    {
+        chainId: 59144,
+        name: 'Linea',
+        nativeCurrency: ETH,
+        evmVersion: 'london',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '0.05 gwei',
+    },
+    {
+        chainId: 534352,
+        name: 'Scroll',
+        nativeCurrency: ETH,
+        evmVersion: 'shanghai',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'standard',
+        minGasPrice: '0.01 gwei',
+    },
+    {
+        chainId: 324,
+        name: 'zkSync Era',
+        nativeCurrency: ETH,
+        evmVersion: 'cancun',
+        acceptsUnprotectedTransactions: true,
+        addressDerivation: 'zksync',
+        minGasPrice: '0.045 gwei',
+        notes: 'Contracts are deployed through the ContractDeployer system contract, at different addresses.',
+    },
+];
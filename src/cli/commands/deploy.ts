@@ -0,0 +1,118 @@
+import { parseArgs } from 'util';
+
+import { genArtifactDeployment, readArtifact } from '../../artifacts/artifacts';
+import { NickMethodError } from '../../errors/errors';
+import { genRawDeployment } from '../../genRawDeployment/genRawDeployment';
+import { ContractArtifact } from '../../types/artifactConfig';
+import { DeploymentResult } from '../../types/deploymentConfig';
+import {
+    CliIO,
+    ExitCode,
+    formatTable,
+    formatWei,
+    quantityOption,
+    readHexInput,
+    signatureOptions,
+    toJson,
+    UsageError,
+} from '../utils';
+
+const USAGE = `Usage: nick-method deploy [options]
+
+Generate a keyless deployment transaction. The bytecode is read from --bytecode,
+--bytecode-file, a compiler artifact given with --artifact, or stdin.
+
+Options:
+  --bytecode <hex>         Creation bytecode of the contract
+  --bytecode-file <path>   File containing the creation bytecode ("-" for stdin)
+  --artifact <path>        Hardhat or Foundry artifact, or solc standard-JSON output
+  --contract <name>        Contract to pick from the artifact (Name or path:Name)
+  --gas-limit <amount>     Gas limit of the deployment
+  --gas-price <amount>     Gas price of the deployment (e.g. 100gwei)
+  --value <amount>         Value sent with the deployment (default: 0)
+  --r <hex>                Custom r value of the signature
+  --s <hex>                Custom s value of the signature
+  --v <27|28>              Custom v value of the signature
+  --json                   Print the result as JSON
+`;
+
+/**
+ * `nick-method deploy`: generates a keyless deployment transaction.
+ */
+export async function deploy(args: string[], io: CliIO): Promise<number> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            bytecode: { type: 'string' },
+            'bytecode-file': { type: 'string' },
+            artifact: { type: 'string' },
+            contract: { type: 'string' },
+            'gas-limit': { type: 'string' },
+            'gas-price': { type: 'string' },
+            value: { type: 'string', default: '0' },
+            r: { type: 'string' },
+            s: { type: 'string' },
+            v: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        io.stdout(USAGE);
+        return ExitCode.Success;
+    }
+
+    const gasLimit = quantityOption('gas-limit', values['gas-limit']);
+    const gasPrice = quantityOption('gas-price', values['gas-price']);
+    const value = quantityOption('value', values.value);
+    const signature = signatureOptions(values);
+
+    if (values.artifact !== undefined) {
+        if (values.bytecode !== undefined || values['bytecode-file'] !== undefined) {
+            throw new UsageError('The bytecode cannot be given both inline and as an artifact');
+        }
+        const artifact = readArtifactOption(values.artifact, values.contract);
+        const result = genArtifactDeployment(artifact, { gasLimit, gasPrice, value, ...signature });
+        io.stdout(values.json ? toJson(result) : formatDeployment(result, artifact));
+        return ExitCode.Success;
+    }
+    if (values.contract !== undefined) {
+        throw new UsageError('--contract requires --artifact');
+    }
+
+    const bytecode = await readHexInput(io, 'bytecode', values.bytecode, values['bytecode-file']);
+    const result = genRawDeployment({ gasLimit, gasPrice, value, bytecode, ...signature });
+
+    io.stdout(values.json ? toJson(result) : formatDeployment(result));
+    return ExitCode.Success;
+}
+
+function readArtifactOption(path: string, contractName: string | undefined): ContractArtifact {
+    try {
+        return readArtifact(path, { contractName });
+    } catch (error) {
+        if (error instanceof NickMethodError) {
+            throw error;
+        }
+        throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`);
+    }
+}
+
+function formatDeployment(result: DeploymentResult, artifact?: ContractArtifact): string {
+    const contract =
+        artifact?.sourceName !== undefined
+            ? `${artifact.sourceName}:${artifact.contractName}`
+            : artifact?.contractName;
+    return formatTable([
+        ['Contract', contract],
+        ['Compiler', artifact?.compilerVersion],
+        ['Deployer address', result.deployerAddress],
+        ['Contract address', result.contractAddress],
+        ['Upfront cost', formatWei(result.upfrontCost)],
+        ['v', result.v],
+        ['r', result.r],
+        ['s', result.s],
+        ['Raw transaction', result.rawTx],
+    ]);
+}
@@ -0,0 +1,198 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+
+import { mineVanityR } from '../../mineVanityR/mineVanityR';
+import { VanityCheckpoint, VanityProgress, VanityResult } from '../../types/vanityConfig';
+import {
+    CliIO,
+    ExitCode,
+    formatTable,
+    integerOption,
+    quantityOption,
+    readHexInput,
+    toJson,
+    UsageError,
+} from '../utils';
+
+const USAGE = `Usage: nick-method mine [options]
+
+Mine an r value for which the deployer or contract address matches a pattern.
+
+Deployment:
+  --bytecode <hex>         Creation bytecode of the contract
+  --bytecode-file <path>   File containing the creation bytecode ("-" for stdin)
+  --gas-limit <amount>     Gas limit of the deployment
+  --gas-price <amount>     Gas price of the deployment (e.g. 100gwei)
+  --value <amount>         Value sent with the deployment (default: 0)
+
+Target:
+  --field <name>           deployer or contract (default: contract)
+  --prefix <hex>           Hex characters the address must start with
+  --suffix <hex>           Hex characters the address must end with
+  --regex <pattern>        Regular expression the address must match
+  --zero-bytes <n>         Number of leading zero bytes
+  --case-sensitive         Match against the checksummed address
+
+Search:
+  --start-r <hex>          First r candidate (default: random)
+  --workers <n>            Number of worker threads (default: number of cores)
+  --max-attempts <n>       Stop after this many attempts
+  --checkpoint <path>      Save progress to this file and resume from it if it exists
+  --json                   Print the result as JSON
+
+Exits with code 3 when the search stops without a match.
+`;
+
+function formatDuration(ms: number | undefined): string {
+    if (ms === undefined) {
+        return 'unknown';
+    }
+    const seconds = Math.round(ms / 1000);
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${hours}h${String(minutes).padStart(2, '0')}m${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+function formatProgress(progress: VanityProgress): string {
+    const probability =
+        progress.probability !== undefined ? `${(progress.probability * 100).toFixed(1)}%` : 'n/a';
+    return (
+        `${progress.attempts} attempts, ${Math.round(progress.rate)}/s, ` +
+        `probability ${probability}, ETA ${formatDuration(progress.etaMs)}\n`
+    );
+}
+
+/**
+ * `nick-method mine`: searches an r value for a vanity deployer or contract address.
+ */
+export async function mine(args: string[], io: CliIO): Promise<number> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            bytecode: { type: 'string' },
+            'bytecode-file': { type: 'string' },
+            'gas-limit': { type: 'string' },
+            'gas-price': { type: 'string' },
+            value: { type: 'string', default: '0' },
+            field: { type: 'string', default: 'contract' },
+            prefix: { type: 'string' },
+            suffix: { type: 'string' },
+            regex: { type: 'string' },
+            'zero-bytes': { type: 'string' },
+            'case-sensitive': { type: 'boolean', default: false },
+            'start-r': { type: 'string' },
+            workers: { type: 'string' },
+            'max-attempts': { type: 'string' },
+            checkpoint: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        io.stdout(USAGE);
+        return ExitCode.Success;
+    }
+
+    if (values.field !== 'deployer' && values.field !== 'contract') {
+        throw new UsageError('--field must be "deployer" or "contract"');
+    }
+
+    const gasLimit = quantityOption('gas-limit', values['gas-limit']);
+    const gasPrice = quantityOption('gas-price', values['gas-price']);
+    const value = quantityOption('value', values.value);
+    const leadingZeroBytes = integerOption('zero-bytes', values['zero-bytes']);
+    const workers = integerOption('workers', values.workers);
+    const maxAttempts = integerOption('max-attempts', values['max-attempts']);
+    const bytecode = await readHexInput(io, 'bytecode', values.bytecode, values['bytecode-file']);
+
+    const checkpointPath = values.checkpoint;
+    let checkpoint: VanityCheckpoint | undefined;
+    if (checkpointPath !== undefined && existsSync(checkpointPath)) {
+        try {
+            checkpoint = JSON.parse(readFileSync(checkpointPath, 'utf8'));
+        } catch (error) {
+            throw new UsageError(`Cannot read ${checkpointPath}: ${(error as Error).message}`);
+        }
+    }
+    const saveCheckpoint = (state: VanityCheckpoint) => {
+        if (checkpointPath !== undefined) {
+            writeFileSync(checkpointPath, `${JSON.stringify(state, null, 4)}\n`);
+        }
+    };
+
+    if (checkpoint !== undefined) {
+        io.stderr(`Resuming from ${checkpointPath} (${checkpoint.attempts} attempts)\n`);
+    }
+
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.once('SIGINT', onInterrupt);
+
+    try {
+        let result: VanityResult;
+        try {
+            result = await mineVanityR(
+                {
+                    gasLimit,
+                    gasPrice,
+                    value,
+                    bytecode,
+                    startR: values['start-r'],
+                    target: {
+                        field: values.field === 'deployer' ? 'deployerAddress' : 'contractAddress',
+                        prefix: values.prefix,
+                        suffix: values.suffix,
+                        regex: values.regex,
+                        leadingZeroBytes,
+                        caseSensitive: values['case-sensitive'],
+                    },
+                },
+                {
+                    workers,
+                    maxAttempts,
+                    checkpoint,
+                    signal: controller.signal,
+                    onProgress: (progress) => {
+                        saveCheckpoint(progress.checkpoint);
+                        io.stderr(formatProgress(progress));
+                    },
+                },
+            );
+        } catch (error) {
+            // A checkpoint edited by hand can hold counters that are not numbers; anything else is
+            // either a typed error carrying its own code or an internal failure
+            if (error instanceof SyntaxError && checkpoint !== undefined) {
+                throw new UsageError(`Invalid checkpoint ${checkpointPath}: ${error.message}`);
+            }
+            throw error;
+        }
+
+        saveCheckpoint(result.checkpoint);
+
+        if (values.json) {
+            io.stdout(toJson(result));
+        }
+
+        if (result.deployment === undefined) {
+            io.stderr(`No match after ${result.attempts} attempts\n`);
+            return ExitCode.NotFound;
+        }
+
+        if (!values.json) {
+            const { deployment } = result;
+            io.stdout(
+                formatTable([
+                    ['r', deployment.r],
+                    ['Deployer address', deployment.deployerAddress],
+                    ['Contract address', deployment.contractAddress],
+                    ['Attempts', String(result.attempts)],
+                    ['Raw transaction', deployment.rawTx],
+                ]),
+            );
+        }
+        return ExitCode.Success;
+    } finally {
+        process.removeListener('SIGINT', onInterrupt);
+    }
+}
@@ -0,0 +1,101 @@
+import { parseArgs } from 'util';
+
+import { isNickMethodError } from '../../errors/errors';
+import { recoverRawTransaction } from '../../recoverRawTransaction/recoverRawTransaction';
+import { RecoveredTransactionResult } from '../../types/rawTransactionConfig';
+import {
+    CliIO,
+    ExitCode,
+    formatTable,
+    formatWei,
+    readHexInput,
+    toJson,
+    UsageError,
+} from '../utils';
+
+const USAGE = `Usage: nick-method recover [rawTx] [options]
+
+Decode a raw legacy or typed (EIP-2930, EIP-1559, EIP-4844) transaction given as argument,
+with --file, or on stdin.
+
+Options:
+  --file <path>            File containing the raw transaction ("-" for stdin)
+  --json                   Print the result as JSON
+`;
+
+/**
+ * `nick-method recover`: decodes the fields of a raw transaction.
+ */
+export async function recover(args: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            file: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        io.stdout(USAGE);
+        return ExitCode.Success;
+    }
+
+    if (positionals.length > 1) {
+        throw new UsageError('Expected a single raw transaction');
+    }
+
+    const rawTx = await readHexInput(io, 'raw transaction', positionals[0], values.file);
+
+    let result: RecoveredTransactionResult;
+    try {
+        result = recoverRawTransaction(rawTx);
+    } catch (error) {
+        if (!isNickMethodError(error)) {
+            throw error;
+        }
+        throw new UsageError(`Cannot decode raw transaction: ${error.message}`);
+    }
+
+    if (values.json) {
+        io.stdout(toJson(result));
+    } else {
+        const feeMarket = 'maxFeePerGas' in result ? result : undefined;
+        const blob = result.type === 'eip4844' ? result : undefined;
+        io.stdout(
+            formatTable([
+                ['Type', result.type],
+                ['Sender', result.senderAddress],
+                ['Contract address', result.contractAddress],
+                ['Hash', result.hash],
+                ['Signing hash', result.signingHash],
+                ['Signature', result.signatureKind],
+                ['Known deployment', result.type === 'legacy' ? result.knownDeployment : undefined],
+                [
+                    'Replay protection',
+                    result.replayProtected ? `chain ${result.chainId}` : 'none (any chain)',
+                ],
+                ['Nonce', result.nonce.toString()],
+                ['Gas price', 'gasPrice' in result ? formatWei(result.gasPrice) : undefined],
+                ['Max priority fee', feeMarket && formatWei(feeMarket.maxPriorityFeePerGas)],
+                ['Max fee', feeMarket && formatWei(feeMarket.maxFeePerGas)],
+                ['Gas limit', result.gasLimit.toString()],
+                ['To', result.to ?? '(contract creation)'],
+                ['Value', formatWei(result.value)],
+                ['Upfront cost', formatWei(result.upfrontCost)],
+                ['Data', result.data],
+                [
+                    'Access list',
+                    result.type !== 'legacy' ? `${result.accessList.length} entries` : undefined,
+                ],
+                ['Max blob fee', blob && formatWei(blob.maxFeePerBlobGas)],
+                ['Blob hashes', blob?.blobVersionedHashes.join(', ')],
+                ['v', result.v],
+                ['r', result.r],
+                ['s', result.s],
+            ]),
+        );
+    }
+    return ExitCode.Success;
+}
@@ -0,0 +1,160 @@
+import { parseArgs } from 'util';
+
+import { BUILTIN_CHAINS } from '../../chains/registry';
+import { isNickMethodError } from '../../errors/errors';
+import { recoverRawTransaction } from '../../recoverRawTransaction/recoverRawTransaction';
+import { checkDeploymentStatus } from '../../status/status';
+import { BroadcastTarget } from '../../types/broadcastConfig';
+import { ChainDeploymentStatus } from '../../types/statusConfig';
+import {
+    CliIO,
+    ExitCode,
+    formatColumns,
+    formatTable,
+    formatWei,
+    integerOption,
+    readHexInput,
+    toJson,
+    UsageError,
+} from '../utils';
+
+const USAGE = `Usage: nick-method status [rawTx] --rpc <chainId>=<url> [options]
+
+Check the state of a keyless deployment on several chains, without sending anything. The raw
+deployment transaction is given as argument, with --file, or on stdin.
+
+States: not-funded, under-funded, ready, deployed, code-mismatch, bricked (the deployer nonce
+is used but there is no code: the address is lost on that chain) and unavailable.
+
+Options:
+  --file <path>            File containing the raw transaction ("-" for stdin)
+  --rpc <chainId>=<url>    JSON-RPC URL of a chain, repeatable (several URLs of a chain fail over)
+  --expected-code <hex>    Runtime code expected at the contract address
+  --timeout <ms>           Time to wait for each chain (default: 10000)
+  --json                   Print the report as JSON
+`;
+
+const UNHEALTHY_STATES = ['code-mismatch', 'bricked', 'unavailable'];
+
+function parseTargets(values: string[]): BroadcastTarget[] {
+    const urls = new Map<number, string[]>();
+    for (const value of values) {
+        const match = /^(\d+)=(.+)$/.exec(value);
+        if (match === null) {
+            throw new UsageError(`--rpc must be <chainId>=<url>, got ${value}`);
+        }
+        const chainId = Number(match[1]);
+        urls.set(chainId, [...(urls.get(chainId) ?? []), match[2]]);
+    }
+    return [...urls].map(([chainId, provider]) => ({ chainId, provider }));
+}
+
+function describeChain(chainId: number): string {
+    const profile = BUILTIN_CHAINS.find((chain) => chain.chainId === chainId);
+    return profile !== undefined ? `${chainId} (${profile.name})` : `${chainId}`;
+}
+
+function describeState(status: ChainDeploymentStatus): string {
+    switch (status.state) {
+        case 'not-funded':
+        case 'under-funded':
+            return `short of ${status.shortfall} wei`;
+        case 'deployed':
+        case 'code-mismatch':
+            return `code hash ${status.codeHash}`;
+        case 'bricked':
+            return 'nonce used without deploying, the address is lost';
+        case 'unavailable':
+            return status.error?.message ?? '';
+        default:
+            return '';
+    }
+}
+
+/**
+ * `nick-method status`: reports the state of a keyless deployment on several chains.
+ */
+export async function status(args: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            file: { type: 'string' },
+            rpc: { type: 'string', multiple: true },
+            'expected-code': { type: 'string' },
+            timeout: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        io.stdout(USAGE);
+        return ExitCode.Success;
+    }
+
+    if (positionals.length > 1) {
+        throw new UsageError('Expected a single raw transaction');
+    }
+    const targets = parseTargets(values.rpc ?? []);
+    if (targets.length === 0) {
+        throw new UsageError('At least one --rpc is required');
+    }
+    const timeout = integerOption('timeout', values.timeout);
+
+    const rawTx = await readHexInput(io, 'raw transaction', positionals[0], values.file);
+    let deployment;
+    try {
+        deployment = recoverRawTransaction(rawTx);
+    } catch (error) {
+        if (!isNickMethodError(error)) {
+            throw error;
+        }
+        throw new UsageError(`Cannot decode raw transaction: ${error.message}`);
+    }
+    const { senderAddress, contractAddress, upfrontCost } = deployment;
+    if (senderAddress === undefined || contractAddress === undefined) {
+        throw new UsageError('The raw transaction is not a signed contract deployment');
+    }
+
+    const report = await checkDeploymentStatus(
+        { deployerAddress: senderAddress, contractAddress, upfrontCost },
+        targets,
+        { expectedCode: values['expected-code'], timeout },
+    );
+
+    if (values.json) {
+        io.stdout(
+            toJson({
+                ...report,
+                chains: report.chains.map(({ error, ...chain }) => ({
+                    ...chain,
+                    error: error?.message,
+                })),
+            }),
+        );
+    } else {
+        io.stdout(
+            formatTable([
+                ['Deployer address', report.deployerAddress],
+                ['Contract address', report.contractAddress],
+                ['Upfront cost', formatWei(report.upfrontCost)],
+            ]) +
+                '\n' +
+                formatColumns([
+                    ['Chain', 'State', 'Balance', 'Nonce', 'Details'],
+                    ...report.chains.map((chain) => [
+                        describeChain(chain.chainId),
+                        chain.state,
+                        chain.balance !== undefined ? `${chain.balance} wei` : '-',
+                        chain.nonce !== undefined ? chain.nonce.toString() : '-',
+                        describeState(chain),
+                    ]),
+                ]),
+        );
+    }
+
+    return report.chains.some(({ state }) => UNHEALTHY_STATES.includes(state))
+        ? ExitCode.Unhealthy
+        : ExitCode.Success;
+}
@@ -0,0 +1,98 @@
+import { parseArgs } from 'util';
+import { isValidChecksumAddress } from '@ethereumjs/util';
+
+import { genRawTransaction } from '../../genRawTransaction/genRawTransaction';
+import {
+    CliIO,
+    ExitCode,
+    formatTable,
+    formatWei,
+    quantityOption,
+    readHexInput,
+    signatureOptions,
+    toJson,
+    UsageError,
+} from '../utils';
+
+const USAGE = `Usage: nick-method tx [options]
+
+Generate a keyless execution transaction. The calldata is read from --data,
+--data-file or stdin.
+
+Options:
+  --to <address>           Checksummed recipient address
+  --data <hex>             Calldata of the transaction
+  --data-file <path>       File containing the calldata ("-" for stdin)
+  --gas-limit <amount>     Gas limit of the transaction
+  --gas-price <amount>     Gas price of the transaction (e.g. 20gwei)
+  --value <amount>         Value sent with the transaction (default: 0)
+  --r <hex>                Custom r value of the signature
+  --s <hex>                Custom s value of the signature
+  --v <27|28>              Custom v value of the signature
+  --json                   Print the result as JSON
+`;
+
+/**
+ * `nick-method tx`: generates a keyless execution transaction.
+ */
+export async function tx(args: string[], io: CliIO): Promise<number> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            to: { type: 'string' },
+            data: { type: 'string' },
+            'data-file': { type: 'string' },
+            'gas-limit': { type: 'string' },
+            'gas-price': { type: 'string' },
+            value: { type: 'string', default: '0' },
+            r: { type: 'string' },
+            s: { type: 'string' },
+            v: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        io.stdout(USAGE);
+        return ExitCode.Success;
+    }
+
+    if (values.to === undefined) {
+        throw new UsageError('--to is required');
+    }
+    if (!isValidChecksumAddress(values.to)) {
+        throw new UsageError('--to must be a checksummed address');
+    }
+
+    const gasLimit = quantityOption('gas-limit', values['gas-limit']);
+    const gasPrice = quantityOption('gas-price', values['gas-price']);
+    const value = quantityOption('value', values.value);
+    const signature = signatureOptions(values);
+    const data = await readHexInput(io, 'data', values.data, values['data-file'], true);
+
+    const result = genRawTransaction({
+        to: values.to,
+        gasLimit,
+        gasPrice,
+        value,
+        data,
+        ...signature,
+    });
+
+    if (values.json) {
+        io.stdout(toJson(result));
+    } else {
+        io.stdout(
+            formatTable([
+                ['Sender address', result.senderAddress],
+                ['Upfront cost', formatWei(result.upfrontCost)],
+                ['v', result.v],
+                ['r', result.r],
+                ['s', result.s],
+                ['Raw transaction', result.rawTx],
+            ]),
+        );
+    }
+    return ExitCode.Success;
+}
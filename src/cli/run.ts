@@ -0,0 +1,94 @@
+import { NickMethodError } from '../errors/errors';
+import { deploy } from './commands/deploy';
+import { mine } from './commands/mine';
+import { recover } from './commands/recover';
+import { status } from './commands/status';
+import { tx } from './commands/tx';
+import { CliIO, Command, ExitCode, UsageError } from './utils';
+
+const COMMANDS: { [name: string]: Command } = {
+    deploy,
+    tx,
+    recover,
+    mine,
+    status,
+};
+
+const USAGE = `Usage: nick-method <command> [options]
+
+Commands:
+  deploy    Generate a keyless deployment transaction
+  tx        Generate a keyless execution transaction
+  recover   Decode a raw transaction
+  mine      Mine an r value for a vanity deployer or contract address
+  status    Check the state of a keyless deployment on several chains
+
+Run "nick-method <command> --help" for the options of a command.
+
+Exit codes:
+  0  success
+  1  internal error
+  2  invalid arguments or inputs
+  3  nothing found (mine)
+  4  deployment bricked, mismatching or unreadable on a chain (status)
+`;
+
+const processIO: CliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    readStdin: async () => {
+        if (process.stdin.isTTY) {
+            throw new UsageError('Expected input on stdin');
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks).toString('utf8');
+    },
+};
+
+function isArgumentError(error: unknown): boolean {
+    const code = (error as { code?: unknown }).code;
+    return (
+        error instanceof UsageError ||
+        (typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS'))
+    );
+}
+
+/**
+ * Runs the `nick-method` command-line tool.
+ *
+ * @param {string[]} argv - The arguments following the executable name.
+ * @param {CliIO} [io] - The input and output streams. Defaults to the process streams.
+ * @returns {Promise<number>} The process exit code, see {@link ExitCode}.
+ */
+export async function run(argv: string[], io: CliIO = processIO): Promise<number> {
+    const [name, ...args] = argv;
+
+    if (name === undefined || name === '--help' || name === '-h') {
+        io.stdout(USAGE);
+        return ExitCode.Success;
+    }
+
+    const command = COMMANDS[name];
+    if (command === undefined) {
+        io.stderr(`Unknown command "${name}"\n\n${USAGE}`);
+        return ExitCode.ValidationError;
+    }
+
+    try {
+        return await command(args, io);
+    } catch (error) {
+        if (error instanceof NickMethodError) {
+            io.stderr(`Error [${error.code}]: ${error.message}\n`);
+            return ExitCode.ValidationError;
+        }
+        if (isArgumentError(error)) {
+            io.stderr(`Error: ${(error as Error).message}\n`);
+            return ExitCode.ValidationError;
+        }
+        io.stderr(`Internal error: ${(error as Error)?.stack ?? String(error)}\n`);
+        return ExitCode.InternalError;
+    }
+}
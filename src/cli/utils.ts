@@ -0,0 +1,193 @@
+import { readFileSync } from 'fs';
+
+import { resolveSignature } from '../signature/signature';
+import { SignatureConfig } from '../types/signatureConfig';
+import { formatUnits, isValidHex, isValidQuantity } from '../utils/utils';
+
+/**
+ * Exit codes of the command-line tool.
+ * - `Success`: the command completed.
+ * - `InternalError`: an unexpected failure, not caused by the provided inputs.
+ * - `ValidationError`: the arguments or inputs are invalid.
+ * - `NotFound`: the command completed without finding what it searched for.
+ * - `Unhealthy`: the command completed and found a deployment bricked, mismatching or unreadable on a chain.
+ */
+export enum ExitCode {
+    Success = 0,
+    InternalError = 1,
+    ValidationError = 2,
+    NotFound = 3,
+    Unhealthy = 4,
+}
+
+/**
+ * Error thrown for invalid arguments or inputs, reported with {@link ExitCode.ValidationError}.
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * Input and output streams used by the command-line tool, injectable for testing.
+ * @property {(text: string) => void} stdout - Writes the command output.
+ * @property {(text: string) => void} stderr - Writes progress and error messages.
+ * @property {() => Promise<string>} readStdin - Reads the whole standard input.
+ */
+export interface CliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    readStdin: () => Promise<string>;
+}
+
+/**
+ * A subcommand of the command-line tool, resolving to the process exit code.
+ */
+export type Command = (args: string[], io: CliIO) => Promise<number>;
+
+/**
+ * Reads a hex input given inline, from a file, or from stdin (when the file is `-` or nothing else is given).
+ * A missing `0x` prefix is added.
+ *
+ * @param {CliIO} io - The streams to read stdin from.
+ * @param {string} label - The name of the input, used in error messages.
+ * @param {string | undefined} inline - The value given on the command line.
+ * @param {string | undefined} file - The path of a file containing the value.
+ * @param {boolean} [allowEmpty] - Whether `0x` is accepted. Defaults to false.
+ * @returns {Promise<string>} The trimmed hex value.
+ *
+ * @throws {UsageError} If the value is given both inline and as a file, if the file cannot be read
+ * or if the value is not valid hex.
+ */
+export async function readHexInput(
+    io: CliIO,
+    label: string,
+    inline: string | undefined,
+    file: string | undefined,
+    allowEmpty = false,
+): Promise<string> {
+    if (inline !== undefined && file !== undefined) {
+        throw new UsageError(`The ${label} cannot be given both inline and as a file`);
+    }
+
+    let value: string;
+    if (inline !== undefined) {
+        value = inline;
+    } else if (file !== undefined && file !== '-') {
+        try {
+            value = readFileSync(file, 'utf8');
+        } catch (error) {
+            throw new UsageError(`Cannot read ${file}: ${(error as Error).message}`);
+        }
+    } else {
+        value = await io.readStdin();
+    }
+
+    value = value.trim();
+    if (!value.startsWith('0x')) {
+        value = `0x${value}`;
+    }
+
+    if (!isValidHex(value) || (value === '0x' && !allowEmpty)) {
+        throw new UsageError(`The ${label} must be a ${allowEmpty ? '' : 'non-empty '}hex string`);
+    }
+    return value;
+}
+
+/**
+ * Returns a required option, validated as a quantity (number, hex, decimal or unit string).
+ *
+ * @throws {UsageError} If the option is missing or is not a valid quantity.
+ */
+export function quantityOption(name: string, value: string | undefined): string {
+    if (value === undefined) {
+        throw new UsageError(`--${name} is required`);
+    }
+    if (!isValidQuantity(value)) {
+        throw new UsageError(`--${name} must be a hex, decimal or unit amount (e.g. 25gwei)`);
+    }
+    return value;
+}
+
+/**
+ * Returns the custom signature values of the --r, --s and --v options, validated.
+ *
+ * @throws {UsageError} If a value is malformed or out of range.
+ */
+export function signatureOptions(values: { r?: string; s?: string; v?: string }): SignatureConfig {
+    if (values.v !== undefined && values.v !== '27' && values.v !== '28') {
+        throw new UsageError('--v must be 27 or 28');
+    }
+    const config: SignatureConfig = {
+        r: values.r,
+        s: values.s,
+        v: values.v !== undefined ? (Number(values.v) as 27 | 28) : undefined,
+    };
+    try {
+        resolveSignature(config);
+    } catch (error) {
+        throw new UsageError(`Invalid signature: ${(error as Error).message}`);
+    }
+    return config;
+}
+
+/**
+ * Returns an optional option, validated as a non-negative integer.
+ *
+ * @throws {UsageError} If the option is not a non-negative integer.
+ */
+export function integerOption(name: string, value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new UsageError(`--${name} must be a non-negative integer`);
+    }
+    return Number(value);
+}
+
+/**
+ * Serializes a result to JSON, with bigint values written as decimal strings.
+ */
+export function toJson(value: unknown): string {
+    return `${JSON.stringify(
+        value,
+        (_, item) => (typeof item === 'bigint' ? item.toString() : item),
+        4,
+    )}\n`;
+}
+
+/**
+ * Formats an amount of wei with its ether equivalent, e.g. `100000000000000000 wei (0.1 ETH)`.
+ */
+export function formatWei(value: bigint): string {
+    return `${value} wei (${formatUnits(value, 18)} ETH)`;
+}
+
+/**
+ * Formats rows of label/value pairs as an aligned two-column table.
+ * Rows with an undefined value are omitted.
+ */
+export function formatTable(rows: [string, string | undefined][]): string {
+    const visible = rows.filter((row): row is [string, string] => row[1] !== undefined);
+    const width = Math.max(...visible.map(([label]) => label.length));
+    return visible.map(([label, value]) => `${label.padEnd(width)}  ${value}\n`).join('');
+}
+
+/**
+ * Formats rows of cells as aligned columns, the first row being the header.
+ */
+export function formatColumns(rows: string[][]): string {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    return rows
+        .map((row) =>
+            row
+                .map((cell, column) => cell.padEnd(widths[column]))
+                .join('  ')
+                .trimEnd(),
+        )
+        .map((line) => `${line}\n`)
+        .join('');
+}
@@ -0,0 +1,199 @@
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+import { getRandomBytesSync } from 'ethereum-cryptography/random.js';
+
+import { create2Address, parseInitcode, parseSalt } from '../addresses/addresses';
+import {
+    bigIntToBytes,
+    bytesToHex,
+    concatBytes,
+    isValidChecksumAddress,
+    setLengthLeft,
+    toChecksumAddress,
+} from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { genRawTransaction } from '../genRawTransaction/genRawTransaction';
+import { createMatcher, validateCount, validateTarget } from '../mineVanityR/vanitySearch';
+import {
+    Create2Config,
+    Create2DeploymentConfig,
+    Create2DeploymentResult,
+    Create2Factory,
+    Create2SaltConfig,
+    Create2SaltOptions,
+    Create2SaltResult,
+} from '../types/create2Config';
+import { GenerationOptions } from '../types/preflightConfig';
+
+const DEFAULT_BATCH_SIZE = 1024;
+
+const SALT_SPACE = BigInt(2) ** BigInt(256);
+
+/**
+ * Arachnid's deterministic deployment proxy, deployed with Nick's method on most EVM chains.
+ * Its runtime code reads a 32-byte salt followed by the initcode from the calldata, deploys the
+ * initcode with CREATE2 and returns the address of the new contract.
+ */
+export const CANONICAL_CREATE2_FACTORY: Create2Factory = {
+    address: '0x4e59b44847b379578588920cA78FbF26c0B4956C',
+    deployerAddress: '0x3fAB184622Dc19b6109349B94811493BF2a45362',
+    deployment: {
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        value: 0,
+        bytecode:
+            '0x604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3',
+        r: '0x2222222222222222222222222222222222222222222222222222222222222222',
+        s: '0x2222222222222222222222222222222222222222222222222222222222222222',
+        v: 27,
+    },
+    rawTx: '0xf8a58085174876e800830186a08080b853604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf31ba02222222222222222222222222222222222222222222222222222222222222222a02222222222222222222222222222222222222222222222222222222222222222',
+};
+
+function parseFactory(factory: string | undefined): string {
+    if (factory === undefined) {
+        return CANONICAL_CREATE2_FACTORY.address;
+    }
+    if (!isValidChecksumAddress(factory)) {
+        throw new NickMethodError(
+            'NON_CHECKSUM_ADDRESS',
+            'Invalid or non-checksummed address provided for "factory"',
+            { field: 'factory' },
+        );
+    }
+    return factory;
+}
+
+/**
+ * Builds the calldata of a call to a CREATE2 factory: the 32-byte salt followed by the initcode.
+ *
+ * @param {string} salt - The salt, as a hex string of up to 32 bytes.
+ * @param {string} initcode - The creation code of the contract to be deployed.
+ * @returns {string} The calldata as a hexadecimal string.
+ *
+ * @throws {NickMethodError} If the salt or the initcode is not valid hex (`INVALID_HEX`).
+ */
+export function encodeCreate2Calldata(salt: string, initcode: string): string {
+    return bytesToHex(concatBytes(parseSalt(salt, 'salt'), parseInitcode(initcode)));
+}
+
+/**
+ * Computes the address of a contract deployed through a CREATE2 factory.
+ *
+ * @param {Create2Config} config - The salt, the initcode and the factory.
+ * @param {string} config.salt - The salt, as a hex string of up to 32 bytes.
+ * @param {string} config.initcode - The creation code of the contract to be deployed.
+ * @param {string} [config.factory] - The checksummed address of the factory. Defaults to the canonical factory.
+ * @returns {string} The checksummed address of the contract.
+ *
+ * @throws {NickMethodError} If the salt or the initcode is not valid hex (`INVALID_HEX`), or if the factory
+ * is not a checksummed address (`NON_CHECKSUM_ADDRESS`).
+ */
+export function computeCreate2Address(config: Create2Config): string {
+    const factory = parseFactory(config.factory);
+    const salt = parseSalt(config.salt, 'salt');
+    const initcodeHash = keccak256(parseInitcode(config.initcode));
+    return toChecksumAddress(bytesToHex(create2Address(factory, salt, initcodeHash)));
+}
+
+/**
+ * Generates a signed raw transaction deploying a contract through a CREATE2 factory, with Nick's method.
+ *
+ * The factory, the canonical one by default, must already be deployed on the target chain. The sender
+ * needs to be funded with enough value to cover the gas cost of the transaction and the value being sent.
+ *
+ * @param {Create2DeploymentConfig} config - The transaction configuration, without `to` and `data`,
+ * along with the salt, the initcode and the factory.
+ * @param {GenerationOptions} [options] - Generation options, passed to `genRawTransaction`.
+ * @returns {Create2DeploymentResult} The signed raw transaction, with the factory and contract addresses,
+ * the padded salt and the calldata.
+ *
+ * @throws {NickMethodError} If the salt, the initcode or the factory is invalid, or for any error
+ * of `genRawTransaction`.
+ * @throws {PreflightError} If the preflight check is requested and reports errors.
+ */
+export function genCreate2Deployment(
+    config: Create2DeploymentConfig,
+    options: GenerationOptions = {},
+): Create2DeploymentResult {
+    const { salt, initcode, factory, ...transactionConfig } = config;
+    const factoryAddress = parseFactory(factory);
+    const calldata = encodeCreate2Calldata(salt, initcode);
+
+    const transaction = genRawTransaction(
+        { ...transactionConfig, to: factoryAddress, data: calldata },
+        options,
+    );
+
+    return {
+        ...transaction,
+        factoryAddress,
+        contractAddress: computeCreate2Address({ salt, initcode, factory: factoryAddress }),
+        salt: calldata.slice(0, 66),
+        calldata,
+    };
+}
+
+/**
+ * Mines a salt for which the CREATE2 address of a contract matches a vanity pattern
+ * (prefix, suffix, regex and/or leading zero bytes).
+ *
+ * Candidates are consecutive salts starting from `startSalt`. The search runs in the calling thread
+ * and yields to the event loop between batches, so that it can be aborted.
+ *
+ * @param {Create2SaltConfig} config - The initcode, the factory and the vanity target.
+ * @param {string} config.initcode - The creation code of the contract to be deployed.
+ * @param {string} [config.factory] - The checksummed address of the factory. Defaults to the canonical factory.
+ * @param {Omit<VanityTarget, 'field'>} config.target - The contract address pattern to search for.
+ * @param {string} [config.startSalt] - The first salt to try. Defaults to a random value.
+ * @param {Create2SaltOptions} [options] - Runtime options (maximum attempts, cancellation).
+ *
+ * @returns {Promise<Create2SaltResult>} The matching salt and contract address, or no salt if the search
+ * was aborted or `maxAttempts` was reached.
+ *
+ * @throws {NickMethodError} If the initcode, the factory, the start salt, the target or the batch size is invalid.
+ */
+export async function mineCreate2Salt(
+    config: Create2SaltConfig,
+    options: Create2SaltOptions = {},
+): Promise<Create2SaltResult> {
+    validateTarget({ ...config.target, field: 'contractAddress' });
+    validateCount('batchSize', options.batchSize, 1);
+    const factory = parseFactory(config.factory);
+    const initcodeHash = keccak256(parseInitcode(config.initcode));
+    const start = BigInt(
+        bytesToHex(
+            config.startSalt !== undefined
+                ? parseSalt(config.startSalt, 'startSalt')
+                : getRandomBytesSync(32),
+        ),
+    );
+
+    const matches = createMatcher({ ...config.target, field: 'contractAddress' });
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    let attempts = 0;
+
+    const shouldStop = () =>
+        options.signal?.aborted === true ||
+        (options.maxAttempts !== undefined && attempts >= options.maxAttempts);
+
+    while (!shouldStop()) {
+        for (let i = 0; i < batchSize && !shouldStop(); i++) {
+            const salt = setLengthLeft(bigIntToBytes((start + BigInt(attempts)) % SALT_SPACE), 32);
+            attempts++;
+
+            const address = create2Address(factory, salt, initcodeHash);
+            if (matches(address)) {
+                return {
+                    salt: bytesToHex(salt),
+                    contractAddress: toChecksumAddress(bytesToHex(address)),
+                    attempts,
+                };
+            }
+        }
+
+        // Yield to the event loop so that abort signals and timers are processed
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    return { salt: undefined, contractAddress: undefined, attempts };
+}
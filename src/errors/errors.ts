@@ -0,0 +1,35 @@
+import { NickMethodErrorCode, NickMethodErrorOptions } from '../types/errorConfig';
+
+/**
+ * Base class of the errors thrown by the library.
+ *
+ * The `code` is stable across releases and the `field` names the configuration field or argument at
+ * fault, so callers can react to errors without matching on their message.
+ */
+export class NickMethodError extends Error {
+    readonly code: NickMethodErrorCode;
+    readonly field: string | undefined;
+    readonly cause: unknown;
+
+    constructor(code: NickMethodErrorCode, message: string, options: NickMethodErrorOptions = {}) {
+        super(message);
+        this.name = 'NickMethodError';
+        this.code = code;
+        this.field = options.field;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * Tells whether a value is a `NickMethodError`, optionally with a given code.
+ *
+ * @param {unknown} error - The value to check, typically a caught error.
+ * @param {NickMethodErrorCode} [code] - The code the error must have.
+ * @returns {boolean} True if the value is a `NickMethodError` with the given code, if any.
+ */
+export function isNickMethodError(
+    error: unknown,
+    code?: NickMethodErrorCode,
+): error is NickMethodError {
+    return error instanceof NickMethodError && (code === undefined || error.code === code);
+}
@@ -0,0 +1,347 @@
+import { RLP } from '@ethereumjs/rlp';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+import { getPublicKey, signSync, utils } from 'ethereum-cryptography/secp256k1.js';
+
+import { createJsonRpcProvider } from '../broadcast/jsonRpcProvider';
+import {
+    bigIntToBytes,
+    bytesToBigInt,
+    bytesToHex,
+    hexToBytes,
+    isValidChecksumAddress,
+    toChecksumAddress,
+} from '../bytes/bytes';
+import { BUILTIN_CHAINS } from '../chains/registry';
+import { NickMethodError } from '../errors/errors';
+import {
+    legacySigningHash,
+    LegacyTransactionFields,
+    typedPayload,
+} from '../transaction/transaction';
+import { DeploymentResult } from '../types/deploymentConfig';
+import {
+    FundingPlan,
+    FundingPlanEntry,
+    FundingPlanOptions,
+    FundingTarget,
+    FundingTransaction,
+    FundingTransactionOptions,
+    FundingTransactionParams,
+} from '../types/fundingConfig';
+import { TransactionResult } from '../types/transactionConfig';
+import { formatUnits, isValidQuantity, parseQuantity } from '../utils/utils';
+import { decryptKeystore } from './keystore';
+
+const TRANSFER_GAS = BigInt(21000);
+
+/**
+ * Funding transaction before signing, with the hash its signer signs.
+ */
+interface UnsignedFunding {
+    type: 'legacy' | 'eip1559';
+    unsignedTx: Uint8Array;
+    signingHash: Uint8Array;
+    /** Serializes the transaction with a signature over `signingHash`. */
+    serialize(recovery: number, r: Uint8Array, s: Uint8Array): Uint8Array;
+}
+
+type KeylessResult =
+    | Pick<DeploymentResult, 'deployerAddress' | 'upfrontCost'>
+    | Pick<TransactionResult, 'senderAddress' | 'upfrontCost'>;
+
+/**
+ * Plans the funding of the keyless sender of a deployment or transaction across chains.
+ *
+ * The upfront cost is the same amount of wei on every chain, but is expressed in the native currency of each
+ * one. When a balance is given, or read through a provider, only the missing part needs to be sent. A provider
+ * that fails leaves the balance unknown and records the error on the entry, without failing the whole plan.
+ *
+ * @param {KeylessResult} result - The output of `genRawDeployment` or `genRawTransaction`.
+ * @param {FundingTarget[]} targets - The chains to fund the sender on.
+ * @param {FundingPlanOptions} [options] - The chain registry and the options of the providers created from URLs.
+ * @returns {Promise<FundingPlan>} The amount to send on each chain, in the given order.
+ *
+ * @throws {NickMethodError} If a chain is unknown and has no `nativeCurrency` (`INVALID_OPTION`), or if a
+ * balance is not a valid quantity (`INVALID_QUANTITY`).
+ */
+export async function planFunding(
+    result: KeylessResult,
+    targets: FundingTarget[],
+    options: FundingPlanOptions = {},
+): Promise<FundingPlan> {
+    const address = 'deployerAddress' in result ? result.deployerAddress : result.senderAddress;
+    const { upfrontCost } = result;
+    const registry =
+        options.registry ?? new Map(BUILTIN_CHAINS.map((profile) => [profile.chainId, profile]));
+
+    // Validate every target before reading any balance
+    const chains = targets.map((target) => {
+        const nativeCurrency =
+            target.nativeCurrency ?? registry.get(target.chainId)?.nativeCurrency;
+        if (nativeCurrency === undefined) {
+            throw new NickMethodError(
+                'INVALID_OPTION',
+                `Unknown chain ${target.chainId}: provide its nativeCurrency`,
+                { field: 'nativeCurrency' },
+            );
+        }
+        if (target.balance !== undefined && !isValidQuantity(target.balance)) {
+            throw new NickMethodError(
+                'INVALID_QUANTITY',
+                `Invalid balance for chain ${target.chainId}: not a valid quantity`,
+                { field: 'balance' },
+            );
+        }
+        return { target, nativeCurrency };
+    });
+
+    const entries = await Promise.all(
+        chains.map(async ({ target, nativeCurrency }): Promise<FundingPlanEntry> => {
+            let balance: bigint | undefined;
+            let error: Error | undefined;
+
+            if (target.balance !== undefined) {
+                balance = parseQuantity(target.balance);
+            } else if (target.provider !== undefined) {
+                const provider = Array.isArray(target.provider)
+                    ? createJsonRpcProvider(target.provider, options.rpc)
+                    : target.provider;
+                try {
+                    balance = await provider.getBalance(address);
+                } catch (cause) {
+                    error = cause instanceof Error ? cause : new Error(String(cause));
+                }
+            }
+
+            const amount =
+                balance === undefined
+                    ? upfrontCost
+                    : balance >= upfrontCost
+                      ? BigInt(0)
+                      : upfrontCost - balance;
+
+            return {
+                chainId: target.chainId,
+                nativeCurrency,
+                required: upfrontCost,
+                balance,
+                amount,
+                formattedAmount: `${formatUnits(amount, nativeCurrency.decimals)} ${nativeCurrency.symbol}`,
+                funded: balance === undefined ? undefined : balance >= upfrontCost,
+                ...(error !== undefined && { error }),
+            };
+        }),
+    );
+
+    return { address, upfrontCost, entries };
+}
+
+async function resolvePrivateKey(
+    options: FundingTransactionOptions,
+): Promise<Uint8Array | undefined> {
+    if (options.privateKey !== undefined && options.keystore !== undefined) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Provide either privateKey or keystore, but not both',
+            { field: 'privateKey' },
+        );
+    }
+
+    const hex =
+        options.keystore !== undefined
+            ? await decryptKeystore(options.keystore.keystore, options.keystore.password)
+            : options.privateKey;
+    if (hex === undefined) {
+        return undefined;
+    }
+
+    const key = /^(0x)?[0-9a-fA-F]{64}$/.test(hex) ? hexToBytes(hex) : undefined;
+    if (key === undefined || !utils.isValidPrivateKey(key)) {
+        throw new NickMethodError('INVALID_OPTION', 'Invalid private key', { field: 'privateKey' });
+    }
+    const address = keccak256(getPublicKey(key).subarray(1)).subarray(12);
+    if (toChecksumAddress(bytesToHex(address)) !== options.from) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            `The private key does not belong to the funder ${options.from}`,
+            { field: 'privateKey' },
+        );
+    }
+    return key;
+}
+
+function parseParam(
+    params: FundingTransactionParams,
+    field: keyof FundingTransactionParams,
+): bigint {
+    const value = params[field] as FundingTransactionParams['nonce'];
+    if (!isValidQuantity(value)) {
+        throw new NickMethodError(
+            'INVALID_QUANTITY',
+            `Invalid funding transaction for chain ${params.chainId}: ${field} is not a valid quantity`,
+            { field },
+        );
+    }
+    return parseQuantity(value);
+}
+
+function buildTransaction(
+    entry: FundingPlanEntry,
+    to: string,
+    params: FundingTransactionParams,
+): UnsignedFunding {
+    const chainId = BigInt(entry.chainId);
+    const nonce = parseParam(params, 'nonce');
+    const gasLimit = params.gasLimit !== undefined ? parseParam(params, 'gasLimit') : TRANSFER_GAS;
+
+    if (params.gasPrice !== undefined) {
+        if (params.maxFeePerGas !== undefined || params.maxPriorityFeePerGas !== undefined) {
+            throw new NickMethodError(
+                'INVALID_OPTION',
+                `Invalid funding transaction for chain ${params.chainId}: provide either gasPrice, or maxFeePerGas and maxPriorityFeePerGas`,
+                { field: 'gasPrice' },
+            );
+        }
+        const fields: LegacyTransactionFields = {
+            nonce,
+            gasPrice: parseParam(params, 'gasPrice'),
+            gasLimit,
+            to: hexToBytes(to),
+            value: entry.amount,
+            data: new Uint8Array(0),
+        };
+        const values = [
+            bigIntToBytes(fields.nonce),
+            bigIntToBytes(fields.gasPrice),
+            bigIntToBytes(fields.gasLimit),
+            fields.to,
+            bigIntToBytes(fields.value),
+            fields.data,
+        ];
+        // EIP-155: the chain id and two empty values stand in for the signature while signing
+        return {
+            type: 'legacy',
+            unsignedTx: RLP.encode([
+                ...values,
+                bigIntToBytes(chainId),
+                new Uint8Array(0),
+                new Uint8Array(0),
+            ]),
+            signingHash: legacySigningHash(fields, chainId),
+            serialize: (recovery, r, s) =>
+                RLP.encode([
+                    ...values,
+                    bigIntToBytes(BigInt(35 + recovery) + chainId * BigInt(2)),
+                    r,
+                    s,
+                ]),
+        };
+    }
+
+    for (const field of ['maxFeePerGas', 'maxPriorityFeePerGas'] as const) {
+        if (params[field] === undefined) {
+            throw new NickMethodError(
+                'MISSING_FIELD',
+                `Invalid funding transaction for chain ${params.chainId}: gasPrice or ${field} is required`,
+                { field },
+            );
+        }
+    }
+    const values = [
+        bigIntToBytes(chainId),
+        bigIntToBytes(nonce),
+        bigIntToBytes(parseParam(params, 'maxPriorityFeePerGas')),
+        bigIntToBytes(parseParam(params, 'maxFeePerGas')),
+        bigIntToBytes(gasLimit),
+        hexToBytes(to),
+        bigIntToBytes(entry.amount),
+        new Uint8Array(0),
+        [],
+    ];
+    const unsignedTx = typedPayload(2, RLP.encode(values));
+    return {
+        type: 'eip1559',
+        unsignedTx,
+        signingHash: keccak256(unsignedTx),
+        serialize: (recovery, r, s) =>
+            typedPayload(2, RLP.encode([...values, bigIntToBytes(BigInt(recovery)), r, s])),
+    };
+}
+
+/**
+ * Builds the transactions funding the keyless sender of a funding plan, from a funder address.
+ *
+ * Unlike keyless transactions, funding transactions are replay-protected: legacy ones are signed with
+ * EIP-155 and EIP-1559 ones include the chain id. Chains whose sender is already funded are skipped.
+ * With a `privateKey` or a `keystore`, the transactions are signed offline; otherwise they are left
+ * unsigned, to be signed by an external wallet from the `unsignedTx` or `signingHash`.
+ *
+ * @param {FundingPlan} plan - The funding plan, as returned by `planFunding`.
+ * @param {FundingTransactionParams[]} params - The nonce and fees of the funder on each chain to fund.
+ * @param {FundingTransactionOptions} options - The funder address and its optional signing key.
+ * @returns {Promise<FundingTransaction[]>} The funding transactions, in the order of the plan.
+ *
+ * @throws {NickMethodError} If the funder is not a checksummed address (`NON_CHECKSUM_ADDRESS`), if a chain
+ * to fund lacks its parameters or fees (`MISSING_FIELD`), if a parameter is invalid (`INVALID_QUANTITY`,
+ * `INVALID_OPTION`), if the key does not belong to the funder (`INVALID_OPTION`), or if the keystore cannot be
+ * decrypted (`INVALID_KEYSTORE`).
+ */
+export async function buildFundingTransactions(
+    plan: FundingPlan,
+    params: FundingTransactionParams[],
+    options: FundingTransactionOptions,
+): Promise<FundingTransaction[]> {
+    if (!isValidChecksumAddress(options?.from)) {
+        throw new NickMethodError(
+            'NON_CHECKSUM_ADDRESS',
+            'Invalid or non-checksummed address provided for "from"',
+            { field: 'from' },
+        );
+    }
+    const to = toChecksumAddress(plan.address);
+
+    const transactions = plan.entries
+        .filter((entry) => entry.amount > BigInt(0))
+        .map((entry) => {
+            const chainParams = params.find((candidate) => candidate.chainId === entry.chainId);
+            if (chainParams === undefined) {
+                throw new NickMethodError(
+                    'MISSING_FIELD',
+                    `Missing funding transaction parameters for chain ${entry.chainId}`,
+                    { field: 'params' },
+                );
+            }
+            return { entry, tx: buildTransaction(entry, to, chainParams) };
+        });
+
+    const privateKey = await resolvePrivateKey(options);
+
+    return transactions.map(({ entry, tx }): FundingTransaction => {
+        const result: FundingTransaction = {
+            chainId: entry.chainId,
+            type: tx.type,
+            from: options.from,
+            to,
+            value: entry.amount,
+            unsignedTx: bytesToHex(tx.unsignedTx),
+            signingHash: bytesToHex(tx.signingHash),
+        };
+        if (privateKey === undefined) {
+            return result;
+        }
+
+        const [signature, recovery] = signSync(tx.signingHash, privateKey, {
+            recovered: true,
+            der: false,
+        });
+        // Quantities are encoded without leading zeros
+        const r = bigIntToBytes(bytesToBigInt(signature.subarray(0, 32)));
+        const s = bigIntToBytes(bytesToBigInt(signature.subarray(32, 64)));
+        const rawTx = tx.serialize(recovery, r, s);
+        return {
+            ...result,
+            rawTx: bytesToHex(rawTx),
+            hash: bytesToHex(keccak256(rawTx)),
+        };
+    });
+}
@@ -0,0 +1,103 @@
+import { decrypt } from 'ethereum-cryptography/aes.js';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+import { pbkdf2 } from 'ethereum-cryptography/pbkdf2.js';
+import { scrypt } from 'ethereum-cryptography/scrypt.js';
+
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { Keystore } from '../types/fundingConfig';
+
+function invalidKeystore(message: string, cause?: unknown): NickMethodError {
+    return new NickMethodError('INVALID_KEYSTORE', message, { field: 'keystore', cause });
+}
+
+function hexParam(params: Record<string, unknown>, name: string): Uint8Array {
+    const value = params[name];
+    if (typeof value !== 'string' || !/^(0x)?([0-9a-fA-F]{2})*$/.test(value)) {
+        throw invalidKeystore(`Invalid keystore: ${name} is not a hex string`);
+    }
+    return hexToBytes(value);
+}
+
+function numberParam(params: Record<string, unknown>, name: string): number {
+    const value = params[name];
+    if (typeof value !== 'number' || !Number.isSafeInteger(value) || value <= 0) {
+        throw invalidKeystore(`Invalid keystore: ${name} is not a positive integer`);
+    }
+    return value;
+}
+
+async function deriveKey(keystore: Keystore, password: Uint8Array): Promise<Uint8Array> {
+    const { kdf, kdfparams } = keystore.crypto;
+    const salt = hexParam(kdfparams, 'salt');
+    const dklen = numberParam(kdfparams, 'dklen');
+
+    if (kdf === 'scrypt') {
+        const [n, r, p] = ['n', 'r', 'p'].map((name) => numberParam(kdfparams, name));
+        return scrypt(password, salt, n, p, r, dklen);
+    }
+    if (kdf === 'pbkdf2') {
+        if (kdfparams.prf !== 'hmac-sha256') {
+            throw invalidKeystore(`Unsupported keystore pbkdf2 prf "${kdfparams.prf}"`);
+        }
+        return pbkdf2(password, salt, numberParam(kdfparams, 'c'), dklen, 'sha256');
+    }
+    throw invalidKeystore(`Unsupported keystore kdf "${kdf}"`);
+}
+
+/**
+ * Decrypts a Web3 Secret Storage (version 3) keystore with the scrypt or pbkdf2 key derivation.
+ *
+ * @param {Keystore | string} keystore - The keystore, as an object or a JSON string.
+ * @param {string} password - The password of the keystore.
+ * @returns {Promise<string>} The private key as a hexadecimal string.
+ *
+ * @throws {NickMethodError} If the keystore is malformed or uses an unsupported algorithm, or if the
+ * password is wrong (`INVALID_KEYSTORE`).
+ */
+export async function decryptKeystore(
+    keystore: Keystore | string,
+    password: string,
+): Promise<string> {
+    let parsed: Keystore;
+    try {
+        parsed = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+    } catch (error) {
+        throw invalidKeystore('Invalid keystore: not valid JSON', error);
+    }
+
+    // Some tools write `Crypto` instead of `crypto`
+    const crypto = parsed?.crypto ?? (parsed as unknown as { Crypto?: Keystore['crypto'] })?.Crypto;
+    if (parsed?.version !== 3 || typeof crypto !== 'object' || crypto === null) {
+        throw invalidKeystore('Invalid keystore: only version 3 keystores are supported');
+    }
+    if (crypto.cipher !== 'aes-128-ctr') {
+        throw invalidKeystore(`Unsupported keystore cipher "${crypto.cipher}"`);
+    }
+    if (typeof crypto.kdfparams !== 'object' || crypto.kdfparams === null) {
+        throw invalidKeystore('Invalid keystore: missing kdfparams');
+    }
+
+    const ciphertext = hexParam(crypto as unknown as Record<string, unknown>, 'ciphertext');
+    const mac = hexParam(crypto as unknown as Record<string, unknown>, 'mac');
+    const iv = hexParam((crypto.cipherparams ?? {}) as Record<string, unknown>, 'iv');
+
+    const derivedKey = await deriveKey({ ...parsed, crypto }, utf8ToBytes(password));
+    if (derivedKey.length < 32) {
+        throw invalidKeystore('Invalid keystore: dklen must be at least 32');
+    }
+
+    const expectedMac = keccak256(concatBytes(derivedKey.subarray(16, 32), ciphertext));
+    if (bytesToHex(expectedMac) !== bytesToHex(mac)) {
+        throw invalidKeystore('Cannot decrypt keystore: wrong password');
+    }
+
+    const privateKey = await decrypt(
+        ciphertext,
+        derivedKey.subarray(0, 16),
+        iv,
+        'aes-128-ctr',
+        false,
+    );
+    return bytesToHex(privateKey);
+}
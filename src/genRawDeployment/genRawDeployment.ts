@@ -1,34 +1,14 @@
 import { DeploymentConfig, DeploymentResult } from '../types/deploymentConfig';
-import { Transaction } from '@ethereumjs/tx';
-import {
-    isValidChecksumAddress,
-    toChecksumAddress,
-    toBuffer,
-    generateAddress,
-} from '@ethereumjs/util';
 
-import { isValidHex } from '../utils/utils';
-
-/**
- * @dev Hardcoded `v` value for the transaction signature.
- * This is equivalent to 27, which is the `v` value not containing the chainId.
- * Using this value enables non-protected transactions according to EIP-155.
- */
-const HARDCODED_V = '0x1b';
-
-/**
- * @dev Hardcoded `r` value for the transaction signature.
- * This is a dummy value designed to produce a signature that is
- * extremely unlikely to be relevant for a controlled address.
- */
-const HARDCODED_R = '0x1212121212121212121212121212121212121212121212121212121212121212';
-
-/**
- * @dev Hardcoded `s` value for the transaction signature.
- * This is a dummy value designed to produce a signature that is
- * extremely unlikely to be relevant for a controlled address.
- */
-const HARDCODED_S = '0x1212121212121212121212121212121212121212121212121212121212121212';
+import { resolveDeploymentBytecode } from '../abi/abi';
+import { computeCreateAddress } from '../addresses/addresses';
+import { hexToBytes } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { runPreflight } from '../preflight/preflight';
+import { resolveSignature } from '../signature/signature';
+import { signKeylessTransaction } from '../transaction/transaction';
+import { GenerationOptions } from '../types/preflightConfig';
+import { isValidHex, isValidQuantity, parseQuantity } from '../utils/utils';
 
 /**
  * Generates a signed raw deployment transaction ready to be broadcasted to the network to deploy
@@ -43,103 +23,109 @@ const HARDCODED_S = '0x121212121212121212121212121212121212121212121212121212121
  * The optional r value needs to be valid r value. If provided, it allows generation of different contract and deployer addresses.
  * which is helpful to choose a vanity address for the contract to be deployed and the deployer address.
  *
- * Valid 'r' values must be non-zero and less than the curve order (secp256k1 in Ethereum's case).
+ * Valid 'r' values must be non-zero, less than the curve order (secp256k1 in Ethereum's case) and the
+ * x-coordinate of a point on the curve. The optional s and v values can be set as well, s must be in the
+ * lower half of the curve order (EIP-2) and v must be 27 or 28.
  *
  * @param {DeploymentConfig} config - The deployment configuration object.
- * @param {number|string} config.gasLimit - The gas limit for the transaction either as number or hex.
- * @param {number|string} config.gasPrice - The gas price for the transaction either as number or hex.
+ * @param {Quantity} config.gasLimit - The gas limit for the transaction as number, bigint, hex or decimal string.
+ * @param {Quantity} config.gasPrice - The gas price for the transaction as number, bigint, hex, decimal
+ * or unit string (e.g. '25 gwei').
  * @param {string} config.bytecode - The bytecode of the contract to be deployed.
- * @param {number|string} config.value - The amount of native token in wei to send with the transaction
- * either as number or hex.
+ * @param {Abi} [config.abi] - Optional ABI of the contract, to append the ABI-encoded constructor `args`.
+ * @param {readonly unknown[]} [config.args] - Optional constructor arguments, validated against the ABI.
+ * @param {Quantity} config.value - The amount of native token to send with the transaction as number,
+ * bigint, hex, decimal (wei) or unit string (e.g. '0.1 ether').
  * @param {string} [config.r] - Optional r value for the transaction signature.
  * If provided, it allows generation of different contract and deployer addresses.
- *
+ * @param {string} [config.s] - Optional s value for the transaction signature.
+ * @param {27 | 28} [config.v] - Optional v value for the transaction signature.
+ * @param {GenerationOptions} [options] - Generation options.
+ * @param {boolean | PreflightOptions} [options.preflight] - Runs `preflight` on the configuration first.
  *
  * @returns {DeploymentResult} An object containing the signed raw transaction and other deployment details.
  * @property {string} rawTx - The raw transaction data as a hexadecimal string.
  * @property {string} deployerAddress - The address of the account deploying the contract.
  * @property {string} contractAddress - The address where the contract will be deployed.
- * @property {number} UpfrontCost - The upfront cost of the transaction in wei.
+ * @property {bigint} upfrontCost - The exact upfront cost of the transaction in wei.
  * @property {string} r - The r value of the transaction signature.
  * @property {string} s - The s value of the transaction signature.
  * @property {string} v - The v value of the transaction signature.
  *
- * @throws {Error} If any required parameter is missing or if hex values are invalid.
+ * @throws {NickMethodError} If any required parameter is missing (`MISSING_FIELD`), if hex values or
+ * quantities are invalid or exceed 256 bits (`INVALID_HEX`, `INVALID_QUANTITY`), if the ABI or the constructor arguments are
+ * invalid (`INVALID_ABI`, `INVALID_ARGUMENTS`), or if the signature values are out of range
+ * (`INVALID_SIGNATURE`). The `field` property names the offending field.
+ * @throws {PreflightError} If the preflight check is requested and reports errors.
  */
-export function genRawDeployment(config: DeploymentConfig): DeploymentResult {
+export function genRawDeployment(
+    config: DeploymentConfig,
+    options: GenerationOptions = {},
+): DeploymentResult {
     // Validate parameters
-    if (!config.gasLimit || !config.gasPrice || !config.bytecode || config.value === undefined) {
-        throw new Error('All parameters (gasLimit, gasPrice, bytecode, value) are required');
+    for (const field of ['gasLimit', 'gasPrice', 'bytecode', 'value'] as const) {
+        if (field === 'value' ? config.value === undefined : !config[field]) {
+            throw new NickMethodError(
+                'MISSING_FIELD',
+                `All parameters (gasLimit, gasPrice, bytecode, value) are required: ${field} is missing`,
+                { field },
+            );
+        }
     }
 
-    if (config.r && !isValidHex(config.r)) {
-        throw new Error('Invalid hex value for customR');
+    // Validate quantities and hex values
+    for (const field of ['gasPrice', 'gasLimit', 'value'] as const) {
+        if (!isValidQuantity(config[field])) {
+            throw new NickMethodError(
+                'INVALID_QUANTITY',
+                `Invalid hex values in config: ${field} is not a valid quantity`,
+                { field },
+            );
+        }
     }
-
-    const r = config.r || HARDCODED_R;
-
-    // Convert and validate hex values
-    const gasPrice =
-        typeof config.gasPrice === 'number' ? `0x${config.gasPrice.toString(16)}` : config.gasPrice;
-    const gasLimit =
-        typeof config.gasLimit === 'number' ? `0x${config.gasLimit.toString(16)}` : config.gasLimit;
-    const value =
-        typeof config.value === 'number' ? `0x${config.value.toString(16)}` : config.value;
-
-    if (
-        !isValidHex(gasPrice) ||
-        !isValidHex(gasLimit) ||
-        !isValidHex(value) ||
-        !isValidHex(config.bytecode)
-    ) {
-        throw new Error('Invalid hex values in config');
+    if (!isValidHex(config.bytecode)) {
+        throw new NickMethodError(
+            'INVALID_HEX',
+            'Invalid hex values in config: bytecode is not a valid hex string',
+            { field: 'bytecode' },
+        );
     }
 
-    // Construct txParams with hardcoded values for r, s, and v
-    const txParams = {
-        nonce: '0x00', // Assuming nonce is always 0 for contract deployment
-        gasPrice,
-        gasLimit,
-        value,
-        data: config.bytecode,
-        v: HARDCODED_V, // Hardcoded v value
-        r,
-        s: HARDCODED_S, // Hardcoded s value
-    };
+    // Append the constructor arguments, validating them before any address is derived
+    const bytecode = resolveDeploymentBytecode(config);
 
-    // Create transaction
-    const tx = Transaction.fromTxData(txParams);
+    // Validate the signature parameters, falling back to the hardcoded ones
+    const { r, s, v } = resolveSignature(config);
 
-    // Serialize the transaction
-    const serializedTx = tx.serialize().toString('hex');
+    // Opt-in check that the transaction can ever be mined
+    runPreflight({ ...config, bytecode, abi: undefined, args: undefined }, options);
 
-    // Get sender address
-    let addressRecovered = tx.getSenderAddress().toString();
+    // Convert quantities to exact bigint values
+    const gasPrice = parseQuantity(config.gasPrice);
+    const gasLimit = parseQuantity(config.gasLimit);
+    const value = parseQuantity(config.value);
 
-    if (!isValidChecksumAddress(addressRecovered)) {
-        addressRecovered = toChecksumAddress(addressRecovered);
-    }
+    // Sign the transaction with the keyless signature values
+    const nonce = BigInt(0); // Assuming nonce is always 0 for contract deployment
+    const { rawTx, senderAddress } = signKeylessTransaction(
+        { nonce, gasPrice, gasLimit, to: new Uint8Array(0), value, data: hexToBytes(bytecode) },
+        { r, s, v },
+    );
 
     // Calculate contract address
-    const addressBuffer = toBuffer(addressRecovered);
-    const nonceBuffer = toBuffer(txParams.nonce);
-
-    let contractAddress = `0x${generateAddress(addressBuffer, nonceBuffer).toString('hex')}`;
-    if (!isValidChecksumAddress(contractAddress)) {
-        contractAddress = toChecksumAddress(contractAddress);
-    }
+    const contractAddress = computeCreateAddress(senderAddress, nonce);
 
     // Calculate UpfrontCost
-    const upfrontCost = Number(tx.getUpfrontCost().toString());
+    const upfrontCost = gasLimit * gasPrice + value;
 
     // Construct and return result
     return {
-        rawTx: `0x${serializedTx}`,
-        deployerAddress: addressRecovered,
-        contractAddress: contractAddress,
+        rawTx,
+        deployerAddress: senderAddress,
+        contractAddress,
         upfrontCost,
-        r: txParams.r,
-        s: txParams.s,
-        v: txParams.v,
+        r,
+        s,
+        v,
     };
 }
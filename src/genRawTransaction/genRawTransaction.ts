@@ -1,29 +1,13 @@
 import { TransactionConfig, TransactionResult } from '../types/transactionConfig';
-import { Transaction } from '@ethereumjs/tx';
-import { isValidChecksumAddress, toChecksumAddress } from '@ethereumjs/util';
 
-import { isValidHex } from '../utils/utils';
-
-/**
- * @dev Hardcoded `v` value for the transaction signature.
- * This is equivalent to 27, which is the `v` value not containing the chainId.
- * Using this value enables non-protected transactions according to EIP-155.
- */
-const HARDCODED_V = '0x1b';
-
-/**
- * @dev Hardcoded `r` value for the transaction signature.
- * This is a dummy value designed to produce a signature that is
- * extremely unlikely to be relevant for a controlled address.
- */
-const HARDCODED_R = '0x1212121212121212121212121212121212121212121212121212121212121212';
-
-/**
- * @dev Hardcoded `s` value for the transaction signature.
- * This is a dummy value designed to produce a signature that is
- * extremely unlikely to be relevant for a controlled address.
- */
-const HARDCODED_S = '0x1212121212121212121212121212121212121212121212121212121212121212';
+import { resolveTransactionData } from '../abi/abi';
+import { hexToBytes, isValidChecksumAddress } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { runPreflight } from '../preflight/preflight';
+import { resolveSignature } from '../signature/signature';
+import { signKeylessTransaction } from '../transaction/transaction';
+import { GenerationOptions } from '../types/preflightConfig';
+import { isValidHex, isValidQuantity, parseQuantity } from '../utils/utils';
 
 /**
  * Generates a signed raw transaction ready to be broadcasted to the network.
@@ -37,103 +21,128 @@ const HARDCODED_S = '0x121212121212121212121212121212121212121212121212121212121
  * The optional r value needs to be a valid r value. If provided, it allows generation of different sender addresses,
  * which is helpful to choose a vanity address for the sender.
  *
- * Valid 'r' values must be non-zero and less than the curve order (secp256k1 in Ethereum's case).
+ * Valid 'r' values must be non-zero, less than the curve order (secp256k1 in Ethereum's case) and the
+ * x-coordinate of a point on the curve. The optional s and v values can be set as well, s must be in the
+ * lower half of the curve order (EIP-2) and v must be 27 or 28.
  *
  * @param {TransactionConfig} config - The transaction configuration object.
- * @param {number|string} config.gasLimit - The gas limit for the transaction either as number or hex.
- * @param {number|string} config.gasPrice - The gas price for the transaction either as number or hex.
+ * @param {Quantity} config.gasLimit - The gas limit for the transaction as number, bigint, hex or decimal string.
+ * @param {Quantity} config.gasPrice - The gas price for the transaction as number, bigint, hex, decimal
+ * or unit string (e.g. '25 gwei').
  * @param {string} config.to - The recipient address of the transaction (must be a valid checksummed address).
- * @param {string} config.data - The data payload of the transaction.
- * @param {number|string} config.value - The amount of native token in wei to send with the transaction
- * either as number or hex.
+ * @param {string} [config.data] - The data payload of the transaction. Required unless `abi` and
+ * `functionName` are provided.
+ * @param {Abi} [config.abi] - Optional ABI of the contract, to encode the data from `functionName` and `args`.
+ * @param {string} [config.functionName] - Optional name or full signature of the function to call.
+ * @param {readonly unknown[]} [config.args] - Optional function arguments, validated against the ABI.
+ * @param {Quantity} config.value - The amount of native token to send with the transaction as number,
+ * bigint, hex, decimal (wei) or unit string (e.g. '0.1 ether').
  * @param {string} [config.r] - Optional r value for the transaction signature.
  * If provided, it allows generation of different sender addresses.
+ * @param {string} [config.s] - Optional s value for the transaction signature.
+ * @param {27 | 28} [config.v] - Optional v value for the transaction signature.
+ * @param {GenerationOptions} [options] - Generation options.
+ * @param {boolean | PreflightOptions} [options.preflight] - Runs `preflight` on the configuration first.
  *
  * @returns {TransactionResult} An object containing the signed raw transaction and other transaction details.
  * @property {string} rawTx - The raw transaction data as a hexadecimal string.
  * @property {string} senderAddress - The address of the account sending the transaction.
- * @property {number} upfrontCost - The upfront cost of the transaction in wei.
+ * @property {bigint} upfrontCost - The exact upfront cost of the transaction in wei.
  * @property {string} r - The r value of the transaction signature.
  * @property {string} s - The s value of the transaction signature.
  * @property {string} v - The v value of the transaction signature.
  *
- * @throws {Error} If any required parameter is missing, if hex values are invalid, or if the 'to' address is not a valid checksummed address.
+ * @throws {NickMethodError} If any required parameter is missing (`MISSING_FIELD`), if the 'to' address is
+ * not a valid checksummed address (`NON_CHECKSUM_ADDRESS`), if hex values or quantities are invalid
+ * or exceed 256 bits (`INVALID_HEX`, `INVALID_QUANTITY`), if the ABI or the arguments are invalid (`INVALID_ABI`,
+ * `INVALID_ARGUMENTS`), or if the signature values are out of range (`INVALID_SIGNATURE`).
+ * The `field` property names the offending field.
+ * @throws {PreflightError} If the preflight check is requested and reports errors.
  */
-export function genRawTransaction(config: TransactionConfig): TransactionResult {
+export function genRawTransaction(
+    config: TransactionConfig,
+    options: GenerationOptions = {},
+): TransactionResult {
     // Validate parameters
-    if (
-        !config.gasLimit ||
-        !config.gasPrice ||
-        !config.to ||
-        !config.data ||
-        config.value === undefined
-    ) {
-        throw new Error('All parameters (gasLimit, gasPrice, to, data, value) are required');
+    const encodesData = config.functionName !== undefined || config.abi !== undefined;
+    for (const field of ['gasLimit', 'gasPrice', 'to', 'data', 'value'] as const) {
+        const missing = field === 'value' ? config.value === undefined : !config[field];
+        if (missing && !(field === 'data' && encodesData)) {
+            throw new NickMethodError(
+                'MISSING_FIELD',
+                `All parameters (gasLimit, gasPrice, to, data, value) are required: ${field} is missing`,
+                { field },
+            );
+        }
     }
 
     if (!isValidChecksumAddress(config.to)) {
-        throw new Error('Invalid or non-checksummed address provided for "to"');
+        throw new NickMethodError(
+            'NON_CHECKSUM_ADDRESS',
+            'Invalid or non-checksummed address provided for "to"',
+            { field: 'to' },
+        );
     }
 
-    if (config.r && !isValidHex(config.r)) {
-        throw new Error('Invalid hex value for customR');
+    // Validate quantities
+    for (const field of ['gasPrice', 'gasLimit', 'value'] as const) {
+        if (!isValidQuantity(config[field])) {
+            throw new NickMethodError(
+                'INVALID_QUANTITY',
+                `Invalid hex values in config: ${field} is not a valid quantity`,
+                { field },
+            );
+        }
     }
 
-    const r = config.r || HARDCODED_R;
-
-    // Convert and validate hex values
-    const gasPrice =
-        typeof config.gasPrice === 'number' ? `0x${config.gasPrice.toString(16)}` : config.gasPrice;
-    const gasLimit =
-        typeof config.gasLimit === 'number' ? `0x${config.gasLimit.toString(16)}` : config.gasLimit;
-    const value =
-        typeof config.value === 'number' ? `0x${config.value.toString(16)}` : config.value;
-
-    if (
-        !isValidHex(gasPrice) ||
-        !isValidHex(gasLimit) ||
-        !isValidHex(value) ||
-        !isValidHex(config.data)
-    ) {
-        throw new Error('Invalid hex values in config');
+    // Encode the data from the ABI, validating the arguments before any address is derived, or else check
+    // the raw data
+    const data = resolveTransactionData(config);
+    if (data === undefined || !isValidHex(data)) {
+        throw new NickMethodError(
+            'INVALID_HEX',
+            'Invalid hex values in config: data is not a valid hex string',
+            { field: 'data' },
+        );
     }
 
-    // Construct txParams with hardcoded values for r, s, and v
-    const txParams = {
-        nonce: '0x00', // Assuming nonce is always 0 for this transaction
-        gasPrice,
-        gasLimit,
-        to: config.to,
-        value,
-        data: config.data,
-        v: HARDCODED_V,
-        r,
-        s: HARDCODED_S,
-    };
-
-    // Create transaction
-    const tx = Transaction.fromTxData(txParams);
-
-    // Serialize the transaction
-    const serializedTx = tx.serialize().toString('hex');
-
-    // Get sender address
-    let senderAddress = tx.getSenderAddress().toString();
-
-    if (!isValidChecksumAddress(senderAddress)) {
-        senderAddress = toChecksumAddress(senderAddress);
-    }
+    // Validate the signature parameters, falling back to the hardcoded ones
+    const { r, s, v } = resolveSignature(config);
+
+    // Opt-in check that the transaction can ever be mined
+    runPreflight(
+        { ...config, data, abi: undefined, functionName: undefined, args: undefined },
+        options,
+    );
+
+    // Convert quantities to exact bigint values
+    const gasPrice = parseQuantity(config.gasPrice);
+    const gasLimit = parseQuantity(config.gasLimit);
+    const value = parseQuantity(config.value);
+
+    // Sign the transaction with the keyless signature values
+    const { rawTx, senderAddress } = signKeylessTransaction(
+        {
+            nonce: BigInt(0), // Assuming nonce is always 0 for this transaction
+            gasPrice,
+            gasLimit,
+            to: hexToBytes(config.to),
+            value,
+            data: hexToBytes(data),
+        },
+        { r, s, v },
+    );
 
     // Calculate upfrontCost
-    const upfrontCost = Number(tx.getUpfrontCost().toString());
+    const upfrontCost = gasLimit * gasPrice + value;
 
     // Construct and return result
     return {
-        rawTx: `0x${serializedTx}`,
+        rawTx,
         senderAddress,
         upfrontCost,
-        r: txParams.r,
-        s: txParams.s,
-        v: txParams.v,
+        r,
+        s,
+        v,
     };
 }
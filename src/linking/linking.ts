@@ -0,0 +1,254 @@
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import { bytesToHex, isValidAddress, utf8ToBytes } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { genRawDeployment } from '../genRawDeployment/genRawDeployment';
+import { LibraryPlaceholder } from '../types/artifactConfig';
+import {
+    LibraryAddresses,
+    LinkedDeployment,
+    LinkedDeploymentConfig,
+    LinkedDeploymentPlan,
+    LinkReferences,
+} from '../types/linkingConfig';
+
+/** Length of a library placeholder, the hex length of the 20-byte address replacing it. */
+const PLACEHOLDER_LENGTH = 40;
+
+/**
+ * Finds the library placeholders of a bytecode, naming their libraries from the link references.
+ */
+export function findPlaceholders(
+    bytecode: string,
+    linkReferences: LinkReferences = {},
+): LibraryPlaceholder[] {
+    const libraries = new Map<number, string>();
+    for (const [sourceName, references] of Object.entries(linkReferences)) {
+        for (const [libraryName, positions] of Object.entries(references)) {
+            for (const { start } of positions) {
+                libraries.set(start, `${sourceName}:${libraryName}`);
+            }
+        }
+    }
+
+    const placeholders = new Map<string, LibraryPlaceholder>();
+    const code = bytecode.slice(2);
+    for (let i = 0; i < code.length; i += 2) {
+        if (!code.startsWith('__', i)) {
+            continue;
+        }
+        const placeholder = code.slice(i, i + PLACEHOLDER_LENGTH);
+        const offset = i / 2;
+        const entry = placeholders.get(placeholder) ?? {
+            placeholder,
+            library: libraries.get(offset),
+            offsets: [],
+        };
+        entry.library ??= libraries.get(offset);
+        entry.offsets.push(offset);
+        placeholders.set(placeholder, entry);
+        i += PLACEHOLDER_LENGTH - 2;
+    }
+    return [...placeholders.values()];
+}
+
+/**
+ * Tells whether a placeholder stands for a library: `__$<hash>$__` since solc 0.5, the hash being the first
+ * 34 hex characters of the keccak256 of the fully qualified name, or the name itself padded with underscores
+ * before.
+ */
+function isPlaceholderOf(placeholder: string, library: string): boolean {
+    const hash = bytesToHex(keccak256(utf8ToBytes(library))).slice(2, 36);
+    return (
+        placeholder === `__$${hash}$__` ||
+        placeholder === `__${library.slice(0, 36)}`.padEnd(PLACEHOLDER_LENGTH, '_')
+    );
+}
+
+/**
+ * Names the library of a placeholder among the given ones, from the link references or the placeholder itself.
+ */
+function resolveLibrary(
+    { placeholder, library }: LibraryPlaceholder,
+    libraries: string[],
+): string | undefined {
+    if (library !== undefined && libraries.includes(library)) {
+        return library;
+    }
+    return libraries.find((name) => isPlaceholderOf(placeholder, name));
+}
+
+function unlinkedLibraries(
+    name: string | undefined,
+    placeholders: LibraryPlaceholder[],
+    field: string,
+): NickMethodError {
+    const libraries = placeholders.map(({ library, placeholder }) => library ?? placeholder);
+    return new NickMethodError(
+        'UNLINKED_LIBRARIES',
+        `Cannot link ${name ?? 'the bytecode'}: no address for libraries ${libraries.join(', ')}`,
+        { field },
+    );
+}
+
+/**
+ * Finds the placeholders of a bytecode and names their libraries, failing on those matching none.
+ */
+function resolveLinks(
+    bytecode: string,
+    linkReferences: LinkReferences | undefined,
+    libraries: string[],
+    name: string | undefined,
+    field: string,
+): { placeholder: LibraryPlaceholder; library: string }[] {
+    const links: { placeholder: LibraryPlaceholder; library: string }[] = [];
+    const unlinked: LibraryPlaceholder[] = [];
+    for (const placeholder of findPlaceholders(bytecode, linkReferences)) {
+        const library = resolveLibrary(placeholder, libraries);
+        if (library === undefined) {
+            unlinked.push(placeholder);
+        } else {
+            links.push({ placeholder, library });
+        }
+    }
+    if (unlinked.length > 0) {
+        throw unlinkedLibraries(name, unlinked, field);
+    }
+    return links;
+}
+
+/**
+ * Replaces every placeholder of a bytecode with the address of its library.
+ */
+function substitute(
+    bytecode: string,
+    links: { placeholder: LibraryPlaceholder; address: string }[],
+): string {
+    let code = bytecode.slice(2);
+    for (const { placeholder, address } of links) {
+        for (const offset of placeholder.offsets) {
+            const start = offset * 2;
+            code = `${code.slice(0, start)}${address.slice(2).toLowerCase()}${code.slice(start + PLACEHOLDER_LENGTH)}`;
+        }
+    }
+    return `0x${code}`;
+}
+
+/**
+ * Links a bytecode compiled without linking, replacing its library placeholders with the given addresses.
+ *
+ * Placeholders are matched by fully qualified library name (`path/Lib.sol:Lib`), through the link references
+ * when given, or else through the hash they embed since solc 0.5.
+ *
+ * @param {string} bytecode - The bytecode holding placeholders.
+ * @param {LibraryAddresses} libraries - The addresses of the libraries, by fully qualified name.
+ * @param {LinkReferences} [linkReferences] - The positions of the libraries in the bytecode.
+ * @returns {string} The linked bytecode.
+ *
+ * @throws {NickMethodError} If an address is malformed (`NON_CHECKSUM_ADDRESS`), or a placeholder has no
+ * address (`UNLINKED_LIBRARIES`).
+ */
+export function linkBytecode(
+    bytecode: string,
+    libraries: LibraryAddresses,
+    linkReferences?: LinkReferences,
+): string {
+    for (const [library, address] of Object.entries(libraries)) {
+        if (!isValidAddress(address)) {
+            throw new NickMethodError(
+                'NON_CHECKSUM_ADDRESS',
+                `Invalid address of library ${library}: ${address}`,
+                { field: library },
+            );
+        }
+    }
+
+    const links = resolveLinks(
+        bytecode,
+        linkReferences,
+        Object.keys(libraries),
+        undefined,
+        'libraries',
+    );
+    return substitute(
+        bytecode,
+        links.map(({ placeholder, library }) => ({ placeholder, address: libraries[library] })),
+    );
+}
+
+/**
+ * Plans the keyless deployments of contracts and of the libraries they link, each library being deployed
+ * keylessly as well.
+ *
+ * Libraries are deployed before the contracts linking them, and their `contractAddress` is linked into the
+ * bytecode of their dependents. Since the address of a keyless deployment depends on its bytecode, the
+ * addresses of dependents change whenever a library does.
+ *
+ * @param {{ [name: string]: LinkedDeploymentConfig }} contracts - The deployment configurations, by fully
+ * qualified name (`path/Lib.sol:Lib`) for the libraries, with the placeholders left in their bytecode.
+ * @returns {LinkedDeploymentPlan} The deployments in dependency order, and the total funding they need.
+ *
+ * @throws {NickMethodError} If a placeholder matches none of the contracts (`UNLINKED_LIBRARIES`), the
+ * libraries depend on each other in a cycle (`CIRCULAR_DEPENDENCY`), or a configuration is invalid.
+ */
+export function planLinkedDeployments(contracts: {
+    [name: string]: LinkedDeploymentConfig;
+}): LinkedDeploymentPlan {
+    const names = Object.keys(contracts);
+    const dependencies = new Map<string, { placeholder: LibraryPlaceholder; library: string }[]>();
+    for (const name of names) {
+        const { bytecode, linkReferences } = contracts[name];
+        if (typeof bytecode !== 'string') {
+            throw new NickMethodError('MISSING_FIELD', `Missing bytecode of ${name}`, {
+                field: name,
+            });
+        }
+        dependencies.set(name, resolveLinks(bytecode, linkReferences, names, name, name));
+    }
+
+    // Depth-first, deploying the libraries of a contract before it, the path of the current branch
+    // revealing cycles
+    const deployments: LinkedDeployment[] = [];
+    const addresses = new Map<string, string>();
+    const deploy = (name: string, path: string[]): string => {
+        const deployed = addresses.get(name);
+        if (deployed !== undefined) {
+            return deployed;
+        }
+        if (path.includes(name)) {
+            const cycle = [...path.slice(path.indexOf(name)), name];
+            throw new NickMethodError(
+                'CIRCULAR_DEPENDENCY',
+                `Cannot link libraries depending on each other: ${cycle.join(' -> ')}`,
+                { field: name },
+            );
+        }
+        const links = (dependencies.get(name) ?? []).map(({ placeholder, library }) => ({
+            placeholder,
+            library,
+            address: deploy(library, [...path, name]),
+        }));
+        const config = contracts[name];
+        const bytecode = substitute(config.bytecode, links);
+        const result = genRawDeployment({ ...config, bytecode });
+        addresses.set(name, result.contractAddress);
+        deployments.push({
+            name,
+            ...result,
+            bytecode,
+            libraries: Object.fromEntries(links.map(({ library, address }) => [library, address])),
+        });
+        return result.contractAddress;
+    };
+    for (const name of names) {
+        deploy(name, []);
+    }
+
+    return {
+        deployments,
+        totalFunding: deployments.reduce(
+            (total, { upfrontCost }) => total + upfrontCost,
+            BigInt(0),
+        ),
+    };
+}
@@ -0,0 +1,314 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import { resolveDeploymentBytecode } from '../abi/abi';
+import { bytesToHex, hexToBytes } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { genRawDeployment } from '../genRawDeployment/genRawDeployment';
+import { PACKAGE_NAME, PACKAGE_VERSION } from '../package/package';
+import { DeploymentConfig, DeploymentResult } from '../types/deploymentConfig';
+import {
+    DeploymentManifest,
+    ManifestConfig,
+    ManifestDrift,
+    ManifestDriftCause,
+    ManifestEntry,
+    ManifestOverrides,
+} from '../types/manifestConfig';
+import { isValidHex, parseQuantity } from '../utils/utils';
+
+/**
+ * Error thrown when regenerating a manifest would change committed deployments.
+ * The `drifts` property lists every affected deployment and the likely causes.
+ */
+export class ManifestDriftError extends NickMethodError {
+    readonly drifts: ManifestDrift[];
+
+    constructor(drifts: ManifestDrift[]) {
+        super(
+            'MANIFEST_DRIFT',
+            `Regenerating the manifest would change ${drifts.length} committed deployment(s):\n` +
+                drifts
+                    .map(
+                        (drift) =>
+                            `  ${drift.name} (${drift.causes.join(', ')}): ` +
+                            `${drift.committed.contractAddress} -> ${drift.regenerated.contractAddress}`,
+                    )
+                    .join('\n'),
+        );
+        this.name = 'ManifestDriftError';
+        this.drifts = drifts;
+    }
+}
+
+/**
+ * Normalizes deployment inputs, keeping the bytecode and the encoded constructor arguments apart so that
+ * either can be replaced on its own. Without `abi` or `args`, the given encoded arguments are kept.
+ */
+function normalizeConfig(config: DeploymentConfig, constructorArgs?: string): ManifestConfig {
+    const encodedArgs =
+        config.abi !== undefined || config.args !== undefined
+            ? `0x${resolveDeploymentBytecode(config).slice(config.bytecode.length)}`
+            : constructorArgs;
+    return {
+        gasLimit: parseQuantity(config.gasLimit).toString(),
+        gasPrice: parseQuantity(config.gasPrice).toString(),
+        value: parseQuantity(config.value).toString(),
+        bytecode: config.bytecode.toLowerCase(),
+        ...(encodedArgs !== undefined && encodedArgs !== '0x'
+            ? { constructorArgs: encodedArgs.toLowerCase() }
+            : {}),
+        ...(config.r !== undefined ? { r: config.r.toLowerCase() } : {}),
+        ...(config.s !== undefined ? { s: config.s.toLowerCase() } : {}),
+        ...(config.v !== undefined ? { v: config.v } : {}),
+    };
+}
+
+function hashBytecode(bytecode: string): string {
+    return bytesToHex(keccak256(hexToBytes(bytecode)));
+}
+
+function createEntry(config: DeploymentConfig, constructorArgs?: string): ManifestEntry {
+    const normalized = normalizeConfig(config, constructorArgs);
+    const { constructorArgs: encodedArgs, ...inputs } = normalized;
+    const result: DeploymentResult = genRawDeployment({
+        ...inputs,
+        bytecode: `${inputs.bytecode}${(encodedArgs ?? '0x').slice(2)}`,
+    });
+    return {
+        config: normalized,
+        bytecodeHash: hashBytecode(inputs.bytecode),
+        result: { ...result, upfrontCost: result.upfrontCost.toString() },
+    };
+}
+
+/**
+ * Generates a deployment manifest from the deployment configuration of each contract.
+ *
+ * @param {{ [name: string]: DeploymentConfig }} configs - The deployment configurations, by contract name.
+ * @returns {DeploymentManifest} The manifest, with each entry's inputs, bytecode hash and deployment result.
+ *
+ * @throws {NickMethodError} If any deployment configuration is invalid.
+ */
+export function createManifest(configs: { [name: string]: DeploymentConfig }): DeploymentManifest {
+    return buildManifest(
+        Object.fromEntries(
+            Object.entries(configs).map(([name, config]) => [name, createEntry(config)]),
+        ),
+    );
+}
+
+function buildManifest(entries: { [name: string]: ManifestEntry }): DeploymentManifest {
+    const deployments: { [name: string]: ManifestEntry } = {};
+    for (const name of Object.keys(entries).sort()) {
+        deployments[name] = entries[name];
+    }
+
+    return {
+        version: 1,
+        generator: { name: PACKAGE_NAME, version: PACKAGE_VERSION },
+        deployments,
+    };
+}
+
+/**
+ * Serializes a manifest to a stable, diff-friendly JSON string.
+ *
+ * @param {DeploymentManifest} manifest - The manifest to serialize.
+ * @returns {string} The JSON representation, ending with a newline.
+ */
+export function serializeManifest(manifest: DeploymentManifest): string {
+    return `${JSON.stringify(manifest, null, 4)}\n`;
+}
+
+/**
+ * Parses a manifest from its JSON representation.
+ *
+ * @param {string} json - The JSON representation of the manifest.
+ * @returns {DeploymentManifest} The manifest.
+ *
+ * @throws {NickMethodError} If the JSON is malformed, the format version is unsupported or an entry is
+ * incomplete (`INVALID_MANIFEST`).
+ */
+export function parseManifest(json: string): DeploymentManifest {
+    let manifest: DeploymentManifest;
+    try {
+        manifest = JSON.parse(json);
+    } catch (error) {
+        throw new NickMethodError(
+            'INVALID_MANIFEST',
+            `Invalid manifest: ${(error as Error).message}`,
+            { cause: error },
+        );
+    }
+
+    if (manifest?.version !== 1) {
+        throw new NickMethodError(
+            'INVALID_MANIFEST',
+            `Unsupported manifest version ${manifest?.version}`,
+            { field: 'version' },
+        );
+    }
+    if (
+        typeof manifest.generator?.version !== 'string' ||
+        typeof manifest.deployments !== 'object'
+    ) {
+        throw new NickMethodError(
+            'INVALID_MANIFEST',
+            'Invalid manifest: missing generator or deployments',
+        );
+    }
+
+    for (const [name, entry] of Object.entries(manifest.deployments)) {
+        if (
+            !isValidHex(entry?.config?.bytecode) ||
+            (entry.config.constructorArgs !== undefined &&
+                !isValidHex(entry.config.constructorArgs)) ||
+            !isValidHex(entry?.bytecodeHash) ||
+            !isValidHex(entry?.result?.rawTx)
+        ) {
+            throw new NickMethodError('INVALID_MANIFEST', `Invalid manifest entry "${name}"`, {
+                field: name,
+            });
+        }
+    }
+
+    return manifest;
+}
+
+/**
+ * Writes a manifest to a JSON file.
+ *
+ * @param {string} path - The path of the file.
+ * @param {DeploymentManifest} manifest - The manifest to write.
+ */
+export function writeManifest(path: string, manifest: DeploymentManifest): void {
+    writeFileSync(path, serializeManifest(manifest));
+}
+
+/**
+ * Reads a manifest from a JSON file.
+ *
+ * @param {string} path - The path of the file.
+ * @returns {DeploymentManifest} The manifest.
+ *
+ * @throws {Error} If the file cannot be read or does not contain a valid manifest.
+ */
+export function readManifest(path: string): DeploymentManifest {
+    return parseManifest(readFileSync(path, 'utf8'));
+}
+
+/**
+ * Regenerates every entry of a manifest from its inputs, optionally replaced by fresh ones
+ * (e.g. the bytecode of the latest compilation), and reports the entries whose deployment would change.
+ *
+ * @param {DeploymentManifest} manifest - The committed manifest.
+ * @param {ManifestOverrides} [overrides] - Fresh inputs, by contract name.
+ * @returns {ManifestDrift[]} The deployments that would change, empty if none would.
+ *
+ * @throws {NickMethodError} If an override targets a contract missing from the manifest, or inputs are invalid.
+ */
+export function checkManifest(
+    manifest: DeploymentManifest,
+    overrides: ManifestOverrides = {},
+): ManifestDrift[] {
+    return regenerateEntries(manifest, overrides).drifts;
+}
+
+/**
+ * Regenerates every entry of a manifest from its inputs, optionally replaced by fresh ones
+ * (e.g. the bytecode of the latest compilation).
+ *
+ * Fails loudly if any deployer or contract address, or raw transaction, would differ from the committed one,
+ * whether because of a bytecode change, a gas parameter change or a different library version.
+ *
+ * @param {DeploymentManifest} manifest - The committed manifest.
+ * @param {ManifestOverrides} [overrides] - Fresh inputs, by contract name.
+ * @returns {DeploymentManifest} The regenerated manifest, identical to the committed one apart from the generator version.
+ *
+ * @throws {ManifestDriftError} If any committed deployment would change.
+ */
+export function regenerateManifest(
+    manifest: DeploymentManifest,
+    overrides: ManifestOverrides = {},
+): DeploymentManifest {
+    const { regenerated, drifts } = regenerateEntries(manifest, overrides);
+    if (drifts.length > 0) {
+        throw new ManifestDriftError(drifts);
+    }
+    return regenerated;
+}
+
+function regenerateEntries(manifest: DeploymentManifest, overrides: ManifestOverrides) {
+    for (const name of Object.keys(overrides)) {
+        if (manifest.deployments[name] === undefined) {
+            throw new NickMethodError(
+                'INVALID_MANIFEST',
+                `No deployment named "${name}" in the manifest`,
+                { field: name },
+            );
+        }
+    }
+
+    // Fresh `abi` or `args` replace the committed constructor arguments, which are kept otherwise
+    const regenerated = buildManifest(
+        Object.fromEntries(
+            Object.entries(manifest.deployments).map(([name, entry]) => {
+                const { constructorArgs, ...inputs } = entry.config;
+                return [name, createEntry({ ...inputs, ...overrides[name] }, constructorArgs)];
+            }),
+        ),
+    );
+
+    const drifts: ManifestDrift[] = [];
+    for (const [name, committed] of Object.entries(manifest.deployments)) {
+        const fresh = regenerated.deployments[name];
+        if (
+            fresh.result.rawTx === committed.result.rawTx.toLowerCase() &&
+            fresh.result.deployerAddress === committed.result.deployerAddress &&
+            fresh.result.contractAddress === committed.result.contractAddress
+        ) {
+            continue;
+        }
+
+        const causes: ManifestDriftCause[] = [];
+        if (fresh.bytecodeHash !== committed.bytecodeHash) {
+            causes.push('bytecode');
+        }
+        for (const field of [
+            'constructorArgs',
+            'gasLimit',
+            'gasPrice',
+            'value',
+            'r',
+            's',
+            'v',
+        ] as const) {
+            if (fresh.config[field] !== committed.config[field]) {
+                causes.push(field);
+            }
+        }
+        if (causes.length === 0) {
+            causes.push(
+                manifest.generator.version !== regenerated.generator.version
+                    ? 'generator'
+                    : 'result',
+            );
+        }
+
+        drifts.push({
+            name,
+            causes,
+            committed: {
+                deployerAddress: committed.result.deployerAddress,
+                contractAddress: committed.result.contractAddress,
+            },
+            regenerated: {
+                deployerAddress: fresh.result.deployerAddress,
+                contractAddress: fresh.result.contractAddress,
+            },
+        });
+    }
+
+    return { regenerated, drifts };
+}
@@ -0,0 +1,316 @@
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { Transaction } from '@ethereumjs/tx';
+import { bigIntToHex, bufferToHex, toBuffer } from '@ethereumjs/util';
+
+import { NickMethodError } from '../errors/errors';
+import { genRawDeployment } from '../genRawDeployment/genRawDeployment';
+import {
+    VanityCheckpoint,
+    VanityConfig,
+    VanityOptions,
+    VanityProgress,
+    VanityResult,
+} from '../types/vanityConfig';
+import { isValidHex } from '../utils/utils';
+import {
+    BatchResult,
+    candidateAt,
+    estimateDifficulty,
+    searchBatch,
+    SearchContext,
+    validateCount,
+    validateTarget,
+} from './vanitySearch';
+
+const DEFAULT_BATCH_SIZE = 256;
+const DEFAULT_PROGRESS_INTERVAL = 1000;
+
+/**
+ * Resolves the worker entry point: the compiled `vanityWorker.js` shipped next to the bundle, or the
+ * TypeScript source when running from `src/`, which relies on a TypeScript loader in the process (tests).
+ */
+function workerEntry(): string {
+    const compiled = join(__dirname, 'vanityWorker.js');
+    return existsSync(compiled) ? compiled : join(__dirname, 'vanityWorker.ts');
+}
+
+/**
+ * Keeps track of the completed batches of a search, so that a checkpoint only ever covers
+ * a contiguous range of searched candidates even when batches complete out of order.
+ */
+function createTracker(
+    base: Omit<VanityCheckpoint, 'nextIndex' | 'attempts' | 'elapsedMs'>,
+    resumed: VanityCheckpoint | undefined,
+    batchSize: number,
+    difficulty: number | undefined,
+) {
+    const firstIndex = BigInt(resumed?.nextIndex ?? '0');
+    const previousAttempts = resumed?.attempts ?? 0;
+    const previousElapsedMs = resumed?.elapsedMs ?? 0;
+    const startedAt = Date.now();
+    const pending = new Map<number, number>();
+    let frontier = 0;
+    let frontierAttempts = previousAttempts;
+    let attempts = previousAttempts;
+    let nextBatch = 0;
+
+    const elapsedMs = () => previousElapsedMs + Date.now() - startedAt;
+
+    const checkpoint = (): VanityCheckpoint => ({
+        ...base,
+        nextIndex: (firstIndex + BigInt(frontier) * BigInt(batchSize)).toString(),
+        attempts: frontierAttempts,
+        elapsedMs: elapsedMs(),
+    });
+
+    return {
+        attempts: () => attempts,
+        elapsedMs,
+        checkpoint,
+        nextBatch() {
+            const id = nextBatch++;
+            return { id, from: firstIndex + BigInt(id) * BigInt(batchSize), count: batchSize };
+        },
+        record(id: number, batchAttempts: number) {
+            attempts += batchAttempts;
+            pending.set(id, batchAttempts);
+            while (pending.has(frontier)) {
+                frontierAttempts += pending.get(frontier) as number;
+                pending.delete(frontier);
+                frontier++;
+            }
+        },
+        progress(): VanityProgress {
+            const runMs = Date.now() - startedAt;
+            const rate = runMs > 0 ? ((attempts - previousAttempts) * 1000) / runMs : 0;
+            let probability: number | undefined;
+            let etaMs: number | undefined;
+
+            if (difficulty !== undefined) {
+                const logMiss = Math.log1p(-1 / difficulty);
+                probability = 1 - Math.exp(attempts * logMiss);
+                const halfChanceAttempts = Math.log(0.5) / logMiss;
+                etaMs =
+                    rate > 0
+                        ? (Math.max(halfChanceAttempts - attempts, 0) * 1000) / rate
+                        : undefined;
+            }
+
+            return {
+                attempts,
+                rate,
+                elapsedMs: elapsedMs(),
+                difficulty,
+                probability,
+                etaMs,
+                checkpoint: checkpoint(),
+            };
+        },
+    };
+}
+
+/**
+ * Mines an `r` value for which the deployer address or the contract address of a keyless deployment
+ * matches a vanity pattern (prefix, suffix, regex and/or leading zero bytes).
+ *
+ * Candidates are consecutive values starting from `startR`. Values that are not the x-coordinate of a
+ * point on secp256k1 are skipped, so every returned `r` produces a transaction whose sender can be recovered.
+ *
+ * The search runs on worker threads across all available cores by default, reports its progress
+ * periodically and can be resumed from a previously saved checkpoint.
+ *
+ * @param {VanityConfig} config - The deployment configuration and the vanity target.
+ * @param {Quantity} config.gasLimit - The gas limit for the transaction.
+ * @param {Quantity} config.gasPrice - The gas price for the transaction.
+ * @param {string} config.bytecode - The bytecode of the contract to be deployed.
+ * @param {Quantity} config.value - The amount of native token to send with the transaction.
+ * @param {VanityTarget} config.target - The address pattern to search for.
+ * @param {string} [config.startR] - The first candidate. Defaults to a random value.
+ * @param {VanityOptions} [options] - Runtime options (workers, checkpoint, progress, cancellation).
+ *
+ * @returns {Promise<VanityResult>} The matching deployment, or no deployment if the search was aborted
+ * or `maxAttempts` was reached, along with a checkpoint to resume from.
+ *
+ * @throws {NickMethodError} If the deployment configuration or the target is invalid, if `workers` or `batchSize`
+ * is not a valid count (`INVALID_OPTION`), or if the checkpoint does not belong to this deployment and target.
+ * The promise also rejects if a worker thread crashes.
+ */
+export async function mineVanityR(
+    config: VanityConfig,
+    options: VanityOptions = {},
+): Promise<VanityResult> {
+    const { target, startR: configStartR, ...deploymentConfig } = config;
+
+    validateTarget(target);
+    validateCount('workers', options.workers, 0);
+    validateCount('batchSize', options.batchSize, 1);
+
+    if (configStartR !== undefined && (!isValidHex(configStartR) || configStartR === '0x')) {
+        throw new NickMethodError('INVALID_HEX', 'Invalid hex value for startR', {
+            field: 'startR',
+        });
+    }
+
+    // Validate the deployment parameters and derive the signing hash shared by every candidate
+    const reference = genRawDeployment(deploymentConfig);
+    const tx = Transaction.fromSerializedTx(toBuffer(reference.rawTx));
+    const messageHash = bufferToHex(tx.getMessageToSign(true));
+
+    const resumed = options.checkpoint;
+    if (
+        resumed !== undefined &&
+        (resumed.version !== 1 ||
+            resumed.messageHash !== messageHash ||
+            JSON.stringify(resumed.target) !== JSON.stringify(target))
+    ) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Checkpoint does not belong to this deployment and target',
+            { field: 'checkpoint' },
+        );
+    }
+
+    const startR =
+        resumed !== undefined
+            ? BigInt(resumed.startR)
+            : candidateAt(BigInt(configStartR ?? bufferToHex(randomBytes(32))), BigInt(0));
+
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const workerCount = options.workers ?? cpus().length;
+    const progressInterval = options.progressInterval ?? DEFAULT_PROGRESS_INTERVAL;
+
+    const tracker = createTracker(
+        { version: 1, messageHash, target, startR: bigIntToHex(startR) },
+        resumed,
+        batchSize,
+        estimateDifficulty(target),
+    );
+
+    const context: SearchContext = {
+        messageHash: toBuffer(messageHash),
+        v: BigInt(reference.v),
+        s: toBuffer(reference.s),
+        startR,
+        target,
+    };
+
+    const shouldStop = () =>
+        options.signal?.aborted === true ||
+        (options.maxAttempts !== undefined && tracker.attempts() >= options.maxAttempts);
+
+    const result = (r: string | undefined): VanityResult => ({
+        deployment: r !== undefined ? genRawDeployment({ ...deploymentConfig, r }) : undefined,
+        attempts: tracker.attempts(),
+        elapsedMs: tracker.elapsedMs(),
+        checkpoint: tracker.checkpoint(),
+    });
+
+    if (workerCount === 0) {
+        let lastReport = Date.now();
+        while (!shouldStop()) {
+            const batch = tracker.nextBatch();
+            const found = searchBatch(context, batch.from, batch.count);
+            tracker.record(batch.id, found.attempts);
+            if (found.r !== undefined) {
+                return result(found.r);
+            }
+
+            if (options.onProgress && Date.now() - lastReport >= progressInterval) {
+                lastReport = Date.now();
+                options.onProgress(tracker.progress());
+            }
+
+            // Yield to the event loop so that abort signals and timers are processed
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+        return result(undefined);
+    }
+
+    return new Promise<VanityResult>((resolve, reject) => {
+        const entry = workerEntry();
+        const workers: Worker[] = [];
+        let settled = false;
+
+        const fail = (error: Error) => {
+            if (!settled) {
+                settled = true;
+                clearInterval(timer);
+                options.signal?.removeEventListener('abort', onAbort);
+                workers.forEach((other) => other.terminate());
+                reject(error);
+            }
+        };
+
+        const settle = (outcome: () => VanityResult) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearInterval(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+            workers.forEach((worker) => worker.terminate());
+
+            try {
+                resolve(outcome());
+            } catch (error) {
+                reject(error);
+            }
+        };
+
+        const dispatch = (worker: Worker) => {
+            const batch = tracker.nextBatch();
+            worker.postMessage({ id: batch.id, from: batch.from.toString(), count: batch.count });
+        };
+
+        const onAbort = () => settle(() => result(undefined));
+        options.signal?.addEventListener('abort', onAbort);
+
+        const timer = setInterval(() => {
+            options.onProgress?.(tracker.progress());
+        }, progressInterval);
+
+        for (let i = 0; i < workerCount; i++) {
+            const worker = new Worker(entry, {
+                workerData: {
+                    messageHash,
+                    v: reference.v,
+                    s: reference.s,
+                    startR: bigIntToHex(startR),
+                    target,
+                },
+            });
+
+            worker.on('message', (found: BatchResult & { id: number }) => {
+                if (settled) {
+                    return;
+                }
+                tracker.record(found.id, found.attempts);
+
+                if (found.r !== undefined) {
+                    settle(() => result(found.r));
+                } else if (shouldStop()) {
+                    settle(() => result(undefined));
+                } else {
+                    dispatch(worker);
+                }
+            });
+
+            worker.on('error', fail);
+            // Workers only exit once terminated, so an earlier exit means the worker crashed
+            worker.on('exit', (code) => fail(new Error(`Vanity worker exited with code ${code}`)));
+
+            workers.push(worker);
+        }
+
+        if (shouldStop()) {
+            settle(() => result(undefined));
+            return;
+        }
+
+        workers.forEach(dispatch);
+    });
+}
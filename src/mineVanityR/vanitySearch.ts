@@ -0,0 +1,238 @@
+import { createAddress } from '../addresses/addresses';
+import {
+    bigIntToBytes,
+    bytesToBigInt,
+    bytesToHex,
+    setLengthLeft,
+    toChecksumAddress,
+} from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { isValidXCoordinate, SECP256K1_N } from '../signature/signature';
+import { recoverSigner } from '../transaction/transaction';
+import { VanityTarget } from '../types/vanityConfig';
+
+/**
+ * Parameters shared by every candidate of a search.
+ * @property {Uint8Array} messageHash - The signing hash of the deployment transaction.
+ * @property {bigint} v - The v value of the transaction signature.
+ * @property {Uint8Array} s - The s value of the transaction signature.
+ * @property {bigint} startR - The first `r` candidate of the search.
+ * @property {VanityTarget} target - The address pattern to search for.
+ */
+export interface SearchContext {
+    messageHash: Uint8Array;
+    v: bigint;
+    s: Uint8Array;
+    startR: bigint;
+    target: VanityTarget;
+}
+
+/**
+ * Result of searching a batch of candidates.
+ * @property {number} attempts - The number of valid candidates tried.
+ * @property {string} [r] - The matching `r` value, if any.
+ * @property {string} [index] - Decimal offset from `startR` of the matching candidate, if any.
+ */
+export interface BatchResult {
+    attempts: number;
+    r?: string;
+    index?: string;
+}
+
+/**
+ * Returns the `r` candidate at a given offset from the start of the search, wrapping around
+ * so that every candidate stays in the range [1, n - 1].
+ *
+ * @param {bigint} startR - The first candidate of the search.
+ * @param {bigint} index - The offset of the candidate.
+ * @returns {bigint} The candidate value.
+ */
+export function candidateAt(startR: bigint, index: bigint): bigint {
+    const range = SECP256K1_N - BigInt(1);
+    const offset = (startR - BigInt(1) + index) % range;
+    return (offset < BigInt(0) ? offset + range : offset) + BigInt(1);
+}
+
+/**
+ * Checks that a count option of a search, such as a batch size, is an integer of at least `min`.
+ *
+ * @param {string} field - The name of the option.
+ * @param {number | undefined} value - The value of the option, if provided.
+ * @param {number} min - The smallest accepted value.
+ *
+ * @throws {NickMethodError} If the value is not a safe integer of at least `min`.
+ */
+export function validateCount(field: string, value: number | undefined, min: number): void {
+    if (value !== undefined && (!Number.isSafeInteger(value) || value < min)) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            `${field} must be an integer of at least ${min}`,
+            {
+                field,
+            },
+        );
+    }
+}
+
+/**
+ * Checks that a vanity target is well formed.
+ *
+ * @param {VanityTarget} target - The target to be checked.
+ *
+ * @throws {NickMethodError} If the field is unknown, no criterion is provided, or a criterion is malformed.
+ */
+export function validateTarget(target: VanityTarget): void {
+    if (!target || (target.field !== 'deployerAddress' && target.field !== 'contractAddress')) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Vanity target field must be "deployerAddress" or "contractAddress"',
+            { field: 'target.field' },
+        );
+    }
+
+    const { prefix, suffix, regex, leadingZeroBytes } = target;
+
+    if (prefix === undefined && suffix === undefined && regex === undefined && !leadingZeroBytes) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Vanity target requires a prefix, suffix, regex or leadingZeroBytes',
+            { field: 'target' },
+        );
+    }
+
+    for (const [name, pattern] of [
+        ['prefix', prefix],
+        ['suffix', suffix],
+    ]) {
+        if (pattern !== undefined && !/^[0-9A-Fa-f]{1,40}$/.test(pattern)) {
+            throw new NickMethodError(
+                'INVALID_OPTION',
+                `Vanity target ${name} must be 1 to 40 hex characters`,
+                { field: `target.${name}` },
+            );
+        }
+    }
+
+    if (
+        leadingZeroBytes !== undefined &&
+        (!Number.isInteger(leadingZeroBytes) || leadingZeroBytes < 0 || leadingZeroBytes > 20)
+    ) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'Vanity target leadingZeroBytes must be an integer between 0 and 20',
+            { field: 'target.leadingZeroBytes' },
+        );
+    }
+
+    if (regex !== undefined) {
+        try {
+            new RegExp(regex);
+        } catch (error) {
+            throw new NickMethodError('INVALID_OPTION', `Invalid vanity target regex "${regex}"`, {
+                field: 'target.regex',
+                cause: error,
+            });
+        }
+    }
+}
+
+/**
+ * Estimates the expected number of attempts needed to match a target.
+ *
+ * @param {VanityTarget} target - The address pattern to search for.
+ * @returns {number | undefined} The expected number of attempts, or undefined for regex targets.
+ */
+export function estimateDifficulty(target: VanityTarget): number | undefined {
+    if (target.regex !== undefined) {
+        return undefined;
+    }
+
+    const caseFactor = (pattern: string) =>
+        target.caseSensitive ? 2 ** pattern.replace(/[0-9]/g, '').length : 1;
+
+    const prefix = target.prefix ?? '';
+    const suffix = target.suffix ?? '';
+    const zeroChars = (target.leadingZeroBytes ?? 0) * 2;
+
+    return (
+        16 ** Math.max(prefix.length, zeroChars) *
+        caseFactor(prefix) *
+        16 ** suffix.length *
+        caseFactor(suffix)
+    );
+}
+
+/**
+ * Creates a function checking whether an address matches a target.
+ *
+ * @param {VanityTarget} target - The address pattern to search for.
+ * @returns {(address: Uint8Array) => boolean} The matcher.
+ */
+export function createMatcher(target: VanityTarget): (address: Uint8Array) => boolean {
+    const zeroPrefix = '00'.repeat(target.leadingZeroBytes ?? 0);
+    const caseSensitive = target.caseSensitive ?? false;
+    const { prefix, suffix } = target;
+    const regex =
+        target.regex !== undefined ? new RegExp(target.regex, caseSensitive ? '' : 'i') : undefined;
+
+    return (address: Uint8Array) => {
+        const lowercase = bytesToHex(address).slice(2);
+
+        // Cheap case-insensitive checks first, checksum only for the survivors
+        if (
+            !lowercase.startsWith(zeroPrefix) ||
+            (prefix !== undefined && !lowercase.startsWith(prefix.toLowerCase())) ||
+            (suffix !== undefined && !lowercase.endsWith(suffix.toLowerCase()))
+        ) {
+            return false;
+        }
+
+        if (!caseSensitive) {
+            return regex === undefined || regex.test(`0x${lowercase}`);
+        }
+
+        const checksummed = toChecksumAddress(`0x${lowercase}`);
+        return (
+            (prefix === undefined || checksummed.slice(2).startsWith(prefix)) &&
+            (suffix === undefined || checksummed.endsWith(suffix)) &&
+            (regex === undefined || regex.test(checksummed))
+        );
+    };
+}
+
+/**
+ * Searches a contiguous batch of `r` candidates for one matching the target.
+ * Candidates that are not valid secp256k1 x-coordinates are skipped and not counted as attempts.
+ *
+ * @param {SearchContext} context - The parameters shared by every candidate.
+ * @param {bigint} from - Offset from `startR` of the first candidate of the batch.
+ * @param {number} count - The number of candidates in the batch.
+ * @returns {BatchResult} The number of attempts and the first matching candidate, if any.
+ */
+export function searchBatch(context: SearchContext, from: bigint, count: number): BatchResult {
+    const matches = createMatcher(context.target);
+    const recovery = Number(context.v) - 27;
+    const s = bytesToBigInt(context.s);
+    let attempts = 0;
+
+    for (let i = 0; i < count; i++) {
+        const index = from + BigInt(i);
+        const r = candidateAt(context.startR, index);
+        if (!isValidXCoordinate(r)) {
+            continue;
+        }
+        attempts++;
+
+        let address = recoverSigner(context.messageHash, recovery, r, s);
+        if (context.target.field === 'contractAddress') {
+            address = createAddress(address, BigInt(0));
+        }
+
+        if (matches(address)) {
+            const rHex = bytesToHex(setLengthLeft(bigIntToBytes(r), 32));
+            return { attempts, r: rHex, index: index.toString() };
+        }
+    }
+
+    return { attempts };
+}
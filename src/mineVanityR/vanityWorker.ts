@@ -0,0 +1,23 @@
+import { parentPort, workerData } from 'worker_threads';
+import { toBuffer } from '@ethereumjs/util';
+
+import { searchBatch, SearchContext } from './vanitySearch';
+
+/**
+ * Worker thread entry point of the vanity miner.
+ *
+ * Receives the search parameters through `workerData`, then searches every batch it is sent
+ * and replies with the number of attempts and the matching candidate, if any.
+ */
+const context: SearchContext = {
+    messageHash: toBuffer(workerData.messageHash),
+    v: BigInt(workerData.v),
+    s: toBuffer(workerData.s),
+    startR: BigInt(workerData.startR),
+    target: workerData.target,
+};
+
+parentPort?.on('message', (batch: { id: number; from: string; count: number }) => {
+    const result = searchBatch(context, BigInt(batch.from), batch.count);
+    parentPort?.postMessage({ id: batch.id, ...result });
+});
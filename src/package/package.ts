@@ -0,0 +1,13 @@
+// Replaced with the values of package.json at build time (see tsup.config.ts), so that no bundle embeds it
+declare const __PACKAGE_NAME__: string;
+declare const __PACKAGE_VERSION__: string;
+
+/**
+ * @dev Name of the package, as published.
+ */
+export const PACKAGE_NAME = __PACKAGE_NAME__;
+
+/**
+ * @dev Version of the package, as published.
+ */
+export const PACKAGE_VERSION = __PACKAGE_VERSION__;
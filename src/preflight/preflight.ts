@@ -0,0 +1,251 @@
+import { RLP } from '@ethereumjs/rlp';
+
+import { bigIntToBytes, bytesToHex, hexToBytes, isValidChecksumAddress } from '../bytes/bytes';
+import { isEvmVersionAtLeast } from '../chains/opcodes';
+import { resolveDeploymentBytecode, resolveTransactionData } from '../abi/abi';
+import { isNickMethodError, NickMethodError } from '../errors/errors';
+import { DeploymentConfig } from '../types/deploymentConfig';
+import {
+    GenerationOptions,
+    PreflightIssue,
+    PreflightOptions,
+    PreflightReport,
+} from '../types/preflightConfig';
+import { TransactionConfig } from '../types/transactionConfig';
+import { formatUnits, isValidHex, isValidQuantity, parseQuantity } from '../utils/utils';
+
+/** EIP-3860 limit on the size of initcode. */
+const MAX_INITCODE_SIZE = 49152;
+
+/** EIP-170 limit on the size of deployed code. */
+const MAX_CODE_SIZE = 24576;
+
+/** Largest transaction accepted by the txpool of geth and most other clients. */
+const MAX_TX_SIZE = 131072;
+
+/** Creation code emitted by solc ends with RETURN INVALID, right before the runtime code. */
+const SOLC_RUNTIME_MARKER = 'f3fe6080604052';
+
+/**
+ * Signature-sized placeholder, used to measure the signed transaction without signing it.
+ */
+const PLACEHOLDER_SIGNATURE = new Uint8Array(32).fill(0xff);
+
+/**
+ * Error thrown by the generators when the opt-in preflight check reports errors.
+ * The `report` property holds the full preflight report, the `field` is the one of the first error.
+ */
+export class PreflightError extends NickMethodError {
+    readonly report: PreflightReport;
+
+    constructor(report: PreflightReport) {
+        super(
+            'PREFLIGHT_FAILED',
+            `Preflight check failed:\n${report.errors.map((issue) => `  ${issue.message}`).join('\n')}`,
+            { field: report.errors[0]?.field },
+        );
+        this.name = 'PreflightError';
+        this.report = report;
+    }
+}
+
+function estimateRuntimeSize(bytecode: Uint8Array): number | undefined {
+    const marker = bytesToHex(bytecode).slice(2).indexOf(SOLC_RUNTIME_MARKER);
+    // Includes the metadata, and constructor arguments if any, so it errs on the high side
+    return marker !== -1 && marker % 2 === 0 ? bytecode.length - marker / 2 - 2 : undefined;
+}
+
+/**
+ * Checks whether a deployment or transaction configuration can ever be mined, before generating it.
+ *
+ * Errors cover malformed inputs (including a missing or non-checksummed `to`), a gas limit below the intrinsic gas (base cost, calldata bytes,
+ * CREATE surcharge and EIP-3860 initcode words), initcode over 49152 bytes and a signed transaction over
+ * the 128 KB txpool limit. Warnings cover runtime code likely over the EIP-170 limit, a zero or absurdly
+ * high gas price and bytecode or data with an odd hex length. Data encoded from an ABI is checked
+ * once encoded, and arguments that cannot be encoded are reported as errors.
+ *
+ * @param {DeploymentConfig | TransactionConfig} config - The configuration of `genRawDeployment`
+ * or `genRawTransaction`.
+ * @param {PreflightOptions} [options] - The hardfork whose rules apply and the gas price warning threshold.
+ * @returns {PreflightReport} The errors and warnings, with the intrinsic gas and serialized size.
+ */
+export function preflight(
+    config: DeploymentConfig | TransactionConfig,
+    options: PreflightOptions = {},
+): PreflightReport {
+    const { hardfork = 'shanghai', maxGasPrice = '10000 gwei' } = options;
+    const errors: PreflightIssue[] = [];
+    const warnings: PreflightIssue[] = [];
+    const report = (intrinsicGas?: bigint, serializedSize?: number): PreflightReport => ({
+        ok: errors.length === 0,
+        errors,
+        warnings,
+        intrinsicGas,
+        serializedSize,
+    });
+
+    const isDeployment = 'bytecode' in config;
+    const dataField = isDeployment ? 'bytecode' : 'data';
+    const encodesData = isDeployment
+        ? config.abi !== undefined || config.args !== undefined
+        : config.functionName !== undefined || config.abi !== undefined;
+    let data = isDeployment ? config.bytecode : config.data;
+
+    for (const field of ['gasLimit', 'gasPrice', 'value'] as const) {
+        if (!isValidQuantity(config[field])) {
+            errors.push({
+                code: 'INVALID_QUANTITY',
+                field,
+                message: `${field} is not a valid quantity`,
+            });
+        }
+    }
+    if (!isDeployment) {
+        if (config.to === undefined) {
+            errors.push({ code: 'MISSING_FIELD', field: 'to', message: 'to is missing' });
+        } else if (!isValidChecksumAddress(config.to)) {
+            errors.push({
+                code: 'NON_CHECKSUM_ADDRESS',
+                field: 'to',
+                message: 'to is not a valid checksummed address',
+            });
+        }
+    }
+    if ((isDeployment || !encodesData) && (typeof data !== 'string' || !isValidHex(data))) {
+        errors.push({
+            code: 'INVALID_HEX',
+            field: dataField,
+            message: `${dataField} is not a valid hex string`,
+        });
+    }
+    if (errors.length === 0 && encodesData) {
+        try {
+            data = isDeployment
+                ? resolveDeploymentBytecode(config)
+                : resolveTransactionData(config as TransactionConfig);
+        } catch (error) {
+            if (!isNickMethodError(error)) {
+                throw error;
+            }
+            errors.push({
+                code: 'INVALID_ARGUMENTS',
+                field: error.field ?? dataField,
+                message: error.message,
+            });
+        }
+    }
+    if (errors.length > 0 || data === undefined) {
+        return report();
+    }
+
+    if (data.length % 2 !== 0) {
+        warnings.push({
+            code: 'ODD_HEX_LENGTH',
+            field: dataField,
+            message: `${dataField} has an odd number of hex characters and will be left-padded with a zero`,
+        });
+    }
+
+    const gasLimit = parseQuantity(config.gasLimit);
+    const gasPrice = parseQuantity(config.gasPrice);
+    const bytes = hexToBytes(data);
+
+    // Intrinsic gas, as charged before execution
+    let intrinsicGas = BigInt(21000);
+    const nonZeroCost = isEvmVersionAtLeast(hardfork, 'istanbul') ? BigInt(16) : BigInt(68);
+    for (const byte of bytes) {
+        intrinsicGas += byte === 0 ? BigInt(4) : nonZeroCost;
+    }
+    if (isDeployment && isEvmVersionAtLeast(hardfork, 'homestead')) {
+        intrinsicGas += BigInt(32000);
+    }
+    if (isDeployment && isEvmVersionAtLeast(hardfork, 'shanghai')) {
+        intrinsicGas += BigInt(2) * BigInt(Math.ceil(bytes.length / 32));
+    }
+    if (intrinsicGas > gasLimit) {
+        errors.push({
+            code: 'INTRINSIC_GAS_TOO_HIGH',
+            field: 'gasLimit',
+            message: `The intrinsic gas of ${intrinsicGas} exceeds the gas limit of ${gasLimit}`,
+        });
+    }
+
+    if (isDeployment) {
+        if (isEvmVersionAtLeast(hardfork, 'shanghai') && bytes.length > MAX_INITCODE_SIZE) {
+            errors.push({
+                code: 'INITCODE_TOO_LARGE',
+                field: 'bytecode',
+                message: `The bytecode is ${bytes.length} bytes, above the initcode limit of ${MAX_INITCODE_SIZE} bytes`,
+            });
+        }
+
+        // Only an estimate, so a warning: the code actually deployed is known once executed
+        const runtimeSize = estimateRuntimeSize(bytes);
+        if (
+            isEvmVersionAtLeast(hardfork, 'byzantium') &&
+            (runtimeSize ?? bytes.length) > MAX_CODE_SIZE
+        ) {
+            warnings.push({
+                code: 'RUNTIME_CODE_TOO_LARGE',
+                field: 'bytecode',
+                message:
+                    runtimeSize !== undefined
+                        ? `The runtime code is about ${runtimeSize} bytes with its metadata and constructor arguments, likely above the contract size limit of ${MAX_CODE_SIZE} bytes`
+                        : `The bytecode is ${bytes.length} bytes, so the runtime code may exceed the contract size limit of ${MAX_CODE_SIZE} bytes`,
+            });
+        }
+    }
+
+    const serializedSize = RLP.encode([
+        new Uint8Array(0),
+        bigIntToBytes(gasPrice),
+        bigIntToBytes(gasLimit),
+        isDeployment ? new Uint8Array(0) : hexToBytes(config.to),
+        bigIntToBytes(parseQuantity(config.value)),
+        bytes,
+        Uint8Array.of(27),
+        PLACEHOLDER_SIGNATURE,
+        PLACEHOLDER_SIGNATURE,
+    ]).length;
+    if (serializedSize > MAX_TX_SIZE) {
+        errors.push({
+            code: 'TX_TOO_LARGE',
+            field: dataField,
+            message: `The signed transaction is ${serializedSize} bytes, above the txpool limit of ${MAX_TX_SIZE} bytes`,
+        });
+    }
+
+    if (gasPrice === BigInt(0)) {
+        warnings.push({
+            code: 'ZERO_GAS_PRICE',
+            field: 'gasPrice',
+            message: 'The gas price is zero, which most nodes refuse',
+        });
+    } else if (gasPrice > parseQuantity(maxGasPrice)) {
+        warnings.push({
+            code: 'HIGH_GAS_PRICE',
+            field: 'gasPrice',
+            message: `The gas price of ${formatUnits(gasPrice, 9)} gwei is unusually high`,
+        });
+    }
+
+    return report(intrinsicGas, serializedSize);
+}
+
+/**
+ * Runs the preflight check requested through the generation options, if any.
+ *
+ * @throws {PreflightError} If the preflight check reports errors.
+ */
+export function runPreflight(
+    config: DeploymentConfig | TransactionConfig,
+    options: GenerationOptions,
+): void {
+    if (!options.preflight) {
+        return;
+    }
+    const result = preflight(config, options.preflight === true ? {} : options.preflight);
+    if (!result.ok) {
+        throw new PreflightError(result);
+    }
+}
@@ -1,53 +1,562 @@
-import { Transaction } from '@ethereumjs/tx';
+import { RLP } from '@ethereumjs/rlp';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import { createAddress } from '../addresses/addresses';
+import { bytesToBigInt, bytesToHex, hexToBytes, toChecksumAddress } from '../bytes/bytes';
+import { KNOWN_DEPLOYMENTS } from '../catalog/registry';
+import { NickMethodError } from '../errors/errors';
+import { HARDCODED_R, HARDCODED_S } from '../signature/signature';
+import {
+    hashTransaction,
+    legacySigningHash,
+    recoverSigner,
+    typedPayload,
+} from '../transaction/transaction';
 import { isValidHex } from '../utils/utils';
-import { RecoveredTransactionResult } from '../types/rawTransactionConfig';
+import {
+    AccessListEntry,
+    RecoveredAccessListTransaction,
+    RecoveredBlobTransaction,
+    RecoveredFeeMarketTransaction,
+    RecoveredLegacyTransaction,
+    RecoveredTransactionResult,
+    SafeRecoverResult,
+    SignatureKind,
+} from '../types/rawTransactionConfig';
+import { KnownDeploymentId } from '../types/catalogConfig';
+
+/** EIP-4844 gas consumed by each blob. */
+const GAS_PER_BLOB = BigInt(131072);
+
+/** A decoded RLP item: a byte string or a list of items. */
+type RlpItem = Uint8Array | RlpItem[];
+
+/** Largest value of a 256-bit transaction field. */
+const MAX_INTEGER = BigInt(2) ** BigInt(256) - BigInt(1);
+
+/**
+ * Reports a failure of a decoding step as a `RLP_DECODE_FAILED` error, unless already typed.
+ */
+function toDecodeError(error: unknown): NickMethodError {
+    if (error instanceof NickMethodError) {
+        return error;
+    }
+    return new NickMethodError(
+        'RLP_DECODE_FAILED',
+        `Cannot decode rawTransaction: ${(error as Error)?.message ?? String(error)}`,
+        { field: 'rawTransaction', cause: error },
+    );
+}
+
+function decoding<T>(decode: () => T): T {
+    try {
+        return decode();
+    } catch (error) {
+        throw toDecodeError(error);
+    }
+}
+
+function decodeFailed(message: string): NickMethodError {
+    return new NickMethodError('RLP_DECODE_FAILED', message, { field: 'rawTransaction' });
+}
+
+/**
+ * Decodes the RLP list of fields of a transaction, expecting its unsigned or signed length.
+ */
+function decodeFieldList(encoded: Uint8Array, lengths: [number, number], name: string): RlpItem[] {
+    const values = RLP.decode(encoded) as RlpItem;
+    if (!Array.isArray(values) || !lengths.includes(values.length)) {
+        throw decodeFailed(
+            `Invalid serialized ${name} transaction: expected ${lengths[0]} fields when unsigned, ${lengths[1]} when signed`,
+        );
+    }
+    return values;
+}
+
+function readBytes(item: RlpItem | undefined, field: string): Uint8Array {
+    if (Array.isArray(item)) {
+        throw decodeFailed(`Invalid serialized transaction: ${field} cannot be a list`);
+    }
+    return item ?? new Uint8Array(0);
+}
+
+/**
+ * Reads an integer field, which must be minimally encoded and fit in the given number of bits.
+ */
+function readQuantity(item: RlpItem | undefined, field: string, bits = 256): bigint {
+    const bytes = readBytes(item, field);
+    if (bytes.length > 0 && bytes[0] === 0) {
+        throw decodeFailed(`Invalid serialized transaction: ${field} cannot have leading zeroes`);
+    }
+    const value = bytesToBigInt(bytes);
+    if (value >= BigInt(2) ** BigInt(bits)) {
+        throw decodeFailed(`Invalid serialized transaction: ${field} cannot exceed 2^${bits} - 1`);
+    }
+    return value;
+}
+
+/**
+ * Reads an optional signature value, undefined when empty as in unsigned legacy transactions.
+ */
+function readSignatureValue(item: RlpItem | undefined, field: string): bigint | undefined {
+    return readBytes(item, field).length > 0 ? readQuantity(item, field) : undefined;
+}
+
+/**
+ * Reads the y-parity of a typed transaction, which only the values 0 and 1 can recover a sender from.
+ */
+function readYParity(item: RlpItem | undefined): bigint {
+    const yParity = readQuantity(item, 'yParity');
+    if (yParity !== BigInt(0) && yParity !== BigInt(1)) {
+        throw new NickMethodError(
+            'INVALID_SIGNATURE',
+            'Invalid signature: yParity must be 0 or 1',
+            {
+                field: 'rawTransaction',
+            },
+        );
+    }
+    return yParity;
+}
+
+/**
+ * Reads the recipient, empty for contract creations.
+ */
+function readRecipient(item: RlpItem | undefined): Uint8Array {
+    const to = readBytes(item, 'to');
+    if (to.length !== 0 && to.length !== 20) {
+        throw decodeFailed('Invalid serialized transaction: to must be empty or a 20-byte address');
+    }
+    return to;
+}
+
+function readAccessList(item: RlpItem | undefined): AccessListEntry[] {
+    if (!Array.isArray(item)) {
+        throw decodeFailed('Invalid serialized transaction: accessList must be a list');
+    }
+    return item.map((entry) => {
+        if (
+            !Array.isArray(entry) ||
+            entry.length !== 2 ||
+            Array.isArray(entry[0]) ||
+            entry[0].length !== 20 ||
+            !Array.isArray(entry[1]) ||
+            entry[1].some((key) => Array.isArray(key) || key.length !== 32)
+        ) {
+            throw decodeFailed(
+                'Invalid serialized transaction: access list entries must be a 20-byte address and 32-byte storage keys',
+            );
+        }
+        return {
+            address: bytesToHex(entry[0]),
+            storageKeys: entry[1].map((key) => bytesToHex(key as Uint8Array)),
+        };
+    });
+}
+
+function classifySignature(
+    v: bigint | undefined,
+    r: bigint | undefined,
+    s: bigint | undefined,
+): SignatureKind {
+    if (v === undefined || r === undefined || s === undefined) {
+        return 'unsigned';
+    }
+    const defaultR = r === BigInt(HARDCODED_R);
+    const defaultS = s === BigInt(HARDCODED_S);
+    if (v !== BigInt(27) && v !== BigInt(28)) {
+        return 'other';
+    }
+    if (defaultS && v === BigInt(27)) {
+        return defaultR ? 'default' : 'custom-r';
+    }
+    // A private key cannot plausibly produce the library's r or s, so either one marks a library signature
+    return defaultR || defaultS ? 'custom' : 'other';
+}
+
+function findKnownDeploymentId(hash: string | undefined): KnownDeploymentId | undefined {
+    return KNOWN_DEPLOYMENTS.find((knownDeployment) => knownDeployment.hash === hash)?.id;
+}
+
+function invalidSignature(cause: unknown): NickMethodError {
+    return new NickMethodError(
+        'INVALID_SIGNATURE',
+        'Invalid signature: cannot recover the sender of rawTransaction',
+        { field: 'rawTransaction', cause },
+    );
+}
+
+function recoverSender(signingHash: Uint8Array, recovery: bigint, r: bigint, s: bigint): string {
+    try {
+        return toChecksumAddress(bytesToHex(recoverSigner(signingHash, Number(recovery), r, s)));
+    } catch (error) {
+        throw invalidSignature(error);
+    }
+}
+
+function toHexQuantity(value: bigint | undefined): string | undefined {
+    return value !== undefined ? '0x' + value.toString(16) : undefined;
+}
+
+function createdContractAddress(
+    sender: string | undefined,
+    to: Uint8Array,
+    nonce: bigint,
+): string | undefined {
+    return to.length === 0 && sender !== undefined
+        ? toChecksumAddress(bytesToHex(createAddress(hexToBytes(sender), nonce)))
+        : undefined;
+}
+
+function recoverLegacyTransaction(serialized: Uint8Array): RecoveredLegacyTransaction {
+    const { fields, v, r, s, chainId } = decoding(() => {
+        const values = decodeFieldList(serialized, [6, 9], 'legacy');
+        const fields = {
+            nonce: readQuantity(values[0], 'nonce', 64),
+            gasPrice: readQuantity(values[1], 'gasPrice'),
+            gasLimit: readQuantity(values[2], 'gasLimit', 64),
+            to: readRecipient(values[3]),
+            value: readQuantity(values[4], 'value'),
+            data: readBytes(values[5], 'data'),
+        };
+        const v = readSignatureValue(values[6], 'v');
+        if (v !== undefined && v < BigInt(37) && v !== BigInt(27) && v !== BigInt(28)) {
+            throw decodeFailed(
+                `Invalid serialized transaction: legacy transactions need either v = 27/28 or v >= 37, got v = ${v}`,
+            );
+        }
+        if (fields.gasPrice * fields.gasLimit > MAX_INTEGER) {
+            throw decodeFailed(
+                'Invalid serialized transaction: gasLimit * gasPrice cannot exceed 2^256 - 1',
+            );
+        }
+        return {
+            fields,
+            v,
+            r: readSignatureValue(values[7], 'r'),
+            s: readSignatureValue(values[8], 's'),
+            // EIP-155 signatures encode the chain id into v
+            chainId: v !== undefined && v >= BigInt(37) ? (v - BigInt(35)) / BigInt(2) : undefined,
+        };
+    });
+
+    // Recover the sender, when signed
+    const signed = v !== undefined && r !== undefined && s !== undefined;
+    let sender: string | undefined;
+    if (signed) {
+        const recovery =
+            chainId !== undefined ? v - BigInt(35) - BigInt(2) * chainId : v - BigInt(27);
+        sender = recoverSender(legacySigningHash(fields, chainId), recovery, r, s);
+    }
+
+    // Unsigned transactions carry no chain id, so they are hashed for signing without EIP-155
+    const signingHash = legacySigningHash(fields, chainId);
+    const hash = signed ? hashTransaction(bytesToHex(serialized)) : undefined;
+    return {
+        type: 'legacy',
+        nonce: fields.nonce,
+        gasPrice: fields.gasPrice,
+        gasLimit: fields.gasLimit,
+        to: fields.to.length > 0 ? bytesToHex(fields.to) : undefined,
+        value: fields.value,
+        data: bytesToHex(fields.data),
+        v: toHexQuantity(v),
+        r: toHexQuantity(r),
+        s: toHexQuantity(s),
+        senderAddress: sender,
+        hash,
+        signingHash: bytesToHex(signingHash),
+        contractAddress: createdContractAddress(sender, fields.to, fields.nonce),
+        upfrontCost: fields.gasLimit * fields.gasPrice + fields.value,
+        chainId,
+        replayProtected: chainId !== undefined,
+        signatureKind: classifySignature(v, r, s),
+        knownDeployment: findKnownDeploymentId(hash),
+    };
+}
+
+/**
+ * Recovers an EIP-2930 or EIP-1559 transaction, whose payloads are
+ * `[chainId, nonce, gasPrice, gasLimit, to, value, data, accessList, yParity, r, s]` and
+ * `[chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data, accessList, yParity, r, s]`.
+ */
+function recoverFeeTransaction(
+    serialized: Uint8Array,
+): RecoveredAccessListTransaction | RecoveredFeeMarketTransaction {
+    const type = serialized[0];
+    const { values, fees, fields, accessList, v, r, s } = decoding(() => {
+        const values =
+            type === 2
+                ? decodeFieldList(serialized.subarray(1), [9, 12], 'EIP-1559')
+                : decodeFieldList(serialized.subarray(1), [8, 11], 'EIP-2930');
+        // The fee market replaces the gas price with two fees
+        const offset = type === 2 ? 1 : 0;
+        const fees: { gasPrice: bigint } | { maxPriorityFeePerGas: bigint; maxFeePerGas: bigint } =
+            type === 2
+                ? {
+                      maxPriorityFeePerGas: readQuantity(values[2], 'maxPriorityFeePerGas'),
+                      maxFeePerGas: readQuantity(values[3], 'maxFeePerGas'),
+                  }
+                : { gasPrice: readQuantity(values[2], 'gasPrice') };
+        const fields = {
+            chainId: readQuantity(values[0], 'chainId'),
+            nonce: readQuantity(values[1], 'nonce', 64),
+            gasLimit: readQuantity(values[3 + offset], 'gasLimit', 64),
+            to: readRecipient(values[4 + offset]),
+            value: readQuantity(values[5 + offset], 'value'),
+            data: readBytes(values[6 + offset], 'data'),
+        };
+        // A zero y-parity is encoded empty, so the field count tells whether the transaction is signed
+        const v = values.length > 8 + offset ? readYParity(values[8 + offset]) : undefined;
+        const feePerGas = 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas;
+        if ('maxFeePerGas' in fees && fees.maxFeePerGas < fees.maxPriorityFeePerGas) {
+            throw decodeFailed(
+                'Invalid serialized transaction: maxFeePerGas cannot be less than maxPriorityFeePerGas',
+            );
+        }
+        if (feePerGas * fields.gasLimit > MAX_INTEGER) {
+            throw decodeFailed(
+                'Invalid serialized transaction: gasLimit * fee per gas cannot exceed 2^256 - 1',
+            );
+        }
+        return {
+            values,
+            fees,
+            fields,
+            accessList: readAccessList(values[7 + offset]),
+            v,
+            r: readSignatureValue(values[9 + offset], 'r'),
+            s: readSignatureValue(values[10 + offset], 's'),
+        };
+    });
+
+    const unsignedLength = type === 2 ? 9 : 8;
+    const signingHash = keccak256(
+        typedPayload(type, RLP.encode(values.slice(0, unsignedLength) as Uint8Array[])),
+    );
+    const signed = v !== undefined && r !== undefined && s !== undefined;
+    const sender = signed ? recoverSender(signingHash, v, r, s) : undefined;
+
+    const recovered = {
+        nonce: fields.nonce,
+        gasLimit: fields.gasLimit,
+        to: fields.to.length > 0 ? bytesToHex(fields.to) : undefined,
+        value: fields.value,
+        data: bytesToHex(fields.data),
+        v: toHexQuantity(v),
+        r: toHexQuantity(r),
+        s: toHexQuantity(s),
+        senderAddress: sender,
+        hash: signed ? hashTransaction(bytesToHex(serialized)) : undefined,
+        signingHash: bytesToHex(signingHash),
+        contractAddress: createdContractAddress(sender, fields.to, fields.nonce),
+        chainId: fields.chainId,
+        replayProtected: true as const,
+        signatureKind: signed ? ('other' as const) : ('unsigned' as const),
+        accessList,
+    };
+
+    if ('maxFeePerGas' in fees) {
+        return {
+            type: 'eip1559',
+            ...recovered,
+            ...fees,
+            upfrontCost: fields.gasLimit * fees.maxFeePerGas + fields.value,
+        };
+    }
+    return {
+        type: 'eip2930',
+        ...recovered,
+        gasPrice: fees.gasPrice,
+        upfrontCost: fields.gasLimit * fees.gasPrice + fields.value,
+    };
+}
+
+function readBlobVersionedHash(item: RlpItem): string {
+    const hash = readBytes(item, 'blobVersionedHashes');
+    if (hash.length !== 32) {
+        throw new NickMethodError(
+            'INVALID_HEX',
+            `Invalid serialized EIP-4844 transaction: blob versioned hashes must be 32 bytes, got ${hash.length}`,
+            { field: 'rawTransaction' },
+        );
+    }
+    return bytesToHex(hash);
+}
+
+/**
+ * Recovers an EIP-4844 transaction, whose payload is `[chainId, nonce, maxPriorityFeePerGas,
+ * maxFeePerGas, gasLimit, to, value, data, accessList, maxFeePerBlobGas, blobVersionedHashes,
+ * yParity, r, s]`. The network form, which wraps the payload with the blobs, commitments and proofs,
+ * is accepted as well.
+ */
+function recoverBlobTransaction(serialized: Uint8Array): RecoveredBlobTransaction {
+    const { payload, fields, v, r, s } = decoding(() => {
+        const decoded = RLP.decode(serialized.subarray(1)) as RlpItem;
+        const payload = Array.isArray(decoded) && Array.isArray(decoded[0]) ? decoded[0] : decoded;
+        if (!Array.isArray(payload) || (payload.length !== 11 && payload.length !== 14)) {
+            throw decodeFailed(
+                'Invalid serialized EIP-4844 transaction: expected 11 fields when unsigned, 14 when signed',
+            );
+        }
+
+        const to = readRecipient(payload[5]);
+        const blobVersionedHashes = payload[10];
+        if (to.length !== 20 || !Array.isArray(blobVersionedHashes)) {
+            throw decodeFailed(
+                'Invalid serialized EIP-4844 transaction: expected a recipient, an access list and blob hashes',
+            );
+        }
+        return {
+            payload,
+            fields: {
+                chainId: readQuantity(payload[0], 'chainId'),
+                nonce: readQuantity(payload[1], 'nonce', 64),
+                maxPriorityFeePerGas: readQuantity(payload[2], 'maxPriorityFeePerGas'),
+                maxFeePerGas: readQuantity(payload[3], 'maxFeePerGas'),
+                gasLimit: readQuantity(payload[4], 'gasLimit', 64),
+                to,
+                value: readQuantity(payload[6], 'value'),
+                data: readBytes(payload[7], 'data'),
+                accessList: readAccessList(payload[8]),
+                maxFeePerBlobGas: readQuantity(payload[9], 'maxFeePerBlobGas'),
+                blobVersionedHashes: blobVersionedHashes.map(readBlobVersionedHash),
+            },
+            v: payload.length === 14 ? readYParity(payload[11]) : undefined,
+            r: readSignatureValue(payload[12], 'r'),
+            s: readSignatureValue(payload[13], 's'),
+        };
+    });
+
+    const signingHash = keccak256(
+        typedPayload(3, RLP.encode(payload.slice(0, 11) as Uint8Array[])),
+    );
+    const signed = v !== undefined && r !== undefined && s !== undefined;
+    const blobGas = GAS_PER_BLOB * BigInt(fields.blobVersionedHashes.length);
+    return {
+        type: 'eip4844',
+        nonce: fields.nonce,
+        gasLimit: fields.gasLimit,
+        to: bytesToHex(fields.to),
+        value: fields.value,
+        data: bytesToHex(fields.data),
+        v: toHexQuantity(v),
+        r: toHexQuantity(r),
+        s: toHexQuantity(s),
+        senderAddress: signed ? recoverSender(signingHash, v, r, s) : undefined,
+        // The hash covers the canonical payload, without the blobs of the network form
+        hash: signed
+            ? bytesToHex(keccak256(typedPayload(3, RLP.encode(payload as Uint8Array[]))))
+            : undefined,
+        signingHash: bytesToHex(signingHash),
+        contractAddress: undefined,
+        upfrontCost:
+            fields.gasLimit * fields.maxFeePerGas +
+            blobGas * fields.maxFeePerBlobGas +
+            fields.value,
+        chainId: fields.chainId,
+        replayProtected: true,
+        signatureKind: signed ? 'other' : 'unsigned',
+        accessList: fields.accessList,
+        maxPriorityFeePerGas: fields.maxPriorityFeePerGas,
+        maxFeePerGas: fields.maxFeePerGas,
+        maxFeePerBlobGas: fields.maxFeePerBlobGas,
+        blobVersionedHashes: fields.blobVersionedHashes,
+    };
+}
 
 /**
  * Recovers transaction details from a raw transaction string.
  *
  * This function takes a raw transaction in hexadecimal format and decodes it to extract
- * the individual transaction parameters. It supports both legacy and EIP-155 transactions.
+ * the individual transaction parameters. It supports legacy transactions, with or without EIP-155
+ * replay protection, and EIP-2718 typed transactions: EIP-2930 access list, EIP-1559 fee market and
+ * EIP-4844 blob transactions. The `type` of the result tells which fields are present.
+ *
+ * Typed transactions always sign their chain id, so they can never be Nick-method transactions: only
+ * legacy transactions can have a `default`, `custom-r` or `custom` signature kind.
+ *
+ * On top of the fields, it recovers the sender, the transaction and signing hashes, the address of the
+ * contract created by a deployment, the upfront cost, and how the transaction was signed. Legacy transactions
+ * are also tagged with the built-in catalog entry they match, if any.
  *
  * @param {string} rawTransaction - The raw transaction data as a hexadecimal string.
  *
  * @returns {RecoveredTransactionResult} An object containing the recovered transaction details.
- * @property {number} nonce - The nonce of the transaction.
- * @property {number} gasPrice - The gas price in wei.
- * @property {number} gasLimit - The gas limit for the transaction.
+ * @property {string} type - `legacy`, `eip2930`, `eip1559` or `eip4844`.
+ * @property {bigint} nonce - The nonce of the transaction.
+ * @property {bigint} gasPrice - The gas price in wei, for legacy and EIP-2930 transactions.
+ * @property {bigint} maxPriorityFeePerGas - The maximum tip per gas, for EIP-1559 and EIP-4844 transactions.
+ * @property {bigint} maxFeePerGas - The maximum fee per gas, for EIP-1559 and EIP-4844 transactions.
+ * @property {bigint} gasLimit - The gas limit for the transaction.
  * @property {string|undefined} to - The recipient address of the transaction, or undefined for contract creation.
- * @property {number} value - The amount of Ether being transferred in wei.
+ * @property {bigint} value - The amount of Ether being transferred in wei.
  * @property {string} data - The data payload of the transaction as a hexadecimal string.
  * @property {string|undefined} v - The v value of the transaction signature.
  * @property {string|undefined} r - The r value of the transaction signature.
  * @property {string|undefined} s - The s value of the transaction signature.
+ * @property {string|undefined} senderAddress - The address recovered from the signature.
+ * @property {string|undefined} hash - The transaction hash.
+ * @property {string} signingHash - The hash signed by the sender.
+ * @property {string|undefined} contractAddress - The address of the contract created by a deployment.
+ * @property {bigint} upfrontCost - The upfront cost of the transaction in wei.
+ * @property {bigint|undefined} chainId - The chain id, undefined for unprotected transactions.
+ * @property {boolean} replayProtected - Whether the transaction is bound to a chain.
+ * @property {SignatureKind} signatureKind - Whether the signature is the library's default Nick-method
+ * signature, one with a custom r, another signature, or none.
+ * @property {KnownDeploymentId|undefined} knownDeployment - The catalog entry the transaction is, for legacy
+ * transactions.
+ * @property {AccessListEntry[]} accessList - The access list, for typed transactions.
+ * @property {bigint} maxFeePerBlobGas - The maximum fee per blob gas, for EIP-4844 transactions.
+ * @property {string[]} blobVersionedHashes - The blob hashes, for EIP-4844 transactions.
  *
- * @throws {Error} If the input is not a valid hexadecimal string.
+ * @throws {NickMethodError} If the input is not a valid hexadecimal string or has a blob hash that is not
+ * 32 bytes long (`INVALID_HEX`), has an unknown type (`UNSUPPORTED_TRANSACTION_TYPE`), cannot be decoded
+ * (`RLP_DECODE_FAILED`), or has a y-parity other than 0 or 1 or a signature from which no sender can be
+ * recovered (`INVALID_SIGNATURE`).
  */
 export function recoverRawTransaction(rawTransaction: string): RecoveredTransactionResult {
     // Validate that the input is a valid hex string
     if (!isValidHex(rawTransaction)) {
-        throw new Error('Invalid hex value for rawTransaction');
+        throw new NickMethodError('INVALID_HEX', 'Invalid hex value for rawTransaction', {
+            field: 'rawTransaction',
+        });
     }
 
-    // Remove '0x' prefix if present
-    const cleanedRawTx = rawTransaction.startsWith('0x') ? rawTransaction.slice(2) : rawTransaction;
+    const serialized = hexToBytes(rawTransaction);
 
-    // Convert hex string to Uint8Array
-    const serialized = Buffer.from(cleanedRawTx, 'hex');
-
-    // Recover the transaction
-    const tx = Transaction.fromSerializedTx(serialized);
+    // Dispatch on the EIP-2718 type: legacy transactions start with an RLP list prefix
+    const type = serialized[0];
+    if (type === undefined || type >= 0xc0) {
+        return recoverLegacyTransaction(serialized);
+    }
+    if (type === 1 || type === 2) {
+        return recoverFeeTransaction(serialized);
+    }
+    if (type === 3) {
+        return recoverBlobTransaction(serialized);
+    }
+    throw new NickMethodError(
+        'UNSUPPORTED_TRANSACTION_TYPE',
+        `Unsupported transaction type 0x${type.toString(16).padStart(2, '0')}`,
+        { field: 'rawTransaction' },
+    );
+}
 
-    // Return the recovered transaction data
-    return {
-        nonce: Number(tx.nonce),
-        gasPrice: Number(tx.gasPrice),
-        gasLimit: Number(tx.gasLimit),
-        to: tx.to?.toString(),
-        value: Number(tx.value),
-        data: '0x' + tx.data.toString('hex'),
-        v: tx.v !== undefined ? '0x' + tx.v.toString(16) : undefined,
-        r: tx.r !== undefined ? '0x' + tx.r.toString(16) : undefined,
-        s: tx.s !== undefined ? '0x' + tx.s.toString(16) : undefined,
-    };
+/**
+ * Recovers transaction details from a raw transaction string, without throwing.
+ *
+ * Meant for batch processing: each transaction yields either its details or the error that prevented
+ * recovering them.
+ *
+ * @param {string} rawTransaction - The raw transaction data as a hexadecimal string.
+ * @returns {SafeRecoverResult} `{ success: true, data }` with the result of `recoverRawTransaction`,
+ * or `{ success: false, error }` with a `NickMethodError`.
+ */
+export function safeRecoverRawTransaction(rawTransaction: string): SafeRecoverResult {
+    try {
+        return { success: true, data: recoverRawTransaction(rawTransaction) };
+    } catch (error) {
+        return { success: false, error: toDecodeError(error) };
+    }
 }
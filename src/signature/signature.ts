@@ -0,0 +1,142 @@
+import { NickMethodError } from '../errors/errors';
+import { KeylessSignature, SignatureConfig } from '../types/signatureConfig';
+import { isValidHex } from '../utils/utils';
+
+/**
+ * @dev The field prime of the secp256k1 curve.
+ */
+export const SECP256K1_P = BigInt(
+    '0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f',
+);
+
+/**
+ * @dev The order of the secp256k1 curve.
+ */
+export const SECP256K1_N = BigInt(
+    '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+
+/**
+ * @dev Hardcoded `v` value for the transaction signature.
+ * This is equivalent to 27, which is the `v` value not containing the chainId.
+ * Using this value enables non-protected transactions according to EIP-155.
+ */
+export const HARDCODED_V = '0x1b';
+
+/**
+ * @dev Hardcoded `r` value for the transaction signature.
+ * This is a dummy value designed to produce a signature that is
+ * extremely unlikely to be relevant for a controlled address.
+ */
+export const HARDCODED_R = '0x1212121212121212121212121212121212121212121212121212121212121212';
+
+/**
+ * @dev Hardcoded `s` value for the transaction signature.
+ * This is a dummy value designed to produce a signature that is
+ * extremely unlikely to be relevant for a controlled address.
+ */
+export const HARDCODED_S = '0x1212121212121212121212121212121212121212121212121212121212121212';
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = BigInt(1);
+    base %= modulus;
+    while (exponent > BigInt(0)) {
+        if (exponent & BigInt(1)) {
+            result = (result * base) % modulus;
+        }
+        base = (base * base) % modulus;
+        exponent >>= BigInt(1);
+    }
+    return result;
+}
+
+/**
+ * Checks if a value can be used as the `r` value of a recoverable signature, meaning it is
+ * in the range [1, n - 1] and is the x-coordinate of a point on the secp256k1 curve.
+ *
+ * @param {bigint} x - The value to be checked.
+ * @returns {boolean} True if a point with this x-coordinate exists on the curve, false otherwise.
+ */
+export function isValidXCoordinate(x: bigint): boolean {
+    if (x <= BigInt(0) || x >= SECP256K1_N) {
+        return false;
+    }
+
+    // y^2 = x^3 + 7 must be a quadratic residue modulo p (Euler's criterion)
+    const ySquared = (modPow(x, BigInt(3), SECP256K1_P) + BigInt(7)) % SECP256K1_P;
+    return (
+        ySquared === BigInt(0) ||
+        modPow(ySquared, (SECP256K1_P - BigInt(1)) / BigInt(2), SECP256K1_P) === BigInt(1)
+    );
+}
+
+function toBigInt(hex: string): bigint {
+    return hex === '0x' ? BigInt(0) : BigInt(hex);
+}
+
+/**
+ * Validates the signature parameters of a keyless transaction and fills in the hardcoded defaults.
+ *
+ * Every check mirrors a rule that would otherwise make the transaction unusable: r and s must be in
+ * the range [1, n - 1], s must be in the lower half of the curve order as required by EIP-2, r must be
+ * the x-coordinate of a point on secp256k1 for a sender to be recoverable, and v must be 27 or 28 for
+ * the transaction to stay replayable across chains.
+ *
+ * @param {SignatureConfig} config - The optional r, s and v values.
+ * @returns {KeylessSignature} The r, s and v values to sign the transaction with.
+ *
+ * @throws {NickMethodError} If a value is not hex (`INVALID_HEX`), out of range, or r is not a valid
+ * x-coordinate (`INVALID_SIGNATURE`), with the offending `field`.
+ */
+export function resolveSignature(config: SignatureConfig): KeylessSignature {
+    if (config.r && !isValidHex(config.r)) {
+        throw new NickMethodError('INVALID_HEX', 'Invalid hex value for customR', { field: 'r' });
+    }
+    if (config.s && !isValidHex(config.s)) {
+        throw new NickMethodError('INVALID_HEX', 'Invalid hex value for customS', { field: 's' });
+    }
+
+    const r = config.r || HARDCODED_R;
+    const s = config.s || HARDCODED_S;
+
+    const rValue = toBigInt(r);
+    if (rValue <= BigInt(0) || rValue >= SECP256K1_N) {
+        throw new NickMethodError(
+            'INVALID_SIGNATURE',
+            'Invalid r: must be in the range [1, n - 1] of the secp256k1 curve order',
+            { field: 'r' },
+        );
+    }
+    if (!isValidXCoordinate(rValue)) {
+        throw new NickMethodError(
+            'INVALID_SIGNATURE',
+            'Invalid r: not the x-coordinate of a point on secp256k1, so no sender can be recovered',
+            { field: 'r' },
+        );
+    }
+
+    const sValue = toBigInt(s);
+    if (sValue <= BigInt(0) || sValue >= SECP256K1_N) {
+        throw new NickMethodError(
+            'INVALID_SIGNATURE',
+            'Invalid s: must be in the range [1, n - 1] of the secp256k1 curve order',
+            { field: 's' },
+        );
+    }
+    if (sValue > SECP256K1_N / BigInt(2)) {
+        throw new NickMethodError(
+            'INVALID_SIGNATURE',
+            'Invalid s: must be in the lower half of the curve order (EIP-2)',
+            { field: 's' },
+        );
+    }
+
+    if (config.v !== undefined && config.v !== 27 && config.v !== 28) {
+        throw new NickMethodError('INVALID_SIGNATURE', 'Invalid v: must be 27 or 28', {
+            field: 'v',
+        });
+    }
+    const v = config.v !== undefined ? `0x${config.v.toString(16)}` : HARDCODED_V;
+
+    return { r, s, v };
+}
@@ -0,0 +1,333 @@
+import { Block } from '@ethereumjs/block';
+import { Chain, Common, Hardfork } from '@ethereumjs/common';
+import { Transaction } from '@ethereumjs/tx';
+import { Account, Address, bufferToHex, toBuffer, toChecksumAddress } from '@ethereumjs/util';
+import { VM } from '@ethereumjs/vm';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import { NickMethodError } from '../errors/errors';
+import { genRawDeployment } from '../genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../genRawTransaction/genRawTransaction';
+import { EvmVersion } from '../types/chainConfig';
+import {
+    AutoGasDeploymentConfig,
+    AutoGasTransactionConfig,
+    SimulatedDeployment,
+    SimulatedTransaction,
+    SimulationOptions,
+    SimulationResult,
+} from '../types/simulationConfig';
+import { isValidHex, parseQuantity } from '../utils/utils';
+
+/**
+ * Hardforks supported by the simulator, by EVM version.
+ */
+const HARDFORKS: { [version in EvmVersion]?: Hardfork } = {
+    frontier: Hardfork.Chainstart,
+    homestead: Hardfork.Homestead,
+    byzantium: Hardfork.Byzantium,
+    constantinople: Hardfork.Constantinople,
+    petersburg: Hardfork.Petersburg,
+    istanbul: Hardfork.Istanbul,
+    berlin: Hardfork.Berlin,
+    london: Hardfork.London,
+    paris: Hardfork.Merge,
+    shanghai: Hardfork.Shanghai,
+};
+
+/**
+ * Highest gas limit tried in `'auto'` mode, the block gas limit of most chains.
+ */
+const MAX_GAS_LIMIT = BigInt(30000000);
+
+const ERROR_SELECTOR = '08c379a0';
+const PANIC_SELECTOR = '4e487b71';
+
+function decodeRevertReason(returnData: Buffer): string | undefined {
+    const selector = returnData.subarray(0, 4).toString('hex');
+    if (selector === ERROR_SELECTOR && returnData.length >= 68) {
+        const length = Number(BigInt(bufferToHex(returnData.subarray(36, 68))));
+        return returnData.subarray(68, 68 + length).toString('utf8');
+    }
+    if (selector === PANIC_SELECTOR && returnData.length === 36) {
+        return `Panic(0x${BigInt(bufferToHex(returnData.subarray(4))).toString(16)})`;
+    }
+    return undefined;
+}
+
+async function createVM(options: SimulationOptions): Promise<{ vm: VM; common: Common }> {
+    const version = options.hardfork ?? 'shanghai';
+    const hardfork = HARDFORKS[version];
+    if (hardfork === undefined) {
+        throw new NickMethodError(
+            'UNSUPPORTED_HARDFORK',
+            `Hardfork ${version} is not supported by the simulator`,
+            { field: 'hardfork' },
+        );
+    }
+
+    const common = new Common({ chain: Chain.Mainnet, hardfork });
+    const vm = await VM.create({ common });
+
+    for (const [address, account] of Object.entries(options.accounts ?? {})) {
+        if (!isValidHex(address) || address.length !== 42) {
+            throw new NickMethodError('INVALID_OPTION', `Invalid account address ${address}`, {
+                field: 'accounts',
+            });
+        }
+        const key = Address.fromString(address.toLowerCase());
+        await vm.stateManager.putAccount(
+            key,
+            Account.fromAccountData({
+                balance: parseQuantity(account.balance ?? 0),
+                nonce: parseQuantity(account.nonce ?? 0),
+            }),
+        );
+        if (account.code !== undefined) {
+            if (!isValidHex(account.code)) {
+                throw new NickMethodError(
+                    'INVALID_HEX',
+                    `Invalid hex value for the code of ${address}`,
+                    { field: 'accounts' },
+                );
+            }
+            await vm.stateManager.putContractCode(key, toBuffer(account.code));
+        }
+    }
+    return { vm, common };
+}
+
+async function execute(vm: VM, common: Common, rawTx: string): Promise<SimulationResult> {
+    if (!isValidHex(rawTx)) {
+        throw new NickMethodError('INVALID_HEX', 'Invalid hex value for rawTx', { field: 'rawTx' });
+    }
+    const serialized = toBuffer(rawTx);
+    if (serialized.length > 0 && serialized[0] <= 0x7f) {
+        throw new NickMethodError(
+            'UNSUPPORTED_TRANSACTION_TYPE',
+            `Only legacy transactions can be simulated, got type ${serialized[0]}`,
+            { field: 'rawTx' },
+        );
+    }
+    let gasLimit: bigint;
+    try {
+        ({ gasLimit } = Transaction.fromSerializedTx(serialized));
+    } catch (error) {
+        throw new NickMethodError(
+            'RLP_DECODE_FAILED',
+            `Cannot decode rawTx: ${(error as Error).message}`,
+            { field: 'rawTx', cause: error },
+        );
+    }
+
+    const failure = (error: string): SimulationResult => ({
+        success: false,
+        gasLimit,
+        gasUsed: BigInt(0),
+        error,
+        revertReason: undefined,
+        returnData: '0x',
+        contractAddress: undefined,
+        runtimeCode: undefined,
+        runtimeCodeHash: undefined,
+        logs: [],
+    });
+
+    // Invalid transactions, e.g. with too large an initcode or a gas limit below the intrinsic gas,
+    // are rejected before execution
+    let result;
+    try {
+        const tx = Transaction.fromSerializedTx(serialized, { common });
+        result = await vm.runTx({
+            tx,
+            // A zero base fee lets any gas price in, as on chains without EIP-1559
+            block: Block.fromBlockData(
+                { header: common.isActivatedEIP(1559) ? { baseFeePerGas: BigInt(0) } : {} },
+                { common },
+            ),
+            skipBalance: true,
+            skipBlockGasLimitValidation: true,
+        });
+    } catch (error) {
+        const message = (error as Error).message.split(' (')[0].split(' -> ')[0];
+        return failure(
+            message.replace(/^base fee exceeds gas limit$/, 'intrinsic gas exceeds gas limit'),
+        );
+    }
+
+    const { execResult, createdAddress } = result;
+    const exception = execResult.exceptionError?.error;
+    let runtimeCode: Buffer | undefined;
+    if (createdAddress !== undefined && exception === undefined) {
+        runtimeCode = await vm.stateManager.getContractCode(createdAddress);
+    }
+
+    return {
+        success: exception === undefined,
+        gasLimit,
+        gasUsed: result.totalGasSpent,
+        error: exception,
+        revertReason:
+            exception === 'revert' ? decodeRevertReason(execResult.returnValue) : undefined,
+        returnData: bufferToHex(execResult.returnValue),
+        contractAddress:
+            createdAddress !== undefined ? toChecksumAddress(createdAddress.toString()) : undefined,
+        runtimeCode: runtimeCode !== undefined ? bufferToHex(runtimeCode) : undefined,
+        runtimeCodeHash:
+            runtimeCode !== undefined
+                ? bufferToHex(Buffer.from(keccak256(runtimeCode)))
+                : undefined,
+        logs: (execResult.logs ?? []).map(([address, topics, data]) => ({
+            address: toChecksumAddress(bufferToHex(address)),
+            topics: topics.map((topic) => bufferToHex(topic)),
+            data: bufferToHex(data),
+        })),
+    };
+}
+
+/**
+ * Runs a raw transaction in an in-memory EVM, without broadcasting it.
+ *
+ * The sender is credited with the upfront cost if needed, so that unfunded keyless deployers can be simulated.
+ * The block is a default mainnet block of the chosen hardfork.
+ *
+ * @param {string | { rawTx: string }} transaction - The raw transaction, or the output of `genRawDeployment`
+ * or `genRawTransaction`.
+ * @param {SimulationOptions} [options] - The hardfork, and the state to set up before the transaction.
+ * @returns {Promise<SimulationResult>} The outcome of the transaction: gas used, revert reason, deployed code and logs.
+ *
+ * @throws {NickMethodError} If the hardfork is unsupported, a transaction or account is invalid, or a setup
+ * transaction fails (`SIMULATION_SETUP_FAILED`).
+ */
+export async function simulate(
+    transaction: string | { rawTx: string },
+    options: SimulationOptions = {},
+): Promise<SimulationResult> {
+    const { vm, common } = await createVM(options);
+    for (const [index, rawTx] of (options.setup ?? []).entries()) {
+        let result;
+        try {
+            result = await execute(vm, common, rawTx);
+        } catch (error) {
+            throw new NickMethodError(
+                'SIMULATION_SETUP_FAILED',
+                `Setup transaction ${index} is invalid: ${(error as Error).message}`,
+                { field: 'setup', cause: error },
+            );
+        }
+        // The simulated transaction would otherwise run against incomplete state
+        if (!result.success) {
+            const reason = result.revertReason !== undefined ? ` (${result.revertReason})` : '';
+            throw new NickMethodError(
+                'SIMULATION_SETUP_FAILED',
+                `Setup transaction ${index} failed: ${result.error}${reason}`,
+                { field: 'setup' },
+            );
+        }
+    }
+    return execute(vm, common, typeof transaction === 'string' ? transaction : transaction.rawTx);
+}
+
+async function simulateWithGas<T extends { rawTx: string }>(
+    gasLimit: AutoGasDeploymentConfig['gasLimit'],
+    generate: (gasLimit: bigint) => T,
+    options: SimulationOptions,
+): Promise<{ result: T; simulation: SimulationResult }> {
+    const run = async (limit: bigint) => {
+        const result = generate(limit);
+        return { result, simulation: await simulate(result, options) };
+    };
+
+    if (gasLimit !== 'auto') {
+        return run(parseQuantity(gasLimit));
+    }
+
+    const margin = options.gasMargin ?? 0.2;
+    if (!Number.isFinite(margin) || margin < 0) {
+        throw new NickMethodError(
+            'INVALID_OPTION',
+            'The gas margin must be a non-negative number',
+            {
+                field: 'gasMargin',
+            },
+        );
+    }
+
+    const ceiling = await run(MAX_GAS_LIMIT);
+    if (!ceiling.simulation.success) {
+        throw new NickMethodError(
+            'GAS_ESTIMATION_FAILED',
+            `Cannot estimate the gas limit: the transaction fails with ${MAX_GAS_LIMIT} gas ` +
+                `(${ceiling.simulation.revertReason ?? ceiling.simulation.error})`,
+            { field: 'gasLimit' },
+        );
+    }
+
+    // The lowest working limit is above the gas used, because of refunds and of the gas kept by calls (EIP-150)
+    let low = ceiling.simulation.gasUsed - BigInt(1);
+    let high = MAX_GAS_LIMIT;
+    const guess = (ceiling.simulation.gasUsed * BigInt(64)) / BigInt(63) + BigInt(1);
+    if (guess < high && (await run(guess)).simulation.success) {
+        high = guess;
+    }
+    while (high - low > BigInt(1)) {
+        const middle = (low + high) / BigInt(2);
+        if ((await run(middle)).simulation.success) {
+            high = middle;
+        } else {
+            low = middle;
+        }
+    }
+
+    const withMargin = high + BigInt(Math.ceil(Number(high) * margin));
+    return run(withMargin);
+}
+
+/**
+ * Generates a deployment and simulates it in an in-memory EVM.
+ *
+ * With `gasLimit: 'auto'`, the lowest gas limit for which the deployment succeeds is searched for, and
+ * increased by the `gasMargin` option. Since the gas limit is signed, each limit yields different addresses:
+ * the returned deployment is the one generated with the final limit.
+ *
+ * @param {AutoGasDeploymentConfig} config - The deployment configuration, with a gas limit or `'auto'`.
+ * @param {SimulationOptions} [options] - The hardfork, gas margin and initial state.
+ * @returns {Promise<SimulatedDeployment>} The deployment and the outcome of its simulation.
+ *
+ * @throws {NickMethodError} If the configuration is invalid, or no gas limit up to 30000000 makes the deployment succeed.
+ */
+export async function simulateDeployment(
+    config: AutoGasDeploymentConfig,
+    options: SimulationOptions = {},
+): Promise<SimulatedDeployment> {
+    const { result, simulation } = await simulateWithGas(
+        config.gasLimit,
+        (gasLimit) => genRawDeployment({ ...config, gasLimit }),
+        options,
+    );
+    return { deployment: result, simulation };
+}
+
+/**
+ * Generates a transaction and simulates it in an in-memory EVM.
+ *
+ * With `gasLimit: 'auto'`, the lowest gas limit for which the transaction succeeds is searched for, and
+ * increased by the `gasMargin` option. Use the `setup` and `accounts` options to deploy the called contract first.
+ *
+ * @param {AutoGasTransactionConfig} config - The transaction configuration, with a gas limit or `'auto'`.
+ * @param {SimulationOptions} [options] - The hardfork, gas margin and initial state.
+ * @returns {Promise<SimulatedTransaction>} The transaction and the outcome of its simulation.
+ *
+ * @throws {NickMethodError} If the configuration is invalid, or no gas limit up to 30000000 makes the transaction succeed.
+ */
+export async function simulateTransaction(
+    config: AutoGasTransactionConfig,
+    options: SimulationOptions = {},
+): Promise<SimulatedTransaction> {
+    const { result, simulation } = await simulateWithGas(
+        config.gasLimit,
+        (gasLimit) => genRawTransaction({ ...config, gasLimit }),
+        options,
+    );
+    return { transaction: result, simulation };
+}
@@ -0,0 +1,146 @@
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import { createJsonRpcProvider } from '../broadcast/jsonRpcProvider';
+import { bytesToHex, hexToBytes } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { BroadcastTarget, Provider } from '../types/broadcastConfig';
+import { DeploymentResult } from '../types/deploymentConfig';
+import {
+    ChainDeploymentStatus,
+    DeploymentStatusOptions,
+    DeploymentStatusReport,
+} from '../types/statusConfig';
+import { isValidHex } from '../utils/utils';
+
+type Deployment = Pick<DeploymentResult, 'deployerAddress' | 'contractAddress' | 'upfrontCost'>;
+
+function hasCode(code: string): boolean {
+    return code !== '' && code !== '0x';
+}
+
+/**
+ * Rejects with `RPC_UNAVAILABLE` when a chain does not answer in time.
+ */
+async function withTimeout<T>(promise: Promise<T>, chainId: number, timeout: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+            () =>
+                reject(
+                    new NickMethodError(
+                        'RPC_UNAVAILABLE',
+                        `Chain ${chainId} did not answer within ${timeout} ms`,
+                    ),
+                ),
+            timeout,
+        );
+    });
+    try {
+        return await Promise.race([promise, expired]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+async function checkChain(
+    deployment: Deployment,
+    chainId: number,
+    provider: Provider,
+    expectedCode: string | undefined,
+): Promise<ChainDeploymentStatus> {
+    const { deployerAddress, contractAddress, upfrontCost } = deployment;
+    const [code, nonce, balance] = await Promise.all([
+        provider.getCode(contractAddress),
+        provider.getTransactionCount(deployerAddress),
+        provider.getBalance(deployerAddress),
+    ]);
+    const status = { chainId, balance, nonce, shortfall: undefined, codeHash: undefined };
+
+    if (hasCode(code)) {
+        const matches = expectedCode === undefined || code.toLowerCase() === expectedCode;
+        return {
+            ...status,
+            state: matches ? 'deployed' : 'code-mismatch',
+            codeHash: bytesToHex(keccak256(hexToBytes(code))),
+        };
+    }
+    if (nonce > BigInt(0)) {
+        return { ...status, state: 'bricked' };
+    }
+    if (balance >= upfrontCost) {
+        return { ...status, state: 'ready' };
+    }
+    return {
+        ...status,
+        state: balance === BigInt(0) ? 'not-funded' : 'under-funded',
+        shortfall: upfrontCost - balance,
+    };
+}
+
+/**
+ * Reports the state of a keyless deployment on several chains, without sending anything.
+ *
+ * Chains are read in parallel. On each chain, the code at the contract address, the deployer nonce and its
+ * balance tell whether the deployer still has to be funded, the raw transaction can be broadcast, the
+ * contract is deployed (with the expected runtime code, when given), or the deployment is bricked: the
+ * deployer nonce was used by another transaction, so the contract address is lost on that chain. A chain
+ * that fails or does not answer in time is reported as `unavailable` without affecting the others.
+ *
+ * @param {Deployment} deployment - The output of `genRawDeployment`.
+ * @param {BroadcastTarget[]} targets - The chains to check.
+ * @param {DeploymentStatusOptions} [options] - The expected runtime code, the timeout and RPC options.
+ * @returns {Promise<DeploymentStatusReport>} The state of the deployment on each chain, in the given order.
+ *
+ * @throws {NickMethodError} If the expected code is not valid hex (`INVALID_HEX`), or the timeout is not a
+ * positive integer (`INVALID_OPTION`).
+ */
+export async function checkDeploymentStatus(
+    deployment: Deployment,
+    targets: BroadcastTarget[],
+    options: DeploymentStatusOptions = {},
+): Promise<DeploymentStatusReport> {
+    const { timeout = 10000 } = options;
+    if (!Number.isSafeInteger(timeout) || timeout < 1) {
+        throw new NickMethodError('INVALID_OPTION', 'The timeout must be a positive integer', {
+            field: 'timeout',
+        });
+    }
+    if (options.expectedCode !== undefined && !isValidHex(options.expectedCode)) {
+        throw new NickMethodError('INVALID_HEX', 'Invalid hex value for expectedCode', {
+            field: 'expectedCode',
+        });
+    }
+    const expectedCode = options.expectedCode?.toLowerCase();
+
+    const chains = await Promise.all(
+        targets.map(async ({ chainId, provider }): Promise<ChainDeploymentStatus> => {
+            try {
+                return await withTimeout(
+                    checkChain(
+                        deployment,
+                        chainId,
+                        Array.isArray(provider)
+                            ? createJsonRpcProvider(provider, { timeout, ...options.rpc })
+                            : provider,
+                        expectedCode,
+                    ),
+                    chainId,
+                    timeout,
+                );
+            } catch (error) {
+                return {
+                    chainId,
+                    state: 'unavailable',
+                    balance: undefined,
+                    nonce: undefined,
+                    shortfall: undefined,
+                    codeHash: undefined,
+                    error: error as Error,
+                };
+            }
+        }),
+    );
+
+    const { deployerAddress, contractAddress, upfrontCost } = deployment;
+    return { deployerAddress, contractAddress, upfrontCost, chains };
+}
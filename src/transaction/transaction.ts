@@ -0,0 +1,154 @@
+import { RLP } from '@ethereumjs/rlp';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+import { recoverPublicKey, Signature } from 'ethereum-cryptography/secp256k1.js';
+
+import {
+    bigIntToBytes,
+    bytesToHex,
+    concatBytes,
+    hexToBytes,
+    toChecksumAddress,
+} from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { SECP256K1_N } from '../signature/signature';
+import { KeylessSignature } from '../types/signatureConfig';
+
+/** Largest value of a 256-bit transaction field. */
+const MAX_INTEGER = BigInt(2) ** BigInt(256) - BigInt(1);
+
+/**
+ * Unsigned fields of a legacy transaction.
+ * @property {bigint} nonce - The nonce of the transaction.
+ * @property {bigint} gasPrice - The gas price in wei.
+ * @property {bigint} gasLimit - The gas limit.
+ * @property {Uint8Array} to - The recipient address, empty for contract creation.
+ * @property {bigint} value - The amount of native token sent in wei.
+ * @property {Uint8Array} data - The data payload.
+ */
+export interface LegacyTransactionFields {
+    nonce: bigint;
+    gasPrice: bigint;
+    gasLimit: bigint;
+    to: Uint8Array;
+    value: bigint;
+    data: Uint8Array;
+}
+
+function encodeFields(fields: LegacyTransactionFields): Uint8Array[] {
+    return [
+        bigIntToBytes(fields.nonce),
+        bigIntToBytes(fields.gasPrice),
+        bigIntToBytes(fields.gasLimit),
+        fields.to,
+        bigIntToBytes(fields.value),
+        fields.data,
+    ];
+}
+
+/**
+ * Computes the hash signed by the sender of a legacy transaction: over its six fields, or over
+ * the EIP-155 nine fields when the signature is bound to a chain.
+ *
+ * @param {LegacyTransactionFields} fields - The unsigned fields.
+ * @param {bigint} [chainId] - The EIP-155 chain id, if any.
+ * @returns {Uint8Array} The signing hash.
+ */
+export function legacySigningHash(fields: LegacyTransactionFields, chainId?: bigint): Uint8Array {
+    const values = encodeFields(fields);
+    if (chainId !== undefined) {
+        values.push(bigIntToBytes(chainId), new Uint8Array(0), new Uint8Array(0));
+    }
+    return keccak256(RLP.encode(values));
+}
+
+/**
+ * Recovers the address that produced a signature over a hash.
+ *
+ * @param {Uint8Array} hash - The signed hash.
+ * @param {number} recovery - The recovery id, 0 or 1.
+ * @param {bigint} r - The r value of the signature.
+ * @param {bigint} s - The s value of the signature.
+ * @returns {Uint8Array} The 20-byte address of the signer.
+ *
+ * @throws {Error} If the recovery id or the signature values are invalid, s included when in the upper
+ * half of the curve order (EIP-2).
+ */
+export function recoverSigner(
+    hash: Uint8Array,
+    recovery: number,
+    r: bigint,
+    s: bigint,
+): Uint8Array {
+    if (recovery !== 0 && recovery !== 1) {
+        throw new Error(`Invalid recovery id ${recovery}`);
+    }
+    if (s > SECP256K1_N / BigInt(2)) {
+        throw new Error('s-values greater than secp256k1n/2 are considered invalid (EIP-2)');
+    }
+    const signature = new Signature(r, s);
+    signature.assertValidity();
+    const publicKey = recoverPublicKey(hash, signature, recovery);
+    return keccak256(publicKey.subarray(1)).subarray(12);
+}
+
+/**
+ * Serializes a legacy transaction signed with the given keyless signature, and recovers its sender.
+ *
+ * @param {LegacyTransactionFields} fields - The unsigned fields.
+ * @param {KeylessSignature} signature - The validated r, s and v values.
+ * @returns {{ rawTx: string, senderAddress: string }} The raw transaction and the checksummed sender.
+ *
+ * @throws {NickMethodError} If a quantity exceeds 256 bits, or the gas price times the gas limit does
+ * (`INVALID_QUANTITY`).
+ */
+export function signKeylessTransaction(
+    fields: LegacyTransactionFields,
+    signature: KeylessSignature,
+): { rawTx: string; senderAddress: string } {
+    for (const field of ['gasPrice', 'gasLimit', 'value'] as const) {
+        if (fields[field] > MAX_INTEGER) {
+            throw new NickMethodError(
+                'INVALID_QUANTITY',
+                `Invalid quantity: ${field} cannot exceed 2^256 - 1`,
+                { field },
+            );
+        }
+    }
+    if (fields.gasPrice * fields.gasLimit > MAX_INTEGER) {
+        throw new NickMethodError(
+            'INVALID_QUANTITY',
+            'Invalid quantity: gasLimit * gasPrice cannot exceed 2^256 - 1',
+            { field: 'gasLimit' },
+        );
+    }
+
+    const v = BigInt(signature.v);
+    const r = BigInt(signature.r);
+    const s = BigInt(signature.s);
+    const serialized = RLP.encode([
+        ...encodeFields(fields),
+        bigIntToBytes(v),
+        bigIntToBytes(r),
+        bigIntToBytes(s),
+    ]);
+    const sender = recoverSigner(legacySigningHash(fields), Number(v) - 27, r, s);
+
+    return { rawTx: bytesToHex(serialized), senderAddress: toChecksumAddress(bytesToHex(sender)) };
+}
+
+/**
+ * Computes the hash of a serialized transaction.
+ *
+ * @param {string} rawTx - The raw transaction as a hexadecimal string.
+ * @returns {string} The transaction hash.
+ */
+export function hashTransaction(rawTx: string): string {
+    return bytesToHex(keccak256(hexToBytes(rawTx)));
+}
+
+/**
+ * Prepends the EIP-2718 type byte to an RLP-encoded payload.
+ */
+export function typedPayload(type: number, payload: Uint8Array): Uint8Array {
+    return concatBytes(Uint8Array.of(type), payload);
+}
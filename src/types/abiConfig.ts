@@ -0,0 +1,110 @@
+/**
+ * Parameter of an ABI item, as found in the JSON ABI emitted by solc.
+ * @property {string} type - The canonical type, e.g. `uint256`, `bytes32[]` or `tuple[2]`.
+ * @property {string} [name] - The parameter name.
+ * @property {AbiParameter[]} [components] - The members of a `tuple` type.
+ * @property {string} [internalType] - The Solidity type, ignored by the encoder.
+ * @property {boolean} [indexed] - Whether an event parameter is indexed.
+ */
+export interface AbiParameter {
+    type: string;
+    name?: string;
+    components?: readonly AbiParameter[];
+    internalType?: string;
+    indexed?: boolean;
+}
+
+/**
+ * Item of a JSON ABI.
+ * @property {'function' | 'constructor' | 'event' | 'error' | 'fallback' | 'receive'} type - The kind of item.
+ * @property {string} [name] - The name of a function, event or error.
+ * @property {AbiParameter[]} [inputs] - The input parameters.
+ * @property {AbiParameter[]} [outputs] - The output parameters of a function.
+ * @property {string} [stateMutability] - The state mutability of a function or constructor.
+ */
+export interface AbiItem {
+    type: 'function' | 'constructor' | 'event' | 'error' | 'fallback' | 'receive';
+    name?: string;
+    inputs?: readonly AbiParameter[];
+    outputs?: readonly AbiParameter[];
+    stateMutability?: string;
+    anonymous?: boolean;
+}
+
+/**
+ * A JSON ABI.
+ */
+export type Abi = readonly AbiItem[];
+
+/**
+ * ABI inputs of a contract creation, encoding the constructor arguments after the bytecode.
+ * @property {Abi} [abi] - The ABI of the contract.
+ * @property {readonly unknown[]} [args] - The constructor arguments.
+ */
+export interface ConstructorAbiConfig {
+    abi?: Abi;
+    args?: readonly unknown[];
+}
+
+/**
+ * ABI inputs of a function call, encoding the calldata.
+ * @property {Abi} [abi] - The ABI of the contract.
+ * @property {string} [functionName] - The name of the function, or its full signature such as
+ * `transfer(address,uint256)` to select an overload.
+ * @property {readonly unknown[]} [args] - The function arguments.
+ */
+export interface FunctionAbiConfig {
+    abi?: Abi;
+    functionName?: string;
+    args?: readonly unknown[];
+}
+
+/**
+ * Decoded function or constructor argument.
+ * Integers are decoded as bigints, addresses as checksummed strings, `bytes` and `bytesN` as hex strings,
+ * and tuples as objects keyed by member name, or as arrays when a member is unnamed.
+ * @property {string | undefined} name - The parameter name, if any.
+ * @property {string} type - The canonical type of the parameter.
+ * @property {unknown} value - The decoded value.
+ */
+export interface DecodedArgument {
+    name: string | undefined;
+    type: string;
+    value: unknown;
+}
+
+/**
+ * Options of the transaction data decoder.
+ * @property {Abi | Abi[]} [abi] - The ABI, or the ABIs, to decode function calls and constructor arguments with.
+ * @property {string} [bytecode] - The creation bytecode of a deployed contract, without constructor arguments.
+ * @property {number} [bytecodeLength] - The length in bytes of the creation bytecode, when it is not at hand.
+ */
+export interface DecodeOptions {
+    abi?: Abi | Abi[];
+    bytecode?: string;
+    bytecodeLength?: number;
+}
+
+/**
+ * Decoded data of a transaction, discriminated by `kind`.
+ * - `empty`: a call without data.
+ * - `call`: a call to a function found in the ABIs, with its decoded arguments.
+ * - `unknown-selector`: a call whose 4-byte selector matches no function of the ABIs.
+ * - `deployment`: a contract creation, with its constructor arguments split off the bytecode and decoded.
+ */
+export type DecodedTransactionData =
+    | { kind: 'empty' }
+    | {
+          kind: 'call';
+          selector: string;
+          functionName: string;
+          signature: string;
+          args: DecodedArgument[];
+      }
+    | { kind: 'unknown-selector'; selector: string; data: string }
+    | {
+          kind: 'deployment';
+          bytecode: string;
+          encodedArgs: string;
+          constructorArgs: DecodedArgument[];
+      };
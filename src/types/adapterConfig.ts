@@ -0,0 +1,83 @@
+import { DeploymentResult } from './deploymentConfig';
+import { RecoveredTransactionResult } from './rawTransactionConfig';
+import { TransactionResult } from './transactionConfig';
+
+/**
+ * Result that can be converted to an ethers or viem transaction: a generated deployment or transaction,
+ * or a recovered legacy transaction.
+ */
+export type AdaptableResult = DeploymentResult | TransactionResult | RecoveredTransactionResult;
+
+/**
+ * Signature of an ethers v6 transaction, shaped like ethers' `Signature`.
+ * @property {string} r - The 32-byte r value.
+ * @property {string} s - The 32-byte s value.
+ * @property {number} v - The v value: 27 or 28, or the EIP-155 value of a replay-protected transaction.
+ */
+export interface EthersSignatureLike {
+    r: string;
+    s: string;
+    v: number;
+}
+
+/**
+ * Legacy transaction shaped like ethers v6 `TransactionLike`, accepted by `Transaction.from`. ethers'
+ * own `Transaction` objects match it as well, so they can be parsed back into configurations.
+ * @property {number | null} [type] - The EIP-2718 type, 0 for legacy transactions.
+ * @property {string | null} [to] - The checksummed recipient, null for contract creation.
+ * @property {string | null} [from] - The checksummed sender, when signed.
+ * @property {number | null} [nonce] - The nonce.
+ * @property {bigint | null} [gasLimit] - The gas limit.
+ * @property {bigint | null} [gasPrice] - The gas price in wei.
+ * @property {string | null} [data] - The data payload.
+ * @property {bigint | null} [value] - The amount of native token sent in wei.
+ * @property {bigint | null} [chainId] - The EIP-155 chain id, 0 for transactions valid on every chain.
+ * @property {string | null} [hash] - The transaction hash, when signed.
+ * @property {EthersSignatureLike | null} [signature] - The signature, null when unsigned.
+ */
+export interface EthersTransactionLike {
+    type?: number | null;
+    to?: string | null;
+    from?: string | null;
+    nonce?: number | null;
+    gasLimit?: bigint | null;
+    gasPrice?: bigint | null;
+    data?: string | null;
+    value?: bigint | null;
+    chainId?: bigint | null;
+    hash?: string | null;
+    signature?: EthersSignatureLike | null;
+}
+
+/**
+ * Hexadecimal string, as typed by viem.
+ */
+export type Hex = `0x${string}`;
+
+/**
+ * Legacy transaction shaped like viem's `TransactionSerializableLegacy`, with its signature inline.
+ * @property {'legacy'} [type] - The kind of transaction.
+ * @property {Hex | null} [to] - The recipient, null for contract creation.
+ * @property {number} [nonce] - The nonce.
+ * @property {bigint} [gas] - The gas limit.
+ * @property {bigint} [gasPrice] - The gas price in wei.
+ * @property {bigint} [value] - The amount of native token sent in wei.
+ * @property {Hex} [data] - The data payload.
+ * @property {number} [chainId] - The EIP-155 chain id, undefined for transactions valid on every chain.
+ * @property {Hex} [r] - The 32-byte r value, when signed.
+ * @property {Hex} [s] - The 32-byte s value, when signed.
+ * @property {bigint} [v] - The v value, when signed.
+ */
+export interface ViemLegacyTransaction {
+    type?: 'legacy';
+    to?: Hex | null;
+    nonce?: number;
+    gas?: bigint;
+    gasPrice?: bigint;
+    value?: bigint;
+    data?: Hex;
+    chainId?: number;
+    r?: Hex;
+    s?: Hex;
+    v?: bigint;
+}
@@ -0,0 +1,48 @@
+/**
+ * Child contract created by a contract, whose address is to be predicted.
+ * - `create`: created with CREATE at the given `nonce` of its parent. Contracts start at nonce 1 (EIP-161).
+ * - `create2`: created with CREATE2 by its parent, from a `salt` and the `initcode` or its `initcodeHash`.
+ * - `create3`: created by its parent through the common CREATE3 proxy pattern: a minimal proxy is created
+ * with CREATE2 from the `salt`, and deploys the child with CREATE at its nonce 1.
+ * @property {string} [label] - A name for the child, copied to the prediction.
+ * @property {AddressPrediction[]} [children] - The contracts created by the child itself.
+ */
+export type AddressPrediction = (
+    | { kind: 'create'; nonce: number | bigint }
+    | { kind: 'create2'; salt: string; initcode: string }
+    | { kind: 'create2'; salt: string; initcodeHash: string }
+    | { kind: 'create3'; salt: string }
+) & {
+    label?: string;
+    children?: AddressPrediction[];
+};
+
+/**
+ * Predicted address of a child contract.
+ * @property {'create' | 'create2' | 'create3'} kind - How the child is created.
+ * @property {string | undefined} label - The label of the child, if any.
+ * @property {string} deployer - The checksummed address of the parent contract.
+ * @property {string} address - The checksummed address of the child.
+ * @property {string} [proxyAddress] - The address of the intermediate CREATE3 proxy, for `create3` children.
+ * @property {PredictedAddress[]} children - The predictions for the contracts created by the child.
+ */
+export interface PredictedAddress {
+    kind: 'create' | 'create2' | 'create3';
+    label: string | undefined;
+    deployer: string;
+    address: string;
+    proxyAddress?: string;
+    children: PredictedAddress[];
+}
+
+/**
+ * Tree of the addresses of a keyless deployment and of the contracts it creates.
+ * @property {string} deployerAddress - The keyless account sending the deployment.
+ * @property {string} contractAddress - The contract created by the deployment.
+ * @property {PredictedAddress[]} children - The predictions for the contracts created by the contract.
+ */
+export interface AddressTree {
+    deployerAddress: string;
+    contractAddress: string;
+    children: PredictedAddress[];
+}
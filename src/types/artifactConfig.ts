@@ -0,0 +1,87 @@
+import { Abi } from './abiConfig';
+import { DeploymentResult } from './deploymentConfig';
+import { Quantity } from './quantity';
+import { SignatureConfig } from './signatureConfig';
+
+/**
+ * Compiler output a contract artifact was read from.
+ * - `hardhat`: a Hardhat artifact (`artifacts/<source>/<Contract>.json`).
+ * - `foundry`: a Foundry artifact (`out/<source>/<Contract>.json`).
+ * - `solc`: a solc standard-JSON output, holding every compiled contract.
+ */
+export type ArtifactFormat = 'hardhat' | 'foundry' | 'solc';
+
+/**
+ * Options of `parseArtifact` and `readArtifact`.
+ * @property {string} [contractName] - The contract to pick, as `Name` or `path/Source.sol:Name`. Required for
+ * solc standard-JSON outputs holding several contracts; checked against Hardhat and Foundry artifacts.
+ * @property {string} [path] - The path the artifact was read from, recorded for provenance.
+ */
+export interface ArtifactOptions {
+    contractName?: string;
+    path?: string;
+}
+
+/**
+ * Origin of a contract artifact, recorded alongside the deployments generated from it.
+ * @property {ArtifactFormat} format - The compiler output the artifact was read from.
+ * @property {string | undefined} path - The path of the artifact file, when read from one.
+ * @property {string} contractName - The name of the contract.
+ * @property {string | undefined} sourceName - The source file declaring the contract, when recorded.
+ * @property {string | undefined} compilerVersion - The solc version, when recorded, e.g. `0.8.24+commit.e11b9ed9`.
+ */
+export interface ArtifactProvenance {
+    format: ArtifactFormat;
+    path: string | undefined;
+    contractName: string;
+    sourceName: string | undefined;
+    compilerVersion: string | undefined;
+}
+
+/**
+ * Library placeholder left in creation bytecode compiled without linking.
+ * @property {string} placeholder - The 40-character placeholder, `__$<34 hex chars>$__` since solc 0.5.
+ * @property {string | undefined} library - The fully qualified name of the library (`path/Lib.sol:Lib`), when
+ * the artifact records its link references.
+ * @property {number[]} offsets - The byte offsets of the 20-byte placeholder in the bytecode.
+ */
+export interface LibraryPlaceholder {
+    placeholder: string;
+    library: string | undefined;
+    offsets: number[];
+}
+
+/**
+ * Contract read from a compiler artifact.
+ * @property {Abi} abi - The ABI of the contract.
+ * @property {string} bytecode - The creation bytecode, `0x`-prefixed, with any library placeholders left in.
+ * @property {LibraryPlaceholder[]} placeholders - The unlinked libraries, empty when the bytecode is deployable.
+ */
+export interface ContractArtifact extends ArtifactProvenance {
+    abi: Abi;
+    bytecode: string;
+    placeholders: LibraryPlaceholder[];
+}
+
+/**
+ * Configuration object for generating a keyless deployment from an artifact, the bytecode and ABI
+ * coming from the artifact.
+ * @property {Quantity} value - The amount of native token to send with the deployment, in wei.
+ * @property {Quantity} gasLimit - The gas limit for the deployment transaction.
+ * @property {Quantity} gasPrice - The gas price for the deployment transaction, in wei.
+ * @property {readonly unknown[]} [args] - The constructor arguments, encoded against the artifact's ABI.
+ */
+export interface ArtifactDeploymentConfig extends SignatureConfig {
+    value: Quantity;
+    gasLimit: Quantity;
+    gasPrice: Quantity;
+    args?: readonly unknown[];
+}
+
+/**
+ * Keyless deployment generated from an artifact.
+ * @property {ArtifactProvenance} provenance - The artifact the bytecode was read from.
+ */
+export interface ArtifactDeploymentResult extends DeploymentResult {
+    provenance: ArtifactProvenance;
+}
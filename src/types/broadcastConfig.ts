@@ -0,0 +1,111 @@
+/**
+ * Receipt of a mined transaction.
+ * @property {string} transactionHash - The hash of the transaction.
+ * @property {bigint} blockNumber - The number of the block that includes the transaction.
+ * @property {boolean | undefined} status - Whether the transaction succeeded, undefined when the node does not
+ * report it (receipts of blocks before Byzantium hold a state root instead).
+ * @property {string | undefined} contractAddress - The address of the created contract, if any.
+ * @property {bigint} gasUsed - The gas used by the transaction.
+ */
+export interface TransactionReceipt {
+    transactionHash: string;
+    blockNumber: bigint;
+    status: boolean | undefined;
+    contractAddress: string | undefined;
+    gasUsed: bigint;
+}
+
+/**
+ * Minimal view of a chain needed to broadcast a keyless deployment. Implement it to plug in any
+ * client library, or use `createJsonRpcProvider`.
+ */
+export interface Provider {
+    /** Returns the balance of an address in wei. */
+    getBalance(address: string): Promise<bigint>;
+    /** Returns the number of transactions sent from an address. */
+    getTransactionCount(address: string): Promise<bigint>;
+    /** Returns the runtime code at an address, `0x` if there is none. */
+    getCode(address: string): Promise<string>;
+    /** Broadcasts a signed transaction and returns its hash. */
+    sendRawTransaction(rawTx: string): Promise<string>;
+    /** Returns the receipt of a transaction, or null if it is not mined yet. */
+    getTransactionReceipt(hash: string): Promise<TransactionReceipt | null>;
+    /** Returns the number of the latest block. */
+    getBlockNumber(): Promise<bigint>;
+}
+
+/**
+ * Options of the JSON-RPC provider.
+ * @property {number} [retries] - Number of extra rounds over all URLs after a network failure. Defaults to 2.
+ * @property {number} [retryDelay] - Delay between two rounds in milliseconds. Defaults to 1000.
+ * @property {number} [timeout] - Timeout of a single request in milliseconds. Defaults to 10000.
+ */
+export interface JsonRpcProviderOptions {
+    retries?: number;
+    retryDelay?: number;
+    timeout?: number;
+}
+
+/**
+ * A chain to broadcast a deployment on.
+ * @property {number} chainId - The id of the chain, used to label progress events.
+ * @property {Provider | string[]} provider - A provider, or JSON-RPC URLs to fail over between, in order of preference.
+ */
+export interface BroadcastTarget {
+    chainId: number;
+    provider: Provider | string[];
+}
+
+/**
+ * Options of the broadcast orchestrator.
+ * @property {number} [confirmations] - Number of blocks, including the one of the transaction, to wait for.
+ * Defaults to 1.
+ * @property {number} [pollInterval] - Delay between two polls of the chain in milliseconds. Defaults to 4000.
+ * @property {number} [fundingTimeout] - Time to wait for the deployer to be funded in milliseconds.
+ * Defaults to 0, failing right away when the balance is insufficient.
+ * @property {number} [receiptTimeout] - Time to wait for the transaction to be mined and confirmed in milliseconds.
+ * Defaults to 300000.
+ * @property {(chainId: number, address: string, amount: bigint) => Promise<void>} [fund] - Called when the
+ * deployer balance is insufficient, with the missing amount, e.g. to send it from a funded wallet.
+ * @property {JsonRpcProviderOptions} [rpc] - Options of the providers created from URLs.
+ * @property {AbortSignal} [signal] - Stops the broadcast when aborted.
+ */
+export interface BroadcastOptions {
+    confirmations?: number;
+    pollInterval?: number;
+    fundingTimeout?: number;
+    receiptTimeout?: number;
+    fund?: (chainId: number, address: string, amount: bigint) => Promise<void>;
+    rpc?: JsonRpcProviderOptions;
+    signal?: AbortSignal;
+}
+
+/**
+ * Progress event of the broadcast orchestrator. Each chain goes through `checking`, then ends with
+ * `already-deployed`, `deployed` or `failed`.
+ * - `checking`: the chain state is being read.
+ * - `already-deployed`: code is already present at the contract address; nothing was sent.
+ * - `awaiting-funds`: the deployer balance is below the upfront cost.
+ * - `funded`: the deployer balance covers the upfront cost.
+ * - `sent`: the raw transaction was broadcast.
+ * - `mined`: the transaction was included in a block.
+ * - `confirming`: a new confirmation was observed.
+ * - `deployed`: the transaction is confirmed and code is present at the contract address.
+ * - `failed`: the deployment cannot proceed on this chain.
+ */
+export type BroadcastEvent =
+    | { chainId: number; status: 'checking' }
+    | { chainId: number; status: 'already-deployed'; contractAddress: string }
+    | { chainId: number; status: 'awaiting-funds'; balance: bigint; required: bigint }
+    | { chainId: number; status: 'funded'; balance: bigint }
+    | { chainId: number; status: 'sent'; transactionHash: string }
+    | { chainId: number; status: 'mined'; transactionHash: string; blockNumber: bigint }
+    | { chainId: number; status: 'confirming'; transactionHash: string; confirmations: number }
+    | {
+          chainId: number;
+          status: 'deployed';
+          transactionHash: string;
+          blockNumber: bigint;
+          contractAddress: string;
+      }
+    | { chainId: number; status: 'failed'; error: Error };
@@ -0,0 +1,49 @@
+import { DeploymentConfig, DeploymentResult } from './deploymentConfig';
+
+/**
+ * Identifier of a deployment of the built-in catalog.
+ * - `erc1820-registry`: the ERC-1820 pseudo-introspection registry.
+ * - `erc2470-singleton-factory`: the ERC-2470 singleton factory, a CREATE2 factory.
+ * - `deterministic-deployment-proxy`: Arachnid's CREATE2 deployment proxy, the canonical CREATE2 factory.
+ * - `sequence-universal-deployer`: Sequence's universal deployer, a CREATE2 factory with an instance counter.
+ */
+export type KnownDeploymentId =
+    | 'erc1820-registry'
+    | 'erc2470-singleton-factory'
+    | 'deterministic-deployment-proxy'
+    | 'sequence-universal-deployer';
+
+/**
+ * Well-known keyless deployment, published once and replayed on every chain.
+ * @property {KnownDeploymentId} id - The stable identifier of the deployment.
+ * @property {string} name - The human-readable name of the deployed contract.
+ * @property {string} reference - The URL of the specification or repository publishing the transaction.
+ * @property {string} contractAddress - The checksummed address of the deployed contract, identical on every chain.
+ * @property {string} deployerAddress - The checksummed keyless account deploying the contract.
+ * @property {string} hash - The hash of the raw transaction.
+ * @property {string} rawTx - The signed raw deployment transaction.
+ * @property {DeploymentConfig} deployment - The configuration reproducing the deployment with `genRawDeployment`.
+ */
+export interface KnownDeployment {
+    id: KnownDeploymentId;
+    name: string;
+    reference: string;
+    contractAddress: string;
+    deployerAddress: string;
+    hash: string;
+    rawTx: string;
+    deployment: DeploymentConfig;
+}
+
+/**
+ * Result of regenerating a known deployment from its configuration.
+ * @property {KnownDeployment} knownDeployment - The catalog entry.
+ * @property {DeploymentResult} result - The deployment generated by `genRawDeployment`.
+ * @property {boolean} reproducible - Whether the raw transaction, deployer and contract addresses
+ * match the published ones.
+ */
+export interface KnownDeploymentReproduction {
+    knownDeployment: KnownDeployment;
+    result: DeploymentResult;
+    reproducible: boolean;
+}
@@ -0,0 +1,91 @@
+/**
+ * EVM hardforks, in activation order. A chain supports every opcode introduced up to its version.
+ */
+export type EvmVersion =
+    | 'frontier'
+    | 'homestead'
+    | 'byzantium'
+    | 'constantinople'
+    | 'petersburg'
+    | 'istanbul'
+    | 'berlin'
+    | 'london'
+    | 'paris'
+    | 'shanghai'
+    | 'cancun'
+    | 'prague';
+
+/**
+ * How a chain derives the address of a contract created with CREATE.
+ * - `standard`: keccak256(rlp([sender, nonce])), as on Ethereum.
+ * - `zksync`: zkSync-style derivation, which yields a different address for the same transaction.
+ */
+export type AddressDerivation = 'standard' | 'zksync';
+
+/**
+ * Profile of a chain, describing whether Nick-method transactions can land on it.
+ * @property {number} chainId - The EIP-155 chain id.
+ * @property {string} name - The human-readable name of the chain.
+ * @property {{ symbol: string, decimals: number }} nativeCurrency - The native currency of the chain.
+ * @property {EvmVersion} evmVersion - The latest hardfork whose opcodes the chain supports.
+ * @property {boolean} acceptsUnprotectedTransactions - Whether the chain accepts pre-EIP-155 transactions.
+ * @property {AddressDerivation} addressDerivation - How the chain derives CREATE addresses.
+ * @property {string} minGasPrice - The typical minimum gas price, as a quantity (e.g. '1 gwei').
+ * @property {string} [notes] - Additional remarks, e.g. about RPC providers.
+ */
+export interface ChainProfile {
+    chainId: number;
+    name: string;
+    nativeCurrency: { symbol: string; decimals: number };
+    evmVersion: EvmVersion;
+    acceptsUnprotectedTransactions: boolean;
+    addressDerivation: AddressDerivation;
+    minGasPrice: string;
+    notes?: string;
+}
+
+/**
+ * A set of chain profiles, by chain id.
+ */
+export type ChainRegistry = Map<number, ChainProfile>;
+
+/**
+ * Reason why a transaction cannot land on a chain.
+ * - `UNKNOWN_CHAIN`: the chain is not in the registry.
+ * - `CHAIN_ID_MISMATCH`: the transaction is replay-protected for another chain.
+ * - `UNPROTECTED_TX_REJECTED`: the chain rejects pre-EIP-155 transactions.
+ * - `NON_STANDARD_ADDRESS_DERIVATION`: the contract would be created at another address.
+ * - `UNSUPPORTED_OPCODE`: the bytecode uses an opcode the chain's EVM does not support.
+ * - `GAS_PRICE_TOO_LOW`: the gas price is below the chain's typical minimum.
+ */
+export type CompatibilityIssueCode =
+    | 'UNKNOWN_CHAIN'
+    | 'CHAIN_ID_MISMATCH'
+    | 'UNPROTECTED_TX_REJECTED'
+    | 'NON_STANDARD_ADDRESS_DERIVATION'
+    | 'UNSUPPORTED_OPCODE'
+    | 'GAS_PRICE_TOO_LOW';
+
+/**
+ * A single compatibility problem.
+ * @property {CompatibilityIssueCode} code - The machine-readable reason.
+ * @property {string} message - The human-readable explanation.
+ */
+export interface CompatibilityIssue {
+    code: CompatibilityIssueCode;
+    message: string;
+}
+
+/**
+ * Compatibility of a transaction with a chain.
+ * @property {number} chainId - The chain id.
+ * @property {string | undefined} name - The chain name, undefined for unknown chains.
+ * @property {boolean} compatible - Whether the transaction can land on the chain as generated.
+ * @property {CompatibilityIssue[]} issues - The reasons why it cannot, empty when compatible.
+ */
+export interface ChainCompatibility {
+    chainId: number;
+    name: string | undefined;
+    compatible: boolean;
+    issues: CompatibilityIssue[];
+}
@@ -0,0 +1,93 @@
+import { DeploymentConfig } from './deploymentConfig';
+import { TransactionConfig, TransactionResult } from './transactionConfig';
+import { VanityTarget } from './vanityConfig';
+
+/**
+ * A CREATE2 factory taking `salt ++ initcode` as calldata, deployable with Nick's method.
+ * @property {string} address - The address of the factory, identical on every chain.
+ * @property {string} deployerAddress - The keyless account deploying the factory.
+ * @property {DeploymentConfig} deployment - The configuration reproducing the factory deployment
+ * with `genRawDeployment`.
+ * @property {string} rawTx - The signed raw deployment transaction of the factory.
+ */
+export interface Create2Factory {
+    address: string;
+    deployerAddress: string;
+    deployment: DeploymentConfig;
+    rawTx: string;
+}
+
+/**
+ * Configuration object identifying a CREATE2 deployment.
+ * @property {string} salt - The salt, as a hex string of up to 32 bytes. Shorter salts are left-padded with zeros.
+ * @property {string} initcode - The creation code of the contract to be deployed.
+ * @property {string} [factory] - The checksummed address of the factory. Defaults to the canonical factory.
+ */
+export interface Create2Config {
+    salt: string;
+    initcode: string;
+    factory?: string;
+}
+
+/**
+ * Configuration object for generating a raw transaction deploying a contract through a CREATE2 factory.
+ * The transaction fields are the ones of `TransactionConfig`, without `to` and `data`.
+ */
+export interface Create2DeploymentConfig
+    extends Omit<TransactionConfig, 'to' | 'data'>,
+        Create2Config {}
+
+/**
+ * Result object returned after generating a raw CREATE2 factory transaction.
+ * @property {string} factoryAddress - The address of the factory the transaction is sent to.
+ * @property {string} contractAddress - The address where the contract will be deployed.
+ * @property {string} salt - The salt, left-padded to 32 bytes.
+ * @property {string} calldata - The calldata sent to the factory (`salt ++ initcode`).
+ */
+export interface Create2DeploymentResult extends TransactionResult {
+    factoryAddress: string;
+    contractAddress: string;
+    salt: string;
+    calldata: string;
+}
+
+/**
+ * Configuration object for mining a vanity CREATE2 salt.
+ * @property {string} initcode - The creation code of the contract to be deployed.
+ * @property {string} [factory] - The checksummed address of the factory. Defaults to the canonical factory.
+ * @property {Omit<VanityTarget, 'field'>} target - The contract address pattern to search for.
+ * @property {string} [startSalt] - The first salt to try. Defaults to a random value.
+ * Salts are tried in increasing order from `startSalt`, wrapping around at 2^256.
+ */
+export interface Create2SaltConfig {
+    initcode: string;
+    factory?: string;
+    target: Omit<VanityTarget, 'field'>;
+    startSalt?: string;
+}
+
+/**
+ * Runtime options of the CREATE2 salt miner.
+ * @property {number} [maxAttempts] - Stops the search after this many attempts.
+ * @property {AbortSignal} [signal] - Stops the search when aborted.
+ * @property {number} [batchSize] - Number of salts tried between two yields to the event loop, a positive integer. Defaults to 1024.
+ * Defaults to 1024.
+ */
+export interface Create2SaltOptions {
+    maxAttempts?: number;
+    signal?: AbortSignal;
+    batchSize?: number;
+}
+
+/**
+ * Result object returned by the CREATE2 salt miner.
+ * @property {string | undefined} salt - The matching salt, or undefined if the search stopped before
+ * finding a match.
+ * @property {string | undefined} contractAddress - The contract address deployed with the matching salt.
+ * @property {number} attempts - The number of salts tried.
+ */
+export interface Create2SaltResult {
+    salt: string | undefined;
+    contractAddress: string | undefined;
+    attempts: number;
+}
@@ -1,19 +1,27 @@
+import { ConstructorAbiConfig } from './abiConfig';
+import { Quantity } from './quantity';
+import { SignatureConfig } from './signatureConfig';
+
 /**
  * Configuration object for generating a raw deployment transaction.
- * @property {number} value - The amount of native token in wei to send with the transaction.
- * @property {number} gasLimit - The gas limit for the transaction.
- * @property {number} gasPrice - The gas price for the transaction in wei.
+ * @property {Quantity} value - The amount of native token to send with the transaction.
+ * Plain numbers and decimal strings are in wei; unit strings such as '0.1 ether' are also accepted.
+ * @property {Quantity} gasLimit - The gas limit for the transaction.
+ * @property {Quantity} gasPrice - The gas price for the transaction in wei, or a unit string such as '25 gwei'.
  * @property {string} bytecode - The bytecode of the contract to be deployed.
+ * @property {Abi} [abi] - Optional ABI of the contract, to append the ABI-encoded constructor `args` to the bytecode.
+ * @property {readonly unknown[]} [args] - Optional constructor arguments, validated against the ABI.
  * @property {string} [r] - Optional r value for the transaction signature.
  * If provided, it allows generation of different contract and deployer addresses.
- * Must be a valid ECDSA signature r value (non-zero and less than the curve order).
+ * Must be a valid ECDSA signature r value (non-zero, less than the curve order and a curve x-coordinate).
+ * @property {string} [s] - Optional s value for the transaction signature, in the lower half of the curve order.
+ * @property {27 | 28} [v] - Optional v value for the transaction signature.
  */
-export interface DeploymentConfig {
-    value: number;
-    gasLimit: number;
-    gasPrice: number;
+export interface DeploymentConfig extends SignatureConfig, ConstructorAbiConfig {
+    value: Quantity;
+    gasLimit: Quantity;
+    gasPrice: Quantity;
     bytecode: string;
-    r?: string;
 }
 
 /**
@@ -21,7 +29,7 @@ export interface DeploymentConfig {
  * @property {string} rawTx - The raw transaction data as a hexadecimal string.
  * @property {string} deployerAddress - The address of the account deploying the contract.
  * @property {string} contractAddress - The address where the contract will be deployed.
- * @property {number} UpfrontCost - The upfront cost of the transaction in wei.
+ * @property {bigint} upfrontCost - The exact upfront cost of the transaction in wei (gasLimit * gasPrice + value).
  * @property {string} r - The r value of the transaction signature.
  * @property {string} s - The s value of the transaction signature.
  * @property {string} v - The v value of the transaction signature.
@@ -30,7 +38,7 @@ export interface DeploymentResult {
     rawTx: string;
     deployerAddress: string;
     contractAddress: string;
-    upfrontCost: number;
+    upfrontCost: bigint;
     r: string;
     s: string;
     v: string;
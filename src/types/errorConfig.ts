@@ -0,0 +1,62 @@
+/**
+ * Stable, machine-readable code of a `NickMethodError`.
+ * - `MISSING_FIELD`: a required configuration field is missing.
+ * - `INVALID_HEX`: a field that must be a hex string is not.
+ * - `INVALID_QUANTITY`: a field that must be a quantity (number, bigint, hex, decimal or unit string) is not.
+ * - `NON_CHECKSUM_ADDRESS`: an address is malformed or not checksummed.
+ * - `INVALID_SIGNATURE`: a signature value is out of range, or no sender can be recovered from it.
+ * - `RLP_DECODE_FAILED`: a raw transaction cannot be decoded.
+ * - `UNSUPPORTED_TRANSACTION_TYPE`: a raw transaction has an unknown EIP-2718 type.
+ * - `INVALID_OPTION`: an option or a configuration object other than a transaction is invalid.
+ * - `INVALID_MANIFEST`: a deployment manifest is malformed or lacks a deployment.
+ * - `MANIFEST_DRIFT`: regenerated deployments differ from the committed manifest.
+ * - `PREFLIGHT_FAILED`: the preflight check reported errors.
+ * - `UNSUPPORTED_HARDFORK`: the simulator does not support the requested hardfork.
+ * - `SIMULATION_SETUP_FAILED`: a transaction run to set up a simulation is invalid or fails.
+ * - `GAS_ESTIMATION_FAILED`: no gas limit makes the simulated transaction succeed.
+ * - `DEPLOYMENT_FAILED`: a broadcast deployment cannot proceed or did not deploy the contract.
+ * - `RPC_UNAVAILABLE`: no RPC URL answered a request.
+ * - `ABORTED`: the operation was aborted through its signal.
+ * - `INVALID_ABI`: an ABI is malformed, or lacks the requested function.
+ * - `INVALID_ARGUMENTS`: function or constructor arguments do not match their ABI types.
+ * - `ABI_DECODE_FAILED`: calldata or constructor arguments cannot be decoded against their ABI types.
+ * - `INVALID_KEYSTORE`: a keystore is malformed, unsupported, or its password is wrong.
+ * - `INVALID_ARTIFACT`: a compiler artifact is malformed, or holds no creation bytecode.
+ * - `UNLINKED_LIBRARIES`: creation bytecode still holds library placeholders.
+ * - `CIRCULAR_DEPENDENCY`: libraries to link depend on each other in a cycle.
+ */
+export type NickMethodErrorCode =
+    | 'MISSING_FIELD'
+    | 'INVALID_HEX'
+    | 'INVALID_QUANTITY'
+    | 'NON_CHECKSUM_ADDRESS'
+    | 'INVALID_SIGNATURE'
+    | 'RLP_DECODE_FAILED'
+    | 'UNSUPPORTED_TRANSACTION_TYPE'
+    | 'INVALID_OPTION'
+    | 'INVALID_MANIFEST'
+    | 'MANIFEST_DRIFT'
+    | 'PREFLIGHT_FAILED'
+    | 'UNSUPPORTED_HARDFORK'
+    | 'SIMULATION_SETUP_FAILED'
+    | 'GAS_ESTIMATION_FAILED'
+    | 'DEPLOYMENT_FAILED'
+    | 'RPC_UNAVAILABLE'
+    | 'ABORTED'
+    | 'INVALID_ABI'
+    | 'INVALID_ARGUMENTS'
+    | 'ABI_DECODE_FAILED'
+    | 'INVALID_KEYSTORE'
+    | 'INVALID_ARTIFACT'
+    | 'UNLINKED_LIBRARIES'
+    | 'CIRCULAR_DEPENDENCY';
+
+/**
+ * Details of a `NickMethodError`.
+ * @property {string} [field] - The configuration field or argument at fault, if any.
+ * @property {unknown} [cause] - The underlying error, if any.
+ */
+export interface NickMethodErrorOptions {
+    field?: string;
+    cause?: unknown;
+}
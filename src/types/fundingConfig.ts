@@ -0,0 +1,138 @@
+import { JsonRpcProviderOptions, Provider } from './broadcastConfig';
+import { ChainRegistry } from './chainConfig';
+import { Quantity } from './quantity';
+
+/**
+ * A chain to fund the keyless sender on.
+ * @property {number} chainId - The EIP-155 chain id.
+ * @property {Provider | string[]} [provider] - A provider, or JSON-RPC URLs, to read the current balance of
+ * the sender from.
+ * @property {Quantity} [balance] - The current balance of the sender, when it is known without a provider.
+ * @property {{ symbol: string, decimals: number }} [nativeCurrency] - The native currency of the chain.
+ * Defaults to the one of the chain registry.
+ */
+export interface FundingTarget {
+    chainId: number;
+    provider?: Provider | string[];
+    balance?: Quantity;
+    nativeCurrency?: { symbol: string; decimals: number };
+}
+
+/**
+ * Options of the funding planner.
+ * @property {ChainRegistry} [registry] - The chain profiles providing native currencies. Defaults to the built-in ones.
+ * @property {JsonRpcProviderOptions} [rpc] - Options of the providers created from URLs.
+ */
+export interface FundingPlanOptions {
+    registry?: ChainRegistry;
+    rpc?: JsonRpcProviderOptions;
+}
+
+/**
+ * Funding needed by the keyless sender on a chain.
+ * @property {number} chainId - The EIP-155 chain id.
+ * @property {{ symbol: string, decimals: number }} nativeCurrency - The native currency of the chain.
+ * @property {bigint} required - The upfront cost of the keyless transaction in wei.
+ * @property {bigint | undefined} balance - The current balance of the sender in wei, undefined when unknown.
+ * @property {bigint} amount - The exact amount to send in wei: the missing part of the upfront cost,
+ * or all of it when the balance is unknown.
+ * @property {string} formattedAmount - The amount to send in the native currency, e.g. `0.01 ETH`.
+ * @property {boolean | undefined} funded - Whether the balance already covers the upfront cost,
+ * undefined when it is unknown.
+ * @property {Error} [error] - Why the balance could not be read, if a provider failed.
+ */
+export interface FundingPlanEntry {
+    chainId: number;
+    nativeCurrency: { symbol: string; decimals: number };
+    required: bigint;
+    balance: bigint | undefined;
+    amount: bigint;
+    formattedAmount: string;
+    funded: boolean | undefined;
+    error?: Error;
+}
+
+/**
+ * Funding plan of a keyless transaction across chains.
+ * @property {string} address - The keyless sender to fund.
+ * @property {bigint} upfrontCost - The upfront cost of the keyless transaction in wei, identical on every chain.
+ * @property {FundingPlanEntry[]} entries - The funding needed on each chain, in the given order.
+ */
+export interface FundingPlan {
+    address: string;
+    upfrontCost: bigint;
+    entries: FundingPlanEntry[];
+}
+
+/**
+ * Chain-specific parameters of a funding transaction. Provide `gasPrice` for an EIP-155 legacy transaction,
+ * or `maxFeePerGas` and `maxPriorityFeePerGas` for an EIP-1559 transaction.
+ * @property {number} chainId - The EIP-155 chain id.
+ * @property {Quantity} nonce - The nonce of the funder on this chain.
+ * @property {Quantity} [gasLimit] - The gas limit. Defaults to 21000.
+ * @property {Quantity} [gasPrice] - The gas price of a legacy transaction.
+ * @property {Quantity} [maxFeePerGas] - The maximum fee per gas of an EIP-1559 transaction.
+ * @property {Quantity} [maxPriorityFeePerGas] - The maximum priority fee per gas of an EIP-1559 transaction.
+ */
+export interface FundingTransactionParams {
+    chainId: number;
+    nonce: Quantity;
+    gasLimit?: Quantity;
+    gasPrice?: Quantity;
+    maxFeePerGas?: Quantity;
+    maxPriorityFeePerGas?: Quantity;
+}
+
+/**
+ * Web3 Secret Storage (version 3) keystore, as written by geth, Foundry and most wallets.
+ */
+export interface Keystore {
+    version: 3;
+    address?: string;
+    crypto: {
+        cipher: string;
+        ciphertext: string;
+        cipherparams: { iv: string };
+        kdf: string;
+        kdfparams: Record<string, unknown>;
+        mac: string;
+    };
+}
+
+/**
+ * Options of the funding transaction builder. Without `privateKey` or `keystore`, transactions are left
+ * unsigned, to be signed by an external wallet.
+ * @property {string} from - The address of the funder.
+ * @property {string} [privateKey] - The private key of the funder, to sign the transactions offline.
+ * @property {{ keystore: Keystore | string, password: string }} [keystore] - A keystore of the funder,
+ * as an object or JSON string, and its password, to sign the transactions offline.
+ */
+export interface FundingTransactionOptions {
+    from: string;
+    privateKey?: string;
+    keystore?: { keystore: Keystore | string; password: string };
+}
+
+/**
+ * Funding transaction of a chain.
+ * @property {number} chainId - The EIP-155 chain id.
+ * @property {'legacy' | 'eip1559'} type - The transaction type. Both are replay-protected.
+ * @property {string} from - The address of the funder.
+ * @property {string} to - The keyless sender being funded.
+ * @property {bigint} value - The amount sent in wei.
+ * @property {string} unsignedTx - The serialized unsigned transaction, for external signers.
+ * @property {string} signingHash - The hash to sign.
+ * @property {string} [rawTx] - The signed raw transaction, when a key was provided.
+ * @property {string} [hash] - The hash of the signed transaction, when a key was provided.
+ */
+export interface FundingTransaction {
+    chainId: number;
+    type: 'legacy' | 'eip1559';
+    from: string;
+    to: string;
+    value: bigint;
+    unsignedTx: string;
+    signingHash: string;
+    rawTx?: string;
+    hash?: string;
+}
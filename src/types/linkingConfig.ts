@@ -0,0 +1,45 @@
+import { DeploymentConfig, DeploymentResult } from './deploymentConfig';
+
+/**
+ * Positions of the library placeholders of a bytecode, by source file and library name, as emitted by solc
+ * in `evm.bytecode.linkReferences` and by Hardhat and Foundry in their artifacts.
+ */
+export type LinkReferences = {
+    [sourceName: string]: { [libraryName: string]: { start: number; length: number }[] };
+};
+
+/**
+ * Addresses to link, by fully qualified library name (`path/Lib.sol:Lib`).
+ */
+export type LibraryAddresses = { [library: string]: string };
+
+/**
+ * Configuration object of a contract in a linked deployment plan.
+ * @property {LinkReferences} [linkReferences] - The positions of the libraries in the bytecode. Optional:
+ * placeholders are otherwise matched against the names of the contracts of the plan.
+ */
+export interface LinkedDeploymentConfig extends DeploymentConfig {
+    linkReferences?: LinkReferences;
+}
+
+/**
+ * Keyless deployment of a contract of a linked deployment plan.
+ * @property {string} name - The name of the contract in the plan.
+ * @property {string} bytecode - The linked creation bytecode, without constructor arguments.
+ * @property {LibraryAddresses} libraries - The addresses linked into the bytecode, by library name.
+ */
+export interface LinkedDeployment extends DeploymentResult {
+    name: string;
+    bytecode: string;
+    libraries: LibraryAddresses;
+}
+
+/**
+ * Keyless deployments of contracts and the libraries they link, in dependency order.
+ * @property {LinkedDeployment[]} deployments - The deployments, each library before the contracts linking it.
+ * @property {bigint} totalFunding - The sum of the upfront costs in wei, to send to the deployers on each chain.
+ */
+export interface LinkedDeploymentPlan {
+    deployments: LinkedDeployment[];
+    totalFunding: bigint;
+}
@@ -0,0 +1,107 @@
+import { DeploymentConfig } from './deploymentConfig';
+
+/**
+ * Deployment inputs as stored in a manifest, with quantities normalized to decimal strings.
+ * @property {string} gasLimit - The gas limit of the deployment.
+ * @property {string} gasPrice - The gas price of the deployment in wei.
+ * @property {string} value - The value sent with the deployment in wei.
+ * @property {string} bytecode - The creation bytecode of the contract, without its constructor arguments.
+ * @property {string} [constructorArgs] - The ABI-encoded constructor arguments appended to the bytecode, if any.
+ * @property {string} [r] - The custom r value of the signature, if any.
+ * @property {string} [s] - The custom s value of the signature, if any.
+ * @property {27 | 28} [v] - The custom v value of the signature, if any.
+ */
+export interface ManifestConfig {
+    gasLimit: string;
+    gasPrice: string;
+    value: string;
+    bytecode: string;
+    constructorArgs?: string;
+    r?: string;
+    s?: string;
+    v?: 27 | 28;
+}
+
+/**
+ * Deployment result as stored in a manifest, with the upfront cost as a decimal string.
+ * @property {string} rawTx - The raw transaction data as a hexadecimal string.
+ * @property {string} deployerAddress - The address of the account deploying the contract.
+ * @property {string} contractAddress - The address where the contract will be deployed.
+ * @property {string} upfrontCost - The upfront cost of the transaction in wei.
+ * @property {string} r - The r value of the transaction signature.
+ * @property {string} s - The s value of the transaction signature.
+ * @property {string} v - The v value of the transaction signature.
+ */
+export interface ManifestResult {
+    rawTx: string;
+    deployerAddress: string;
+    contractAddress: string;
+    upfrontCost: string;
+    r: string;
+    s: string;
+    v: string;
+}
+
+/**
+ * A single contract of a deployment manifest.
+ * @property {ManifestConfig} config - The inputs of the deployment.
+ * @property {string} bytecodeHash - The keccak256 hash of the creation bytecode, without constructor arguments.
+ * @property {ManifestResult} result - The committed result of the deployment.
+ */
+export interface ManifestEntry {
+    config: ManifestConfig;
+    bytecodeHash: string;
+    result: ManifestResult;
+}
+
+/**
+ * A versioned, JSON-serializable record of keyless deployments, meant to be committed as a lockfile.
+ * @property {number} version - The manifest format version.
+ * @property {{ name: string, version: string }} generator - The library that generated the entries.
+ * @property {{ [name: string]: ManifestEntry }} deployments - The deployments, by contract name.
+ */
+export interface DeploymentManifest {
+    version: 1;
+    generator: { name: string; version: string };
+    deployments: { [name: string]: ManifestEntry };
+}
+
+/**
+ * Reason why a regenerated deployment no longer matches the committed one.
+ * - `bytecode`: the bytecode hash changed.
+ * - `constructorArgs`: the encoded constructor arguments changed.
+ * - `gasLimit`, `gasPrice`, `value`, `r`, `s`, `v`: the corresponding input changed.
+ * - `generator`: the entry was generated by another version of the library.
+ * - `result`: the committed result does not match its own inputs.
+ */
+export type ManifestDriftCause =
+    | 'bytecode'
+    | 'constructorArgs'
+    | 'gasLimit'
+    | 'gasPrice'
+    | 'value'
+    | 'r'
+    | 's'
+    | 'v'
+    | 'generator'
+    | 'result';
+
+/**
+ * Description of a deployment whose regenerated result differs from the committed one.
+ * @property {string} name - The contract name.
+ * @property {ManifestDriftCause[]} causes - The likely causes of the difference.
+ * @property {{ deployerAddress: string, contractAddress: string }} committed - The committed addresses.
+ * @property {{ deployerAddress: string, contractAddress: string }} regenerated - The regenerated addresses.
+ */
+export interface ManifestDrift {
+    name: string;
+    causes: ManifestDriftCause[];
+    committed: { deployerAddress: string; contractAddress: string };
+    regenerated: { deployerAddress: string; contractAddress: string };
+}
+
+/**
+ * Fresh inputs to regenerate manifest entries with, by contract name. Typically the bytecode
+ * of the latest compilation. The committed constructor arguments are kept unless `abi` or `args` are given.
+ */
+export type ManifestOverrides = { [name: string]: Partial<DeploymentConfig> };
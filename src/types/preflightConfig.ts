@@ -0,0 +1,79 @@
+import { EvmVersion } from './chainConfig';
+import { Quantity } from './quantity';
+
+/**
+ * Problem found by the preflight check.
+ * - `MISSING_FIELD`: the recipient of a transaction is missing.
+ * - `INVALID_QUANTITY`: a quantity is malformed.
+ * - `NON_CHECKSUM_ADDRESS`: the recipient of a transaction is malformed or not checksummed.
+ * - `INVALID_HEX`: the bytecode or data is not a hex string.
+ * - `INVALID_ARGUMENTS`: the ABI is malformed, or the arguments cannot be encoded against it.
+ * - `INTRINSIC_GAS_TOO_HIGH`: the intrinsic gas exceeds the gas limit, the transaction can never be mined.
+ * - `INITCODE_TOO_LARGE`: the bytecode exceeds the EIP-3860 limit of 49152 bytes.
+ * - `RUNTIME_CODE_TOO_LARGE`: the deployed code likely exceeds the EIP-170 limit of 24576 bytes.
+ * - `TX_TOO_LARGE`: the serialized transaction exceeds the 128 KB accepted by common txpools.
+ * - `ZERO_GAS_PRICE`: the gas price is zero, which most nodes refuse.
+ * - `HIGH_GAS_PRICE`: the gas price is above the configured maximum.
+ * - `ODD_HEX_LENGTH`: the bytecode or data has an odd number of hex characters and gets left-padded.
+ */
+export type PreflightIssueCode =
+    | 'MISSING_FIELD'
+    | 'INVALID_QUANTITY'
+    | 'NON_CHECKSUM_ADDRESS'
+    | 'INVALID_HEX'
+    | 'INVALID_ARGUMENTS'
+    | 'INTRINSIC_GAS_TOO_HIGH'
+    | 'INITCODE_TOO_LARGE'
+    | 'RUNTIME_CODE_TOO_LARGE'
+    | 'TX_TOO_LARGE'
+    | 'ZERO_GAS_PRICE'
+    | 'HIGH_GAS_PRICE'
+    | 'ODD_HEX_LENGTH';
+
+/**
+ * A single preflight error or warning.
+ * @property {PreflightIssueCode} code - The machine-readable problem.
+ * @property {string} field - The configuration field the problem relates to.
+ * @property {string} message - The human-readable explanation.
+ */
+export interface PreflightIssue {
+    code: PreflightIssueCode;
+    field: string;
+    message: string;
+}
+
+/**
+ * Report of the preflight check.
+ * @property {boolean} ok - Whether no error was found. Warnings do not make the report fail.
+ * @property {PreflightIssue[]} errors - Problems that prevent the transaction from ever being mined or deploying.
+ * @property {PreflightIssue[]} warnings - Problems that are likely mistakes.
+ * @property {bigint | undefined} intrinsicGas - The gas charged before execution, undefined if inputs are malformed.
+ * @property {number | undefined} serializedSize - The size of the signed transaction in bytes,
+ * undefined if inputs are malformed.
+ */
+export interface PreflightReport {
+    ok: boolean;
+    errors: PreflightIssue[];
+    warnings: PreflightIssue[];
+    intrinsicGas: bigint | undefined;
+    serializedSize: number | undefined;
+}
+
+/**
+ * Options of the preflight check.
+ * @property {EvmVersion} [hardfork] - The hardfork whose gas and size rules apply. Defaults to `shanghai`.
+ * @property {Quantity} [maxGasPrice] - The gas price above which a warning is raised. Defaults to 10000 gwei.
+ */
+export interface PreflightOptions {
+    hardfork?: EvmVersion;
+    maxGasPrice?: Quantity;
+}
+
+/**
+ * Options of the raw transaction generators.
+ * @property {boolean | PreflightOptions} [preflight] - Runs the preflight check first and throws a
+ * `PreflightError` if it reports errors. Defaults to false.
+ */
+export interface GenerationOptions {
+    preflight?: boolean | PreflightOptions;
+}
@@ -0,0 +1,11 @@
+/**
+ * An amount of wei (or gas) accepted by the configuration objects.
+ *
+ * - `number`: a non-negative safe integer (up to 2^53 - 1).
+ * - `bigint`: any non-negative integer.
+ * - `string`: a `0x`-prefixed hex value (`'0x3b9aca00'`), a decimal integer (`'1000000000'`)
+ *   or a decimal amount followed by a unit (`'25 gwei'`, `'0.1 ether'`).
+ *
+ * Supported units are `wei`, `kwei`, `mwei`, `gwei`, `szabo`, `finney` and `ether` (or `eth`).
+ */
+export type Quantity = number | bigint | string;
@@ -1,24 +1,158 @@
+import { NickMethodError } from '../errors/errors';
+import { KnownDeploymentId } from './catalogConfig';
+
 /**
- * Result object returned after recovering a raw transaction.
- * @property {number} nonce - The nonce of the transaction.
- * @property {number} gasPrice - The gas price for the transaction in wei.
- * @property {number} gasLimit - The maximum amount of gas the transaction is allowed to use.
+ * Fields shared by every kind of recovered transaction.
+ * @property {bigint} nonce - The nonce of the transaction.
+ * @property {bigint} gasLimit - The maximum amount of gas the transaction is allowed to use.
  * @property {string | undefined} to - The recipient address of the transaction.
  *                                     Undefined for contract creation transactions.
- * @property {number} value - The amount of Ether being transferred in wei.
+ * @property {bigint} value - The amount of Ether being transferred in wei.
  * @property {string} data - The data payload of the transaction as a hexadecimal string.
- * @property {string | undefined} v - The v value of the transaction signature.
+ * @property {string | undefined} v - The v value of the transaction signature, the y parity for typed transactions.
  * @property {string | undefined} r - The r value of the transaction signature.
  * @property {string | undefined} s - The s value of the transaction signature.
+ * @property {string | undefined} senderAddress - The checksummed address recovered from the signature.
+ *                                              Undefined for unsigned transactions.
+ * @property {string | undefined} hash - The hash of the signed transaction. Undefined for unsigned transactions.
+ * @property {string} signingHash - The hash signed by the sender.
+ * @property {string | undefined} contractAddress - The address of the contract created by a deployment
+ *                                                transaction. Undefined for other transactions.
  */
-export interface RecoveredTransactionResult {
-    nonce: number;
-    gasPrice: number;
-    gasLimit: number;
+export interface RecoveredTransactionFields {
+    nonce: bigint;
+    gasLimit: bigint;
     to: string | undefined;
-    value: number;
+    value: bigint;
     data: string;
     v: string | undefined;
     r: string | undefined;
     s: string | undefined;
+    senderAddress: string | undefined;
+    hash: string | undefined;
+    signingHash: string;
+    contractAddress: string | undefined;
 }
+
+/**
+ * Legacy transaction, the only kind of transaction that can be a Nick-method transaction.
+ * @property {'legacy'} type - The kind of transaction.
+ * @property {bigint} gasPrice - The gas price for the transaction in wei.
+ * @property {bigint} upfrontCost - The exact upfront cost of the transaction in wei (gasLimit * gasPrice + value).
+ * @property {bigint | undefined} chainId - The EIP-155 chain id. Undefined for replay-unprotected transactions.
+ * @property {boolean} replayProtected - Whether the signature is bound to a chain (v is not 27 or 28).
+ * @property {SignatureKind} signatureKind - How the transaction was signed.
+ * @property {KnownDeploymentId | undefined} knownDeployment - The identifier of the built-in catalog entry
+ *                                                          whose raw transaction this is. Undefined for others.
+ */
+export interface RecoveredLegacyTransaction extends RecoveredTransactionFields {
+    type: 'legacy';
+    gasPrice: bigint;
+    upfrontCost: bigint;
+    chainId: bigint | undefined;
+    replayProtected: boolean;
+    signatureKind: SignatureKind;
+    knownDeployment: KnownDeploymentId | undefined;
+}
+
+/**
+ * Entry of an EIP-2930 access list.
+ * @property {string} address - The address accessed by the transaction.
+ * @property {string[]} storageKeys - The storage slots of the address accessed by the transaction.
+ */
+export interface AccessListEntry {
+    address: string;
+    storageKeys: string[];
+}
+
+/**
+ * Fields shared by EIP-2718 typed transactions.
+ *
+ * Typed transactions always sign their chain id, so they can never be Nick-method transactions:
+ * they are replay-protected and their signature is never classified as `default`, `custom-r` or `custom`.
+ *
+ * @property {bigint} chainId - The chain id signed into the transaction.
+ * @property {true} replayProtected - Always true.
+ * @property {'other' | 'unsigned'} signatureKind - Whether the transaction is signed.
+ * @property {AccessListEntry[]} accessList - The addresses and storage slots the transaction pre-declares.
+ */
+export interface RecoveredTypedTransactionFields extends RecoveredTransactionFields {
+    chainId: bigint;
+    replayProtected: true;
+    signatureKind: Extract<SignatureKind, 'other' | 'unsigned'>;
+    accessList: AccessListEntry[];
+}
+
+/**
+ * EIP-2930 access list transaction (type 1).
+ * @property {'eip2930'} type - The kind of transaction.
+ * @property {bigint} gasPrice - The gas price for the transaction in wei.
+ * @property {bigint} upfrontCost - The exact upfront cost of the transaction in wei (gasLimit * gasPrice + value).
+ */
+export interface RecoveredAccessListTransaction extends RecoveredTypedTransactionFields {
+    type: 'eip2930';
+    gasPrice: bigint;
+    upfrontCost: bigint;
+}
+
+/**
+ * EIP-1559 fee market transaction (type 2).
+ * @property {'eip1559'} type - The kind of transaction.
+ * @property {bigint} maxPriorityFeePerGas - The maximum tip per gas paid to the block producer in wei.
+ * @property {bigint} maxFeePerGas - The maximum total fee per gas in wei.
+ * @property {bigint} upfrontCost - The maximum upfront cost of the transaction in wei
+ *                                  (gasLimit * maxFeePerGas + value).
+ */
+export interface RecoveredFeeMarketTransaction extends RecoveredTypedTransactionFields {
+    type: 'eip1559';
+    maxPriorityFeePerGas: bigint;
+    maxFeePerGas: bigint;
+    upfrontCost: bigint;
+}
+
+/**
+ * EIP-4844 blob transaction (type 3), decoded from its canonical or network form.
+ * Blob transactions cannot create contracts, so `to` is always set.
+ * @property {'eip4844'} type - The kind of transaction.
+ * @property {bigint} maxPriorityFeePerGas - The maximum tip per gas paid to the block producer in wei.
+ * @property {bigint} maxFeePerGas - The maximum total fee per gas in wei.
+ * @property {bigint} maxFeePerBlobGas - The maximum fee per blob gas in wei.
+ * @property {string[]} blobVersionedHashes - The versioned hashes of the blobs carried by the transaction.
+ * @property {bigint} upfrontCost - The maximum upfront cost of the transaction in wei
+ *                                  (gasLimit * maxFeePerGas + blob gas * maxFeePerBlobGas + value).
+ */
+export interface RecoveredBlobTransaction extends RecoveredTypedTransactionFields {
+    type: 'eip4844';
+    maxPriorityFeePerGas: bigint;
+    maxFeePerGas: bigint;
+    maxFeePerBlobGas: bigint;
+    blobVersionedHashes: string[];
+    upfrontCost: bigint;
+}
+
+/**
+ * Result object returned after recovering a raw transaction, discriminated by its `type`.
+ */
+export type RecoveredTransactionResult =
+    | RecoveredLegacyTransaction
+    | RecoveredAccessListTransaction
+    | RecoveredFeeMarketTransaction
+    | RecoveredBlobTransaction;
+
+/**
+ * Classification of the signature of a recovered transaction.
+ * - `default`: the library's Nick-method signature (v = 27, default r and s).
+ * - `custom-r`: a Nick-method signature generated by the library with a custom r.
+ * - `custom`: a Nick-method signature generated by the library with a custom s or v = 28, keeping its
+ *   default r or s.
+ * - `other`: any other signature, e.g. from a private key or another keyless tool.
+ * - `unsigned`: no signature.
+ */
+export type SignatureKind = 'default' | 'custom-r' | 'custom' | 'other' | 'unsigned';
+
+/**
+ * Result of `safeRecoverRawTransaction`: the recovered transaction, or the error that prevented recovering it.
+ */
+export type SafeRecoverResult =
+    | { success: true; data: RecoveredTransactionResult }
+    | { success: false; error: NickMethodError };
@@ -0,0 +1,39 @@
+import { ChainRegistry } from './chainConfig';
+import { DeploymentResult } from './deploymentConfig';
+import { TransactionResult } from './transactionConfig';
+
+/**
+ * Keyless transaction a broadcast script sends: a deployment, skipped on chains where the contract already
+ * has code, or any other transaction, skipped on chains where its sender already sent it.
+ */
+export type ScriptableResult = DeploymentResult | TransactionResult;
+
+/**
+ * A chain a broadcast script sends the transaction on.
+ * @property {number} chainId - The EIP-155 chain id.
+ * @property {string} [rpcUrl] - The default JSON-RPC URL of the chain, overridden at run time by the
+ * `RPC_URL_<chainId>` environment variable. Ignored by Hardhat tasks, which use the configured networks.
+ */
+export interface ScriptChain {
+    chainId: number;
+    rpcUrl?: string;
+}
+
+/**
+ * Options of the broadcast script generators.
+ * @property {ScriptChain[]} chains - The chains to send the transaction on, in order.
+ * @property {ChainRegistry} [registry] - The chain profiles naming the chains in the script. Defaults to the
+ * built-in ones.
+ */
+export interface BroadcastScriptOptions {
+    chains: ScriptChain[];
+    registry?: ChainRegistry;
+}
+
+/**
+ * Options of the Hardhat task generator.
+ * @property {string} [taskName] - The name of the task. Defaults to `nick-method-broadcast`.
+ */
+export interface HardhatTaskOptions extends BroadcastScriptOptions {
+    taskName?: string;
+}
@@ -0,0 +1,27 @@
+/**
+ * Signature parameters of a keyless transaction. Each value defaults to the library's hardcoded one.
+ * @property {string} [r] - Optional r value for the transaction signature.
+ * If provided, it allows generation of different sender (and contract) addresses.
+ * Must be in the range [1, n - 1] and be the x-coordinate of a point on secp256k1.
+ * @property {string} [s] - Optional s value for the transaction signature.
+ * Must be in the range [1, n / 2], as EIP-2 rejects signatures with a high s.
+ * @property {27 | 28} [v] - Optional v value for the transaction signature, which selects one of the
+ * two points with x-coordinate r. Only 27 and 28 keep the transaction free of EIP-155 replay protection.
+ */
+export interface SignatureConfig {
+    r?: string;
+    s?: string;
+    v?: 27 | 28;
+}
+
+/**
+ * Validated signature of a keyless transaction, as hexadecimal strings.
+ * @property {string} r - The r value of the transaction signature.
+ * @property {string} s - The s value of the transaction signature.
+ * @property {string} v - The v value of the transaction signature.
+ */
+export interface KeylessSignature {
+    r: string;
+    s: string;
+    v: string;
+}
@@ -0,0 +1,105 @@
+import { EvmVersion } from './chainConfig';
+import { DeploymentConfig, DeploymentResult } from './deploymentConfig';
+import { Quantity } from './quantity';
+import { TransactionConfig, TransactionResult } from './transactionConfig';
+
+/**
+ * State of an account before the simulation.
+ * @property {string} [code] - The runtime code of the account.
+ * @property {Quantity} [balance] - The balance of the account in wei.
+ * @property {Quantity} [nonce] - The nonce of the account.
+ */
+export interface SimulationAccount {
+    code?: string;
+    balance?: Quantity;
+    nonce?: Quantity;
+}
+
+/**
+ * Options of the EVM simulation.
+ * @property {EvmVersion} [hardfork] - The hardfork to simulate, from `frontier` to `shanghai`. Defaults to `shanghai`.
+ * @property {{ [address: string]: SimulationAccount }} [accounts] - Accounts to create before the simulation.
+ * @property {string[]} [setup] - Raw transactions to run before the simulated one, e.g. the deployment of a
+ * factory the simulated transaction calls.
+ * @property {number} [gasMargin] - Fraction added to the lowest working gas limit in `'auto'` mode.
+ * Defaults to 0.2 (20%).
+ */
+export interface SimulationOptions {
+    hardfork?: EvmVersion;
+    accounts?: { [address: string]: SimulationAccount };
+    setup?: string[];
+    gasMargin?: number;
+}
+
+/**
+ * Log emitted during the simulation.
+ * @property {string} address - The address of the emitting contract.
+ * @property {string[]} topics - The indexed topics of the log.
+ * @property {string} data - The non-indexed data of the log.
+ */
+export interface SimulationLog {
+    address: string;
+    topics: string[];
+    data: string;
+}
+
+/**
+ * Outcome of a simulated transaction.
+ * @property {boolean} success - Whether the transaction succeeded.
+ * @property {bigint} gasLimit - The gas limit of the transaction.
+ * @property {bigint} gasUsed - The gas paid for by the transaction, after refunds.
+ * @property {string | undefined} error - The reason of the failure, e.g. `revert`, `out of gas`, or why the
+ * transaction is invalid (e.g. a gas limit below the intrinsic gas).
+ * @property {string | undefined} revertReason - The decoded `Error(string)` or `Panic(uint256)` of a revert.
+ * @property {string} returnData - The data returned by the transaction, or the revert data.
+ * @property {string | undefined} contractAddress - The address of the created contract, for deployments.
+ * @property {string | undefined} runtimeCode - The runtime code deployed at `contractAddress`.
+ * @property {string | undefined} runtimeCodeHash - The keccak256 hash of the runtime code.
+ * @property {SimulationLog[]} logs - The logs emitted by the transaction.
+ */
+export interface SimulationResult {
+    success: boolean;
+    gasLimit: bigint;
+    gasUsed: bigint;
+    error: string | undefined;
+    revertReason: string | undefined;
+    returnData: string;
+    contractAddress: string | undefined;
+    runtimeCode: string | undefined;
+    runtimeCodeHash: string | undefined;
+    logs: SimulationLog[];
+}
+
+/**
+ * Deployment configuration whose gas limit can be left to the simulator.
+ */
+export type AutoGasDeploymentConfig = Omit<DeploymentConfig, 'gasLimit'> & {
+    gasLimit: Quantity | 'auto';
+};
+
+/**
+ * Transaction configuration whose gas limit can be left to the simulator.
+ */
+export type AutoGasTransactionConfig = Omit<TransactionConfig, 'gasLimit'> & {
+    gasLimit: Quantity | 'auto';
+};
+
+/**
+ * Result of a simulated deployment.
+ * @property {DeploymentResult} deployment - The deployment, generated with the chosen gas limit.
+ * @property {SimulationResult} simulation - The outcome of the deployment.
+ */
+export interface SimulatedDeployment {
+    deployment: DeploymentResult;
+    simulation: SimulationResult;
+}
+
+/**
+ * Result of a simulated transaction.
+ * @property {TransactionResult} transaction - The transaction, generated with the chosen gas limit.
+ * @property {SimulationResult} simulation - The outcome of the transaction.
+ */
+export interface SimulatedTransaction {
+    transaction: TransactionResult;
+    simulation: SimulationResult;
+}
@@ -0,0 +1,68 @@
+import { JsonRpcProviderOptions } from './broadcastConfig';
+
+/**
+ * State of a keyless deployment on a chain.
+ * - `not-funded`: the deployer holds nothing.
+ * - `under-funded`: the deployer holds less than the upfront cost of the deployment.
+ * - `ready`: the deployer is funded and its nonce unused, so the raw transaction can be broadcast.
+ * - `deployed`: the contract has code, matching the expected runtime code when given.
+ * - `code-mismatch`: the contract has code other than the expected runtime code.
+ * - `bricked`: the deployer nonce is used but there is no code at the contract address, so the deployment
+ * can never happen on the chain and its address is lost.
+ * - `unavailable`: the chain could not be read in time.
+ */
+export type DeploymentState =
+    | 'not-funded'
+    | 'under-funded'
+    | 'ready'
+    | 'deployed'
+    | 'code-mismatch'
+    | 'bricked'
+    | 'unavailable';
+
+/**
+ * Options of the status checker.
+ * @property {string} [expectedCode] - The runtime code expected at the contract address. Without it, any code
+ * counts as deployed.
+ * @property {number} [timeout] - Time to wait for each chain in milliseconds. Defaults to 10000.
+ * @property {JsonRpcProviderOptions} [rpc] - Options of the providers created from URLs.
+ */
+export interface DeploymentStatusOptions {
+    expectedCode?: string;
+    timeout?: number;
+    rpc?: JsonRpcProviderOptions;
+}
+
+/**
+ * State of a keyless deployment on a chain, with the values it was derived from.
+ * @property {number} chainId - The id of the chain.
+ * @property {DeploymentState} state - The state of the deployment.
+ * @property {bigint | undefined} balance - The balance of the deployer in wei, undefined when unavailable.
+ * @property {bigint | undefined} nonce - The number of transactions sent by the deployer, undefined when unavailable.
+ * @property {bigint | undefined} shortfall - The amount missing to the deployer in wei, when not or under-funded.
+ * @property {string | undefined} codeHash - The keccak256 hash of the code at the contract address, when any.
+ * @property {Error} [error] - Why the chain could not be read, when unavailable.
+ */
+export interface ChainDeploymentStatus {
+    chainId: number;
+    state: DeploymentState;
+    balance: bigint | undefined;
+    nonce: bigint | undefined;
+    shortfall: bigint | undefined;
+    codeHash: string | undefined;
+    error?: Error;
+}
+
+/**
+ * Status of a keyless deployment across chains.
+ * @property {string} deployerAddress - The keyless deployer.
+ * @property {string} contractAddress - The address of the contract.
+ * @property {bigint} upfrontCost - The upfront cost of the deployment in wei.
+ * @property {ChainDeploymentStatus[]} chains - The status on each chain, in the given order.
+ */
+export interface DeploymentStatusReport {
+    deployerAddress: string;
+    contractAddress: string;
+    upfrontCost: bigint;
+    chains: ChainDeploymentStatus[];
+}
@@ -1,28 +1,37 @@
+import { FunctionAbiConfig } from './abiConfig';
+import { Quantity } from './quantity';
+import { SignatureConfig } from './signatureConfig';
+
 /**
  * Configuration object for generating a raw transaction.
- * @property {number} value - The amount of native token in wei to send with the transaction.
+ * @property {Quantity} value - The amount of native token to send with the transaction.
+ * Plain numbers and decimal strings are in wei; unit strings such as '0.1 ether' are also accepted.
  * @property {string} to - The recipient address of the transaction (must be a valid checksummed address).
- * @property {number} gasLimit - The gas limit for the transaction.
- * @property {number} gasPrice - The gas price for the transaction in wei.
- * @property {string} data - The data payload of the transaction.
+ * @property {Quantity} gasLimit - The gas limit for the transaction.
+ * @property {Quantity} gasPrice - The gas price for the transaction in wei, or a unit string such as '25 gwei'.
+ * @property {string} [data] - The data payload of the transaction. Required unless `abi` and `functionName` are provided.
+ * @property {Abi} [abi] - Optional ABI of the contract, to encode the data from `functionName` and `args`.
+ * @property {string} [functionName] - Optional name or signature of the function to call.
+ * @property {readonly unknown[]} [args] - Optional function arguments, validated against the ABI.
  * @property {string} [r] - Optional r value for the transaction signature.
  * If provided, it allows generation of different sender addresses.
- * Must be a valid ECDSA signature r value (non-zero and less than the curve order).
+ * Must be a valid ECDSA signature r value (non-zero, less than the curve order and a curve x-coordinate).
+ * @property {string} [s] - Optional s value for the transaction signature, in the lower half of the curve order.
+ * @property {27 | 28} [v] - Optional v value for the transaction signature.
  */
-export interface TransactionConfig {
-    value: number;
+export interface TransactionConfig extends SignatureConfig, FunctionAbiConfig {
+    value: Quantity;
     to: string;
-    gasLimit: number;
-    gasPrice: number;
-    data: string;
-    r?: string;
+    gasLimit: Quantity;
+    gasPrice: Quantity;
+    data?: string;
 }
 
 /**
  * Result object returned after generating a raw transaction.
  * @property {string} rawTx - The raw transaction data as a hexadecimal string.
  * @property {string} senderAddress - The address of the account sending the transaction.
- * @property {number} upfrontCost - The upfront cost of the transaction in wei.
+ * @property {bigint} upfrontCost - The exact upfront cost of the transaction in wei (gasLimit * gasPrice + value).
  * @property {string} r - The r value of the transaction signature.
  * @property {string} s - The s value of the transaction signature.
  * @property {string} v - The v value of the transaction signature.
@@ -30,7 +39,7 @@ export interface TransactionConfig {
 export interface TransactionResult {
     rawTx: string;
     senderAddress: string;
-    upfrontCost: number;
+    upfrontCost: bigint;
     r: string;
     s: string;
     v: string;
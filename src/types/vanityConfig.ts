@@ -0,0 +1,112 @@
+import { DeploymentConfig, DeploymentResult } from './deploymentConfig';
+
+/**
+ * Address pattern searched for by the vanity miner.
+ * All provided criteria must match for a candidate to be accepted.
+ * @property {'deployerAddress' | 'contractAddress'} field - The address of the deployment result to match.
+ * @property {string} [prefix] - Hex characters the address must start with (after `0x`).
+ * @property {string} [suffix] - Hex characters the address must end with.
+ * @property {string} [regex] - Regular expression source tested against the address (with `0x`).
+ * @property {number} [leadingZeroBytes] - Number of leading zero bytes the address must start with.
+ * @property {boolean} [caseSensitive] - Match `prefix`, `suffix` and `regex` against the checksummed
+ * address instead of the lowercase one. Defaults to false.
+ */
+export interface VanityTarget {
+    field: 'deployerAddress' | 'contractAddress';
+    prefix?: string;
+    suffix?: string;
+    regex?: string;
+    leadingZeroBytes?: number;
+    caseSensitive?: boolean;
+}
+
+/**
+ * Configuration object for mining a vanity `r` value.
+ * @property {VanityTarget} target - The address pattern to search for.
+ * @property {string} [startR] - The first `r` candidate to try. Defaults to a random value.
+ * Candidates are tried in increasing order from `startR`, wrapping around the curve order.
+ */
+export interface VanityConfig extends Omit<DeploymentConfig, 'r'> {
+    target: VanityTarget;
+    startR?: string;
+}
+
+/**
+ * Serializable state of a vanity search, used to resume it later.
+ * @property {number} version - The checkpoint format version.
+ * @property {string} messageHash - The signing hash of the deployment the search belongs to.
+ * @property {VanityTarget} target - The address pattern being searched for.
+ * @property {string} startR - The first `r` candidate of the search.
+ * @property {string} nextIndex - Decimal offset from `startR` of the first candidate not yet searched.
+ * All candidates below it have been searched.
+ * @property {number} attempts - The number of valid candidates already tried.
+ * @property {number} elapsedMs - The time already spent searching, in milliseconds.
+ */
+export interface VanityCheckpoint {
+    version: 1;
+    messageHash: string;
+    target: VanityTarget;
+    startR: string;
+    nextIndex: string;
+    attempts: number;
+    elapsedMs: number;
+}
+
+/**
+ * Progress report emitted periodically while mining.
+ * @property {number} attempts - The number of valid candidates tried, including resumed ones.
+ * @property {number} rate - The number of candidates tried per second in the current run.
+ * @property {number} elapsedMs - The total time spent searching, including resumed time.
+ * @property {number | undefined} difficulty - The expected number of attempts to find a match,
+ * or undefined when it cannot be estimated (regex targets).
+ * @property {number | undefined} probability - The probability that a match would have been found by now.
+ * @property {number | undefined} etaMs - The estimated time until a match is found with 50% probability.
+ * Zero once that point has been passed.
+ * @property {VanityCheckpoint} checkpoint - A checkpoint that can be saved to resume the search.
+ */
+export interface VanityProgress {
+    attempts: number;
+    rate: number;
+    elapsedMs: number;
+    difficulty: number | undefined;
+    probability: number | undefined;
+    etaMs: number | undefined;
+    checkpoint: VanityCheckpoint;
+}
+
+/**
+ * Runtime options of the vanity miner.
+ * @property {number} [workers] - Number of worker threads. Defaults to the number of available cores.
+ * Use 0 to search in the calling thread.
+ * @property {number} [batchSize] - Number of candidates handed to a worker at once. Defaults to 256.
+ * @property {number} [maxAttempts] - Stops the search after this many attempts.
+ * @property {VanityCheckpoint} [checkpoint] - A checkpoint to resume the search from.
+ * @property {AbortSignal} [signal] - Stops the search when aborted.
+ * @property {(progress: VanityProgress) => void} [onProgress] - Called periodically with the search progress.
+ * @property {number} [progressInterval] - Minimum time between two progress reports in milliseconds.
+ * Defaults to 1000.
+ */
+export interface VanityOptions {
+    workers?: number;
+    batchSize?: number;
+    maxAttempts?: number;
+    checkpoint?: VanityCheckpoint;
+    signal?: AbortSignal;
+    onProgress?: (progress: VanityProgress) => void;
+    progressInterval?: number;
+}
+
+/**
+ * Result object returned by the vanity miner.
+ * @property {DeploymentResult | undefined} deployment - The deployment generated with the matching `r` value,
+ * or undefined if the search stopped before finding a match.
+ * @property {number} attempts - The number of valid candidates tried, including resumed ones.
+ * @property {number} elapsedMs - The total time spent searching, including resumed time.
+ * @property {VanityCheckpoint} checkpoint - A checkpoint to resume the search from.
+ */
+export interface VanityResult {
+    deployment: DeploymentResult | undefined;
+    attempts: number;
+    elapsedMs: number;
+    checkpoint: VanityCheckpoint;
+}
@@ -0,0 +1,74 @@
+import { Quantity } from './quantity';
+import { RecoveredTransactionResult } from './rawTransactionConfig';
+
+/**
+ * Expected properties of a published keyless deployment. Each provided value adds a check to the report.
+ * @property {string} [bytecode] - The exact creation data, constructor arguments included.
+ * @property {string} [bytecodeHash] - The keccak256 hash of the creation data, when the bytecode is not at hand.
+ * @property {string} [deployerAddress] - The checksummed keyless sender.
+ * @property {string} [contractAddress] - The checksummed address of the deployed contract.
+ * @property {Quantity} [gasPrice] - The gas price in wei.
+ * @property {Quantity} [gasLimit] - The gas limit.
+ */
+export interface KeylessDeploymentExpectations {
+    bytecode?: string;
+    bytecodeHash?: string;
+    deployerAddress?: string;
+    contractAddress?: string;
+    gasPrice?: Quantity;
+    gasLimit?: Quantity;
+}
+
+/**
+ * Check performed on a keyless deployment.
+ * - `decode`: the raw transaction can be decoded and its sender recovered. Only reported when it fails.
+ * - `legacy-type`: the transaction is a legacy one, the only kind without a signed chain id.
+ * - `replay-unprotected`: v is 27 or 28, so the transaction is valid on every chain.
+ * - `contract-creation`: the transaction has no recipient.
+ * - `zero-nonce`: the nonce is 0, the only one a keyless sender can ever use.
+ * - `keyless-signature`: r is a constructed value, whose discrete log no one knows.
+ * - `bytecode`, `bytecode-hash`, `deployer`, `contract-address`, `gas-price`, `gas-limit`: the transaction
+ * matches an expectation.
+ */
+export type VerificationCheckName =
+    | 'decode'
+    | 'legacy-type'
+    | 'replay-unprotected'
+    | 'contract-creation'
+    | 'zero-nonce'
+    | 'keyless-signature'
+    | 'bytecode'
+    | 'bytecode-hash'
+    | 'deployer'
+    | 'contract-address'
+    | 'gas-price'
+    | 'gas-limit';
+
+/**
+ * Outcome of a single verification check.
+ * @property {VerificationCheckName} name - The check.
+ * @property {boolean} passed - Whether the transaction passed the check.
+ * @property {string} message - The human-readable outcome.
+ * @property {string} [expected] - The expected value, for checks against an expectation.
+ * @property {string} [actual] - The value found in the transaction, for checks against an expectation.
+ */
+export interface VerificationCheck {
+    name: VerificationCheckName;
+    passed: boolean;
+    message: string;
+    expected?: string;
+    actual?: string;
+}
+
+/**
+ * Report of the verification of a keyless deployment.
+ * @property {boolean} ok - Whether every check passed.
+ * @property {VerificationCheck[]} checks - The outcome of each check, in a stable order.
+ * @property {RecoveredTransactionResult | undefined} transaction - The recovered transaction,
+ * undefined if it cannot be decoded.
+ */
+export interface VerificationReport {
+    ok: boolean;
+    checks: VerificationCheck[];
+    transaction: RecoveredTransactionResult | undefined;
+}
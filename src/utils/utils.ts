@@ -1,3 +1,20 @@
+import { NickMethodError } from '../errors/errors';
+import { Quantity } from '../types/quantity';
+
+/**
+ * Number of decimals of each supported denomination, relative to wei.
+ */
+const UNIT_DECIMALS = new Map<string, number>([
+    ['wei', 0],
+    ['kwei', 3],
+    ['mwei', 6],
+    ['gwei', 9],
+    ['szabo', 12],
+    ['finney', 15],
+    ['ether', 18],
+    ['eth', 18],
+]);
+
 /**
  * Checks if a given string is a valid hexadecimal value.
  *
@@ -7,3 +24,116 @@
 export function isValidHex(value: string): boolean {
     return /^0x[0-9A-Fa-f]*$/.test(value);
 }
+
+/**
+ * Converts a decimal amount expressed in a given number of decimals to its integer representation.
+ *
+ * @param {string} amount - The decimal amount, e.g. '0.1'.
+ * @param {number} decimals - The number of decimals of the unit the amount is expressed in.
+ * @returns {bigint} The amount as an integer in the smallest unit.
+ *
+ * @throws {NickMethodError} If the amount is not a decimal number or has more fractional digits than `decimals`.
+ */
+export function parseUnits(amount: string, decimals: number): bigint {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(amount);
+    if (!match) {
+        throw new NickMethodError('INVALID_QUANTITY', `Invalid decimal amount "${amount}"`);
+    }
+
+    const [, whole, fraction = ''] = match;
+    const trimmedFraction = fraction.replace(/0+$/, '');
+    if (trimmedFraction.length > decimals) {
+        throw new NickMethodError(
+            'INVALID_QUANTITY',
+            `Amount "${amount}" has more than ${decimals} decimals`,
+        );
+    }
+
+    return BigInt(whole + trimmedFraction.padEnd(decimals, '0'));
+}
+
+/**
+ * Converts an integer amount in the smallest unit to a decimal string in a unit with the given decimals.
+ *
+ * @param {bigint} value - The amount in the smallest unit, e.g. wei.
+ * @param {number} decimals - The number of decimals of the target unit, e.g. 18 for ether.
+ * @returns {string} The decimal representation without trailing zeros, e.g. '0.1'.
+ */
+export function formatUnits(value: bigint, decimals: number): string {
+    const negative = value < BigInt(0);
+    const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Converts a quantity (number, bigint, hex string, decimal string or unit string) to a bigint.
+ *
+ * @param {Quantity} value - The quantity to convert. See {@link Quantity} for the accepted formats.
+ * @returns {bigint} The exact integer value of the quantity.
+ *
+ * @throws {NickMethodError} If the value is negative, fractional, an unsafe integer or an unrecognised string.
+ */
+export function parseQuantity(value: Quantity): bigint {
+    if (typeof value === 'bigint') {
+        if (value < BigInt(0)) {
+            throw new NickMethodError(
+                'INVALID_QUANTITY',
+                `Invalid quantity ${value}: must not be negative`,
+            );
+        }
+        return value;
+    }
+
+    if (typeof value === 'number') {
+        if (!Number.isSafeInteger(value) || value < 0) {
+            throw new NickMethodError(
+                'INVALID_QUANTITY',
+                `Invalid quantity ${value}: numbers must be non-negative safe integers, use a bigint or string instead`,
+            );
+        }
+        return BigInt(value);
+    }
+
+    if (typeof value !== 'string') {
+        throw new NickMethodError('INVALID_QUANTITY', `Invalid quantity ${String(value)}`);
+    }
+
+    const trimmed = value.trim();
+
+    if (isValidHex(trimmed)) {
+        return trimmed === '0x' ? BigInt(0) : BigInt(trimmed);
+    }
+
+    if (/^\d+$/.test(trimmed)) {
+        return BigInt(trimmed);
+    }
+
+    const match = /^(\d+(?:\.\d+)?)\s*([a-zA-Z]+)$/.exec(trimmed);
+    const decimals = match ? UNIT_DECIMALS.get(match[2].toLowerCase()) : undefined;
+    if (!match || decimals === undefined) {
+        throw new NickMethodError('INVALID_QUANTITY', `Invalid quantity "${value}"`);
+    }
+
+    return parseUnits(match[1], decimals);
+}
+
+/**
+ * Checks if a given value is a quantity accepted by {@link parseQuantity}.
+ *
+ * @param {unknown} value - The value to be checked.
+ * @returns {boolean} True if the value can be converted to a bigint without loss of precision, false otherwise.
+ */
+export function isValidQuantity(value: unknown): value is Quantity {
+    if (typeof value !== 'number' && typeof value !== 'bigint' && typeof value !== 'string') {
+        return false;
+    }
+
+    try {
+        parseQuantity(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,225 @@
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+
+import { bytesToHex, hexToBytes, isValidChecksumAddress, setLengthLeft } from '../bytes/bytes';
+import { NickMethodError } from '../errors/errors';
+import { safeRecoverRawTransaction } from '../recoverRawTransaction/recoverRawTransaction';
+import { HARDCODED_R } from '../signature/signature';
+import { RecoveredTransactionResult } from '../types/rawTransactionConfig';
+import {
+    KeylessDeploymentExpectations,
+    VerificationCheck,
+    VerificationReport,
+} from '../types/verifyConfig';
+import { isValidHex, isValidQuantity, parseQuantity } from '../utils/utils';
+
+/** Longest pattern, in bytes, whose repetition is considered constructed. */
+const MAX_PATTERN_SIZE = 4;
+
+/** Shortest run of identical bytes considered constructed. */
+const MIN_RUN_SIZE = 8;
+
+/**
+ * Tells whether a signature value was visibly chosen by hand, such as `0x1820…1820` for ERC-1820 or
+ * `0x2470…00` for EIP-2470, rather than computed by signing. A value made of a repeated short pattern or
+ * holding a long run of identical bytes, including leading zeros, has a negligible chance of coming out
+ * of a real signature.
+ */
+function isConstructedValue(hex: string): boolean {
+    const bytes = setLengthLeft(hexToBytes(hex), 32);
+
+    for (let size = 1; size <= MAX_PATTERN_SIZE; size++) {
+        if (bytes.every((byte, index) => byte === bytes[index % size])) {
+            return true;
+        }
+    }
+
+    let run = 1;
+    for (let index = 1; index < bytes.length; index++) {
+        run = bytes[index] === bytes[index - 1] ? run + 1 : 1;
+        if (run >= MIN_RUN_SIZE) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function validateExpectations(expectations: KeylessDeploymentExpectations): void {
+    for (const field of ['bytecode', 'bytecodeHash'] as const) {
+        const value = expectations[field];
+        if (value !== undefined && (!isValidHex(value) || value.length % 2 !== 0)) {
+            throw new NickMethodError('INVALID_HEX', `Invalid hex value for ${field}`, { field });
+        }
+    }
+    if (expectations.bytecodeHash !== undefined && expectations.bytecodeHash.length !== 66) {
+        throw new NickMethodError('INVALID_HEX', 'Invalid bytecodeHash: expected 32 bytes', {
+            field: 'bytecodeHash',
+        });
+    }
+    for (const field of ['deployerAddress', 'contractAddress'] as const) {
+        const value = expectations[field];
+        if (value !== undefined && !isValidChecksumAddress(value)) {
+            throw new NickMethodError(
+                'NON_CHECKSUM_ADDRESS',
+                `Invalid or non-checksummed address provided for "${field}"`,
+                { field },
+            );
+        }
+    }
+    for (const field of ['gasPrice', 'gasLimit'] as const) {
+        const value = expectations[field];
+        if (value !== undefined && !isValidQuantity(value)) {
+            throw new NickMethodError(
+                'INVALID_QUANTITY',
+                `Invalid ${field}: not a valid quantity`,
+                { field },
+            );
+        }
+    }
+}
+
+function check(
+    name: VerificationCheck['name'],
+    passed: boolean,
+    message: string,
+): VerificationCheck {
+    return { name, passed, message };
+}
+
+function compare(
+    name: VerificationCheck['name'],
+    label: string,
+    expected: string,
+    actual: string | undefined,
+): VerificationCheck {
+    const passed = actual !== undefined && expected.toLowerCase() === actual.toLowerCase();
+    return {
+        name,
+        passed,
+        message: passed
+            ? `The ${label} matches`
+            : `The ${label} is ${actual ?? 'missing'}, expected ${expected}`,
+        expected,
+        actual,
+    };
+}
+
+function structuralChecks(tx: RecoveredTransactionResult): VerificationCheck[] {
+    const legacy = tx.type === 'legacy';
+    // Only r makes a signature keyless: anyone who picks k and uses r = (kG).x can solve the key for any
+    // s, so a constructed s proves nothing
+    const constructed =
+        legacy &&
+        tx.r !== undefined &&
+        tx.s !== undefined &&
+        (BigInt(tx.r) === BigInt(HARDCODED_R) || isConstructedValue(tx.r));
+
+    return [
+        check(
+            'legacy-type',
+            legacy,
+            legacy
+                ? 'The transaction is a legacy transaction'
+                : `The transaction is an ${tx.type} transaction, which always signs its chain id`,
+        ),
+        check(
+            'replay-unprotected',
+            !tx.replayProtected,
+            tx.replayProtected
+                ? `The signature is bound to chain ${tx.chainId}, so it cannot be replayed on other chains`
+                : 'The signature is not bound to a chain (v is 27 or 28)',
+        ),
+        check(
+            'contract-creation',
+            tx.to === undefined,
+            tx.to === undefined
+                ? 'The transaction creates a contract'
+                : `The transaction calls ${tx.to} instead of creating a contract`,
+        ),
+        check(
+            'zero-nonce',
+            tx.nonce === BigInt(0),
+            tx.nonce === BigInt(0)
+                ? 'The nonce is 0'
+                : `The nonce is ${tx.nonce}, which a keyless sender can never reach`,
+        ),
+        check(
+            'keyless-signature',
+            constructed,
+            constructed
+                ? 'The signature uses a constructed r, so no one plausibly holds the deployer key'
+                : 'The signature r is not a constructed value, so someone may hold the deployer key',
+        ),
+    ];
+}
+
+/**
+ * Audits a published keyless deployment, such as the ERC-1820 registry or a CREATE2 factory.
+ *
+ * The transaction must be a legacy, replay-unprotected contract creation with nonce 0, signed with a
+ * constructed r: a value with a visibly hand-picked pattern, or the library's default r. No one knows the
+ * discrete log of such an r, so no one can spend from the deployer or front-run the deployment with
+ * another transaction. A custom r or a constructed s alone is not enough, as r = (kG).x for a chosen k
+ * yields the deployer key whatever s is. Each provided expectation adds a check of the bytecode or its hash,
+ * the deployer, the contract address or the gas parameters.
+ *
+ * A transaction that cannot be decoded yields a report with a single failed `decode` check.
+ *
+ * @param {string} rawTransaction - The published raw transaction as a hexadecimal string.
+ * @param {KeylessDeploymentExpectations} [expectations] - The values the deployment claims to have.
+ * @returns {VerificationReport} The outcome of each check, and the recovered transaction.
+ *
+ * @throws {NickMethodError} If an expectation is malformed (`INVALID_HEX`, `NON_CHECKSUM_ADDRESS`,
+ * `INVALID_QUANTITY`).
+ */
+export function verifyKeylessDeployment(
+    rawTransaction: string,
+    expectations: KeylessDeploymentExpectations = {},
+): VerificationReport {
+    validateExpectations(expectations);
+
+    const recovered = safeRecoverRawTransaction(rawTransaction);
+    if (!recovered.success) {
+        return {
+            ok: false,
+            checks: [check('decode', false, recovered.error.message)],
+            transaction: undefined,
+        };
+    }
+
+    const tx = recovered.data;
+    const checks = structuralChecks(tx);
+    const { bytecode, bytecodeHash, deployerAddress, contractAddress, gasPrice, gasLimit } =
+        expectations;
+
+    if (bytecode !== undefined) {
+        checks.push(compare('bytecode', 'creation data', bytecode, tx.data));
+    }
+    if (bytecodeHash !== undefined) {
+        const hash = bytesToHex(keccak256(hexToBytes(tx.data)));
+        checks.push(compare('bytecode-hash', 'creation data hash', bytecodeHash, hash));
+    }
+    if (deployerAddress !== undefined) {
+        checks.push(compare('deployer', 'deployer', deployerAddress, tx.senderAddress));
+    }
+    if (contractAddress !== undefined) {
+        checks.push(
+            compare('contract-address', 'contract address', contractAddress, tx.contractAddress),
+        );
+    }
+    if (gasPrice !== undefined) {
+        const actual = 'gasPrice' in tx ? tx.gasPrice.toString() : undefined;
+        checks.push(compare('gas-price', 'gas price', parseQuantity(gasPrice).toString(), actual));
+    }
+    if (gasLimit !== undefined) {
+        checks.push(
+            compare(
+                'gas-limit',
+                'gas limit',
+                parseQuantity(gasLimit).toString(),
+                tx.gasLimit.toString(),
+            ),
+        );
+    }
+
+    return { ok: checks.every(({ passed }) => passed), checks, transaction: tx };
+}
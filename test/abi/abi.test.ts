@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import {
+    encodeAbiParameters,
+    encodeDeployData,
+    encodeFunctionData,
+    getFunctionSelector,
+} from '../../src/abi/abi';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import { preflight } from '../../src/preflight/preflight';
+import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
+import { Abi } from '../../src/types/abiConfig';
+
+const words = (...hex: string[]) => hex.map((word) => word.padStart(64, '0')).join('');
+
+describe('abi', () => {
+    const abi: Abi = [
+        {
+            type: 'constructor',
+            inputs: [
+                { name: 'owner', type: 'address' },
+                { name: 'name', type: 'string' },
+            ],
+        },
+        {
+            type: 'function',
+            name: 'transfer',
+            inputs: [
+                { name: 'to', type: 'address' },
+                { name: 'amount', type: 'uint256' },
+            ],
+        },
+        {
+            type: 'function',
+            name: 'f',
+            inputs: [
+                { name: '', type: 'uint' },
+                { name: '', type: 'uint32[]' },
+                { name: '', type: 'bytes10' },
+                { name: '', type: 'bytes' },
+            ],
+        },
+        {
+            type: 'function',
+            name: 'g',
+            inputs: [
+                { name: '', type: 'uint256[][]' },
+                { name: '', type: 'string[]' },
+            ],
+        },
+        { type: 'function', name: 'set', inputs: [{ name: 'value', type: 'int8' }] },
+        {
+            type: 'function',
+            name: 'set',
+            inputs: [
+                {
+                    name: 'order',
+                    type: 'tuple',
+                    components: [
+                        { name: 'id', type: 'uint64' },
+                        { name: 'memo', type: 'string' },
+                        { name: 'flags', type: 'bool[2]' },
+                    ],
+                },
+            ],
+        },
+    ];
+    const owner = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+    it('should compute function selectors', () => {
+        expect(getFunctionSelector('transfer(address,uint256)')).toBe('0xa9059cbb');
+        expect(getFunctionSelector(abi[2])).toBe('0x8be65246');
+    });
+
+    it('should encode static and dynamic types', () => {
+        // Examples of the Solidity ABI specification
+        expect(
+            encodeFunctionData({
+                abi,
+                functionName: 'f',
+                args: [
+                    0x123,
+                    [0x456, 0x789],
+                    '0x31323334353637383930',
+                    '0x48656c6c6f2c20776f726c6421',
+                ],
+            }),
+        ).toBe(
+            '0x8be65246' +
+                words(
+                    '123',
+                    '80',
+                    '31323334353637383930'.padEnd(64, '0'),
+                    'e0',
+                    '2',
+                    '456',
+                    '789',
+                    'd',
+                ) +
+                '48656c6c6f2c20776f726c6421'.padEnd(64, '0'),
+        );
+        expect(
+            encodeFunctionData({
+                abi,
+                functionName: 'g',
+                args: [
+                    [[1, 2], [3]],
+                    ['one', 'two', 'three'],
+                ],
+            }),
+        ).toBe(
+            '0x2289b18c' +
+                words('40', '140', '2', '40', 'a0', '2', '1', '2', '1', '3') +
+                words('3', '60', 'a0', 'e0', '3') +
+                '6f6e65'.padEnd(64, '0') +
+                words('3') +
+                '74776f'.padEnd(64, '0') +
+                words('5') +
+                '7468726565'.padEnd(64, '0'),
+        );
+    });
+
+    it('should encode tuples, negative integers and overloads', () => {
+        expect(encodeFunctionData({ abi, functionName: 'set(int8)', args: [-1] })).toBe(
+            `${getFunctionSelector('set(int8)')}${'f'.repeat(64)}`,
+        );
+
+        const order = { id: 7n, memo: 'hi', flags: [true, false] };
+        const encoded = encodeFunctionData({
+            abi,
+            functionName: 'set((uint64,string,bool[2]))',
+            args: [order],
+        });
+        expect(encoded).toBe(
+            getFunctionSelector('set((uint64,string,bool[2]))') +
+                words('20', '7', '80', '1', '0', '2') +
+                '6869'.padEnd(64, '0'),
+        );
+        expect(
+            encodeFunctionData({
+                abi,
+                functionName: 'set((uint64,string,bool[2]))',
+                args: [[7, 'hi', [true, false]]],
+            }),
+        ).toBe(encoded);
+    });
+
+    it('should append constructor arguments to the bytecode', () => {
+        const bytecode = '0x60006000f3';
+        const data = encodeDeployData({ abi, bytecode, args: [owner, 'Nick'] });
+        expect(data).toBe(bytecode + encodeAbiParameters(abi[0].inputs!, [owner, 'Nick']).slice(2));
+
+        const config = { gasLimit: 200000, gasPrice: '100 gwei', value: 0, bytecode };
+        const deployment = genRawDeployment({ ...config, abi, args: [owner, 'Nick'] });
+        expect(deployment).toEqual(genRawDeployment({ ...config, bytecode: data }));
+    });
+
+    it('should encode the calldata of a transaction', () => {
+        const config = { gasLimit: 100000, gasPrice: '100 gwei', value: 0, to: owner };
+        const result = genRawTransaction({
+            ...config,
+            abi,
+            functionName: 'transfer',
+            args: [owner, '1000'],
+        });
+        expect(recoverRawTransaction(result.rawTx).data).toBe(
+            `0xa9059cbb${words(owner.slice(2).toLowerCase(), '3e8')}`,
+        );
+
+        expect(() =>
+            genRawTransaction({ ...config, data: '0x', abi, functionName: 'transfer', args: [] }),
+        ).toThrow('Provide either data, or abi and functionName, but not both');
+        expect(() => genRawTransaction({ ...config, functionName: 'transfer' })).toThrow(
+            'abi is missing',
+        );
+    });
+
+    it('should validate arguments against the ABI', () => {
+        const config = { gasLimit: 100000, gasPrice: '100 gwei', value: 0, to: owner, abi };
+        const failures: [unknown[], string, string][] = [
+            [[owner], 'INVALID_ARGUMENTS', 'Expected 2 arguments, got 1'],
+            [
+                [owner.toLowerCase().replace('4e', '4E'), 1],
+                'INVALID_ARGUMENTS',
+                'Invalid argument args[0] (address)',
+            ],
+            [
+                [owner, -1],
+                'INVALID_ARGUMENTS',
+                'Invalid argument args[1] (uint256): -1 is out of range',
+            ],
+            [[owner, 1.5], 'INVALID_ARGUMENTS', 'expected an integer, got 1.5'],
+        ];
+
+        for (const [args, code, message] of failures) {
+            try {
+                genRawTransaction({ ...config, functionName: 'transfer', args });
+                expect.unreachable();
+            } catch (error) {
+                expect(isNickMethodError(error, code as 'INVALID_ARGUMENTS')).toBe(true);
+                expect((error as Error).message).toContain(message);
+            }
+        }
+
+        expect(() =>
+            encodeFunctionData({
+                abi,
+                functionName: 'set((uint64,string,bool[2]))',
+                args: [{ id: 1, memo: 'x' }],
+            }),
+        ).toThrow('Invalid argument args[0] ((uint64,string,bool[2])): missing member flags');
+        expect(() => encodeFunctionData({ abi, functionName: 'set', args: [1] })).toThrow(
+            'Function "set" is ambiguous, use one of set(int8), set((uint64,string,bool[2]))',
+        );
+        expect(() => encodeFunctionData({ abi, functionName: 'burn' })).toThrow(
+            'Function "burn" not found in the ABI',
+        );
+        expect(() => encodeAbiParameters([{ type: 'uint7' }], [1])).toThrow(
+            'Invalid ABI type "uint7"',
+        );
+
+        expect(preflight({ ...config, functionName: 'transfer', args: [owner] }).errors).toEqual([
+            { code: 'INVALID_ARGUMENTS', field: 'args', message: 'Expected 2 arguments, got 1' },
+        ]);
+    });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAbiParameters, encodeFunctionData } from '../../src/abi/abi';
+import { decodeAbiParameters, decodeTransactionData } from '../../src/abi/abiDecoder';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
+import { Abi } from '../../src/types/abiConfig';
+
+describe('abiDecoder', () => {
+    const owner = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+    const tokenAbi: Abi = [
+        {
+            type: 'constructor',
+            inputs: [
+                { name: 'owner', type: 'address' },
+                { name: 'supply', type: 'uint256' },
+            ],
+        },
+        {
+            type: 'function',
+            name: 'transfer',
+            inputs: [
+                { name: 'to', type: 'address' },
+                { name: 'amount', type: 'uint256' },
+            ],
+        },
+    ];
+    const registryAbi: Abi = [
+        {
+            type: 'function',
+            name: 'register',
+            inputs: [
+                {
+                    name: 'entry',
+                    type: 'tuple',
+                    components: [
+                        { name: 'name', type: 'string' },
+                        { name: 'tags', type: 'bytes4[]' },
+                        { name: 'delta', type: 'int16' },
+                    ],
+                },
+                { name: 'pairs', type: 'uint8[2][]' },
+                { name: 'active', type: 'bool' },
+                { name: 'payload', type: 'bytes' },
+            ],
+        },
+    ];
+    const config = { gasLimit: 100000, gasPrice: '100 gwei', value: 0 };
+
+    it('should round-trip values through the encoder', () => {
+        const args = [
+            { name: 'nick', tags: ['0x01020304', '0xdeadbeef'], delta: -300n },
+            [
+                [1n, 2n],
+                [3n, 4n],
+            ],
+            true,
+            '0x',
+        ];
+        const decoded = decodeAbiParameters(
+            registryAbi[0].inputs!,
+            encodeAbiParameters(registryAbi[0].inputs!, args),
+        );
+        expect(decoded.map((argument) => argument.value)).toEqual(args);
+        expect(decoded.map((argument) => argument.type)).toEqual([
+            '(string,bytes4[],int16)',
+            'uint8[2][]',
+            'bool',
+            'bytes',
+        ]);
+    });
+
+    it('should decode a recovered function call against a set of ABIs', () => {
+        const { rawTx } = genRawTransaction({
+            ...config,
+            to: owner,
+            abi: tokenAbi,
+            functionName: 'transfer',
+            args: [owner.toLowerCase(), 1000],
+        });
+
+        expect(
+            decodeTransactionData(recoverRawTransaction(rawTx), { abi: [registryAbi, tokenAbi] }),
+        ).toEqual({
+            kind: 'call',
+            selector: '0xa9059cbb',
+            functionName: 'transfer',
+            signature: 'transfer(address,uint256)',
+            args: [
+                { name: 'to', type: 'address', value: owner },
+                { name: 'amount', type: 'uint256', value: 1000n },
+            ],
+        });
+    });
+
+    it('should report unknown selectors and empty calls', () => {
+        const data = encodeFunctionData({
+            abi: tokenAbi,
+            functionName: 'transfer',
+            args: [owner, 1],
+        });
+        expect(decodeTransactionData({ to: owner, data }, { abi: registryAbi })).toEqual({
+            kind: 'unknown-selector',
+            selector: '0xa9059cbb',
+            data,
+        });
+        expect(decodeTransactionData({ to: owner, data })).toMatchObject({
+            kind: 'unknown-selector',
+        });
+        expect(decodeTransactionData({ to: owner, data: '0x' })).toEqual({ kind: 'empty' });
+    });
+
+    it('should split and decode constructor arguments', () => {
+        const bytecode = '0x60006000f3';
+        const deployment = genRawDeployment({
+            ...config,
+            bytecode,
+            abi: tokenAbi,
+            args: [owner, 10n ** 18n],
+        });
+        const tx = recoverRawTransaction(deployment.rawTx);
+        const expected = {
+            kind: 'deployment',
+            bytecode,
+            encodedArgs: `0x${tx.data.slice(bytecode.length)}`,
+            constructorArgs: [
+                { name: 'owner', type: 'address', value: owner },
+                { name: 'supply', type: 'uint256', value: 10n ** 18n },
+            ],
+        };
+
+        // An artifact with abi and bytecode can be passed as is
+        expect(decodeTransactionData(tx, { abi: tokenAbi, bytecode })).toEqual(expected);
+        expect(decodeTransactionData(tx, { abi: tokenAbi, bytecodeLength: 5 })).toEqual(expected);
+
+        expect(() => decodeTransactionData(tx, { abi: tokenAbi })).toThrow(
+            'The bytecode or bytecodeLength is required to decode constructor arguments',
+        );
+        expect(() => decodeTransactionData(tx, { abi: tokenAbi, bytecode: '0x6001' })).toThrow(
+            'the creation data does not start with the bytecode',
+        );
+    });
+
+    it('should reject malformed data', () => {
+        const inputs = tokenAbi[1].inputs!;
+        const data = encodeAbiParameters(inputs, [owner, 1]);
+
+        try {
+            decodeAbiParameters(inputs, data.slice(0, -2));
+            expect.unreachable();
+        } catch (error) {
+            expect(isNickMethodError(error, 'ABI_DECODE_FAILED')).toBe(true);
+            expect((error as Error).message).toBe(
+                'Cannot decode ABI data: unexpected end of data at offset 32',
+            );
+        }
+        expect(() => decodeAbiParameters(inputs, `0x${'ff'.repeat(64)}`)).toThrow(
+            'value at offset 0 is not an address',
+        );
+        expect(() => decodeAbiParameters([{ type: 'string' }], `0x${'ff'.repeat(32)}`)).toThrow(
+            'exceeds the data',
+        );
+        expect(() => decodeAbiParameters([{ type: 'bool' }], `0x${'00'.repeat(31)}02`)).toThrow(
+            'is not a boolean',
+        );
+    });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction, Wallet } from 'ethers';
+import { parseTransaction, serializeTransaction } from 'viem';
+import {
+    fromEthersTransaction,
+    fromViemTransaction,
+    toEthersTransaction,
+    toViemTransaction,
+} from '../../src/adapters/adapters';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
+import { HARDCODED_R } from '../../src/signature/signature';
+import { EthersTransactionLike, ViemLegacyTransaction } from '../../src/types/adapterConfig';
+import { DeploymentConfig } from '../../src/types/deploymentConfig';
+import { TransactionConfig } from '../../src/types/transactionConfig';
+
+describe('ethers and viem adapters', () => {
+    const to = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+    const deployment = genRawDeployment({
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        bytecode: '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe',
+        value: 0,
+    });
+    const transaction = genRawTransaction({
+        gasLimit: 50000,
+        gasPrice: '20 gwei',
+        to,
+        value: '0.01 ether',
+        data: '0x1234',
+        r: '0x2222222222222222222222222222222222222222222222222222222222222222',
+        v: 28,
+    });
+
+    // Serializes the converted transactions with ethers and viem themselves
+    const serializeWithEthers = (tx: EthersTransactionLike) => Transaction.from(tx).serialized;
+    const serializeWithViem = ({ r, s, v, ...tx }: ViemLegacyTransaction) =>
+        serializeTransaction(tx, r !== undefined && s !== undefined ? { r, s, v } : undefined);
+
+    it('should convert deployments to ethers transactions', () => {
+        const tx = toEthersTransaction(deployment);
+        expect(tx).toEqual({
+            type: 0,
+            to: null,
+            from: deployment.deployerAddress,
+            nonce: 0,
+            gasLimit: 100000n,
+            gasPrice: 100000000000n,
+            data: '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe',
+            value: 0n,
+            chainId: 0n,
+            hash: recoverRawTransaction(deployment.rawTx).hash,
+            signature: { r: deployment.r, s: deployment.s, v: 27 },
+        });
+        // ethers also checks the sender and hash against the signature
+        expect(serializeWithEthers(tx)).toBe(deployment.rawTx);
+        expect(serializeWithViem(toViemTransaction(deployment))).toBe(deployment.rawTx);
+    });
+
+    it('should convert transactions to viem transactions', () => {
+        const tx = toViemTransaction(transaction);
+        expect(tx).toMatchObject({
+            type: 'legacy',
+            to,
+            nonce: 0,
+            gas: 50000n,
+            gasPrice: 20000000000n,
+            value: 10000000000000000n,
+            data: '0x1234',
+            chainId: undefined,
+            r: transaction.r,
+            v: 28n,
+        });
+        expect(serializeWithViem(tx)).toBe(transaction.rawTx);
+        expect(serializeWithEthers(toEthersTransaction(transaction))).toBe(transaction.rawTx);
+    });
+
+    it.each([
+        ['deployment', deployment],
+        ['transaction', transaction],
+    ])('should round-trip a %s through ethers and viem to identical bytes', (_, result) => {
+        const generate = (config: DeploymentConfig | TransactionConfig) =>
+            'bytecode' in config ? genRawDeployment(config) : genRawTransaction(config);
+
+        expect(generate(fromEthersTransaction(toEthersTransaction(result)))).toEqual(result);
+        expect(generate(fromViemTransaction(toViemTransaction(result)))).toEqual(result);
+
+        const recovered = recoverRawTransaction(result.rawTx);
+        expect(generate(fromEthersTransaction(toEthersTransaction(recovered))).rawTx).toBe(
+            result.rawTx,
+        );
+
+        // Transactions parsed by ethers (chain id 0n) and viem (chain id undefined)
+        const parsed = Transaction.from(result.rawTx);
+        expect(parsed.chainId).toBe(0n);
+        expect(generate(fromEthersTransaction(parsed))).toEqual(result);
+        const viemParsed = parseTransaction(result.rawTx as `0x${string}`);
+        expect(viemParsed.chainId).toBeUndefined();
+        expect(generate(fromViemTransaction(viemParsed as ViemLegacyTransaction))).toEqual(result);
+    });
+
+    it('should parse transactions without a signature with the default one', () => {
+        const config = fromViemTransaction({ gas: 100000n, gasPrice: 100000000000n, data: '0x00' });
+        expect(config).toEqual({
+            value: 0n,
+            gasLimit: 100000n,
+            gasPrice: 100000000000n,
+            bytecode: '0x00',
+        });
+        expect(genRawDeployment(config as DeploymentConfig).r).toBe(HARDCODED_R);
+
+        const unsigned = recoverRawTransaction(
+            serializeTransaction({ type: 'legacy', gas: 21000n, to }),
+        );
+        expect(toEthersTransaction(unsigned)).toMatchObject({
+            signature: null,
+            from: null,
+            hash: null,
+        });
+        expect(toViemTransaction(unsigned)).toMatchObject({
+            r: undefined,
+            s: undefined,
+            v: undefined,
+        });
+    });
+
+    it('should keep the chain id of replay-protected legacy transactions', async () => {
+        const signed = await new Wallet(`0x${'01'.repeat(32)}`).signTransaction({
+            type: 0,
+            nonce: 0,
+            gasLimit: 21000n,
+            gasPrice: 1n,
+            to,
+            chainId: 137n,
+        });
+        const recovered = recoverRawTransaction(signed);
+
+        // EIP-155 v values are 2 * chainId + 35 or 36
+        const v = BigInt(recovered.v as string);
+        expect(v === 309n || v === 310n).toBe(true);
+        expect(toEthersTransaction(recovered)).toMatchObject({
+            chainId: 137n,
+            signature: { v: Number(v) },
+        });
+        expect(toViemTransaction(recovered)).toMatchObject({ chainId: 137, v });
+        expect(serializeWithEthers(toEthersTransaction(recovered))).toBe(signed);
+        expect(serializeWithViem(toViemTransaction(recovered))).toBe(signed);
+        expect(() => fromEthersTransaction(toEthersTransaction(recovered))).toThrow(
+            'Invalid chainId',
+        );
+    });
+
+    it('should reject transactions that are not keyless legacy ones', () => {
+        const typed = recoverRawTransaction(
+            serializeTransaction({ type: 'eip1559', chainId: 10, gas: 21000n, to }),
+        );
+        const failure = (convert: () => unknown) => {
+            try {
+                convert();
+            } catch (error) {
+                return isNickMethodError(error) ? [error.code, error.field] : error;
+            }
+        };
+
+        expect(failure(() => toEthersTransaction(typed))).toEqual([
+            'UNSUPPORTED_TRANSACTION_TYPE',
+            'type',
+        ]);
+        expect(
+            failure(() => fromEthersTransaction({ type: 2, gasLimit: 1n, gasPrice: 1n })),
+        ).toEqual(['UNSUPPORTED_TRANSACTION_TYPE', 'type']);
+        expect(failure(() => fromViemTransaction({ gasPrice: 1n }))).toEqual([
+            'MISSING_FIELD',
+            'gasLimit',
+        ]);
+        expect(failure(() => fromViemTransaction({ gas: 1n, gasPrice: 1n, nonce: 1 }))).toEqual([
+            'INVALID_OPTION',
+            'nonce',
+        ]);
+        expect(failure(() => fromViemTransaction({ gas: 1n, gasPrice: 1n, v: 37n }))).toEqual([
+            'INVALID_SIGNATURE',
+            'v',
+        ]);
+        expect(
+            failure(() => fromEthersTransaction({ to: '0x1234', gasLimit: 1n, gasPrice: 1n })),
+        ).toEqual(['NON_CHECKSUM_ADDRESS', 'to']);
+    });
+});
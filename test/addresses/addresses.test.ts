@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+    bigIntToUnpaddedBuffer,
+    bufferToHex,
+    generateAddress,
+    toBuffer,
+    toChecksumAddress,
+} from '@ethereumjs/util';
+import { keccak256 } from 'ethereum-cryptography/keccak';
+import {
+    computeCreate3Address,
+    computeCreateAddress,
+    CREATE3_PROXY_INITCODE,
+    predictAddresses,
+} from '../../src/addresses/addresses';
+import { CANONICAL_CREATE2_FACTORY, computeCreate2Address } from '../../src/create2/create2';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+
+describe('addresses', () => {
+    const deployer = '0x6ac7ea33f8831ea9dcc53393aaa88b25a785dbf0';
+
+    it('should compute CREATE addresses', () => {
+        expect(computeCreateAddress(deployer, 0)).toBe(
+            '0xcd234A471b72ba2F1Ccf0A70FCABA648a5eeCD8d',
+        );
+        expect(computeCreateAddress(deployer, 1)).toBe(
+            '0x343c43A37D37dfF08AE8C4A11544c718AbB4fCF8',
+        );
+        expect(computeCreateAddress(deployer, 2)).toBe(
+            '0xf778B86FA74E846c4f0a1fBd1335FE81c00a0C91',
+        );
+    });
+
+    it('should encode nonces above 0x7f', () => {
+        for (const nonce of [0x7f, 0x80, 0xff, 0x100, 0xffffffff, BigInt(2) ** BigInt(40)]) {
+            const expected = generateAddress(
+                toBuffer(deployer),
+                bigIntToUnpaddedBuffer(BigInt(nonce)),
+            );
+            expect(computeCreateAddress(deployer, nonce).toLowerCase()).toBe(
+                `0x${expected.toString('hex')}`,
+            );
+        }
+        expect(computeCreateAddress(deployer, 0x7f)).not.toBe(computeCreateAddress(deployer, 0x80));
+
+        for (const nonce of [-1, 1.5, BigInt(2) ** BigInt(64) - BigInt(1)]) {
+            expect(() => computeCreateAddress(deployer, nonce)).toThrow('Invalid nonce');
+        }
+    });
+
+    it('should compute CREATE3 addresses', () => {
+        const salt = '0x01';
+        const { address, proxyAddress } = computeCreate3Address(deployer, salt);
+        expect(proxyAddress).toBe(
+            computeCreate2Address({
+                factory: toChecksumAddress(deployer),
+                salt,
+                initcode: CREATE3_PROXY_INITCODE,
+            }),
+        );
+        expect(address).toBe(computeCreateAddress(proxyAddress, 1));
+    });
+
+    it('should predict an address tree', () => {
+        const deployment = genRawDeployment(CANONICAL_CREATE2_FACTORY.deployment);
+        const initcode = '0x60006000f3';
+        const tree = predictAddresses(deployment, [
+            { kind: 'create', nonce: 1, label: 'first' },
+            {
+                kind: 'create2',
+                salt: '0x01',
+                initcode,
+                label: 'factory',
+                children: [{ kind: 'create3', salt: '0x02', label: 'child' }],
+            },
+        ]);
+
+        expect(tree.deployerAddress).toBe(CANONICAL_CREATE2_FACTORY.deployerAddress);
+        expect(tree.contractAddress).toBe(CANONICAL_CREATE2_FACTORY.address);
+
+        const [first, factory] = tree.children;
+        expect(first).toEqual({
+            kind: 'create',
+            label: 'first',
+            deployer: CANONICAL_CREATE2_FACTORY.address,
+            address: computeCreateAddress(CANONICAL_CREATE2_FACTORY.address, 1),
+            children: [],
+        });
+        expect(factory.address).toBe(computeCreate2Address({ salt: '0x01', initcode }));
+        expect(factory.children[0]).toEqual({
+            kind: 'create3',
+            label: 'child',
+            deployer: factory.address,
+            ...computeCreate3Address(factory.address, '0x02'),
+            children: [],
+        });
+
+        const byHash = predictAddresses(deployment, [
+            {
+                kind: 'create2',
+                salt: '0x01',
+                initcodeHash: bufferToHex(Buffer.from(keccak256(toBuffer(initcode)))),
+            },
+        ]);
+        expect(byHash.children[0].address).toBe(factory.address);
+    });
+
+    it('should reject invalid predictions', () => {
+        const deployment = genRawDeployment(CANONICAL_CREATE2_FACTORY.deployment);
+        try {
+            predictAddresses(deployment, [
+                { kind: 'create2', salt: '0x01', initcodeHash: '0x1234' },
+            ]);
+            expect.unreachable();
+        } catch (error) {
+            expect(isNickMethodError(error, 'INVALID_HEX')).toBe(true);
+            expect((error as Error).message).toBe('Invalid initcodeHash: must be 32 bytes');
+        }
+        expect(() => predictAddresses(deployment, [{ kind: 'create3', salt: 'salt' }])).toThrow(
+            'Invalid salt: must be a hex string of up to 32 bytes',
+        );
+    });
+});
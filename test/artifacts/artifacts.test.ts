@@ -0,0 +1,220 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { genArtifactDeployment, parseArtifact, readArtifact } from '../../src/artifacts/artifacts';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { Abi } from '../../src/types/abiConfig';
+
+describe('artifacts', () => {
+    const abi: Abi = [
+        { type: 'constructor', inputs: [{ name: 'owner', type: 'address' }] },
+        { type: 'function', name: 'owner', inputs: [], outputs: [{ name: '', type: 'address' }] },
+    ];
+    const bytecode = '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe';
+    const version = '0.8.24+commit.e11b9ed9';
+    const metadata = JSON.stringify({
+        compiler: { version },
+        settings: { compilationTarget: { 'src/Counter.sol': 'Counter' } },
+    });
+
+    // Bytecode calling `Math` through a placeholder at byte 3, as solc leaves it when not linking
+    const placeholder = '__$a8e2a1f8e8cd1c6b6a2a07d1f5bba1c2d8$__';
+    const linkedBytecode = `0x730000${placeholder}6000`;
+    const linkReferences = { 'src/Math.sol': { Math: [{ start: 3, length: 20 }] } };
+
+    const hardhat = {
+        _format: 'hh-sol-artifact-1',
+        contractName: 'Counter',
+        sourceName: 'src/Counter.sol',
+        abi,
+        bytecode,
+        deployedBytecode: '0x6080',
+        linkReferences: {},
+        deployedLinkReferences: {},
+    };
+    const foundry = {
+        abi,
+        bytecode: { object: bytecode, linkReferences: {} },
+        deployedBytecode: { object: '0x6080', linkReferences: {} },
+        rawMetadata: metadata,
+        metadata: JSON.parse(metadata),
+    };
+    const solc = {
+        contracts: {
+            'src/Counter.sol': {
+                Counter: { abi, metadata, evm: { bytecode: { object: bytecode.slice(2) } } },
+            },
+            'src/Math.sol': {
+                Math: { abi: [], metadata, evm: { bytecode: { object: '6080' } } },
+            },
+        },
+    };
+    const config = {
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        value: 0,
+        args: ['0x742d35Cc6634C0532925a3b844Bc454e4438f44e'],
+    };
+
+    const failure = (parse: () => unknown) => {
+        try {
+            parse();
+        } catch (error) {
+            return isNickMethodError(error) ? [error.code, error.field] : error;
+        }
+    };
+
+    it.each([
+        ['hardhat', hardhat, {}],
+        ['foundry', foundry, {}],
+        ['solc', solc, { contractName: 'Counter' }],
+    ] as const)(
+        'should read the creation bytecode of a %s artifact',
+        (format, artifact, options) => {
+            expect(parseArtifact(JSON.stringify(artifact), options)).toEqual({
+                format,
+                path: undefined,
+                contractName: 'Counter',
+                sourceName: 'src/Counter.sol',
+                compilerVersion: format === 'hardhat' ? undefined : version,
+                abi,
+                bytecode,
+                placeholders: [],
+            });
+        },
+    );
+
+    it('should pick solc contracts by qualified name', () => {
+        const json = JSON.stringify(solc);
+        expect(parseArtifact(json, { contractName: 'src/Math.sol:Math' }).bytecode).toBe('0x6080');
+        expect(failure(() => parseArtifact(json))).toEqual(['INVALID_OPTION', 'contractName']);
+        expect(failure(() => parseArtifact(json, { contractName: 'Token' }))).toEqual([
+            'INVALID_OPTION',
+            'contractName',
+        ]);
+        expect(
+            parseArtifact(
+                JSON.stringify({ contracts: { 'src/Math.sol': solc.contracts['src/Math.sol'] } }),
+            ).contractName,
+        ).toBe('Math');
+    });
+
+    it('should check the contract name of single-contract artifacts', () => {
+        expect(
+            parseArtifact(JSON.stringify(hardhat), { contractName: 'src/Counter.sol:Counter' })
+                .contractName,
+        ).toBe('Counter');
+        expect(
+            failure(() => parseArtifact(JSON.stringify(foundry), { contractName: 'Token' })),
+        ).toEqual(['INVALID_OPTION', 'contractName']);
+        // Fields of the wrong type are ignored rather than trusted
+        expect(
+            failure(() => parseArtifact(JSON.stringify({ ...hardhat, contractName: 42 }))),
+        ).toEqual(['INVALID_OPTION', 'contractName']);
+        expect(
+            parseArtifact(JSON.stringify({ ...hardhat, sourceName: ['Counter.sol'] })).sourceName,
+        ).toBeUndefined();
+    });
+
+    it('should report unlinked libraries', () => {
+        const artifact = parseArtifact(
+            JSON.stringify({ ...hardhat, bytecode: linkedBytecode, linkReferences }),
+        );
+        expect(artifact.placeholders).toEqual([
+            { placeholder, library: 'src/Math.sol:Math', offsets: [3] },
+        ]);
+
+        const unnamed = parseArtifact(
+            JSON.stringify({ ...foundry, bytecode: { object: linkedBytecode } }),
+        );
+        expect(unnamed.placeholders).toEqual([{ placeholder, library: undefined, offsets: [3] }]);
+
+        expect(failure(() => genArtifactDeployment(artifact, config))).toEqual([
+            'UNLINKED_LIBRARIES',
+            'bytecode',
+        ]);
+        expect(() => genArtifactDeployment(artifact, config)).toThrow('src/Math.sol:Math');
+    });
+
+    it('should reject malformed artifacts', () => {
+        expect(failure(() => parseArtifact('{'))).toEqual(['INVALID_ARTIFACT', undefined]);
+        expect(failure(() => parseArtifact('[]'))).toEqual(['INVALID_ARTIFACT', undefined]);
+        expect(failure(() => parseArtifact(JSON.stringify({ abi })))).toEqual([
+            'INVALID_ARTIFACT',
+            undefined,
+        ]);
+        expect(
+            failure(() => parseArtifact(JSON.stringify({ ...hardhat, bytecode: '0x' }))),
+        ).toEqual(['INVALID_ARTIFACT', 'bytecode']);
+        expect(
+            failure(() => parseArtifact(JSON.stringify({ ...hardhat, bytecode: '0x60zz' }))),
+        ).toEqual(['INVALID_ARTIFACT', 'bytecode']);
+        expect(
+            failure(() => parseArtifact(JSON.stringify({ ...hardhat, abi: undefined }))),
+        ).toEqual(['INVALID_ARTIFACT', 'abi']);
+        expect(
+            failure(() =>
+                parseArtifact(
+                    JSON.stringify({ ...foundry, metadata: undefined, rawMetadata: undefined }),
+                ),
+            ),
+        ).toEqual(['INVALID_OPTION', 'contractName']);
+    });
+
+    it('should read artifacts from files, with the Hardhat compiler version', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'nick-method-'));
+        mkdirSync(join(dir, 'artifacts/src/Counter.sol'), { recursive: true });
+        mkdirSync(join(dir, 'artifacts/build-info'));
+        mkdirSync(join(dir, 'out/Counter.sol'), { recursive: true });
+
+        const hardhatPath = join(dir, 'artifacts/src/Counter.sol/Counter.json');
+        writeFileSync(hardhatPath, JSON.stringify(hardhat));
+        writeFileSync(
+            join(dir, 'artifacts/src/Counter.sol/Counter.dbg.json'),
+            JSON.stringify({ _format: 'hh-sol-dbg-1', buildInfo: '../../build-info/abc.json' }),
+        );
+        writeFileSync(
+            join(dir, 'artifacts/build-info/abc.json'),
+            JSON.stringify({ solcVersion: '0.8.24', solcLongVersion: '0.8.24+commit.e11b9ed9' }),
+        );
+        expect(readArtifact(hardhatPath)).toMatchObject({
+            format: 'hardhat',
+            path: hardhatPath,
+            compilerVersion: version,
+        });
+
+        // Without metadata, Foundry artifacts are named after their file
+        const foundryPath = join(dir, 'out/Counter.sol/Counter.json');
+        writeFileSync(foundryPath, JSON.stringify({ abi, bytecode: { object: bytecode } }));
+        expect(readArtifact(foundryPath)).toMatchObject({
+            format: 'foundry',
+            path: foundryPath,
+            contractName: 'Counter',
+            sourceName: undefined,
+            compilerVersion: undefined,
+        });
+    });
+
+    it('should generate deployments with the provenance of their bytecode', () => {
+        const artifact = parseArtifact(JSON.stringify(foundry), {
+            path: 'out/Counter.sol/Counter.json',
+        });
+        const result = genArtifactDeployment(artifact, config);
+
+        expect(result).toEqual({
+            ...genRawDeployment({ ...config, bytecode, abi }),
+            provenance: {
+                format: 'foundry',
+                path: 'out/Counter.sol/Counter.json',
+                contractName: 'Counter',
+                sourceName: 'src/Counter.sol',
+                compilerVersion: version,
+            },
+        });
+        expect(genArtifactDeployment(artifact, { ...config, args: undefined }).rawTx).toBe(
+            genRawDeployment({ ...config, args: undefined, bytecode }).rawTx,
+        );
+    });
+});
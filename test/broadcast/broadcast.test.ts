@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { broadcastDeployment } from '../../src/broadcast/broadcast';
+import { createJsonRpcProvider, JsonRpcError } from '../../src/broadcast/jsonRpcProvider';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { BroadcastEvent, BroadcastOptions, BroadcastTarget } from '../../src/types/broadcastConfig';
+import { MockRpcServer } from './mockRpcServer';
+
+describe('broadcastDeployment', () => {
+    const deployment = genRawDeployment({
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        bytecode: '0x60006000f3',
+        value: 0,
+    });
+    const deployer = deployment.deployerAddress.toLowerCase();
+    const contract = deployment.contractAddress.toLowerCase();
+    const fast: BroadcastOptions = { pollInterval: 5, rpc: { retries: 1, retryDelay: 5 } };
+
+    let servers: MockRpcServer[];
+    beforeEach(async () => {
+        servers = await Promise.all([new MockRpcServer().start(), new MockRpcServer().start()]);
+    });
+    afterEach(async () => {
+        await Promise.all(servers.map((server) => server.stop()));
+    });
+
+    async function collect(targets: BroadcastTarget[], options: BroadcastOptions = fast) {
+        const events: BroadcastEvent[] = [];
+        for await (const event of broadcastDeployment(deployment, targets, options)) {
+            events.push(event);
+        }
+        return events;
+    }
+
+    it('should deploy on a funded chain and wait for confirmations', async () => {
+        const [server] = servers;
+        server.balances.set(deployer, deployment.upfrontCost);
+
+        const events = await collect([{ chainId: 1, provider: [server.url] }], {
+            ...fast,
+            confirmations: 3,
+        });
+        expect(events.map((event) => event.status)).toEqual([
+            'checking',
+            'funded',
+            'sent',
+            'mined',
+            'confirming',
+            'confirming',
+            'confirming',
+            'deployed',
+        ]);
+        expect(events.at(-1)).toMatchObject({
+            chainId: 1,
+            status: 'deployed',
+            contractAddress: deployment.contractAddress,
+        });
+        expect(server.codes.get(contract)).toBe('0x6080');
+        expect(server.balances.get(deployer)).toBe(0n);
+    });
+
+    it('should run every chain independently', async () => {
+        const [funded, empty] = servers;
+        funded.balances.set(deployer, deployment.upfrontCost);
+        empty.codes.set(contract, '0x6080');
+
+        const events = await collect([
+            { chainId: 1, provider: [funded.url] },
+            { chainId: 10, provider: [empty.url] },
+        ]);
+        expect(events.filter((event) => event.chainId === 10)).toEqual([
+            { chainId: 10, status: 'checking' },
+            {
+                chainId: 10,
+                status: 'already-deployed',
+                contractAddress: deployment.contractAddress,
+            },
+        ]);
+        expect(events.filter((event) => event.chainId === 1).at(-1)?.status).toBe('deployed');
+        expect(empty.calls).not.toContain('eth_sendRawTransaction');
+    });
+
+    it('should wait for the deployer to be funded', async () => {
+        const [server] = servers;
+        const events = await collect([{ chainId: 1, provider: [server.url] }], {
+            ...fast,
+            fundingTimeout: 1000,
+            fund: async (chainId, address, amount) => {
+                expect(chainId).toBe(1);
+                expect(address).toBe(deployment.deployerAddress);
+                setTimeout(() => server.balances.set(address.toLowerCase(), amount), 20);
+            },
+        });
+        expect(events[1]).toEqual({
+            chainId: 1,
+            status: 'awaiting-funds',
+            balance: 0n,
+            required: deployment.upfrontCost,
+        });
+        expect(events.at(-1)?.status).toBe('deployed');
+    });
+
+    it('should fail when the deployer is not funded in time', async () => {
+        const [server] = servers;
+        server.balances.set(deployer, 1n);
+        const events = await collect([{ chainId: 1, provider: [server.url] }]);
+        const failure = events.at(-1);
+        expect(failure?.status).toBe('failed');
+        expect(failure?.status === 'failed' && failure.error.message).toContain(
+            'Insufficient funds',
+        );
+    });
+
+    it('should fail when the deployer nonce was used without deploying', async () => {
+        const [server] = servers;
+        server.nonces.set(deployer, 1n);
+        const events = await collect([{ chainId: 1, provider: [server.url] }]);
+        const failure = events.at(-1);
+        expect(failure?.status === 'failed' && failure.error.message).toContain(
+            'can no longer happen on this chain',
+        );
+        expect(server.calls).not.toContain('eth_sendRawTransaction');
+    });
+
+    it('should report reverted deployments', async () => {
+        const [server] = servers;
+        server.balances.set(deployer, deployment.upfrontCost);
+        server.revert = true;
+        const events = await collect([{ chainId: 1, provider: [server.url] }]);
+        const failure = events.at(-1);
+        expect(failure?.status === 'failed' && failure.error.message).toMatch(/reverted$/);
+    });
+
+    it('should check the code of deployments whose receipt has no status', async () => {
+        const [server, reverting] = servers;
+        for (const node of servers) {
+            node.balances.set(deployer, deployment.upfrontCost);
+            node.omitStatus = true;
+        }
+        reverting.revert = true;
+
+        const events = await collect([
+            { chainId: 1, provider: [server.url] },
+            { chainId: 2, provider: [reverting.url] },
+        ]);
+        expect(events.filter(({ chainId }) => chainId === 1).at(-1)?.status).toBe('deployed');
+        const failure = events.filter(({ chainId }) => chainId === 2).at(-1);
+        expect(failure?.status === 'failed' && failure.error.message).toBe(
+            `There is no code at ${deployment.contractAddress} after the deployment transaction`,
+        );
+    });
+
+    it('should fail over to the next RPC URL', async () => {
+        const [unhealthy, healthy] = servers;
+        unhealthy.failWith = 503;
+        healthy.balances.set(deployer, deployment.upfrontCost);
+
+        const events = await collect([{ chainId: 1, provider: [unhealthy.url, healthy.url] }]);
+        expect(events.at(-1)?.status).toBe('deployed');
+        expect(unhealthy.calls.length).toBeGreaterThan(0);
+        expect(healthy.codes.get(contract)).toBe('0x6080');
+    });
+
+    it('should stop when the iteration is interrupted', async () => {
+        const [server] = servers;
+        const events: BroadcastEvent[] = [];
+        for await (const event of broadcastDeployment(
+            deployment,
+            [{ chainId: 1, provider: [server.url] }],
+            { ...fast, fundingTimeout: 60000 },
+        )) {
+            events.push(event);
+            if (event.status === 'awaiting-funds') {
+                break;
+            }
+        }
+        expect(events.map((event) => event.status)).toEqual(['checking', 'awaiting-funds']);
+    });
+
+    it('should not send any request when the signal is already aborted', async () => {
+        const [server] = servers;
+        server.balances.set(deployer, deployment.upfrontCost);
+        const controller = new AbortController();
+        controller.abort();
+
+        const events = await collect([{ chainId: 1, provider: [server.url] }], {
+            ...fast,
+            signal: controller.signal,
+        });
+        expect(events).toHaveLength(1);
+        expect(events[0].status === 'failed' && events[0].error.message).toBe('Broadcast aborted');
+        expect(server.calls).toEqual([]);
+    });
+
+    it('should reject invalid confirmation counts', async () => {
+        await expect(collect([], { confirmations: 0 })).rejects.toThrow(
+            'Confirmations must be a positive integer',
+        );
+    });
+});
+
+describe('createJsonRpcProvider', () => {
+    let server: MockRpcServer;
+    beforeEach(async () => {
+        server = await new MockRpcServer().start();
+    });
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    it('should retry every URL before giving up', async () => {
+        server.failWith = 500;
+        const provider = createJsonRpcProvider([server.url, server.url], {
+            retries: 2,
+            retryDelay: 1,
+        });
+        await expect(provider.getBlockNumber()).rejects.toThrow(
+            'eth_blockNumber failed on every RPC URL',
+        );
+        expect(server.calls).toHaveLength(6);
+    });
+
+    it('should not retry JSON-RPC errors', async () => {
+        const provider = createJsonRpcProvider([server.url, server.url]);
+        await expect(provider.sendRawTransaction('0x1234')).rejects.toThrow(JsonRpcError);
+        expect(server.calls).toHaveLength(1);
+    });
+
+    it('should decode quantities and receipts', async () => {
+        server.balances.set('0x00000000000000000000000000000000000000aa', 10n ** 18n);
+        const provider = createJsonRpcProvider([server.url]);
+        expect(await provider.getBalance('0x00000000000000000000000000000000000000aa')).toBe(
+            10n ** 18n,
+        );
+        expect(
+            await provider.getTransactionCount('0x00000000000000000000000000000000000000aa'),
+        ).toBe(0n);
+        expect(await provider.getCode('0x00000000000000000000000000000000000000aa')).toBe('0x');
+        expect(await provider.getTransactionReceipt(`0x${'00'.repeat(32)}`)).toBeNull();
+    });
+
+    it('should require at least one URL', () => {
+        expect(() => createJsonRpcProvider([])).toThrow('At least one RPC URL is required');
+    });
+});
@@ -0,0 +1,151 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Transaction } from '@ethereumjs/tx';
+import { bufferToHex, generateAddress, toBuffer } from '@ethereumjs/util';
+
+interface Receipt {
+    transactionHash: string;
+    blockNumber: string;
+    status?: string;
+    contractAddress: string | null;
+    gasUsed: string;
+}
+
+/**
+ * In-process JSON-RPC node with just enough state to deploy contracts: balances, nonces, code and
+ * receipts. Every transaction is mined in its own block, when sent or, if held pending, when its receipt is
+ * requested, and each `eth_blockNumber` call advances the chain.
+ */
+export class MockRpcServer {
+    readonly balances = new Map<string, bigint>();
+    readonly nonces = new Map<string, bigint>();
+    readonly codes = new Map<string, string>();
+    readonly receipts = new Map<string, Receipt>();
+    readonly calls: string[] = [];
+    blockNumber = 100n;
+    chainId = 1n;
+    /** Status code returned to every request instead of handling it, to simulate an unhealthy node. */
+    failWith: number | undefined;
+    /** Whether sent transactions revert. */
+    revert = false;
+    /** Whether receipts omit their status, like those of blocks before Byzantium. */
+    omitStatus = false;
+    /** Whether sent transactions stay pending until their receipt is requested. */
+    holdPending = false;
+    /** Whether `pending` transaction counts include pending transactions, which some nodes omit. */
+    countPending = true;
+    private readonly pending = new Map<string, Transaction>();
+
+    private server: Server | undefined;
+
+    get url(): string {
+        return `http://127.0.0.1:${(this.server?.address() as AddressInfo).port}`;
+    }
+
+    async start(): Promise<this> {
+        this.server = createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => (body += chunk));
+            request.on('end', () => {
+                const { id, method, params } = JSON.parse(body);
+                this.calls.push(method);
+                if (this.failWith !== undefined) {
+                    response.writeHead(this.failWith).end();
+                    return;
+                }
+                let reply: object;
+                try {
+                    reply = { result: this.handle(method, params) };
+                } catch (error) {
+                    reply = { error: { code: -32000, message: (error as Error).message } };
+                }
+                response.writeHead(200, { 'content-type': 'application/json' });
+                response.end(JSON.stringify({ jsonrpc: '2.0', id, ...reply }));
+            });
+        });
+        await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+        return this;
+    }
+
+    async stop(): Promise<void> {
+        await new Promise((resolve) => this.server?.close(resolve));
+    }
+
+    private handle(method: string, params: string[]): unknown {
+        const address = params[0]?.toLowerCase();
+        switch (method) {
+            case 'eth_getBalance':
+                return `0x${(this.balances.get(address) ?? 0n).toString(16)}`;
+            case 'eth_getTransactionCount': {
+                let nonce = this.nonces.get(address) ?? 0n;
+                if (params[1] === 'pending' && this.countPending) {
+                    for (const tx of this.pending.values()) {
+                        nonce += tx.getSenderAddress().toString() === address ? 1n : 0n;
+                    }
+                }
+                return `0x${nonce.toString(16)}`;
+            }
+            case 'eth_getCode':
+                return this.codes.get(address) ?? '0x';
+            case 'eth_chainId':
+                return `0x${this.chainId.toString(16)}`;
+            case 'eth_blockNumber':
+                return `0x${(this.blockNumber++).toString(16)}`;
+            case 'eth_getTransactionReceipt': {
+                const pending = this.pending.get(params[0]);
+                if (pending !== undefined) {
+                    this.mine(pending);
+                }
+                return this.receipts.get(params[0]) ?? null;
+            }
+            case 'eth_sendRawTransaction':
+                return this.send(params[0]);
+            default:
+                throw new Error(`Unsupported method ${method}`);
+        }
+    }
+
+    private send(rawTx: string): string {
+        const tx = Transaction.fromSerializedTx(toBuffer(rawTx));
+        const hash = bufferToHex(tx.hash());
+        if (this.receipts.has(hash) || this.pending.has(hash)) {
+            throw new Error('already known');
+        }
+
+        const sender = tx.getSenderAddress().toString();
+        if (tx.nonce !== (this.nonces.get(sender) ?? 0n)) {
+            throw new Error('nonce too low');
+        }
+        if ((this.balances.get(sender) ?? 0n) < tx.getUpfrontCost()) {
+            throw new Error('insufficient funds for gas * price + value');
+        }
+        if (this.holdPending) {
+            this.pending.set(hash, tx);
+        } else {
+            this.mine(tx);
+        }
+        return hash;
+    }
+
+    private mine(tx: Transaction): void {
+        const hash = bufferToHex(tx.hash());
+        this.pending.delete(hash);
+        const sender = tx.getSenderAddress().toString();
+        const nonce = this.nonces.get(sender) ?? 0n;
+        const balance = this.balances.get(sender) ?? 0n;
+        this.nonces.set(sender, nonce + 1n);
+        this.balances.set(sender, balance - tx.getUpfrontCost());
+        const contractAddress = bufferToHex(generateAddress(toBuffer(sender), toBuffer(nonce)));
+        if (!this.revert) {
+            this.codes.set(contractAddress, '0x6080');
+        }
+        this.blockNumber += 1n;
+        this.receipts.set(hash, {
+            transactionHash: hash,
+            blockNumber: `0x${this.blockNumber.toString(16)}`,
+            status: this.omitStatus ? undefined : this.revert ? '0x0' : '0x1',
+            contractAddress,
+            gasUsed: '0x5208',
+        });
+    }
+}
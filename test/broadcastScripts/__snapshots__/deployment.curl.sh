@@ -0,0 +1,161 @@
+#!/bin/sh
+# Keyless deployment of 0x9f0baF031c5c9568a4801C70f29fAA07Cd19d452, generated by @patronumlabs/nick-method.
+#
+# Requires curl, sed and awk. RPC URLs are read from RPC_URL_<chain id>, defaulting to the ones below.
+# Chains already done are skipped, so the script can be run again until all are, e.g. once the
+# sender has been funded.
+#
+# Sender:       0x28101945F2768D8c8Dd6D72a2a34f560706BA855
+# Contract:     0x9f0baF031c5c9568a4801C70f29fAA07Cd19d452
+# Upfront cost: 10000000000000000 wei, on each chain:
+#   - Ethereum (1): 0.01 ETH
+#   - Polygon PoS (137): 0.01 POL
+#   - chain 424242: 10000000000000000 wei
+set -u
+
+RAW_TX='0xf86e8085174876e800830186a080809d6080604052348015600f57600080fd5b50603f80601d6000396000f3fe1ba01212121212121212121212121212121212121212121212121212121212121212a01212121212121212121212121212121212121212121212121212121212121212'
+TX_HASH='0x7b2ccb1df6a6421039bac69086debf0e22e02d140620540012f64d3d1b09d7cd'
+SENDER='0x28101945F2768D8c8Dd6D72a2a34f560706BA855'
+CONTRACT='0x9f0baF031c5c9568a4801C70f29fAA07Cd19d452'
+UPFRONT_COST='10000000000000000'
+
+# Sends a JSON-RPC request and prints the response, failing on errors
+rpc() {
+    response=$(curl -sS --fail --max-time 30 -H 'Content-Type: application/json' \
+        --data "{\"jsonrpc\":\"2.0\",\"id\":1,\"method\":\"$2\",\"params\":[$3]}" "$1") || return 1
+    case $response in
+        *'"error"'*)
+            echo "$2 failed: $response" >&2
+            return 1
+            ;;
+    esac
+    printf '%s\n' "$response"
+}
+
+# Prints the value of a string or null field of a JSON object
+field() {
+    printf '%s\n' "$1" | sed -n "s/.*\"$2\" *: *\"\{0,1\}\([^\",}]*\)\"\{0,1\}.*/\1/p"
+}
+
+# Sends a JSON-RPC request and prints its result
+result() {
+    response=$(rpc "$@") || return 1
+    field "$response" result
+}
+
+# Converts a hex quantity to decimal, digit by digit to avoid overflows
+to_decimal() {
+    awk -v hex="$1" 'BEGIN {
+        hex = tolower(substr(hex, 3))
+        dec = "0"
+        for (i = 1; i <= length(hex); i++) {
+            carry = index("0123456789abcdef", substr(hex, i, 1)) - 1
+            out = ""
+            for (j = length(dec); j > 0; j--) {
+                d = substr(dec, j, 1) * 16 + carry
+                carry = int(d / 10)
+                out = (d % 10) out
+            }
+            for (; carry > 0; carry = int(carry / 10)) out = (carry % 10) out
+            dec = out
+        }
+        sub(/^0+/, "", dec)
+        print (dec == "" ? 0 : dec)
+    }'
+}
+
+# Tells whether the decimal $1 is less than the decimal $2, compared as strings to avoid overflows
+less_than() {
+    awk -v a="$1" -v b="$2" 'BEGIN { exit !(length(a) < length(b) || (length(a) == length(b) && a "" < b "")) }'
+}
+
+# Subtracts the decimal $2 from the greater decimal $1, digit by digit to avoid overflows
+subtract() {
+    awk -v a="$1" -v b="$2" 'BEGIN {
+        while (length(b) < length(a)) b = "0" b
+        for (i = length(a); i > 0; i--) {
+            d = substr(a, i, 1) - substr(b, i, 1) - borrow
+            borrow = d < 0
+            out = (d + 10 * borrow) out
+        }
+        sub(/^0+/, "", out)
+        print (out == "" ? 0 : out)
+    }'
+}
+
+broadcast() {
+    chain_id=$1
+    rpc_url=$2
+    if [ -z "$rpc_url" ]; then
+        echo "[$chain_id] no RPC URL: set RPC_URL_$chain_id" >&2
+        return 1
+    fi
+    actual_chain_id=$(result "$rpc_url" eth_chainId "") || return 1
+    if [ "$(to_decimal "$actual_chain_id")" != "$chain_id" ]; then
+        echo "[$chain_id] the RPC URL serves chain $(to_decimal "$actual_chain_id")" >&2
+        return 1
+    fi
+
+    code=$(result "$rpc_url" eth_getCode "\"$CONTRACT\", \"latest\"") || return 1
+    if [ "$code" != "0x" ]; then
+        echo "[$chain_id] already deployed at $CONTRACT"
+        return 0
+    fi
+    nonce=$(result "$rpc_url" eth_getTransactionCount "\"$SENDER\", \"latest\"") || return 1
+    if [ "$(to_decimal "$nonce")" != "0" ]; then
+        echo "[$chain_id] the deployer already sent $(to_decimal "$nonce") transaction(s) but there is no code" \
+            "at $CONTRACT: the deployment can no longer happen on this chain" >&2
+        return 1
+    fi
+
+    # The sender can only have sent this transaction, so a pending one is left to be mined
+    pending=$(result "$rpc_url" eth_getTransactionCount "\"$SENDER\", \"pending\"") || return 1
+    if [ "$(to_decimal "$pending")" != "0" ]; then
+        echo "[$chain_id] the transaction is pending"
+    else
+        balance=$(result "$rpc_url" eth_getBalance "\"$SENDER\", \"latest\"") || return 1
+        balance=$(to_decimal "$balance")
+        if less_than "$balance" "$UPFRONT_COST"; then
+            echo "[$chain_id] send $(subtract "$UPFRONT_COST" "$balance") wei to $SENDER, then run the script again" >&2
+            return 1
+        fi
+
+        echo "[$chain_id] sending the transaction"
+        # Nodes not counting pending transactions reject a resent one as already known
+        output=$(rpc "$rpc_url" eth_sendRawTransaction "\"$RAW_TX\"" 2>&1) || case $output in
+            *'already known'*) ;;
+            *)
+                echo "$output" >&2
+                return 1
+                ;;
+        esac
+    fi
+    hash=$TX_HASH
+    attempts=0
+    while :; do
+        receipt=$(rpc "$rpc_url" eth_getTransactionReceipt "\"$hash\"") || return 1
+        [ "$(field "$receipt" result)" != "null" ] && break
+        attempts=$((attempts + 1))
+        if [ "$attempts" -ge 60 ]; then
+            echo "[$chain_id] $hash is not mined after 5 minutes, run the script again later" >&2
+            return 1
+        fi
+        sleep 5
+    done
+    if [ "$(field "$receipt" status)" != "0x1" ]; then
+        echo "[$chain_id] $hash reverted" >&2
+        return 1
+    fi
+    code=$(result "$rpc_url" eth_getCode "\"$CONTRACT\", \"latest\"") || return 1
+    if [ "$code" = "0x" ]; then
+        echo "[$chain_id] the transaction was mined but there is no code at $CONTRACT" >&2
+        return 1
+    fi
+    echo "[$chain_id] deployed at $CONTRACT"
+}
+
+status=0
+broadcast 1 "${RPC_URL_1:-https://eth.example.org}" || status=1
+broadcast 137 "${RPC_URL_137:-}" || status=1
+broadcast 424242 "${RPC_URL_424242:-}" || status=1
+exit $status
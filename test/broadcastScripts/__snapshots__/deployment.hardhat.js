@@ -0,0 +1,84 @@
+// Keyless deployment of 0x9f0baF031c5c9568a4801C70f29fAA07Cd19d452, generated by @patronumlabs/nick-method.
+//
+// Require this file from the Hardhat configuration, then run on each network:
+//   npx hardhat deploy-registry --network <name>
+// When the sender cannot pay for the transaction, the missing amount is sent from the first account of
+// the network. Chains already done are skipped.
+//
+// Upfront cost: 10000000000000000 wei, on each chain:
+//   - Ethereum (1): 0.01 ETH
+//   - Polygon PoS (137): 0.01 POL
+//   - chain 424242: 10000000000000000 wei
+const { task } = require('hardhat/config');
+
+const RAW_TX = '0xf86e8085174876e800830186a080809d6080604052348015600f57600080fd5b50603f80601d6000396000f3fe1ba01212121212121212121212121212121212121212121212121212121212121212a01212121212121212121212121212121212121212121212121212121212121212';
+const TX_HASH = '0x7b2ccb1df6a6421039bac69086debf0e22e02d140620540012f64d3d1b09d7cd';
+const SENDER = '0x28101945F2768D8c8Dd6D72a2a34f560706BA855';
+const CONTRACT = '0x9f0baF031c5c9568a4801C70f29fAA07Cd19d452';
+const UPFRONT_COST = BigInt('10000000000000000');
+const CHAIN_IDS = [1, 137, 424242];
+
+async function waitForReceipt(request, hash) {
+    for (let attempt = 0; attempt < 60; attempt++) {
+        const receipt = await request('eth_getTransactionReceipt', [hash]);
+        if (receipt !== null) {
+            if (receipt.status !== '0x1') {
+                throw new Error(`Transaction ${hash} reverted`);
+            }
+            return receipt;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
+    throw new Error(`Transaction ${hash} is not mined after 5 minutes, run the task again later`);
+}
+
+task('deploy-registry', 'Keyless deployment of 0x9f0baF031c5c9568a4801C70f29fAA07Cd19d452').setAction(async (_, hre) => {
+    const request = (method, params = []) => hre.network.provider.request({ method, params });
+    const chainId = Number(await request('eth_chainId'));
+    if (!CHAIN_IDS.includes(chainId)) {
+        throw new Error(`Chain ${chainId} is not a target of this transaction: ${CHAIN_IDS.join(', ')}`);
+    }
+
+    if ((await request('eth_getCode', [CONTRACT, 'latest'])) !== '0x') {
+        console.log(`[${chainId}] already deployed at ${CONTRACT}`);
+        return;
+    }
+    const nonce = BigInt(await request('eth_getTransactionCount', [SENDER, 'latest']));
+    if (nonce > BigInt(0)) {
+        throw new Error(
+            `The deployer ${SENDER} already sent ${nonce} transaction(s) but there is no code at ` +
+                `${CONTRACT}: the deployment can no longer happen on chain ${chainId}`,
+        );
+    }
+
+    // The sender can only have sent this transaction, so a pending one is left to be mined
+    if (BigInt(await request('eth_getTransactionCount', [SENDER, 'pending'])) > BigInt(0)) {
+        console.log(`[${chainId}] the transaction is pending`);
+    } else {
+        const balance = BigInt(await request('eth_getBalance', [SENDER, 'latest']));
+        if (balance < UPFRONT_COST) {
+            const [funder] = await request('eth_accounts');
+            if (funder === undefined) {
+                throw new Error(`Send ${UPFRONT_COST - balance} wei to ${SENDER}, or configure an account`);
+            }
+            console.log(`[${chainId}] funding ${SENDER} with ${UPFRONT_COST - balance} wei from ${funder}`);
+            const value = `0x${(UPFRONT_COST - balance).toString(16)}`;
+            await waitForReceipt(request, await request('eth_sendTransaction', [{ from: funder, to: SENDER, value }]));
+        }
+
+        console.log(`[${chainId}] sending the transaction`);
+        try {
+            await request('eth_sendRawTransaction', [RAW_TX]);
+        } catch (error) {
+            // Nodes not counting pending transactions reject a resent one as already known
+            if (!/already known/i.test(error.message)) {
+                throw error;
+            }
+        }
+    }
+    await waitForReceipt(request, TX_HASH);
+    if ((await request('eth_getCode', [CONTRACT, 'latest'])) === '0x') {
+        throw new Error(`The transaction was mined but there is no code at ${CONTRACT}`);
+    }
+    console.log(`[${chainId}] deployed at ${CONTRACT}`);
+});
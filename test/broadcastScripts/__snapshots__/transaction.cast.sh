@@ -0,0 +1,93 @@
+#!/bin/sh
+# Keyless transaction from 0x058281a33f59F6105dacc18f4e5E5A6dB9aD7571, generated by @patronumlabs/nick-method.
+#
+# Requires Foundry's cast. RPC URLs are read from RPC_URL_<chain id>, defaulting to the ones below.
+# When the sender cannot pay for the transaction, the missing amount is sent from FUNDER_PRIVATE_KEY
+# if set. Chains already done are skipped, so the script can be run again until all are.
+#
+# Sender:       0x058281a33f59F6105dacc18f4e5E5A6dB9aD7571
+# Upfront cost: 10420000000000000 wei, on each chain:
+#   - Ethereum (1): 0.01042 ETH
+#   - Polygon PoS (137): 0.01042 POL
+#   - chain 424242: 10420000000000000 wei
+set -u
+
+RAW_TX='0xf86b808504a817c80082520894742d35cc6634c0532925a3b844bc454e4438f44e872386f26fc10000801ba01212121212121212121212121212121212121212121212121212121212121212a01212121212121212121212121212121212121212121212121212121212121212'
+TX_HASH='0x9da919105fcdd10f4b45a7ab7b984a88bab794951d40f9eb4ef13b89dbfcc393'
+SENDER='0x058281a33f59F6105dacc18f4e5E5A6dB9aD7571'
+UPFRONT_COST='10420000000000000'
+
+# Tells whether the decimal $1 is less than the decimal $2, compared as strings to avoid overflows
+less_than() {
+    awk -v a="$1" -v b="$2" 'BEGIN { exit !(length(a) < length(b) || (length(a) == length(b) && a "" < b "")) }'
+}
+
+# Subtracts the decimal $2 from the greater decimal $1, digit by digit to avoid overflows
+subtract() {
+    awk -v a="$1" -v b="$2" 'BEGIN {
+        while (length(b) < length(a)) b = "0" b
+        for (i = length(a); i > 0; i--) {
+            d = substr(a, i, 1) - substr(b, i, 1) - borrow
+            borrow = d < 0
+            out = (d + 10 * borrow) out
+        }
+        sub(/^0+/, "", out)
+        print (out == "" ? 0 : out)
+    }'
+}
+
+broadcast() {
+    chain_id=$1
+    rpc_url=$2
+    if [ -z "$rpc_url" ]; then
+        echo "[$chain_id] no RPC URL: set RPC_URL_$chain_id" >&2
+        return 1
+    fi
+    actual_chain_id=$(cast chain-id --rpc-url "$rpc_url") || return 1
+    if [ "$actual_chain_id" != "$chain_id" ]; then
+        echo "[$chain_id] the RPC URL serves chain $actual_chain_id" >&2
+        return 1
+    fi
+
+    nonce=$(cast nonce "$SENDER" --rpc-url "$rpc_url") || return 1
+    if [ "$nonce" != "0" ]; then
+        echo "[$chain_id] already sent"
+        return 0
+    fi
+
+    # The sender can only have sent this transaction, so a pending one is left to be mined
+    pending=$(cast nonce "$SENDER" --block pending --rpc-url "$rpc_url") || return 1
+    if [ "$pending" != "0" ]; then
+        echo "[$chain_id] the transaction is pending"
+    else
+        balance=$(cast balance "$SENDER" --rpc-url "$rpc_url") || return 1
+        if less_than "$balance" "$UPFRONT_COST"; then
+            missing=$(subtract "$UPFRONT_COST" "$balance")
+            if [ -z "${FUNDER_PRIVATE_KEY:-}" ]; then
+                echo "[$chain_id] send $missing wei to $SENDER, or set FUNDER_PRIVATE_KEY" >&2
+                return 1
+            fi
+            echo "[$chain_id] funding $SENDER with $missing wei"
+            cast send "$SENDER" --value "$missing" --private-key "$FUNDER_PRIVATE_KEY" --rpc-url "$rpc_url" \
+                >/dev/null || return 1
+        fi
+
+        echo "[$chain_id] publishing the transaction"
+        # Nodes not counting pending transactions reject a resent one as already known
+        output=$(cast publish "$RAW_TX" --async --rpc-url "$rpc_url" 2>&1) || case $output in
+            *'already known'*) ;;
+            *)
+                echo "$output" >&2
+                return 1
+                ;;
+        esac
+    fi
+    cast receipt "$TX_HASH" --rpc-url "$rpc_url" >/dev/null || return 1
+    echo "[$chain_id] sent"
+}
+
+status=0
+broadcast 1 "${RPC_URL_1:-https://eth.example.org}" || status=1
+broadcast 137 "${RPC_URL_137:-}" || status=1
+broadcast 424242 "${RPC_URL_424242:-}" || status=1
+exit $status
@@ -0,0 +1,73 @@
+// Keyless transaction from 0x058281a33f59F6105dacc18f4e5E5A6dB9aD7571, generated by @patronumlabs/nick-method.
+//
+// Require this file from the Hardhat configuration, then run on each network:
+//   npx hardhat nick-method-broadcast --network <name>
+// When the sender cannot pay for the transaction, the missing amount is sent from the first account of
+// the network. Chains already done are skipped.
+//
+// Upfront cost: 10420000000000000 wei, on each chain:
+//   - Ethereum (1): 0.01042 ETH
+//   - Polygon PoS (137): 0.01042 POL
+//   - chain 424242: 10420000000000000 wei
+const { task } = require('hardhat/config');
+
+const RAW_TX = '0xf86b808504a817c80082520894742d35cc6634c0532925a3b844bc454e4438f44e872386f26fc10000801ba01212121212121212121212121212121212121212121212121212121212121212a01212121212121212121212121212121212121212121212121212121212121212';
+const TX_HASH = '0x9da919105fcdd10f4b45a7ab7b984a88bab794951d40f9eb4ef13b89dbfcc393';
+const SENDER = '0x058281a33f59F6105dacc18f4e5E5A6dB9aD7571';
+const UPFRONT_COST = BigInt('10420000000000000');
+const CHAIN_IDS = [1, 137, 424242];
+
+async function waitForReceipt(request, hash) {
+    for (let attempt = 0; attempt < 60; attempt++) {
+        const receipt = await request('eth_getTransactionReceipt', [hash]);
+        if (receipt !== null) {
+            if (receipt.status !== '0x1') {
+                throw new Error(`Transaction ${hash} reverted`);
+            }
+            return receipt;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
+    throw new Error(`Transaction ${hash} is not mined after 5 minutes, run the task again later`);
+}
+
+task('nick-method-broadcast', 'Keyless transaction from 0x058281a33f59F6105dacc18f4e5E5A6dB9aD7571').setAction(async (_, hre) => {
+    const request = (method, params = []) => hre.network.provider.request({ method, params });
+    const chainId = Number(await request('eth_chainId'));
+    if (!CHAIN_IDS.includes(chainId)) {
+        throw new Error(`Chain ${chainId} is not a target of this transaction: ${CHAIN_IDS.join(', ')}`);
+    }
+
+    if (BigInt(await request('eth_getTransactionCount', [SENDER, 'latest'])) > BigInt(0)) {
+        console.log(`[${chainId}] already sent`);
+        return;
+    }
+
+    // The sender can only have sent this transaction, so a pending one is left to be mined
+    if (BigInt(await request('eth_getTransactionCount', [SENDER, 'pending'])) > BigInt(0)) {
+        console.log(`[${chainId}] the transaction is pending`);
+    } else {
+        const balance = BigInt(await request('eth_getBalance', [SENDER, 'latest']));
+        if (balance < UPFRONT_COST) {
+            const [funder] = await request('eth_accounts');
+            if (funder === undefined) {
+                throw new Error(`Send ${UPFRONT_COST - balance} wei to ${SENDER}, or configure an account`);
+            }
+            console.log(`[${chainId}] funding ${SENDER} with ${UPFRONT_COST - balance} wei from ${funder}`);
+            const value = `0x${(UPFRONT_COST - balance).toString(16)}`;
+            await waitForReceipt(request, await request('eth_sendTransaction', [{ from: funder, to: SENDER, value }]));
+        }
+
+        console.log(`[${chainId}] sending the transaction`);
+        try {
+            await request('eth_sendRawTransaction', [RAW_TX]);
+        } catch (error) {
+            // Nodes not counting pending transactions reject a resent one as already known
+            if (!/already known/i.test(error.message)) {
+                throw error;
+            }
+        }
+    }
+    await waitForReceipt(request, TX_HASH);
+    console.log(`[${chainId}] sent`);
+});
@@ -0,0 +1,214 @@
+import { execFile, execFileSync } from 'child_process';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    genCastScript,
+    genCurlScript,
+    genHardhatTask,
+} from '../../src/broadcastScripts/broadcastScripts';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import { MockRpcServer } from '../broadcast/mockRpcServer';
+
+describe('broadcast scripts', () => {
+    const deployment = genRawDeployment({
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        bytecode: '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe',
+        value: 0,
+    });
+    const transaction = genRawTransaction({
+        gasLimit: 21000,
+        gasPrice: '20 gwei',
+        to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        value: '0.01 ether',
+        data: '0x',
+    });
+    const options = {
+        chains: [
+            { chainId: 1, rpcUrl: 'https://eth.example.org' },
+            { chainId: 137 },
+            { chainId: 424242 },
+        ],
+    };
+
+    const dir = mkdtempSync(join(tmpdir(), 'nick-method-'));
+    const write = (name: string, content: string) => {
+        const path = join(dir, name);
+        writeFileSync(path, content);
+        return path;
+    };
+
+    it('should generate a cast script', async () => {
+        const script = genCastScript(deployment, options);
+        await expect(script).toMatchFileSnapshot('./__snapshots__/deployment.cast.sh');
+        execFileSync('sh', ['-n', write('deployment.cast.sh', script)]);
+
+        const transactionScript = genCastScript(transaction, options);
+        await expect(transactionScript).toMatchFileSnapshot('./__snapshots__/transaction.cast.sh');
+        execFileSync('sh', ['-n', write('transaction.cast.sh', transactionScript)]);
+    });
+
+    it('should generate a curl JSON-RPC script', async () => {
+        const script = genCurlScript(deployment, options);
+        await expect(script).toMatchFileSnapshot('./__snapshots__/deployment.curl.sh');
+        execFileSync('sh', ['-n', write('deployment.curl.sh', script)]);
+    });
+
+    it('should generate a Hardhat task', async () => {
+        const task = genHardhatTask(deployment, { ...options, taskName: 'deploy-registry' });
+        await expect(task).toMatchFileSnapshot('./__snapshots__/deployment.hardhat.js');
+        execFileSync(process.execPath, ['--check', write('deployment.hardhat.js', task)]);
+
+        const transactionTask = genHardhatTask(transaction, options);
+        await expect(transactionTask).toMatchFileSnapshot('./__snapshots__/transaction.hardhat.js');
+        execFileSync(process.execPath, [
+            '--check',
+            write('transaction.hardhat.js', transactionTask),
+        ]);
+    });
+
+    it('should reject invalid chains', () => {
+        const failure = (generate: () => unknown) => {
+            try {
+                generate();
+            } catch (error) {
+                return isNickMethodError(error) ? [error.code, error.field] : error;
+            }
+        };
+
+        expect(failure(() => genCastScript(deployment, { chains: [] }))).toEqual([
+            'INVALID_OPTION',
+            'chains',
+        ]);
+        expect(
+            failure(() => genCurlScript(deployment, { chains: [{ chainId: 1 }, { chainId: 1 }] })),
+        ).toEqual(['INVALID_OPTION', 'chains']);
+        expect(
+            failure(() =>
+                genCastScript(deployment, {
+                    chains: [{ chainId: 1, rpcUrl: 'https://$(rm -rf ~)' }],
+                }),
+            ),
+        ).toEqual(['INVALID_OPTION', 'chains']);
+        // A brace would end the `${RPC_URL_<id>:-<url>}` default early
+        expect(
+            failure(() =>
+                genCurlScript(deployment, {
+                    chains: [{ chainId: 1, rpcUrl: 'https://rpc.example.org/}x' }],
+                }),
+            ),
+        ).toEqual(['INVALID_OPTION', 'chains']);
+        expect(
+            failure(() => genHardhatTask(deployment, { chains: [{ chainId: 1 }], taskName: "x'" })),
+        ).toEqual(['INVALID_OPTION', 'taskName']);
+    });
+
+    describe('curl script against a node', () => {
+        let server: MockRpcServer;
+        let script: string;
+
+        beforeEach(async () => {
+            server = await new MockRpcServer().start();
+            script = write('run.curl.sh', genCurlScript(deployment, { chains: [{ chainId: 1 }] }));
+        });
+        afterEach(async () => {
+            await server.stop();
+        });
+
+        // Runs asynchronously, as the node answers from this process
+        const run = async () => {
+            try {
+                const { stdout, stderr } = await promisify(execFile)('sh', [script], {
+                    env: { PATH: process.env.PATH, RPC_URL_1: server.url },
+                });
+                return { code: 0, stdout, stderr };
+            } catch (error) {
+                const { code, stdout, stderr } = error as {
+                    code: number;
+                    stdout: string;
+                    stderr: string;
+                };
+                return { code, stdout, stderr };
+            }
+        };
+        const deployer = deployment.deployerAddress.toLowerCase();
+
+        it('should deploy once funded, and skip the chain afterwards', async () => {
+            const unfunded = await run();
+            expect(unfunded.code).toBe(1);
+            expect(unfunded.stderr).toContain(
+                `[1] send 10000000000000000 wei to ${deployment.deployerAddress}`,
+            );
+
+            server.balances.set(deployer, 4000000000000000n);
+            expect((await run()).stderr).toContain('[1] send 6000000000000000 wei');
+
+            // Balances beyond 64 bits do not overflow the comparison
+            server.balances.set(deployer, 2n ** 70n);
+            const deployed = await run();
+            expect(deployed).toMatchObject({ code: 0 });
+            expect(deployed.stdout).toContain(`[1] deployed at ${deployment.contractAddress}`);
+            expect(server.codes.get(deployment.contractAddress.toLowerCase())).toBe('0x6080');
+
+            const again = await run();
+            expect(again).toMatchObject({ code: 0 });
+            expect(again.stdout).toContain(`[1] already deployed at ${deployment.contractAddress}`);
+            expect(server.calls.filter((call) => call === 'eth_sendRawTransaction')).toHaveLength(
+                1,
+            );
+        });
+
+        // Hands the transaction to the node, as a run interrupted before its receipt would have
+        const sendDirectly = () =>
+            fetch(server.url, {
+                method: 'POST',
+                body: JSON.stringify({
+                    jsonrpc: '2.0',
+                    id: 1,
+                    method: 'eth_sendRawTransaction',
+                    params: [deployment.rawTx],
+                }),
+            });
+
+        it('should wait for a pending transaction instead of sending it again', async () => {
+            server.balances.set(deployer, 2n ** 70n);
+            server.holdPending = true;
+            await sendDirectly();
+
+            const resumed = await run();
+            expect(resumed).toMatchObject({ code: 0 });
+            expect(resumed.stdout).toContain('[1] the transaction is pending');
+            expect(resumed.stdout).toContain(`[1] deployed at ${deployment.contractAddress}`);
+            expect(server.calls.filter((call) => call === 'eth_sendRawTransaction')).toHaveLength(
+                1,
+            );
+        });
+
+        it('should accept an already known transaction as sent', async () => {
+            server.balances.set(deployer, 2n ** 70n);
+            server.holdPending = true;
+            server.countPending = false;
+            await sendDirectly();
+
+            const resumed = await run();
+            expect(resumed).toMatchObject({ code: 0 });
+            expect(resumed.stdout).toContain('[1] sending the transaction');
+            expect(resumed.stdout).toContain(`[1] deployed at ${deployment.contractAddress}`);
+        });
+
+        it('should fail on bricked deployers and wrong chains', async () => {
+            server.nonces.set(deployer, 1n);
+            expect((await run()).stderr).toContain(
+                'the deployment can no longer happen on this chain',
+            );
+
+            server.chainId = 137n;
+            expect((await run()).stderr).toContain('[1] the RPC URL serves chain 137');
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { webcrypto } from 'crypto';
+import { build } from 'esbuild';
+import { join } from 'path';
+import { createContext, runInContext } from 'vm';
+import { define } from '../../tsup.config';
+import { buildFundingTransactions, planFunding } from '../../src/funding/funding';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
+
+type BrowserModule = typeof import('../../src/browser');
+
+/**
+ * Bundles the browser entry point the way a bundler targeting browsers would, failing on any Node
+ * built-in, and evaluates it in a realm without Node globals.
+ */
+async function loadBrowserBundle(): Promise<{ bundle: string; context: object }> {
+    const { outputFiles } = await build({
+        entryPoints: [join(__dirname, '../../src/browser.ts')],
+        bundle: true,
+        platform: 'browser',
+        format: 'iife',
+        globalName: 'nickMethod',
+        define,
+        write: false,
+        logLevel: 'silent',
+    });
+    const bundle = outputFiles[0].text;
+
+    // Only the Web APIs of browsers and edge runtimes, with byte arrays of the realm itself
+    const context = createContext({
+        hostTextEncoder: new TextEncoder(),
+        hostTextDecoder: new TextDecoder(),
+        crypto: webcrypto,
+    });
+    runInContext(
+        `globalThis.TextEncoder = class { encode(value) { return new Uint8Array(hostTextEncoder.encode(value)); } };
+        globalThis.TextDecoder = class { decode(bytes) { return hostTextDecoder.decode(bytes); } };`,
+        context,
+    );
+    runInContext(bundle, context);
+    return { bundle, context };
+}
+
+describe('browser entry point', () => {
+    let bundle: string;
+    let context: object;
+    let nickMethod: BrowserModule;
+
+    beforeAll(async () => {
+        ({ bundle, context } = await loadBrowserBundle());
+        nickMethod = (context as { nickMethod: BrowserModule }).nickMethod;
+    }, 60000);
+
+    it('should run without Buffer, process or require', () => {
+        expect(runInContext('typeof Buffer + typeof process + typeof require', context)).toBe(
+            'undefinedundefinedundefined',
+        );
+        expect(bundle).not.toMatch(/\bBuffer\.|\bsetImmediate\b/);
+    });
+
+    it('should generate the same deployments as the main entry point', () => {
+        const config = {
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            bytecode: '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe',
+            value: 0,
+        };
+        const result = nickMethod.genRawDeployment(config);
+        const expected = genRawDeployment(config);
+
+        expect(result.rawTx).toBe(expected.rawTx);
+        expect(result.deployerAddress).toBe(expected.deployerAddress);
+        expect(result.contractAddress).toBe(expected.contractAddress);
+        expect(result.upfrontCost).toBe(expected.upfrontCost);
+        expect(typeof result.rawTx).toBe('string');
+    });
+
+    it('should reproduce and recover every known deployment', () => {
+        for (const entry of nickMethod.KNOWN_DEPLOYMENTS) {
+            expect(nickMethod.reproduceKnownDeployment(entry).reproducible).toBe(true);
+
+            const recovered = nickMethod.recoverRawTransaction(entry.rawTx);
+            const expected = recoverRawTransaction(entry.rawTx);
+            expect(recovered.hash).toBe(entry.hash);
+            expect(recovered.senderAddress).toBe(expected.senderAddress);
+            expect(recovered.contractAddress).toBe(expected.contractAddress);
+            expect(recovered.signingHash).toBe(expected.signingHash);
+            expect(nickMethod.verifyKeylessDeployment(entry.rawTx).ok).toBe(true);
+        }
+    });
+
+    it('should encode and decode ABI data, and compute CREATE2 addresses', () => {
+        const abi = [
+            {
+                type: 'function',
+                name: 'transfer',
+                inputs: [
+                    { name: 'to', type: 'address' },
+                    { name: 'amount', type: 'uint256' },
+                ],
+            },
+        ];
+        const to = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+        const data = nickMethod.encodeFunctionData({
+            abi,
+            functionName: 'transfer',
+            args: [to, 5n],
+        });
+        expect(data.slice(0, 10)).toBe('0xa9059cbb');
+
+        const decoded = nickMethod.decodeTransactionData({ to, data }, { abi });
+        expect(decoded.kind === 'call' && decoded.args.map(({ value }) => value)).toEqual([to, 5n]);
+
+        const factory = nickMethod.CANONICAL_CREATE2_FACTORY;
+        expect(
+            nickMethod.computeCreate2Address({ salt: `0x${'00'.repeat(32)}`, initcode: '0x00' }),
+        ).toBe(
+            nickMethod.computeCreate2Address({
+                salt: `0x${'00'.repeat(32)}`,
+                initcode: '0x00',
+                factory: factory.address,
+            }),
+        );
+    });
+
+    it('should sign the same funding transactions as the main entry point', async () => {
+        const result = {
+            deployerAddress: '0x3535353535353535353535353535353535353535',
+            upfrontCost: 10n ** 18n,
+        };
+        const targets = [
+            { chainId: 1, balance: 0 },
+            { chainId: 10, balance: 0 },
+        ];
+        const params = [
+            { chainId: 1, nonce: 9, gasPrice: '20 gwei' },
+            { chainId: 10, nonce: 0, maxFeePerGas: '2 gwei', maxPriorityFeePerGas: '1 gwei' },
+        ];
+        const options = {
+            from: '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F',
+            privateKey: '0x4646464646464646464646464646464646464646464646464646464646464646',
+        };
+
+        const plan = await nickMethod.planFunding(result, targets);
+        const funding = await nickMethod.buildFundingTransactions(plan, params, options);
+        const expected = await buildFundingTransactions(
+            await planFunding(result, targets),
+            params,
+            options,
+        );
+        expect(funding.map(({ rawTx, hash }) => ({ rawTx, hash }))).toEqual(
+            expected.map(({ rawTx, hash }) => ({ rawTx, hash })),
+        );
+    });
+
+    it('should report errors with their codes', () => {
+        const result = nickMethod.safeRecoverRawTransaction('0xf8a5');
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.code).toBe('RLP_DECODE_FAILED');
+            expect(nickMethod.isNickMethodError(result.error)).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { findKnownDeployment, reproduceKnownDeployment } from '../../src/catalog/catalog';
+import { KNOWN_DEPLOYMENTS } from '../../src/catalog/registry';
+import { CANONICAL_CREATE2_FACTORY } from '../../src/create2/create2';
+import { isNickMethodError } from '../../src/errors/errors';
+import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
+import { verifyKeylessDeployment } from '../../src/verify/verify';
+
+describe('KNOWN_DEPLOYMENTS', () => {
+    it.each(KNOWN_DEPLOYMENTS.map((entry) => [entry.id, entry] as const))(
+        'should regenerate %s with genRawDeployment',
+        (_, entry) => {
+            const { result, reproducible } = reproduceKnownDeployment(entry);
+            expect(reproducible).toBe(true);
+            expect(result.rawTx).toBe(entry.rawTx);
+            expect(result.contractAddress).toBe(entry.contractAddress);
+            expect(result.deployerAddress).toBe(entry.deployerAddress);
+        },
+    );
+
+    it.each(KNOWN_DEPLOYMENTS.map((entry) => [entry.id, entry] as const))(
+        'should publish a consistent keyless transaction for %s',
+        (_, entry) => {
+            const tx = recoverRawTransaction(entry.rawTx);
+            expect(tx.hash).toBe(entry.hash);
+            expect(tx.senderAddress).toBe(entry.deployerAddress);
+            expect(tx.contractAddress).toBe(entry.contractAddress);
+            expect(tx.type === 'legacy' && tx.knownDeployment).toBe(entry.id);
+            expect(verifyKeylessDeployment(entry.rawTx).ok).toBe(true);
+        },
+    );
+
+    it('should have unique identifiers', () => {
+        const ids = KNOWN_DEPLOYMENTS.map(({ id }) => id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+});
+
+describe('findKnownDeployment', () => {
+    it('should find a deployment by contract address, deployer or hash', () => {
+        const registry = KNOWN_DEPLOYMENTS.find(({ id }) => id === 'erc1820-registry');
+        expect(findKnownDeployment('0x1820a4B7618BdE71Dce8cdc73aAB6C95905faD24')).toBe(registry);
+        expect(findKnownDeployment('0xa990077c3205cbdf861e17fa532eeb069ce9ff96')).toBe(registry);
+        expect(
+            findKnownDeployment(
+                '0xFEFB2DA535E927B85FE68EB81CB2E4A5827C905F78381A01EF2322AA9B0AEE8E',
+            ),
+        ).toBe(registry);
+        expect(findKnownDeployment(CANONICAL_CREATE2_FACTORY.address)?.id).toBe(
+            'deterministic-deployment-proxy',
+        );
+        expect(findKnownDeployment('0xce0042B868300000d44A59004Da54A005ffdcf9f')?.id).toBe(
+            'erc2470-singleton-factory',
+        );
+    });
+
+    it('should return undefined for unknown values', () => {
+        expect(findKnownDeployment('0x742d35Cc6634C0532925a3b844Bc454e4438f44e')).toBeUndefined();
+        expect(findKnownDeployment(CANONICAL_CREATE2_FACTORY.address, [])).toBeUndefined();
+    });
+
+    it('should reject values that are neither addresses nor hashes', () => {
+        try {
+            findKnownDeployment('0x1820');
+            expect.unreachable();
+        } catch (error) {
+            expect(isNickMethodError(error, 'INVALID_HEX')).toBe(true);
+            expect((error as Error & { field: string }).field).toBe('addressOrHash');
+        }
+    });
+});
+
+describe('reproduceKnownDeployment', () => {
+    it('should report entries that do not match their configuration', () => {
+        const [entry] = KNOWN_DEPLOYMENTS;
+        const tampered = { ...entry, deployment: { ...entry.deployment, gasLimit: 900000 } };
+        const { result, reproducible } = reproduceKnownDeployment(tampered);
+        expect(reproducible).toBe(false);
+        expect(result.rawTx).not.toBe(entry.rawTx);
+    });
+});
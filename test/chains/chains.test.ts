@@ -0,0 +1,178 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { Common } from '@ethereumjs/common';
+import { FeeMarketEIP1559Transaction, Transaction } from '@ethereumjs/tx';
+import { bytesToHex } from 'ethereum-cryptography/utils.js';
+import {
+    checkCompatibility,
+    createChainRegistry,
+    loadChainRegistry,
+} from '../../src/chains/chains';
+import { findUnsupportedOpcodes } from '../../src/chains/opcodes';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import { ChainProfile } from '../../src/types/chainConfig';
+
+describe('chains', () => {
+    const deployment = genRawDeployment({
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        // PUSH1 0x00 PUSH1 0x00 RETURN
+        bytecode: '0x60006000f3',
+        value: 0,
+    });
+
+    const legacyChain: ChainProfile = {
+        chainId: 999999,
+        name: 'Legacy',
+        nativeCurrency: { symbol: 'LEG', decimals: 18 },
+        evmVersion: 'london',
+        acceptsUnprotectedTransactions: false,
+        addressDerivation: 'standard',
+        minGasPrice: '200 gwei',
+    };
+
+    it('should accept a simple deployment on standard chains', () => {
+        const results = checkCompatibility(deployment, [1, 8453, 42161]);
+        expect(results).toEqual([
+            { chainId: 1, name: 'Ethereum', compatible: true, issues: [] },
+            { chainId: 8453, name: 'Base', compatible: true, issues: [] },
+            { chainId: 42161, name: 'Arbitrum One', compatible: true, issues: [] },
+        ]);
+    });
+
+    it('should report unknown chains', () => {
+        const [result] = checkCompatibility(deployment, [123456789]);
+        expect(result.compatible).toBe(false);
+        expect(result.name).toBeUndefined();
+        expect(result.issues.map((issue) => issue.code)).toEqual(['UNKNOWN_CHAIN']);
+    });
+
+    it('should report non-standard address derivation', () => {
+        const [result] = checkCompatibility(deployment, [324]);
+        expect(result.compatible).toBe(false);
+        expect(result.issues.map((issue) => issue.code)).toEqual([
+            'NON_STANDARD_ADDRESS_DERIVATION',
+        ]);
+    });
+
+    it('should report opcodes unsupported by the chain EVM', () => {
+        // PUSH0 PUSH0 MCOPY PUSH0 PUSH0 RETURN
+        const modern = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            bytecode: '0x5f5f5e5f5ff3',
+            value: 0,
+        });
+        const [ethereum, linea, scroll] = checkCompatibility(modern, [1, 59144, 534352]);
+        expect(ethereum.compatible).toBe(true);
+        expect(linea.issues.map((issue) => issue.message)).toEqual([
+            'The bytecode uses PUSH0 (shanghai), which Linea (london) does not support',
+            'The bytecode uses MCOPY (cancun), which Linea (london) does not support',
+        ]);
+        expect(scroll.issues.map((issue) => issue.code)).toEqual(['UNSUPPORTED_OPCODE']);
+    });
+
+    it('should skip push data when scanning opcodes', () => {
+        // PUSH2 0x5f5e
+        expect(findUnsupportedOpcodes(Buffer.from('615f5e', 'hex'), 'london')).toEqual([]);
+        // PUSH32 <31 zero bytes> PUSH0
+        expect(
+            findUnsupportedOpcodes(Buffer.from(`7f${'00'.repeat(32)}5f`, 'hex'), 'london'),
+        ).toEqual([{ name: 'PUSH0', since: 'shanghai' }]);
+    });
+
+    it('should report low gas prices and rejected unprotected transactions', () => {
+        const registry = createChainRegistry([legacyChain]);
+        const [result] = checkCompatibility(deployment, [999999], registry);
+        expect(result.compatible).toBe(false);
+        expect(result.issues).toEqual([
+            {
+                code: 'UNPROTECTED_TX_REJECTED',
+                message: 'Legacy rejects transactions without EIP-155 replay protection',
+            },
+            {
+                code: 'GAS_PRICE_TOO_LOW',
+                message:
+                    'The gas price of 100 gwei is below the typical minimum of 200 gwei on Legacy',
+            },
+        ]);
+    });
+
+    it('should report replay-protected transactions signed for another chain', () => {
+        const privateKey = new Uint8Array(32).fill(1);
+        const common = Common.custom({ chainId: 137 });
+        const txData = {
+            gasPrice: 100000000000,
+            maxFeePerGas: 100000000000,
+            gasLimit: 21000,
+            to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        };
+        const signed = [
+            Transaction.fromTxData(txData, { common }).sign(privateKey),
+            FeeMarketEIP1559Transaction.fromTxData(txData, { common }).sign(privateKey),
+        ];
+
+        for (const tx of signed) {
+            const rawTx = `0x${bytesToHex(tx.serialize())}`;
+            const [mainnet, polygon] = checkCompatibility({ rawTx }, [1, 137]);
+            expect(mainnet.issues).toEqual([
+                {
+                    code: 'CHAIN_ID_MISMATCH',
+                    message: 'The transaction is signed for chain 137, so Ethereum rejects it',
+                },
+            ]);
+            expect(polygon).toMatchObject({ compatible: true, issues: [] });
+        }
+
+        // Protected transactions are not affected by the rejection of unprotected ones
+        const registry = createChainRegistry([
+            { ...legacyChain, chainId: 137, minGasPrice: '1 gwei' },
+        ]);
+        const rawTx = `0x${bytesToHex(signed[0].serialize())}`;
+        expect(checkCompatibility({ rawTx }, [137], registry)[0].compatible).toBe(true);
+    });
+
+    it('should not scan the data of transactions that are not deployments', () => {
+        const transaction = genRawTransaction({
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            to: '0x4e59b44847b379578588920cA78FbF26c0B4956C',
+            data: '0x5f5f5e',
+            value: 0,
+        });
+        const [result] = checkCompatibility(transaction, [324, 59144]);
+        expect(result.compatible).toBe(true);
+    });
+
+    it('should extend and override the registry from a JSON file', () => {
+        const path = join(mkdtempSync(join(tmpdir(), 'nick-method-')), 'chains.json');
+        writeFileSync(
+            path,
+            JSON.stringify([legacyChain, { ...legacyChain, chainId: 1, name: 'Mainnet fork' }]),
+        );
+
+        const registry = loadChainRegistry(path);
+        expect(registry.get(999999)).toEqual(legacyChain);
+        expect(registry.get(1)?.name).toBe('Mainnet fork');
+        expect(registry.get(8453)?.name).toBe('Base');
+    });
+
+    it('should reject invalid profiles', () => {
+        expect(() =>
+            createChainRegistry([{ ...legacyChain, evmVersion: 'future' as never }]),
+        ).toThrow('Invalid chain profile 999999: evmVersion must be one of');
+        expect(() => createChainRegistry([{ ...legacyChain, minGasPrice: 'cheap' }])).toThrow(
+            'minGasPrice must be a quantity string',
+        );
+        expect(() => createChainRegistry([{ name: 'No id' } as ChainProfile])).toThrow(
+            /Invalid chain profile #\d+: chainId must be a positive integer/,
+        );
+
+        const path = join(mkdtempSync(join(tmpdir(), 'nick-method-')), 'chains.json');
+        writeFileSync(path, JSON.stringify({ chains: [] }));
+        expect(() => loadChainRegistry(path)).toThrow('expected an array of chain profiles');
+    });
+});
@@ -0,0 +1,375 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { run } from '../../src/cli/run';
+import { ExitCode } from '../../src/cli/utils';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+
+async function exec(argv: string[], stdin = '') {
+    let stdout = '';
+    let stderr = '';
+    const code = await run(argv, {
+        stdout: (text) => (stdout += text),
+        stderr: (text) => (stderr += text),
+        readStdin: async () => stdin,
+    });
+    return { code, stdout, stderr };
+}
+
+describe('nick-method CLI', () => {
+    const deployArgs = ['--gas-limit', '100000', '--gas-price', '1gwei'];
+    const expectedDeployment = genRawDeployment({
+        gasLimit: 100000,
+        gasPrice: 1000000000,
+        bytecode: '0x1234',
+        value: 0,
+    });
+
+    it('should print the usage without a command', async () => {
+        const { code, stdout } = await exec([]);
+        expect(code).toBe(ExitCode.Success);
+        expect(stdout).toContain('Usage: nick-method <command>');
+    });
+
+    it('should fail with a validation error for unknown commands', async () => {
+        const { code, stderr } = await exec(['unknown']);
+        expect(code).toBe(ExitCode.ValidationError);
+        expect(stderr).toContain('Unknown command "unknown"');
+    });
+
+    describe('deploy', () => {
+        it('should print the deployment as JSON', async () => {
+            const { code, stdout } = await exec([
+                'deploy',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--json',
+            ]);
+            expect(code).toBe(ExitCode.Success);
+            expect(JSON.parse(stdout)).toEqual({
+                ...expectedDeployment,
+                upfrontCost: expectedDeployment.upfrontCost.toString(),
+            });
+        });
+
+        it('should print the deployment as a table', async () => {
+            const { code, stdout } = await exec(['deploy', '--bytecode', '0x1234', ...deployArgs]);
+            expect(code).toBe(ExitCode.Success);
+            expect(stdout).toContain(`Contract address  ${expectedDeployment.contractAddress}`);
+            expect(stdout).toContain('Upfront cost      100000000000000 wei (0.0001 ETH)');
+        });
+
+        it('should read the bytecode from a file', async () => {
+            const file = join(mkdtempSync(join(tmpdir(), 'nick-method-')), 'Contract.bin');
+            writeFileSync(file, '1234\n');
+            const { stdout } = await exec([
+                'deploy',
+                '--bytecode-file',
+                file,
+                ...deployArgs,
+                '--json',
+            ]);
+            expect(JSON.parse(stdout).rawTx).toBe(expectedDeployment.rawTx);
+        });
+
+        it('should read the bytecode from stdin', async () => {
+            const { stdout } = await exec(['deploy', ...deployArgs, '--json'], '0x1234\n');
+            expect(JSON.parse(stdout).rawTx).toBe(expectedDeployment.rawTx);
+        });
+
+        it('should read the bytecode from a compiler artifact', async () => {
+            const file = join(mkdtempSync(join(tmpdir(), 'nick-method-')), 'output.json');
+            writeFileSync(
+                file,
+                JSON.stringify({
+                    contracts: {
+                        'src/Counter.sol': {
+                            Counter: { abi: [], evm: { bytecode: { object: '1234' } } },
+                        },
+                    },
+                }),
+            );
+            const artifactArgs = ['deploy', '--artifact', file, '--contract', 'Counter'];
+
+            const { stdout } = await exec([...artifactArgs, ...deployArgs, '--json']);
+            expect(JSON.parse(stdout)).toMatchObject({
+                rawTx: expectedDeployment.rawTx,
+                provenance: { format: 'solc', path: file, sourceName: 'src/Counter.sol' },
+            });
+
+            const table = await exec([...artifactArgs, ...deployArgs]);
+            expect(table.stdout).toContain('Contract          src/Counter.sol:Counter');
+
+            const wrongContract = await exec([
+                ...artifactArgs,
+                ...deployArgs,
+                '--contract',
+                'Token',
+            ]);
+            expect(wrongContract.code).toBe(ExitCode.ValidationError);
+            expect(wrongContract.stderr).toContain('Error [INVALID_OPTION]');
+
+            const both = await exec([...artifactArgs, '--bytecode', '0x1234', ...deployArgs]);
+            expect(both.code).toBe(ExitCode.ValidationError);
+        });
+
+        it('should accept hex, decimal and unit amounts', async () => {
+            const { stdout } = await exec(
+                [
+                    'deploy',
+                    '--gas-limit',
+                    '0x186a0',
+                    '--gas-price',
+                    '1000000000',
+                    '--value',
+                    '0 ether',
+                    '--json',
+                ],
+                '0x1234',
+            );
+            expect(JSON.parse(stdout).rawTx).toBe(expectedDeployment.rawTx);
+        });
+
+        it('should fail with a validation error for invalid inputs', async () => {
+            const missing = await exec(['deploy', '--bytecode', '0x1234', '--gas-limit', '100000']);
+            expect(missing.code).toBe(ExitCode.ValidationError);
+            expect(missing.stderr).toContain('--gas-price is required');
+
+            const badAmount = await exec([
+                'deploy',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--value',
+                '1 banana',
+            ]);
+            expect(badAmount.code).toBe(ExitCode.ValidationError);
+
+            const badBytecode = await exec(['deploy', '--bytecode', 'xyz', ...deployArgs]);
+            expect(badBytecode.code).toBe(ExitCode.ValidationError);
+            expect(badBytecode.stderr).toContain('The bytecode must be a non-empty hex string');
+
+            const badR = await exec([
+                'deploy',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--r',
+                '0x00',
+            ]);
+            expect(badR.code).toBe(ExitCode.ValidationError);
+
+            const unknownOption = await exec([
+                'deploy',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--nope',
+            ]);
+            expect(unknownOption.code).toBe(ExitCode.ValidationError);
+
+            const missingFile = await exec([
+                'deploy',
+                '--bytecode-file',
+                '/does/not/exist',
+                ...deployArgs,
+            ]);
+            expect(missingFile.code).toBe(ExitCode.ValidationError);
+            expect(missingFile.stderr).toContain('Cannot read /does/not/exist');
+        });
+    });
+
+    describe('tx', () => {
+        const to = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+        it('should print the transaction as JSON', async () => {
+            const { code, stdout } = await exec([
+                'tx',
+                '--to',
+                to,
+                '--data',
+                '0x',
+                '--value',
+                '0.1ether',
+                ...deployArgs,
+                '--json',
+            ]);
+            expect(code).toBe(ExitCode.Success);
+            const expected = genRawTransaction({
+                to,
+                data: '0x',
+                value: '0.1 ether',
+                gasLimit: 100000,
+                gasPrice: '1 gwei',
+            });
+            expect(JSON.parse(stdout)).toEqual({
+                ...expected,
+                upfrontCost: expected.upfrontCost.toString(),
+            });
+        });
+
+        it('should fail with a validation error for non-checksummed addresses', async () => {
+            const { code, stderr } = await exec([
+                'tx',
+                '--to',
+                to.toLowerCase(),
+                '--data',
+                '0x',
+                ...deployArgs,
+            ]);
+            expect(code).toBe(ExitCode.ValidationError);
+            expect(stderr).toContain('--to must be a checksummed address');
+        });
+    });
+
+    describe('recover', () => {
+        it('should decode a raw transaction given as argument', async () => {
+            const { code, stdout } = await exec(['recover', expectedDeployment.rawTx, '--json']);
+            expect(code).toBe(ExitCode.Success);
+            const recovered = JSON.parse(stdout);
+            expect(recovered.gasPrice).toBe('1000000000');
+            expect(recovered.data).toBe('0x1234');
+            expect(recovered.to).toBeUndefined();
+        });
+
+        it('should decode a raw transaction from stdin as a table', async () => {
+            const { code, stdout } = await exec(['recover'], expectedDeployment.rawTx);
+            expect(code).toBe(ExitCode.Success);
+            expect(stdout).toMatch(/To +\(contract creation\)/);
+            expect(stdout).toMatch(/Gas limit +100000/);
+            expect(stdout).toMatch(new RegExp(`Sender +${expectedDeployment.deployerAddress}`));
+            expect(stdout).toMatch(/Signature +default/);
+        });
+
+        it('should fail with a validation error for undecodable transactions', async () => {
+            const { code, stderr } = await exec(['recover', '0x1234']);
+            expect(code).toBe(ExitCode.ValidationError);
+            expect(stderr).toContain('Cannot decode raw transaction');
+        });
+
+        it('should exit with an internal error when decoding fails unexpectedly', async () => {
+            vi.resetModules();
+            vi.doMock(
+                '../../src/recoverRawTransaction/recoverRawTransaction',
+                async (original) => ({
+                    ...(await original<object>()),
+                    recoverRawTransaction: () => {
+                        throw new TypeError('Cannot read properties of undefined');
+                    },
+                }),
+            );
+            try {
+                const { run: runMocked } = await import('../../src/cli/run');
+                let stderr = '';
+                const code = await runMocked(['recover', expectedDeployment.rawTx], {
+                    stdout: () => {},
+                    stderr: (text) => (stderr += text),
+                    readStdin: async () => '',
+                });
+                expect(code).toBe(ExitCode.InternalError);
+                expect(stderr).not.toContain('Cannot decode raw transaction');
+            } finally {
+                vi.doUnmock('../../src/recoverRawTransaction/recoverRawTransaction');
+            }
+        });
+    });
+
+    describe('mine', () => {
+        it('should print the matching deployment', async () => {
+            const { code, stdout } = await exec([
+                'mine',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--prefix',
+                'a',
+                '--workers',
+                '0',
+                '--json',
+            ]);
+            expect(code).toBe(ExitCode.Success);
+            expect(JSON.parse(stdout).deployment.contractAddress.toLowerCase()).toMatch(/^0xa/);
+        });
+
+        it('should exit with NotFound when no match is found', async () => {
+            const { code } = await exec([
+                'mine',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--prefix',
+                'ffffffff',
+                '--workers',
+                '0',
+                '--max-attempts',
+                '1',
+            ]);
+            expect(code).toBe(ExitCode.NotFound);
+        });
+
+        it('should fail with a validation error for invalid targets', async () => {
+            const { code } = await exec([
+                'mine',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--workers',
+                '0',
+            ]);
+            expect(code).toBe(ExitCode.ValidationError);
+        });
+
+        it('should report a corrupted checkpoint as a validation error', async () => {
+            const checkpoint = join(mkdtempSync(join(tmpdir(), 'nick-method-')), 'mine.json');
+            const args = [
+                'mine',
+                '--bytecode',
+                '0x1234',
+                ...deployArgs,
+                '--prefix',
+                'ffffffff',
+                '--workers',
+                '0',
+                '--max-attempts',
+                '1',
+                '--checkpoint',
+                checkpoint,
+            ];
+            expect((await exec(args)).code).toBe(ExitCode.NotFound);
+
+            const state = JSON.parse(readFileSync(checkpoint, 'utf8'));
+            writeFileSync(checkpoint, JSON.stringify({ ...state, nextIndex: 'oops' }));
+            const { code, stderr } = await exec(args);
+            expect(code).toBe(ExitCode.ValidationError);
+            expect(stderr).toContain(`Invalid checkpoint ${checkpoint}`);
+        });
+
+        it('should exit with an internal error when the search fails', async () => {
+            vi.resetModules();
+            vi.doMock('../../src/mineVanityR/mineVanityR', () => ({
+                mineVanityR: async () => {
+                    throw new Error('Vanity worker exited with code 1');
+                },
+            }));
+            try {
+                const { run: runMocked } = await import('../../src/cli/run');
+                let stderr = '';
+                const code = await runMocked(
+                    ['mine', '--bytecode', '0x1234', ...deployArgs, '--prefix', 'a'],
+                    {
+                        stdout: () => {},
+                        stderr: (text) => (stderr += text),
+                        readStdin: async () => '',
+                    },
+                );
+                expect(code).toBe(ExitCode.InternalError);
+                expect(stderr).toContain('Vanity worker exited with code 1');
+            } finally {
+                vi.doUnmock('../../src/mineVanityR/mineVanityR');
+            }
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+    CANONICAL_CREATE2_FACTORY,
+    computeCreate2Address,
+    encodeCreate2Calldata,
+    genCreate2Deployment,
+    mineCreate2Salt,
+} from '../../src/create2/create2';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
+
+describe('create2', () => {
+    const zeroAddress = '0x0000000000000000000000000000000000000000';
+    const initcode = '0x60006000f3';
+
+    it('should reproduce the canonical factory deployment', () => {
+        const deployment = genRawDeployment(CANONICAL_CREATE2_FACTORY.deployment);
+        expect(deployment.rawTx).toBe(CANONICAL_CREATE2_FACTORY.rawTx);
+        expect(deployment.deployerAddress).toBe(CANONICAL_CREATE2_FACTORY.deployerAddress);
+        expect(deployment.contractAddress).toBe(CANONICAL_CREATE2_FACTORY.address);
+    });
+
+    it('should compute CREATE2 addresses', () => {
+        // EIP-1014 test vectors
+        expect(
+            computeCreate2Address({ factory: zeroAddress, salt: '0x00', initcode: '0x00' }),
+        ).toBe('0x4D1A2e2bB4F88F0250f26Ffff098B0b30B26BF38');
+        expect(
+            computeCreate2Address({
+                factory: '0x00000000000000000000000000000000DeaDBeef',
+                salt: '0x00000000000000000000000000000000000000000000000000000000cafebabe',
+                initcode: '0xdeadbeef',
+            }),
+        ).toBe('0x60f3f640a8508fC6a86d45DF051962668E1e8AC7');
+        // Short salts are left-padded
+        expect(computeCreate2Address({ salt: '0xcafebabe', initcode })).toBe(
+            computeCreate2Address({
+                salt: `0x${'0'.repeat(56)}cafebabe`,
+                initcode,
+                factory: CANONICAL_CREATE2_FACTORY.address,
+            }),
+        );
+    });
+
+    it('should encode the factory calldata', () => {
+        expect(encodeCreate2Calldata('0x01', initcode)).toBe(`0x${'0'.repeat(63)}160006000f3`);
+        expect(() => encodeCreate2Calldata(`0x${'00'.repeat(33)}`, initcode)).toThrow(
+            'Invalid salt: must be a hex string of up to 32 bytes',
+        );
+        expect(() => encodeCreate2Calldata('0x01', 'code')).toThrow(
+            'Invalid hex value for initcode',
+        );
+    });
+
+    it('should generate a factory transaction', () => {
+        const result = genCreate2Deployment({
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            value: 0,
+            salt: '0x01',
+            initcode,
+        });
+        expect(result.factoryAddress).toBe(CANONICAL_CREATE2_FACTORY.address);
+        expect(result.salt).toBe(`0x${'0'.repeat(63)}1`);
+        expect(result.contractAddress).toBe(computeCreate2Address({ salt: '0x01', initcode }));
+
+        const recovered = recoverRawTransaction(result.rawTx);
+        expect(recovered.to).toBe(CANONICAL_CREATE2_FACTORY.address.toLowerCase());
+        expect(recovered.data).toBe(result.calldata);
+        expect(recovered.senderAddress).toBe(result.senderAddress);
+
+        try {
+            genCreate2Deployment({
+                gasLimit: 100000,
+                gasPrice: '100 gwei',
+                value: 0,
+                salt: '0x01',
+                initcode,
+                factory: CANONICAL_CREATE2_FACTORY.address.toLowerCase(),
+            });
+            expect.unreachable();
+        } catch (error) {
+            expect(isNickMethodError(error, 'NON_CHECKSUM_ADDRESS')).toBe(true);
+        }
+    });
+
+    it('should mine a vanity salt', async () => {
+        const startSalt = '0x1212121212121212121212121212121212121212121212121212121212121212';
+        const result = await mineCreate2Salt({ initcode, startSalt, target: { prefix: 'ab' } });
+        expect(result.contractAddress!.toLowerCase().startsWith('0xab')).toBe(true);
+        expect(computeCreate2Address({ salt: result.salt!, initcode })).toBe(
+            result.contractAddress,
+        );
+        expect(result.attempts).toBeGreaterThan(0);
+
+        const stopped = await mineCreate2Salt(
+            { initcode, target: { prefix: 'ffffffff' } },
+            { maxAttempts: 10, batchSize: 4 },
+        );
+        expect(stopped).toEqual({ salt: undefined, contractAddress: undefined, attempts: 10 });
+
+        await expect(mineCreate2Salt({ initcode, target: {} })).rejects.toThrow(
+            'Vanity target requires a prefix, suffix, regex or leadingZeroBytes',
+        );
+        for (const batchSize of [0, -1, 1.5]) {
+            const error = await mineCreate2Salt(
+                { initcode, target: { prefix: 'ab' } },
+                { batchSize },
+            ).catch((reason: unknown) => reason);
+            expect(isNickMethodError(error, 'INVALID_OPTION') && error.field).toBe('batchSize');
+        }
+    });
+});
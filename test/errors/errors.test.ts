@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { isNickMethodError, NickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import {
+    recoverRawTransaction,
+    safeRecoverRawTransaction,
+} from '../../src/recoverRawTransaction/recoverRawTransaction';
+import { PreflightError } from '../../src/preflight/preflight';
+import { ManifestDriftError } from '../../src/manifest/manifest';
+import { parseQuantity } from '../../src/utils/utils';
+
+function caught(fn: () => unknown): NickMethodError {
+    try {
+        fn();
+    } catch (error) {
+        expect(error).toBeInstanceOf(NickMethodError);
+        return error as NickMethodError;
+    }
+    throw new Error('Expected an error');
+}
+
+describe('NickMethodError', () => {
+    const deployment = { gasLimit: 100000, gasPrice: '100 gwei', bytecode: '0x1234', value: 0 };
+    const transaction = {
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+        data: '0x1234',
+        value: 0,
+    };
+
+    it('should report the code and field of invalid generator inputs', () => {
+        const cases: [() => unknown, string, string][] = [
+            [() => genRawDeployment({ ...deployment, bytecode: '' }), 'MISSING_FIELD', 'bytecode'],
+            [
+                () => genRawDeployment({ ...deployment, bytecode: '0xzz' }),
+                'INVALID_HEX',
+                'bytecode',
+            ],
+            [
+                () => genRawDeployment({ ...deployment, gasPrice: '1 banana' }),
+                'INVALID_QUANTITY',
+                'gasPrice',
+            ],
+            [() => genRawDeployment({ ...deployment, r: '0x00' }), 'INVALID_SIGNATURE', 'r'],
+            [
+                () => genRawTransaction({ ...transaction, to: transaction.to.toLowerCase() }),
+                'NON_CHECKSUM_ADDRESS',
+                'to',
+            ],
+            [() => genRawTransaction({ ...transaction, data: 'zz' }), 'INVALID_HEX', 'data'],
+            [() => genRawTransaction({ ...transaction, s: '0xzz' }), 'INVALID_HEX', 's'],
+        ];
+        for (const [fn, code, field] of cases) {
+            expect(caught(fn)).toMatchObject({ name: 'NickMethodError', code, field });
+        }
+        // Messages keep their previous wording, with the offending field
+        expect(caught(cases[2][0]).message).toBe(
+            'Invalid hex values in config: gasPrice is not a valid quantity',
+        );
+    });
+
+    it('should report decoding failures with their cause', () => {
+        expect(caught(() => recoverRawTransaction('0xzz'))).toMatchObject({
+            code: 'INVALID_HEX',
+            field: 'rawTransaction',
+        });
+        expect(caught(() => recoverRawTransaction('0x05c0')).code).toBe(
+            'UNSUPPORTED_TRANSACTION_TYPE',
+        );
+
+        const truncated = caught(() => recoverRawTransaction('0xf8a5'));
+        expect(truncated.code).toBe('RLP_DECODE_FAILED');
+        expect(truncated.cause).toBeInstanceOf(Error);
+        expect(truncated.message).toContain('Cannot decode rawTransaction');
+
+        const result = safeRecoverRawTransaction('0x02c0');
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.code).toBe('RLP_DECODE_FAILED');
+        }
+    });
+
+    it('should be the base of the other errors of the library', () => {
+        const preflight = caught(() =>
+            genRawDeployment({ ...deployment, gasLimit: 21000 }, { preflight: true }),
+        );
+        expect(preflight).toBeInstanceOf(PreflightError);
+        expect(preflight).toMatchObject({ code: 'PREFLIGHT_FAILED', field: 'gasLimit' });
+
+        expect(new ManifestDriftError([]).code).toBe('MANIFEST_DRIFT');
+        expect(caught(() => parseQuantity(-1)).code).toBe('INVALID_QUANTITY');
+    });
+
+    it('should narrow caught values with isNickMethodError', () => {
+        const error = caught(() => genRawDeployment({ ...deployment, bytecode: '0xzz' }));
+        expect(isNickMethodError(error)).toBe(true);
+        expect(isNickMethodError(error, 'INVALID_HEX')).toBe(true);
+        expect(isNickMethodError(error, 'MISSING_FIELD')).toBe(false);
+        expect(isNickMethodError(new Error('Invalid hex values in config'))).toBe(false);
+    });
+});
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { FeeMarketEIP1559Transaction } from '@ethereumjs/tx';
+import { bufferToHex, toBuffer } from '@ethereumjs/util';
+import { encrypt } from 'ethereum-cryptography/aes';
+import { keccak256 } from 'ethereum-cryptography/keccak';
+import { scrypt } from 'ethereum-cryptography/scrypt';
+import { buildFundingTransactions, planFunding } from '../../src/funding/funding';
+import { decryptKeystore } from '../../src/funding/keystore';
+import { isNickMethodError } from '../../src/errors/errors';
+import { Provider } from '../../src/types/broadcastConfig';
+
+describe('funding', () => {
+    // Key and transaction of the EIP-155 example
+    const privateKey = '0x4646464646464646464646464646464646464646464646464646464646464646';
+    const funder = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+    const result = {
+        deployerAddress: '0x3535353535353535353535353535353535353535',
+        upfrontCost: 10n ** 18n,
+    };
+    const balances = (balance: bigint | Error): Provider =>
+        ({
+            getBalance: async () => {
+                if (balance instanceof Error) {
+                    throw balance;
+                }
+                return balance;
+            },
+        }) as unknown as Provider;
+
+    it('should plan the funding of each chain', async () => {
+        const plan = await planFunding(result, [
+            { chainId: 1, balance: 0 },
+            { chainId: 10, provider: balances(4n * 10n ** 17n) },
+            { chainId: 56, provider: balances(2n * 10n ** 18n) },
+            { chainId: 1337, nativeCurrency: { symbol: 'DEV', decimals: 6 } },
+            { chainId: 137, provider: balances(new Error('rpc down')) },
+        ]);
+
+        expect(plan.address).toBe(result.deployerAddress);
+        expect(plan.upfrontCost).toBe(10n ** 18n);
+        expect(
+            plan.entries.map(({ chainId, amount, formattedAmount, funded }) => ({
+                chainId,
+                amount,
+                formattedAmount,
+                funded,
+            })),
+        ).toEqual([
+            { chainId: 1, amount: 10n ** 18n, formattedAmount: '1 ETH', funded: false },
+            { chainId: 10, amount: 6n * 10n ** 17n, formattedAmount: '0.6 ETH', funded: false },
+            { chainId: 56, amount: 0n, formattedAmount: '0 BNB', funded: true },
+            {
+                chainId: 1337,
+                amount: 10n ** 18n,
+                formattedAmount: '1000000000000 DEV',
+                funded: undefined,
+            },
+            { chainId: 137, amount: 10n ** 18n, formattedAmount: '1 POL', funded: undefined },
+        ]);
+        expect(plan.entries[4].error?.message).toBe('rpc down');
+
+        await expect(planFunding(result, [{ chainId: 424242 }])).rejects.toThrow(
+            'Unknown chain 424242: provide its nativeCurrency',
+        );
+    });
+
+    it('should build and sign EIP-155 funding transactions', async () => {
+        const plan = await planFunding(result, [
+            { chainId: 1, balance: 0 },
+            { chainId: 56, balance: 10n ** 18n },
+        ]);
+        const params = [{ chainId: 1, nonce: 9, gasPrice: '20 gwei' }];
+
+        const [unsigned, ...others] = await buildFundingTransactions(plan, params, {
+            from: funder,
+        });
+        expect(others).toEqual([]);
+        expect(unsigned).toEqual({
+            chainId: 1,
+            type: 'legacy',
+            from: funder,
+            to: result.deployerAddress,
+            value: 10n ** 18n,
+            unsignedTx:
+                '0xec098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a764000080018080',
+            signingHash: '0xdaf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53',
+        });
+
+        const [signed] = await buildFundingTransactions(plan, params, { from: funder, privateKey });
+        expect(signed.rawTx).toBe(
+            '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83',
+        );
+    });
+
+    it('should build EIP-1559 funding transactions', async () => {
+        const plan = await planFunding(result, [{ chainId: 10, balance: 0 }]);
+        const [funding] = await buildFundingTransactions(
+            plan,
+            [{ chainId: 10, nonce: 0, maxFeePerGas: '2 gwei', maxPriorityFeePerGas: '1 gwei' }],
+            { from: funder, privateKey },
+        );
+
+        expect(funding.type).toBe('eip1559');
+        const tx = FeeMarketEIP1559Transaction.fromSerializedTx(toBuffer(funding.rawTx!));
+        expect(tx.chainId).toBe(10n);
+        expect(tx.getSenderAddress().toString()).toBe(funder.toLowerCase());
+        expect(tx.value).toBe(10n ** 18n);
+        expect(bufferToHex(tx.hash())).toBe(funding.hash);
+    });
+
+    it('should reject missing parameters and foreign keys', async () => {
+        const plan = await planFunding(result, [{ chainId: 1, balance: 0 }]);
+
+        await expect(buildFundingTransactions(plan, [], { from: funder })).rejects.toThrow(
+            'Missing funding transaction parameters for chain 1',
+        );
+        await expect(
+            buildFundingTransactions(plan, [{ chainId: 1, nonce: 0 }], { from: funder }),
+        ).rejects.toThrow('gasPrice or maxFeePerGas is required');
+        try {
+            await buildFundingTransactions(plan, [{ chainId: 1, nonce: 0, gasPrice: 1 }], {
+                from: result.deployerAddress,
+                privateKey,
+            });
+            expect.unreachable();
+        } catch (error) {
+            expect(isNickMethodError(error, 'INVALID_OPTION')).toBe(true);
+            expect((error as Error).message).toContain('does not belong to the funder');
+        }
+    });
+
+    describe('keystore', () => {
+        const password = 'testpassword';
+
+        it('should decrypt pbkdf2 keystores', async () => {
+            // Test vector of the Web3 Secret Storage definition
+            const keystore = {
+                crypto: {
+                    cipher: 'aes-128-ctr',
+                    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+                    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+                    kdf: 'pbkdf2',
+                    kdfparams: {
+                        c: 262144,
+                        dklen: 32,
+                        prf: 'hmac-sha256',
+                        salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+                    },
+                    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+                },
+                id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+                version: 3 as const,
+            };
+            expect(await decryptKeystore(JSON.stringify(keystore), password)).toBe(
+                '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d',
+            );
+        });
+
+        it('should sign with a scrypt keystore', async () => {
+            const salt = Buffer.alloc(32, 1);
+            const iv = Buffer.alloc(16, 2);
+            const derivedKey = await scrypt(Buffer.from(password), salt, 1024, 1, 8, 32);
+            const ciphertext = await encrypt(
+                toBuffer(privateKey),
+                derivedKey.subarray(0, 16),
+                iv,
+                'aes-128-ctr',
+                false,
+            );
+            const keystore = {
+                version: 3 as const,
+                crypto: {
+                    cipher: 'aes-128-ctr',
+                    cipherparams: { iv: iv.toString('hex') },
+                    ciphertext: Buffer.from(ciphertext).toString('hex'),
+                    kdf: 'scrypt',
+                    kdfparams: { dklen: 32, n: 1024, r: 8, p: 1, salt: salt.toString('hex') },
+                    mac: Buffer.from(
+                        keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])),
+                    ).toString('hex'),
+                },
+            };
+
+            const plan = await planFunding(result, [{ chainId: 1, balance: 0 }]);
+            const params = [{ chainId: 1, nonce: 9, gasPrice: '20 gwei' }];
+            const [signed] = await buildFundingTransactions(plan, params, {
+                from: funder,
+                keystore: { keystore, password },
+            });
+            expect(signed.rawTx).toMatch(/^0xf86c09/);
+
+            try {
+                await decryptKeystore(keystore, 'wrong');
+                expect.unreachable();
+            } catch (error) {
+                expect(isNickMethodError(error, 'INVALID_KEYSTORE')).toBe(true);
+                expect((error as Error).message).toBe('Cannot decrypt keystore: wrong password');
+            }
+        });
+    });
+});
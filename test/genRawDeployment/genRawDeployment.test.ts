@@ -30,7 +30,8 @@ describe('genRawDeployment', () => {
         const result = genRawDeployment(config);
 
         // Manual calculation: value + (gasLimit * gasPrice)
-        const expectedUpfrontCost = config.value + config.gasLimit * config.gasPrice;
+        const expectedUpfrontCost =
+            BigInt(config.value) + BigInt(config.gasLimit) * BigInt(config.gasPrice);
 
         expect(result.upfrontCost).toBe(expectedUpfrontCost);
     });
@@ -54,11 +55,47 @@ describe('genRawDeployment', () => {
         const result = genRawDeployment(hexConfig);
 
         // Manual calculation: value + (gasLimit * gasPrice)
-        const expectedUpfrontCost = 1000000000000000000 + 100000 * 1000000000;
+        const expectedUpfrontCost = 1000000000000000000n + 100000n * 1000000000n;
 
         expect(result.upfrontCost).toBe(expectedUpfrontCost);
     });
 
+    it('should accept bigint, decimal and unit string values', () => {
+        const result = genRawDeployment({
+            gasLimit: '100000',
+            gasPrice: '1 gwei',
+            bytecode: '0x1234',
+            value: 1000000000000000n,
+        });
+        expect(result).toEqual(
+            genRawDeployment({
+                gasLimit: 100000,
+                gasPrice: 1000000000,
+                bytecode: '0x1234',
+                value: 1000000000000000,
+            }),
+        );
+    });
+
+    it('should calculate upfrontCost without precision loss above 2^53 wei', () => {
+        const result = genRawDeployment({
+            ...validConfig,
+            gasPrice: '25 gwei',
+            value: '1.000000000000000001 ether',
+        });
+        expect(result.upfrontCost).toBe(1000000000000000001n + 100000n * 25000000000n);
+    });
+
+    it('should throw an error for unsafe integer numbers', () => {
+        const unsafeConfig = { ...validConfig, value: 2 ** 53 + 2 };
+        expect(() => genRawDeployment(unsafeConfig)).toThrow('Invalid hex values in config');
+    });
+
+    it('should throw an error for unknown units', () => {
+        const invalidUnitConfig = { ...validConfig, gasPrice: '25 gwai' };
+        expect(() => genRawDeployment(invalidUnitConfig)).toThrow('Invalid hex values in config');
+    });
+
     it('should use hardcoded values for r, s, and v', () => {
         const result = genRawDeployment(validConfig);
         expect(result.r).toBe('0x1212121212121212121212121212121212121212121212121212121212121212');
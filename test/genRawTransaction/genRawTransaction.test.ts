@@ -30,7 +30,8 @@ describe('genRawTransaction', () => {
         const result = genRawTransaction(config);
 
         // Manual calculation: value + (gasLimit * gasPrice)
-        const expectedUpfrontCost = config.value + config.gasLimit * config.gasPrice;
+        const expectedUpfrontCost =
+            BigInt(config.value) + BigInt(config.gasLimit) * BigInt(config.gasPrice);
 
         expect(result.upfrontCost).toBe(expectedUpfrontCost);
     });
@@ -55,11 +56,26 @@ describe('genRawTransaction', () => {
         const result = genRawTransaction(hexConfig);
 
         // Manual calculation: value + (gasLimit * gasPrice)
-        const expectedUpfrontCost = 1000000000000000000 + 100000 * 1000000000;
+        const expectedUpfrontCost = 1000000000000000000n + 100000n * 1000000000n;
 
         expect(result.upfrontCost).toBe(expectedUpfrontCost);
     });
 
+    it('should accept bigint, decimal and unit string values', () => {
+        const result = genRawTransaction({
+            ...validConfig,
+            gasLimit: 100000n,
+            gasPrice: '1 gwei',
+            value: '0.1 ether',
+        });
+        expect(result.upfrontCost).toBe(100000000000000000n + 100000n * 1000000000n);
+    });
+
+    it('should throw an error for negative values', () => {
+        const negativeConfig = { ...validConfig, value: -1n };
+        expect(() => genRawTransaction(negativeConfig)).toThrow('Invalid hex values in config');
+    });
+
     it('should use hardcoded values for r, s, and v when custom r is not provided', () => {
         const result = genRawTransaction(validConfig);
         expect(result.r).toBe('0x1212121212121212121212121212121212121212121212121212121212121212');
@@ -0,0 +1,175 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+    checkManifest,
+    createManifest,
+    ManifestDriftError,
+    parseManifest,
+    readManifest,
+    regenerateManifest,
+    serializeManifest,
+    writeManifest,
+} from '../../src/manifest/manifest';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { version } from '../../package.json';
+
+describe('manifest', () => {
+    const configs = {
+        Factory: {
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            bytecode: '0x1234',
+            value: 0,
+        },
+        Registry: {
+            gasLimit: '0x30d40',
+            gasPrice: 1000000000n,
+            bytecode: '0xABCD',
+            value: '1 wei',
+            r: '0x2222222222222222222222222222222222222222222222222222222222222222',
+        },
+    };
+
+    it('should record inputs, bytecode hash and deployment result', () => {
+        const manifest = createManifest(configs);
+        expect(manifest.version).toBe(1);
+        expect(manifest.generator).toEqual({ name: '@patronumlabs/nick-method', version });
+        expect(Object.keys(manifest.deployments)).toEqual(['Factory', 'Registry']);
+
+        const factory = manifest.deployments.Factory;
+        const expected = genRawDeployment(configs.Factory);
+        expect(factory.config).toEqual({
+            gasLimit: '100000',
+            gasPrice: '100000000000',
+            value: '0',
+            bytecode: '0x1234',
+        });
+        expect(factory.bytecodeHash).toBe(
+            '0x56570de287d73cd1cb6092bb8fdee6173974955fdef345ae579ee9f475ea7432',
+        );
+        expect(factory.result).toEqual({
+            ...expected,
+            upfrontCost: expected.upfrontCost.toString(),
+        });
+        expect(manifest.deployments.Registry.config.r).toBe(configs.Registry.r);
+    });
+
+    it('should round trip through a file', () => {
+        const manifest = createManifest(configs);
+        const path = join(mkdtempSync(join(tmpdir(), 'nick-method-')), 'deployments.json');
+        writeManifest(path, manifest);
+        expect(readManifest(path)).toEqual(manifest);
+    });
+
+    it('should regenerate an unchanged manifest', () => {
+        const manifest = parseManifest(serializeManifest(createManifest(configs)));
+        expect(checkManifest(manifest)).toEqual([]);
+        expect(regenerateManifest(manifest)).toEqual(manifest);
+    });
+
+    it('should accept fresh inputs that do not change the deployment', () => {
+        const manifest = createManifest(configs);
+        expect(
+            regenerateManifest(manifest, {
+                Factory: { bytecode: '0x1234', gasPrice: 100000000000 },
+            }),
+        ).toEqual(manifest);
+    });
+
+    it('should fail loudly when the bytecode changes', () => {
+        const manifest = createManifest(configs);
+        expect(() => regenerateManifest(manifest, { Factory: { bytecode: '0x123456' } })).toThrow(
+            ManifestDriftError,
+        );
+
+        const drifts = checkManifest(manifest, { Factory: { bytecode: '0x123456' } });
+        expect(drifts).toHaveLength(1);
+        expect(drifts[0].name).toBe('Factory');
+        expect(drifts[0].causes).toEqual(['bytecode']);
+        expect(drifts[0].committed.contractAddress).toBe(
+            manifest.deployments.Factory.result.contractAddress,
+        );
+        expect(drifts[0].regenerated.contractAddress).not.toBe(drifts[0].committed.contractAddress);
+    });
+
+    it('should fail loudly when gas parameters change', () => {
+        const manifest = createManifest(configs);
+        const drifts = checkManifest(manifest, {
+            Registry: { gasLimit: 300000, gasPrice: '2 gwei' },
+        });
+        expect(drifts.map((drift) => drift.causes)).toEqual([['gasLimit', 'gasPrice']]);
+        try {
+            regenerateManifest(manifest, { Registry: { gasLimit: 300000 } });
+            expect.unreachable();
+        } catch (error) {
+            expect((error as ManifestDriftError).drifts[0].causes).toEqual(['gasLimit']);
+            expect((error as Error).message).toContain('Registry (gasLimit)');
+        }
+    });
+
+    it('should detect a bytecode edited in the committed inputs', () => {
+        const manifest = createManifest(configs);
+        manifest.deployments.Factory.config.bytecode = '0x5678';
+        expect(checkManifest(manifest)[0].causes).toEqual(['bytecode']);
+    });
+
+    it('should blame the library version when the result changes for the same inputs', () => {
+        const manifest = createManifest(configs);
+        manifest.generator.version = '0.0.1';
+        manifest.deployments.Factory.result.contractAddress =
+            '0x0000000000000000000000000000000000000001';
+        expect(checkManifest(manifest)[0].causes).toEqual(['generator']);
+
+        manifest.generator.version = version;
+        expect(checkManifest(manifest)[0].causes).toEqual(['result']);
+    });
+
+    it('should keep constructor arguments apart from the bytecode', () => {
+        const abi = [
+            { type: 'constructor', inputs: [{ name: 'owner', type: 'uint256' }] },
+        ] as const;
+        const manifest = createManifest({
+            Token: { gasLimit: 100000, gasPrice: 1, bytecode: '0x1234', value: 0, abi, args: [7n] },
+        });
+        const token = manifest.deployments.Token;
+        expect(token.config.bytecode).toBe('0x1234');
+        expect(token.config.constructorArgs).toBe(`0x${'7'.padStart(64, '0')}`);
+        expect(token.result.rawTx).toBe(
+            genRawDeployment({
+                gasLimit: 100000,
+                gasPrice: 1,
+                bytecode: `0x1234${'7'.padStart(64, '0')}`,
+                value: 0,
+            }).rawTx,
+        );
+
+        // The same abi and args, or fresh bytecode alone, encode the arguments only once
+        expect(checkManifest(manifest, { Token: { abi, args: [7n] } })).toEqual([]);
+        expect(checkManifest(manifest, { Token: { bytecode: '0x1234' } })).toEqual([]);
+        expect(checkManifest(manifest, { Token: { abi, args: [8n] } })[0].causes).toEqual([
+            'constructorArgs',
+        ]);
+    });
+
+    it('should reject overrides for unknown deployments', () => {
+        const manifest = createManifest(configs);
+        expect(() => regenerateManifest(manifest, { Unknown: { bytecode: '0x00' } })).toThrow(
+            'No deployment named "Unknown" in the manifest',
+        );
+    });
+
+    it('should reject unsupported or malformed manifests', () => {
+        expect(() => parseManifest('{"version":2}')).toThrow('Unsupported manifest version 2');
+        expect(() =>
+            parseManifest(
+                JSON.stringify({
+                    version: 1,
+                    generator: { name: 'x', version: '1' },
+                    deployments: { A: { config: {} } },
+                }),
+            ),
+        ).toThrow('Invalid manifest entry "A"');
+    });
+});
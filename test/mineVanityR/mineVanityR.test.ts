@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it, vi } from 'vitest';
+import { mineVanityR } from '../../src/mineVanityR/mineVanityR';
+import { isValidXCoordinate } from '../../src/signature/signature';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { VanityConfig } from '../../src/types/vanityConfig';
+
+describe('mineVanityR', () => {
+    const deploymentConfig = {
+        gasLimit: 100000,
+        gasPrice: 1000000000,
+        bytecode: '0x1234',
+        value: 0,
+    };
+
+    const startR = '0x1212121212121212121212121212121212121212121212121212121212121212';
+
+    it('should find an r value for a contract address prefix', async () => {
+        const result = await mineVanityR(
+            { ...deploymentConfig, startR, target: { field: 'contractAddress', prefix: 'ab' } },
+            { workers: 0 },
+        );
+        expect(result.deployment).toBeDefined();
+        expect(result.deployment!.contractAddress.toLowerCase().startsWith('0xab')).toBe(true);
+        expect(result.attempts).toBeGreaterThan(0);
+    });
+
+    it('should find an r value for a deployer address suffix', async () => {
+        const result = await mineVanityR(
+            { ...deploymentConfig, startR, target: { field: 'deployerAddress', suffix: 'cd' } },
+            { workers: 0 },
+        );
+        expect(result.deployment!.deployerAddress.toLowerCase().endsWith('cd')).toBe(true);
+    });
+
+    it('should find an r value for leading zero bytes', async () => {
+        const result = await mineVanityR(
+            {
+                ...deploymentConfig,
+                startR,
+                target: { field: 'contractAddress', leadingZeroBytes: 1 },
+            },
+            { workers: 0 },
+        );
+        expect(result.deployment!.contractAddress.startsWith('0x00')).toBe(true);
+    });
+
+    it('should find an r value for a regex', async () => {
+        const result = await mineVanityR(
+            { ...deploymentConfig, startR, target: { field: 'deployerAddress', regex: '^0x.f' } },
+            { workers: 0 },
+        );
+        expect(result.deployment!.deployerAddress).toMatch(/^0x.f/i);
+    });
+
+    it('should match case sensitive prefixes against the checksummed address', async () => {
+        const result = await mineVanityR(
+            {
+                ...deploymentConfig,
+                startR,
+                target: { field: 'contractAddress', prefix: 'Ab', caseSensitive: true },
+            },
+            { workers: 0 },
+        );
+        expect(result.deployment!.contractAddress.startsWith('0xAb')).toBe(true);
+    });
+
+    it('should return an r value that reproduces the deployment', async () => {
+        const result = await mineVanityR(
+            { ...deploymentConfig, startR, target: { field: 'contractAddress', prefix: 'f' } },
+            { workers: 0 },
+        );
+        const deployment = result.deployment!;
+        expect(isValidXCoordinate(BigInt(deployment.r))).toBe(true);
+        expect(genRawDeployment({ ...deploymentConfig, r: deployment.r })).toEqual(deployment);
+    });
+
+    it('should search in parallel on worker threads', async () => {
+        const result = await mineVanityR(
+            { ...deploymentConfig, target: { field: 'contractAddress', prefix: '42' } },
+            { workers: 2, batchSize: 50 },
+        );
+        expect(result.deployment!.contractAddress.toLowerCase().startsWith('0x42')).toBe(true);
+    }, 60000);
+
+    it('should stop after maxAttempts and resume from the checkpoint', async () => {
+        const config = {
+            ...deploymentConfig,
+            startR,
+            target: { field: 'contractAddress' as const, prefix: '12' },
+        };
+        const uninterrupted = await mineVanityR(config, { workers: 0, batchSize: 20 });
+
+        const stopped = await mineVanityR(config, { workers: 0, batchSize: 20, maxAttempts: 5 });
+        expect(stopped.deployment).toBeUndefined();
+        expect(stopped.checkpoint.nextIndex).toBe('20');
+
+        const resumed = await mineVanityR(
+            { ...config, startR: undefined },
+            { workers: 0, batchSize: 20, checkpoint: stopped.checkpoint },
+        );
+        expect(resumed.deployment).toEqual(uninterrupted.deployment);
+        expect(resumed.attempts).toBe(uninterrupted.attempts);
+    }, 60000);
+
+    it('should survive a JSON round trip of the checkpoint', async () => {
+        const config = {
+            ...deploymentConfig,
+            startR,
+            target: { field: 'deployerAddress' as const, prefix: 'fff' },
+        };
+        const stopped = await mineVanityR(config, { workers: 0, batchSize: 10, maxAttempts: 1 });
+        const checkpoint = JSON.parse(JSON.stringify(stopped.checkpoint));
+        const resumed = await mineVanityR(config, {
+            workers: 0,
+            batchSize: 10,
+            maxAttempts: 20,
+            checkpoint,
+        });
+        expect(BigInt(resumed.checkpoint.nextIndex)).toBeGreaterThan(BigInt(checkpoint.nextIndex));
+    });
+
+    it('should reject a checkpoint from a different deployment', async () => {
+        const target = { field: 'contractAddress' as const, prefix: 'fff' };
+        const stopped = await mineVanityR(
+            { ...deploymentConfig, startR, target },
+            { workers: 0, batchSize: 10, maxAttempts: 1 },
+        );
+        await expect(
+            mineVanityR(
+                { ...deploymentConfig, bytecode: '0x5678', target },
+                { workers: 0, checkpoint: stopped.checkpoint },
+            ),
+        ).rejects.toThrow('Checkpoint does not belong to this deployment and target');
+    });
+
+    it('should report progress', async () => {
+        const reports: number[] = [];
+        await mineVanityR(
+            { ...deploymentConfig, startR, target: { field: 'contractAddress', prefix: 'ffff' } },
+            {
+                workers: 0,
+                batchSize: 10,
+                maxAttempts: 30,
+                progressInterval: 0,
+                onProgress: (progress) => {
+                    expect(progress.difficulty).toBe(65536);
+                    expect(progress.probability).toBeGreaterThan(0);
+                    expect(progress.etaMs).toBeGreaterThan(0);
+                    reports.push(progress.attempts);
+                },
+            },
+        );
+        expect(reports.length).toBeGreaterThan(0);
+    });
+
+    it('should stop when aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const result = await mineVanityR(
+            { ...deploymentConfig, target: { field: 'contractAddress', prefix: 'ffffffffff' } },
+            { workers: 0, signal: controller.signal },
+        );
+        expect(result.deployment).toBeUndefined();
+        expect(result.attempts).toBe(0);
+    });
+
+    it('should throw for invalid targets', async () => {
+        await expect(
+            mineVanityR({ ...deploymentConfig, target: { field: 'contractAddress' } }),
+        ).rejects.toThrow('Vanity target requires a prefix, suffix, regex or leadingZeroBytes');
+        await expect(
+            mineVanityR({
+                ...deploymentConfig,
+                target: { field: 'contractAddress', prefix: 'zz' },
+            }),
+        ).rejects.toThrow('Vanity target prefix must be 1 to 40 hex characters');
+        await expect(
+            mineVanityR({ ...deploymentConfig, target: { field: 'contractAddress', regex: '(' } }),
+        ).rejects.toThrow('Invalid vanity target regex');
+    });
+
+    it('should throw for invalid worker counts and batch sizes', async () => {
+        const config = { ...deploymentConfig, target: { field: 'contractAddress', prefix: 'ab' } };
+        for (const options of [{ batchSize: 0 }, { batchSize: 1.5 }, { workers: -1 }]) {
+            await expect(mineVanityR(config as VanityConfig, options)).rejects.toMatchObject({
+                code: 'INVALID_OPTION',
+                field: Object.keys(options)[0],
+            });
+        }
+    });
+
+    it('should reject when a worker thread crashes', async () => {
+        class CrashingWorker extends EventEmitter {
+            constructor() {
+                super();
+                setImmediate(() => this.emit('exit', 1));
+            }
+            postMessage() {}
+            async terminate() {
+                return 1;
+            }
+        }
+        vi.resetModules();
+        vi.doMock('worker_threads', () => ({ Worker: CrashingWorker }));
+        try {
+            const { mineVanityR: mine } = await import('../../src/mineVanityR/mineVanityR');
+            await expect(
+                mine(
+                    { ...deploymentConfig, target: { field: 'contractAddress', prefix: 'ab' } },
+                    { workers: 1 },
+                ),
+            ).rejects.toThrow('Vanity worker exited with code 1');
+        } finally {
+            vi.doUnmock('worker_threads');
+        }
+    });
+
+    it('should throw for invalid deployment parameters', async () => {
+        await expect(
+            mineVanityR({
+                ...deploymentConfig,
+                bytecode: 'not-a-hex-string',
+                target: { field: 'contractAddress', prefix: 'ab' },
+            }),
+        ).rejects.toThrow('Invalid hex values in config');
+    });
+});
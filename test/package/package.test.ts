@@ -0,0 +1,75 @@
+import { execFile } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { build } from 'tsup';
+import { promisify } from 'util';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { define } from '../../tsup.config';
+import { name, version } from '../../package.json';
+
+/**
+ * Loads a built entry point in a separate Node process, with Node's own module resolution.
+ */
+async function load(code: string, type: 'module' | 'commonjs'): Promise<string> {
+    const { stdout } = await promisify(execFile)(
+        process.execPath,
+        ['--input-type', type, '-e', code],
+        {
+            cwd: join(__dirname, '../..'),
+        },
+    );
+    return stdout.trim();
+}
+
+describe('built package', () => {
+    // Inside node_modules, so that the bundles resolve the dependencies like an installed package
+    const outDir = mkdtempSync(join(__dirname, '../../node_modules/.nick-method-dist-'));
+
+    beforeAll(async () => {
+        await build({
+            config: false,
+            entry: { index: 'src/index.ts', browser: 'src/browser.ts' },
+            format: ['cjs', 'esm'],
+            shims: true,
+            target: 'es2020',
+            define,
+            outDir,
+            silent: true,
+        });
+    }, 120000);
+    afterAll(() => {
+        rmSync(outDir, { recursive: true, force: true });
+    });
+
+    const print =
+        'typeof nickMethod.genRawDeployment + " " + typeof nickMethod.recoverRawTransaction';
+
+    it('should import the ESM entry points under Node', async () => {
+        for (const entry of ['index.mjs', 'browser.mjs']) {
+            const url = `file://${join(outDir, entry)}`;
+            expect(
+                await load(
+                    `const nickMethod = await import('${url}'); console.log(${print});`,
+                    'module',
+                ),
+            ).toBe('function function');
+        }
+    });
+
+    it('should inline the package name and version instead of package.json', async () => {
+        const path = JSON.stringify(join(outDir, 'index.js'));
+        const generator = await load(
+            `const { createManifest } = require(${path}); console.log(JSON.stringify(createManifest({}).generator));`,
+            'commonjs',
+        );
+        expect(JSON.parse(generator)).toEqual({ name, version });
+        expect(readFileSync(join(outDir, 'browser.mjs'), 'utf8')).not.toContain('devDependencies');
+    });
+
+    it('should require the CommonJS entry point', async () => {
+        const path = JSON.stringify(join(outDir, 'index.js'));
+        expect(
+            await load(`const nickMethod = require(${path}); console.log(${print});`, 'commonjs'),
+        ).toBe('function function');
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { PreflightError, preflight } from '../../src/preflight/preflight';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+
+describe('preflight', () => {
+    const deployment = {
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        // PUSH1 0x00 PUSH1 0x00 RETURN
+        bytecode: '0x60006000f3',
+        value: 0,
+    };
+    const transaction = {
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        to: '0x4e59b44847b379578588920cA78FbF26c0B4956C',
+        data: '0x0000ff',
+        value: 0,
+    };
+    const codes = (issues: { code: string }[]) => issues.map((issue) => issue.code);
+
+    it('should pass a valid deployment', () => {
+        const report = preflight(deployment);
+        expect(report).toEqual({
+            ok: true,
+            errors: [],
+            warnings: [],
+            // 21000 + 32000 CREATE + 3 non-zero bytes * 16 + 2 zero bytes * 4 + 1 initcode word * 2
+            intrinsicGas: 53058n,
+            serializedSize: (genRawDeployment(deployment).rawTx.length - 2) / 2,
+        });
+    });
+
+    it('should compute the intrinsic gas of a transaction', () => {
+        // 21000 + 2 zero bytes * 4 + 1 non-zero byte * 16
+        expect(preflight(transaction).intrinsicGas).toBe(21024n);
+        // Before Istanbul, non-zero bytes cost 68
+        expect(preflight(transaction, { hardfork: 'byzantium' }).intrinsicGas).toBe(21076n);
+    });
+
+    it('should report a gas limit below the intrinsic gas', () => {
+        const report = preflight({ ...deployment, gasLimit: 53057 });
+        expect(report.ok).toBe(false);
+        expect(report.errors).toEqual([
+            {
+                code: 'INTRINSIC_GAS_TOO_HIGH',
+                field: 'gasLimit',
+                message: 'The intrinsic gas of 53058 exceeds the gas limit of 53057',
+            },
+        ]);
+        // Before Shanghai, initcode words are free
+        expect(preflight({ ...deployment, gasLimit: 53057 }, { hardfork: 'london' }).ok).toBe(true);
+    });
+
+    it('should report oversized initcode, runtime code and transactions', () => {
+        const initcode = preflight({
+            ...deployment,
+            gasLimit: 30000000,
+            bytecode: `0x${'ff'.repeat(49153)}`,
+        });
+        expect(codes(initcode.errors)).toEqual(['INITCODE_TOO_LARGE']);
+        expect(codes(initcode.warnings)).toEqual(['RUNTIME_CODE_TOO_LARGE']);
+        expect(initcode.warnings[0].message).toContain('may exceed');
+
+        const runtime = preflight({
+            ...deployment,
+            gasLimit: 30000000,
+            bytecode: `0x6080604052f3fe6080604052${'ff'.repeat(24600)}`,
+        });
+        expect(runtime.ok).toBe(true);
+        expect(codes(runtime.warnings)).toEqual(['RUNTIME_CODE_TOO_LARGE']);
+        expect(runtime.warnings[0].message).toContain('about 24605 bytes');
+
+        // Runtime code just under the limit, followed by large constructor arguments
+        const withArgs = {
+            ...deployment,
+            gasLimit: 30000000,
+            bytecode: `0x6080604052f3fe6080604052${'ff'.repeat(24500)}${'00'.repeat(640)}`,
+        };
+        expect(() => genRawDeployment(withArgs, { preflight: true })).not.toThrow();
+
+        const oversized = preflight({
+            ...transaction,
+            gasLimit: 30000000,
+            data: `0x${'ff'.repeat(131072)}`,
+        });
+        expect(codes(oversized.errors)).toEqual(['TX_TOO_LARGE']);
+    });
+
+    it('should warn about suspicious gas prices and hex lengths', () => {
+        expect(codes(preflight({ ...deployment, gasPrice: 0 }).warnings)).toEqual([
+            'ZERO_GAS_PRICE',
+        ]);
+        expect(codes(preflight({ ...deployment, gasPrice: '0.1 ether' }).warnings)).toEqual([
+            'HIGH_GAS_PRICE',
+        ]);
+        expect(
+            preflight({ ...deployment, gasPrice: '200 gwei' }, { maxGasPrice: '150 gwei' })
+                .warnings,
+        ).toHaveLength(1);
+
+        const odd = preflight({ ...transaction, data: '0x123' });
+        expect(odd.ok).toBe(true);
+        expect(odd.warnings).toEqual([
+            {
+                code: 'ODD_HEX_LENGTH',
+                field: 'data',
+                message:
+                    'data has an odd number of hex characters and will be left-padded with a zero',
+            },
+        ]);
+    });
+
+    it('should report malformed inputs', () => {
+        const report = preflight({ ...deployment, gasLimit: 'lots', bytecode: 'bytecode' });
+        expect(report.ok).toBe(false);
+        expect(codes(report.errors)).toEqual(['INVALID_QUANTITY', 'INVALID_HEX']);
+        expect(report.intrinsicGas).toBeUndefined();
+    });
+
+    it('should report a missing or invalid recipient', () => {
+        const invalid = preflight({ ...transaction, to: 'zzz' });
+        expect(invalid.ok).toBe(false);
+        expect(invalid.errors).toEqual([
+            {
+                code: 'NON_CHECKSUM_ADDRESS',
+                field: 'to',
+                message: 'to is not a valid checksummed address',
+            },
+        ]);
+        expect(invalid.serializedSize).toBeUndefined();
+        expect(
+            codes(preflight({ ...transaction, to: transaction.to.toLowerCase() }).errors),
+        ).toEqual(['NON_CHECKSUM_ADDRESS']);
+
+        const { to: _, ...missing } = transaction;
+        expect(codes(preflight(missing as typeof transaction).errors)).toEqual(['MISSING_FIELD']);
+    });
+
+    it('should be opt-in from the generators', () => {
+        const tooLow = { ...deployment, gasLimit: 50000 };
+        expect(genRawDeployment(tooLow).rawTx).toMatch(/^0x/);
+        expect(() => genRawDeployment(tooLow, { preflight: true })).toThrow(PreflightError);
+        expect(() =>
+            genRawDeployment(tooLow, { preflight: { hardfork: 'frontier' } }),
+        ).not.toThrow();
+
+        try {
+            genRawTransaction({ ...transaction, gasLimit: 21000 }, { preflight: true });
+            expect.unreachable();
+        } catch (error) {
+            expect((error as PreflightError).report.intrinsicGas).toBe(21024n);
+            expect((error as Error).message).toContain('exceeds the gas limit of 21000');
+        }
+    });
+});
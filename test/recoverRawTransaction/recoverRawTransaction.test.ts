@@ -1,6 +1,26 @@
 import { describe, expect, it } from 'vitest';
-import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
-import { Transaction } from '@ethereumjs/tx';
+import {
+    recoverRawTransaction,
+    safeRecoverRawTransaction,
+} from '../../src/recoverRawTransaction/recoverRawTransaction';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { Common } from '@ethereumjs/common';
+import { RLP } from '@ethereumjs/rlp';
+import {
+    AccessListEIP2930Transaction,
+    FeeMarketEIP1559Transaction,
+    Transaction,
+} from '@ethereumjs/tx';
+import {
+    bigIntToUnpaddedBuffer,
+    bufferToHex,
+    ecsign,
+    generateAddress,
+    privateToAddress,
+    toChecksumAddress,
+} from '@ethereumjs/util';
+import { keccak256 } from 'ethereum-cryptography/keccak';
 
 describe('recoverRawTransaction', () => {
     function createRawTransaction(params: any) {
@@ -35,11 +55,11 @@ describe('recoverRawTransaction', () => {
 
     it('should correctly recover transaction details', () => {
         const result = recoverRawTransaction(validRawTx);
-        expect(result.nonce).toBe(0);
-        expect(result.gasPrice).toBe(1000000000);
-        expect(result.gasLimit).toBe(100000);
+        expect(result.nonce).toBe(0n);
+        expect(result.gasPrice).toBe(1000000000n);
+        expect(result.gasLimit).toBe(100000n);
         expect(result.to).toBe('0x742d35cc6634c0532925a3b844bc454e4438f44e');
-        expect(result.value).toBe(1000000000000000);
+        expect(result.value).toBe(1000000000000000n);
         expect(result.data).toBe('0x1234');
     });
 
@@ -79,7 +99,7 @@ describe('recoverRawTransaction', () => {
             data: '0x1234',
         });
         const result = recoverRawTransaction(highGasPriceTx);
-        expect(result.gasPrice).toBe(2000000000);
+        expect(result.gasPrice).toBe(2000000000n);
     });
 
     it('should handle transactions with different gas limits', () => {
@@ -92,7 +112,7 @@ describe('recoverRawTransaction', () => {
             data: '0x1234',
         });
         const result = recoverRawTransaction(highGasLimitTx);
-        expect(result.gasLimit).toBe(200000);
+        expect(result.gasLimit).toBe(200000n);
     });
 
     it('should handle transactions with different values', () => {
@@ -105,7 +125,20 @@ describe('recoverRawTransaction', () => {
             data: '0x1234',
         });
         const result = recoverRawTransaction(highValueTx);
-        expect(result.value).toBe(2000000000000000);
+        expect(result.value).toBe(2000000000000000n);
+    });
+
+    it('should recover values above 2^53 wei without precision loss', () => {
+        const largeValueTx = createRawTransaction({
+            nonce: 0,
+            gasPrice: 1000000000,
+            gasLimit: 100000,
+            to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+            value: 1234567890123456789n,
+            data: '0x1234',
+        });
+        const result = recoverRawTransaction(largeValueTx);
+        expect(result.value).toBe(1234567890123456789n);
     });
 
     it('should handle transactions with different data', () => {
@@ -131,7 +164,7 @@ describe('recoverRawTransaction', () => {
             data: '0x1234',
         });
         const result = recoverRawTransaction(highNonceTx);
-        expect(result.nonce).toBe(10);
+        expect(result.nonce).toBe(10n);
     });
 
     it('should handle transactions with very long data', () => {
@@ -153,16 +186,249 @@ describe('recoverRawTransaction', () => {
         const rawTx =
             '0xf8a58085174876e800830186a08080b853604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf31ba02222222222222222222222222222222222222222222222222222222222222222a02222222222222222222222222222222222222222222222222222222222222222';
         const result = recoverRawTransaction(rawTx);
-        expect(result.nonce).toBe(0);
+        expect(result.nonce).toBe(0n);
         expect(result.data).toBe(
             '0x604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3',
         );
-        expect(result.gasLimit).toBe(100000);
-        expect(result.gasPrice).toBe(100000000000);
-        expect(result.value).toBe(0);
+        expect(result.gasLimit).toBe(100000n);
+        expect(result.gasPrice).toBe(100000000000n);
+        expect(result.value).toBe(0n);
         expect(result.v).toBe('0x1b');
         expect(result.r).toBe('0x2222222222222222222222222222222222222222222222222222222222222222');
         expect(result.s).toBe('0x2222222222222222222222222222222222222222222222222222222222222222');
         expect(result.to).toBeUndefined();
     });
+
+    it('should recover the sender, hashes and contract address of Nick Factory Transaction', () => {
+        const rawTx =
+            '0xf8a58085174876e800830186a08080b853604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf31ba02222222222222222222222222222222222222222222222222222222222222222a02222222222222222222222222222222222222222222222222222222222222222';
+        const result = recoverRawTransaction(rawTx);
+        expect(result.senderAddress).toBe('0x3fAB184622Dc19b6109349B94811493BF2a45362');
+        expect(result.contractAddress).toBe('0x4e59b44847b379578588920cA78FbF26c0B4956C');
+        expect(result.hash).toBe(
+            '0xeddf9e61fb9d8f5111840daef55e5fde0041f5702856532cdbb5a02998033d26',
+        );
+        expect(result.signingHash).toMatch(/^0x[0-9a-f]{64}$/);
+        expect(result.upfrontCost).toBe(10000000000000000n);
+        expect(result.replayProtected).toBe(false);
+        expect(result.chainId).toBeUndefined();
+        expect(result.signatureKind).toBe('other');
+    });
+
+    it('should classify the signatures generated by the library', () => {
+        const config = { gasLimit: 100000, gasPrice: '100 gwei', bytecode: '0x1234', value: 0 };
+        const deployment = genRawDeployment(config);
+        const recovered = recoverRawTransaction(deployment.rawTx);
+        expect(recovered.signatureKind).toBe('default');
+        expect(recovered.senderAddress).toBe(deployment.deployerAddress);
+        expect(recovered.contractAddress).toBe(deployment.contractAddress);
+        expect(recovered.upfrontCost).toBe(deployment.upfrontCost);
+
+        const custom = genRawDeployment({
+            ...config,
+            r: '0x2222222222222222222222222222222222222222222222222222222222222222',
+        });
+        expect(recoverRawTransaction(custom.rawTx).signatureKind).toBe('custom-r');
+        for (const signature of [
+            { s: '0x2222222222222222222222222222222222222222222222222222222222222222' },
+            { v: 28 },
+            { r: custom.r, v: 28 },
+        ]) {
+            const generated = genRawDeployment({ ...config, ...signature });
+            expect(recoverRawTransaction(generated.rawTx).signatureKind).toBe('custom');
+        }
+        expect(recoverRawTransaction(validRawTx).signatureKind).toBe('unsigned');
+    });
+
+    it('should hash unsigned legacy transactions for signing without a chain id', () => {
+        const result = recoverRawTransaction(validRawTx);
+        const fields = (RLP.decode(validRawTx) as Uint8Array[]).slice(0, 6);
+        expect(result.replayProtected).toBe(false);
+        expect(result.signingHash).toBe(bufferToHex(Buffer.from(keccak256(RLP.encode(fields)))));
+
+        // A keyless signature over that hash recovers the same fields
+        const deployment = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: 1,
+            bytecode: '0x00',
+            value: 0,
+        });
+        const unsigned = bufferToHex(
+            Buffer.from(RLP.encode((RLP.decode(deployment.rawTx) as Uint8Array[]).slice(0, 6))),
+        );
+        expect(recoverRawTransaction(unsigned).signingHash).toBe(
+            recoverRawTransaction(deployment.rawTx).signingHash,
+        );
+    });
+
+    it('should recover replay-protected transactions of any chain', () => {
+        const privateKey = Buffer.alloc(32, 1);
+        const polygon = Common.custom({ chainId: 137 });
+        const signed = Transaction.fromTxData(
+            {
+                nonce: 3,
+                gasPrice: 1,
+                gasLimit: 21000,
+                to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+            },
+            { common: polygon },
+        ).sign(privateKey);
+
+        const result = recoverRawTransaction('0x' + signed.serialize().toString('hex'));
+        expect(result.chainId).toBe(137n);
+        expect(result.replayProtected).toBe(true);
+        expect(result.signatureKind).toBe('other');
+        expect(result.senderAddress?.toLowerCase()).toBe(signed.getSenderAddress().toString());
+        expect(result.hash).toBe('0x' + signed.hash().toString('hex'));
+        expect(result.contractAddress).toBeUndefined();
+    });
+
+    it('should return errors instead of throwing with safeRecoverRawTransaction', () => {
+        const results = ['0xf8a5', 'not-a-hex-string', validRawTx].map(safeRecoverRawTransaction);
+        expect(results.map((result) => result.success)).toEqual([false, false, true]);
+        if (!results[1].success) {
+            expect(results[1].error.message).toBe('Invalid hex value for rawTransaction');
+        }
+        if (results[2].success) {
+            expect(results[2].data.gasLimit).toBe(100000n);
+        }
+    });
+
+    describe('typed transactions', () => {
+        const privateKey = Buffer.alloc(32, 1);
+        const sender = bufferToHex(privateToAddress(privateKey));
+        const common = Common.custom({ chainId: 10 });
+        const accessList = [
+            {
+                address: '0x742d35cc6634c0532925a3b844bc454e4438f44e',
+                storageKeys: [`0x${'00'.repeat(31)}01`],
+            },
+        ];
+
+        it('should decode EIP-2930 transactions', () => {
+            const signed = AccessListEIP2930Transaction.fromTxData(
+                {
+                    nonce: 1,
+                    gasPrice: 1000000000,
+                    gasLimit: 50000,
+                    to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+                    data: '0x1234',
+                    accessList,
+                },
+                { common },
+            ).sign(privateKey);
+
+            const result = recoverRawTransaction(bufferToHex(signed.serialize()));
+            expect(result.type).toBe('eip2930');
+            if (result.type !== 'eip2930') return;
+            expect(result.chainId).toBe(10n);
+            expect(result.gasPrice).toBe(1000000000n);
+            expect(result.upfrontCost).toBe(50000000000000n);
+            expect(result.accessList).toEqual(accessList);
+            expect(result.senderAddress?.toLowerCase()).toBe(sender);
+            expect(result.hash).toBe(bufferToHex(signed.hash()));
+            expect(result.replayProtected).toBe(true);
+            expect(result.signatureKind).toBe('other');
+        });
+
+        it('should decode EIP-1559 deployments', () => {
+            const signed = FeeMarketEIP1559Transaction.fromTxData(
+                {
+                    nonce: 5,
+                    maxPriorityFeePerGas: 2,
+                    maxFeePerGas: 30,
+                    gasLimit: 100000,
+                    value: 7,
+                    data: '0x60006000f3',
+                },
+                { common },
+            ).sign(privateKey);
+
+            const result = recoverRawTransaction(bufferToHex(signed.serialize()));
+            expect(result).toMatchObject({
+                type: 'eip1559',
+                chainId: 10n,
+                nonce: 5n,
+                maxPriorityFeePerGas: 2n,
+                maxFeePerGas: 30n,
+                upfrontCost: 3000007n,
+                to: undefined,
+                accessList: [],
+                signingHash: bufferToHex(signed.getMessageToSign(true)),
+            });
+            expect(result.contractAddress).toBe(
+                toChecksumAddress(
+                    bufferToHex(generateAddress(privateToAddress(privateKey), Buffer.from([5]))),
+                ),
+            );
+
+            const unsigned = recoverRawTransaction(
+                bufferToHex(FeeMarketEIP1559Transaction.fromTxData({}, { common }).serialize()),
+            );
+            expect(unsigned.signatureKind).toBe('unsigned');
+            expect(unsigned.senderAddress).toBeUndefined();
+        });
+
+        it('should decode EIP-4844 transactions in canonical and network form', () => {
+            const blobHash = `0x01${'ab'.repeat(31)}`;
+            const fields = [
+                bigIntToUnpaddedBuffer(1n),
+                bigIntToUnpaddedBuffer(0n),
+                bigIntToUnpaddedBuffer(2n),
+                bigIntToUnpaddedBuffer(30n),
+                bigIntToUnpaddedBuffer(21000n),
+                Buffer.from('742d35cc6634c0532925a3b844bc454e4438f44e', 'hex'),
+                bigIntToUnpaddedBuffer(0n),
+                Buffer.alloc(0),
+                [],
+                bigIntToUnpaddedBuffer(10n),
+                [Buffer.from(blobHash.slice(2), 'hex')],
+            ];
+            const encode = (payload: unknown) =>
+                Buffer.concat([Buffer.from([3]), RLP.encode(payload as Uint8Array[])]);
+            const signingHash = Buffer.from(keccak256(encode(fields)));
+            const { v, r, s } = ecsign(signingHash, privateKey);
+            const signed = [...fields, bigIntToUnpaddedBuffer(v - 27n), r, s];
+
+            const result = recoverRawTransaction(bufferToHex(encode(signed)));
+            expect(result).toMatchObject({
+                type: 'eip4844',
+                chainId: 1n,
+                to: '0x742d35cc6634c0532925a3b844bc454e4438f44e',
+                maxFeePerBlobGas: 10n,
+                blobVersionedHashes: [blobHash],
+                // 21000 * 30 + 131072 blob gas * 10
+                upfrontCost: 1940720n,
+                signingHash: bufferToHex(signingHash),
+                hash: bufferToHex(Buffer.from(keccak256(encode(signed)))),
+                contractAddress: undefined,
+                signatureKind: 'other',
+            });
+            expect(result.senderAddress?.toLowerCase()).toBe(sender);
+
+            const network = recoverRawTransaction(bufferToHex(encode([signed, [], [], []])));
+            expect(network).toEqual(result);
+
+            const failure = (payload: unknown[]) => {
+                try {
+                    recoverRawTransaction(bufferToHex(encode(payload)));
+                } catch (error) {
+                    return isNickMethodError(error) ? error.code : error;
+                }
+            };
+            expect(failure([...fields, bigIntToUnpaddedBuffer(2n), r, s])).toBe(
+                'INVALID_SIGNATURE',
+            );
+            const shortHash = [Buffer.from(blobHash.slice(4), 'hex')];
+            expect(failure([...fields.slice(0, 10), shortHash, ...signed.slice(11)])).toBe(
+                'INVALID_HEX',
+            );
+        });
+
+        it('should reject unknown transaction types', () => {
+            expect(() => recoverRawTransaction('0x04c0')).toThrow(
+                'Unsupported transaction type 0x04',
+            );
+        });
+    });
 });
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { ecrecover, setLengthLeft, toBuffer } from '@ethereumjs/util';
+import {
+    HARDCODED_R,
+    HARDCODED_S,
+    isValidXCoordinate,
+    resolveSignature,
+    SECP256K1_N,
+} from '../../src/signature/signature';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import { recoverRawTransaction } from '../../src/recoverRawTransaction/recoverRawTransaction';
+
+describe('isValidXCoordinate', () => {
+    it('should reject values outside of [1, n - 1]', () => {
+        expect(isValidXCoordinate(0n)).toBe(false);
+        expect(isValidXCoordinate(SECP256K1_N)).toBe(false);
+    });
+
+    it('should agree with signature recovery', () => {
+        const messageHash = Buffer.alloc(32, 1);
+        for (let x = 1n; x <= 20n; x++) {
+            let recovers = true;
+            try {
+                ecrecover(messageHash, 27n, setLengthLeft(toBuffer(x), 32), toBuffer(HARDCODED_S));
+            } catch {
+                recovers = false;
+            }
+            expect(isValidXCoordinate(x)).toBe(recovers);
+        }
+    });
+});
+
+describe('resolveSignature', () => {
+    const hex = (value: bigint) => '0x' + value.toString(16).padStart(64, '0');
+
+    it('should default to the hardcoded signature', () => {
+        expect(resolveSignature({})).toEqual({ r: HARDCODED_R, s: HARDCODED_S, v: '0x1b' });
+        expect(resolveSignature({ v: 28 }).v).toBe('0x1c');
+    });
+
+    it('should reject out of range, high and unrecoverable values', () => {
+        expect(() => resolveSignature({ r: '0xzz' })).toThrow('Invalid hex value for customR');
+        expect(() => resolveSignature({ s: '0xzz' })).toThrow('Invalid hex value for customS');
+        expect(() => resolveSignature({ r: '0x00' })).toThrow('Invalid r: must be in the range');
+        expect(() => resolveSignature({ r: hex(SECP256K1_N) })).toThrow(
+            'Invalid r: must be in the range',
+        );
+        // 5 is not the x-coordinate of a point on secp256k1
+        expect(() => resolveSignature({ r: hex(5n) })).toThrow(
+            'Invalid r: not the x-coordinate of a point on secp256k1',
+        );
+        expect(() => resolveSignature({ s: '0x' })).toThrow('Invalid s: must be in the range');
+        expect(() => resolveSignature({ s: hex(SECP256K1_N / 2n + 1n) })).toThrow(
+            'Invalid s: must be in the lower half of the curve order (EIP-2)',
+        );
+        expect(resolveSignature({ s: hex(SECP256K1_N / 2n) }).s).toBe(hex(SECP256K1_N / 2n));
+        expect(() => resolveSignature({ v: 29 as 27 })).toThrow('Invalid v: must be 27 or 28');
+    });
+
+    it('should sign both generators with custom s and v', () => {
+        const s = '0x3333333333333333333333333333333333333333333333333333333333333333';
+        const deployment = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: 1,
+            bytecode: '0x1234',
+            value: 0,
+            s,
+            v: 28,
+        });
+        expect(deployment).toMatchObject({ s, v: '0x1c', r: HARDCODED_R });
+        const recovered = recoverRawTransaction(deployment.rawTx);
+        expect(recovered.senderAddress).toBe(deployment.deployerAddress);
+        expect(recovered.v).toBe('0x1c');
+
+        const flipped = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: 1,
+            bytecode: '0x1234',
+            value: 0,
+            s,
+        });
+        expect(flipped.deployerAddress).not.toBe(deployment.deployerAddress);
+
+        expect(() =>
+            genRawTransaction({
+                gasLimit: 100000,
+                gasPrice: 1,
+                to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+                data: '0x',
+                value: 0,
+                s: hex(SECP256K1_N - 1n),
+            }),
+        ).toThrow('(EIP-2)');
+    });
+});
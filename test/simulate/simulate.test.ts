@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { toChecksumAddress } from '@ethereumjs/util';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { genRawTransaction } from '../../src/genRawTransaction/genRawTransaction';
+import { simulate, simulateDeployment, simulateTransaction } from '../../src/simulate/simulate';
+
+describe('simulate', () => {
+    // Emits LOG1(42, topic 1) and deploys a runtime returning 42
+    const bytecode = '0x602a600052600160206000a1600a6018600039600a6000f3602a60005260206000f3';
+    // Reverts with Error("nope")
+    const reverting =
+        '0x7f08c379a000000000000000000000000000000000000000000000000000000000600052602060045260046024527f6e6f70650000000000000000000000000000000000000000000000000000000060445260646000fd';
+    const word = (value: number) => `0x${value.toString(16).padStart(64, '0')}`;
+
+    it('should report the deployed code, gas used and logs', async () => {
+        const deployment = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            bytecode,
+            value: 0,
+        });
+        const result = await simulate(deployment);
+
+        expect(result.success).toBe(true);
+        expect(result.error).toBeUndefined();
+        expect(result.gasLimit).toBe(100000n);
+        expect(result.gasUsed).toBeGreaterThan(53000n);
+        expect(result.gasUsed).toBeLessThan(100000n);
+        expect(result.contractAddress).toBe(deployment.contractAddress);
+        expect(result.runtimeCode).toBe('0x602a60005260206000f3');
+        expect(result.runtimeCodeHash).toMatch(/^0x[0-9a-f]{64}$/);
+        expect(result.logs).toEqual([
+            { address: deployment.contractAddress, topics: [word(1)], data: word(42) },
+        ]);
+    });
+
+    it('should decode revert reasons', async () => {
+        const result = await simulate(
+            genRawDeployment({ gasLimit: 100000, gasPrice: 1, bytecode: reverting, value: 0 }),
+        );
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('revert');
+        expect(result.revertReason).toBe('nope');
+        expect(result.runtimeCode).toBeUndefined();
+        expect(result.returnData.startsWith('0x08c379a0')).toBe(true);
+    });
+
+    it('should report gas limits that are too low', async () => {
+        const belowIntrinsic = await simulate(
+            genRawDeployment({ gasLimit: 21000, gasPrice: 1, bytecode, value: 0 }),
+        );
+        expect(belowIntrinsic.success).toBe(false);
+        expect(belowIntrinsic.error).toBe('intrinsic gas exceeds gas limit');
+
+        const outOfGas = await simulate(
+            genRawDeployment({ gasLimit: 54000, gasPrice: 1, bytecode, value: 0 }),
+        );
+        expect(outOfGas.success).toBe(false);
+        expect(outOfGas.error).toBe('out of gas');
+        expect(outOfGas.gasUsed).toBe(54000n);
+
+        const tooLarge = await simulate(
+            genRawDeployment({
+                gasLimit: 1000000,
+                gasPrice: 1,
+                bytecode: `0x${'00'.repeat(49153)}`,
+                value: 0,
+            }),
+        );
+        expect(tooLarge.error).toMatch(/^the initcode size of this transaction is too large/);
+    });
+
+    it('should reject malformed and typed transactions with their codes', async () => {
+        const code = async (rawTx: string) => {
+            try {
+                await simulate(rawTx);
+            } catch (error) {
+                return isNickMethodError(error) ? [error.code, error.field] : error;
+            }
+        };
+
+        expect(await code('0xf8a5')).toEqual(['RLP_DECODE_FAILED', 'rawTx']);
+        expect(await code('0x02c0')).toEqual(['UNSUPPORTED_TRANSACTION_TYPE', 'rawTx']);
+    });
+
+    it('should simulate the chosen hardfork', async () => {
+        // PUSH0 PUSH0 RETURN
+        const deployment = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: 1,
+            bytecode: '0x5f5ff3',
+            value: 0,
+        });
+        expect((await simulate(deployment)).success).toBe(true);
+        expect(await simulate(deployment, { hardfork: 'london' })).toMatchObject({
+            success: false,
+            error: 'invalid opcode',
+        });
+        await expect(simulate(deployment, { hardfork: 'cancun' })).rejects.toThrow(
+            'Hardfork cancun is not supported by the simulator',
+        );
+    });
+
+    it('should pick the lowest working gas limit with a safety margin', async () => {
+        const config = { gasLimit: 'auto' as const, gasPrice: '100 gwei', bytecode, value: 0 };
+        const exact = await simulateDeployment(config, { gasMargin: 0 });
+        const limit = exact.simulation.gasLimit;
+        expect(exact.simulation.success).toBe(true);
+        expect(exact.deployment.upfrontCost).toBe(limit * 100000000000n);
+
+        const below = await simulateDeployment({ ...config, gasLimit: limit - 1n });
+        expect(below.simulation.success).toBe(false);
+
+        const padded = await simulateDeployment(config);
+        expect(padded.simulation.gasLimit).toBe(limit + BigInt(Math.ceil(Number(limit) * 0.2)));
+        expect(padded.deployment.contractAddress).toBe(padded.simulation.contractAddress);
+    });
+
+    it('should fail to estimate deployments that always revert', async () => {
+        await expect(
+            simulateDeployment({ gasLimit: 'auto', gasPrice: 1, bytecode: reverting, value: 0 }),
+        ).rejects.toThrow(
+            'Cannot estimate the gas limit: the transaction fails with 30000000 gas (nope)',
+        );
+    });
+
+    it('should simulate executions against set up state', async () => {
+        const deployment = genRawDeployment({ gasLimit: 100000, gasPrice: 1, bytecode, value: 0 });
+        const { simulation } = await simulateTransaction(
+            {
+                gasLimit: 'auto',
+                gasPrice: 1,
+                to: deployment.contractAddress,
+                data: '0x',
+                value: 0,
+            },
+            { setup: [deployment.rawTx] },
+        );
+        expect(simulation.success).toBe(true);
+        expect(simulation.returnData).toBe(word(42));
+
+        const account = '0x00000000000000000000000000000000000000aa';
+        const preset = await simulate(
+            genRawTransaction({
+                gasLimit: 100000,
+                gasPrice: 1,
+                to: toChecksumAddress(account),
+                data: '0x',
+                value: 0,
+            }),
+            { accounts: { [account]: { code: '0x602a60005260206000f3' } } },
+        );
+        expect(preset.returnData).toBe(word(42));
+
+        const setupFailure = async (setup: string[]) => {
+            try {
+                await simulate(deployment, { setup });
+            } catch (error) {
+                return isNickMethodError(error, 'SIMULATION_SETUP_FAILED') && error.message;
+            }
+        };
+        const revertingSetup = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: 1,
+            bytecode: reverting,
+            value: 0,
+        });
+        expect(await setupFailure([revertingSetup.rawTx])).toBe(
+            'Setup transaction 0 failed: revert (nope)',
+        );
+        expect(await setupFailure([deployment.rawTx, '0xf8a5'])).toMatch(
+            /^Setup transaction 1 is invalid: Cannot decode rawTx/,
+        );
+    });
+});
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { run } from '../../src/cli/run';
+import { ExitCode } from '../../src/cli/utils';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { checkDeploymentStatus } from '../../src/status/status';
+import { Provider } from '../../src/types/broadcastConfig';
+import { MockRpcServer } from '../broadcast/mockRpcServer';
+
+describe('checkDeploymentStatus', () => {
+    const deployment = genRawDeployment({
+        gasLimit: 100000,
+        gasPrice: '100 gwei',
+        bytecode: '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe',
+        value: 0,
+    });
+    const deployer = deployment.deployerAddress.toLowerCase();
+    const contract = deployment.contractAddress.toLowerCase();
+    // keccak256 of the code the node leaves at a contract address
+    const codeHash = '0x1a578b7a4b0b5755db6d121b4118d4bc68fe170dca840c59bc922f14175a76b0';
+
+    let server: MockRpcServer;
+    let other: MockRpcServer;
+
+    beforeEach(async () => {
+        server = await new MockRpcServer().start();
+        other = await new MockRpcServer().start();
+    });
+    afterEach(async () => {
+        await server.stop();
+        await other.stop();
+    });
+
+    const check = (options = {}) =>
+        checkDeploymentStatus(
+            deployment,
+            [
+                { chainId: 1, provider: [server.url] },
+                { chainId: 137, provider: [other.url] },
+            ],
+            options,
+        );
+
+    it('should report unfunded and under-funded deployers with their shortfall', async () => {
+        other.balances.set(deployer, 4000000000000000n);
+
+        const report = await check();
+        expect(report).toMatchObject({
+            deployerAddress: deployment.deployerAddress,
+            contractAddress: deployment.contractAddress,
+            upfrontCost: 10000000000000000n,
+        });
+        expect(report.chains).toEqual([
+            {
+                chainId: 1,
+                state: 'not-funded',
+                balance: 0n,
+                nonce: 0n,
+                shortfall: 10000000000000000n,
+                codeHash: undefined,
+            },
+            {
+                chainId: 137,
+                state: 'under-funded',
+                balance: 4000000000000000n,
+                nonce: 0n,
+                shortfall: 6000000000000000n,
+                codeHash: undefined,
+            },
+        ]);
+    });
+
+    it('should report ready and deployed chains', async () => {
+        server.balances.set(deployer, 10000000000000000n);
+        other.codes.set(contract, '0x6080');
+        other.nonces.set(deployer, 1n);
+
+        const report = await check({ expectedCode: '0x6080' });
+        expect(report.chains.map(({ state }) => state)).toEqual(['ready', 'deployed']);
+        expect(report.chains[1].codeHash).toBe(codeHash);
+    });
+
+    it('should report mismatching code and bricked deployers', async () => {
+        server.codes.set(contract, '0x6080');
+        other.nonces.set(deployer, 1n);
+        other.balances.set(deployer, 10n ** 18n);
+
+        const report = await check({ expectedCode: '0x60806040' });
+        expect(report.chains.map(({ state }) => state)).toEqual(['code-mismatch', 'bricked']);
+
+        // Without expected code, any code counts as deployed
+        expect((await check()).chains[0].state).toBe('deployed');
+    });
+
+    it('should report unavailable chains without failing the others', async () => {
+        other.failWith = 500;
+        const never: Provider = {
+            getBalance: () => new Promise(() => {}),
+            getTransactionCount: () => new Promise(() => {}),
+            getCode: () => new Promise(() => {}),
+            sendRawTransaction: () => new Promise(() => {}),
+            getTransactionReceipt: () => new Promise(() => {}),
+            getBlockNumber: () => new Promise(() => {}),
+        };
+
+        const report = await checkDeploymentStatus(
+            deployment,
+            [
+                { chainId: 1, provider: [server.url] },
+                { chainId: 137, provider: [other.url] },
+                { chainId: 10, provider: never },
+            ],
+            { timeout: 200, rpc: { retries: 0 } },
+        );
+        expect(report.chains.map(({ state }) => state)).toEqual([
+            'not-funded',
+            'unavailable',
+            'unavailable',
+        ]);
+        expect(report.chains[1].error).toBeInstanceOf(Error);
+        expect(report.chains[2]).toMatchObject({ balance: undefined, nonce: undefined });
+        expect(report.chains[2].error?.message).toBe('Chain 10 did not answer within 200 ms');
+    });
+
+    it('should reject invalid options', async () => {
+        const failure = async (options: object) => {
+            try {
+                await check(options);
+            } catch (error) {
+                return isNickMethodError(error) ? [error.code, error.field] : error;
+            }
+        };
+
+        expect(await failure({ timeout: 0 })).toEqual(['INVALID_OPTION', 'timeout']);
+        expect(await failure({ expectedCode: '0xzz' })).toEqual(['INVALID_HEX', 'expectedCode']);
+        expect(server.calls).toHaveLength(0);
+    });
+
+    describe('nick-method status', () => {
+        const exec = async (argv: string[]) => {
+            let stdout = '';
+            let stderr = '';
+            const code = await run(argv, {
+                stdout: (text) => (stdout += text),
+                stderr: (text) => (stderr += text),
+                readStdin: async () => '',
+            });
+            return { code, stdout, stderr };
+        };
+        const args = () => [
+            'status',
+            deployment.rawTx,
+            '--rpc',
+            `1=${server.url}`,
+            '--rpc',
+            `137=${other.url}`,
+        ];
+
+        it('should print the status of each chain', async () => {
+            other.codes.set(contract, '0x6080');
+
+            const { code, stdout } = await exec(args());
+            expect(code).toBe(ExitCode.Success);
+            expect(stdout).toContain(`Contract address  ${deployment.contractAddress}`);
+            expect(stdout).toMatch(/^Chain\s+State\s+Balance\s+Nonce\s+Details$/m);
+            expect(stdout).toMatch(
+                /^1 \(Ethereum\)\s+not-funded\s+0 wei\s+0\s+short of 10000000000000000 wei$/m,
+            );
+            expect(stdout).toMatch(
+                /^137 \(Polygon PoS\)\s+deployed\s+0 wei\s+0\s+code hash 0x1a578b7a/m,
+            );
+        });
+
+        it('should print JSON and fail on unhealthy chains', async () => {
+            other.nonces.set(deployer, 1n);
+
+            const { code, stdout } = await exec([...args(), '--json']);
+            expect(code).toBe(ExitCode.Unhealthy);
+            expect(JSON.parse(stdout).chains).toEqual([
+                expect.objectContaining({ chainId: 1, state: 'not-funded', balance: '0' }),
+                expect.objectContaining({ chainId: 137, state: 'bricked', nonce: '1' }),
+            ]);
+        });
+
+        it('should reject invalid arguments', async () => {
+            expect((await exec(['status', deployment.rawTx])).stderr).toContain(
+                'At least one --rpc is required',
+            );
+            expect((await exec(['status', deployment.rawTx, '--rpc', server.url])).code).toBe(
+                ExitCode.ValidationError,
+            );
+        });
+    });
+});
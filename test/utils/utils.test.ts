@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { formatUnits, isValidQuantity, parseQuantity, parseUnits } from '../../src/utils/utils';
+
+describe('parseQuantity', () => {
+    it('should convert numbers and bigints', () => {
+        expect(parseQuantity(0)).toBe(0n);
+        expect(parseQuantity(100000)).toBe(100000n);
+        expect(parseQuantity(2n ** 200n)).toBe(2n ** 200n);
+    });
+
+    it('should convert hex strings', () => {
+        expect(parseQuantity('0x')).toBe(0n);
+        expect(parseQuantity('0x3b9aca00')).toBe(1000000000n);
+        expect(parseQuantity('0xDE0B6B3A7640000')).toBe(1000000000000000000n);
+    });
+
+    it('should convert decimal strings as wei', () => {
+        expect(parseQuantity('1000000000000000001')).toBe(1000000000000000001n);
+    });
+
+    it('should convert unit strings', () => {
+        expect(parseQuantity('25 gwei')).toBe(25000000000n);
+        expect(parseQuantity('0.1 ether')).toBe(100000000000000000n);
+        expect(parseQuantity('1.5ETH')).toBe(1500000000000000000n);
+        expect(parseQuantity('1 finney')).toBe(1000000000000000n);
+        expect(parseQuantity('7 wei')).toBe(7n);
+    });
+
+    it('should throw for fractional wei amounts', () => {
+        expect(() => parseQuantity('0.5 wei')).toThrow('has more than 0 decimals');
+        expect(() => parseQuantity('1.5')).toThrow('Invalid quantity');
+        expect(() => parseQuantity(0.5)).toThrow('Invalid quantity');
+    });
+
+    it('should throw for negative, unsafe or malformed values', () => {
+        expect(() => parseQuantity(-1)).toThrow('Invalid quantity');
+        expect(() => parseQuantity(-1n)).toThrow('Invalid quantity');
+        expect(() => parseQuantity(Number.MAX_SAFE_INTEGER + 1)).toThrow('Invalid quantity');
+        expect(() => parseQuantity('0xZZ')).toThrow('Invalid quantity');
+        expect(() => parseQuantity('25 bananas')).toThrow('Invalid quantity');
+        // Inherited object keys are not units
+        expect(() => parseQuantity('1 constructor')).toThrow('Invalid quantity');
+        expect(() => parseQuantity('1 __proto__')).toThrow('Invalid quantity');
+    });
+});
+
+describe('parseUnits', () => {
+    it('should scale decimal amounts', () => {
+        expect(parseUnits('1', 6)).toBe(1000000n);
+        expect(parseUnits('0.000001', 6)).toBe(1n);
+        expect(parseUnits('1.10', 1)).toBe(11n);
+    });
+
+    it('should reject amounts with too many decimals', () => {
+        expect(() => parseUnits('0.0000001', 6)).toThrow('has more than 6 decimals');
+    });
+});
+
+describe('isValidQuantity', () => {
+    it('should detect valid and invalid quantities', () => {
+        expect(isValidQuantity('0.1 ether')).toBe(true);
+        expect(isValidQuantity(1n)).toBe(true);
+        expect(isValidQuantity(undefined)).toBe(false);
+        expect(isValidQuantity(1.5)).toBe(false);
+        expect(isValidQuantity('not-a-number')).toBe(false);
+        expect(isValidQuantity('1 toString')).toBe(false);
+    });
+});
+
+describe('formatUnits', () => {
+    it('should format integer amounts as decimals', () => {
+        expect(formatUnits(100000000000000000n, 18)).toBe('0.1');
+        expect(formatUnits(1500000000000000000n, 18)).toBe('1.5');
+        expect(formatUnits(25000000000n, 9)).toBe('25');
+        expect(formatUnits(0n, 18)).toBe('0');
+        expect(formatUnits(1n, 18)).toBe('0.000000000000000001');
+    });
+
+    it('should round trip with parseUnits', () => {
+        expect(parseUnits(formatUnits(123456789012345678901n, 18), 18)).toBe(
+            123456789012345678901n,
+        );
+    });
+});
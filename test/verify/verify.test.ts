@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { Chain, Common, Hardfork } from '@ethereumjs/common';
+import { Transaction } from '@ethereumjs/tx';
+import { bufferToHex, privateToAddress, toBuffer, toChecksumAddress } from '@ethereumjs/util';
+import { keccak256 } from 'ethereum-cryptography/keccak';
+import { getPublicKey } from 'ethereum-cryptography/secp256k1';
+import { CANONICAL_CREATE2_FACTORY } from '../../src/create2/create2';
+import { isNickMethodError } from '../../src/errors/errors';
+import { genRawDeployment } from '../../src/genRawDeployment/genRawDeployment';
+import { verifyKeylessDeployment } from '../../src/verify/verify';
+
+describe('verifyKeylessDeployment', () => {
+    const factory = CANONICAL_CREATE2_FACTORY;
+    const failed = (report: ReturnType<typeof verifyKeylessDeployment>) =>
+        report.checks.filter(({ passed }) => !passed).map(({ name }) => name);
+
+    it('should verify the canonical CREATE2 factory deployment', () => {
+        const report = verifyKeylessDeployment(factory.rawTx, {
+            bytecode: factory.deployment.bytecode,
+            bytecodeHash: bufferToHex(
+                Buffer.from(keccak256(toBuffer(factory.deployment.bytecode))),
+            ),
+            deployerAddress: factory.deployerAddress,
+            contractAddress: factory.address,
+            gasPrice: '100 gwei',
+            gasLimit: 100000,
+        });
+
+        expect(report.ok).toBe(true);
+        expect(report.checks.map(({ name }) => name)).toEqual([
+            'legacy-type',
+            'replay-unprotected',
+            'contract-creation',
+            'zero-nonce',
+            'keyless-signature',
+            'bytecode',
+            'bytecode-hash',
+            'deployer',
+            'contract-address',
+            'gas-price',
+            'gas-limit',
+        ]);
+        expect(report.transaction?.senderAddress).toBe(factory.deployerAddress);
+    });
+
+    it('should report mismatching expectations', () => {
+        const report = verifyKeylessDeployment(factory.rawTx, {
+            deployerAddress: '0x4e59b44847b379578588920cA78FbF26c0B4956C',
+            gasPrice: '50 gwei',
+        });
+
+        expect(report.ok).toBe(false);
+        expect(failed(report)).toEqual(['deployer', 'gas-price']);
+        expect(report.checks.find(({ name }) => name === 'gas-price')).toEqual({
+            name: 'gas-price',
+            passed: false,
+            message: 'The gas price is 100000000000, expected 50000000000',
+            expected: '50000000000',
+            actual: '100000000000',
+        });
+    });
+
+    it('should accept the library signatures', () => {
+        const { rawTx } = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            value: 0,
+            bytecode: '0x60006000f3',
+        });
+        expect(verifyKeylessDeployment(rawTx).ok).toBe(true);
+    });
+
+    it('should flag an r derived from a known scalar, whatever s is', () => {
+        // r = (kG).x with k = 0x4646…46, and the library's constructed s = 0x1212…12
+        const k = BigInt('0x4646464646464646464646464646464646464646464646464646464646464646');
+        const r = bufferToHex(
+            Buffer.from(getPublicKey(toBuffer(`0x${k.toString(16)}`), true).subarray(1)),
+        );
+        const deployment = genRawDeployment({
+            gasLimit: 100000,
+            gasPrice: '100 gwei',
+            value: 0,
+            bytecode: '0x60006000f3',
+            r,
+        });
+        expect(failed(verifyKeylessDeployment(deployment.rawTx))).toEqual(['keyless-signature']);
+
+        // Whoever picked k holds the deployer key: d = r⁻¹(s·k − z) mod n
+        const n = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+        const mod = (value: bigint) => ((value % n) + n) % n;
+        const inverse = (value: bigint) => {
+            let [result, base, exponent] = [1n, mod(value), n - 2n];
+            for (; exponent > 0n; exponent >>= 1n, base = mod(base * base)) {
+                result = exponent & 1n ? mod(result * base) : result;
+            }
+            return result;
+        };
+        const z = BigInt(verifyKeylessDeployment(deployment.rawTx).transaction!.signingHash);
+        const d = mod(inverse(BigInt(r)) * (BigInt(deployment.s) * k - z));
+        const key = toBuffer(`0x${d.toString(16).padStart(64, '0')}`);
+        expect(toChecksumAddress(bufferToHex(privateToAddress(key)))).toBe(
+            deployment.deployerAddress,
+        );
+    });
+
+    it('should flag transactions signed with a real key', () => {
+        const privateKey = toBuffer(
+            '0x4646464646464646464646464646464646464646464646464646464646464646',
+        );
+        // Signatures without a chain id predate EIP-155
+        const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Homestead });
+        const unprotected = Transaction.fromTxData(
+            { gasLimit: 100000, gasPrice: 10 ** 9, data: '0x60006000f3' },
+            { common },
+        ).sign(privateKey);
+        expect(failed(verifyKeylessDeployment(bufferToHex(unprotected.serialize())))).toEqual([
+            'keyless-signature',
+        ]);
+
+        // EIP-155 example transaction: replay-protected call with nonce 9
+        const protectedCall =
+            '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+        expect(failed(verifyKeylessDeployment(protectedCall))).toEqual([
+            'replay-unprotected',
+            'contract-creation',
+            'zero-nonce',
+            'keyless-signature',
+        ]);
+    });
+
+    it('should report undecodable transactions', () => {
+        const report = verifyKeylessDeployment('0xc0ffee');
+        expect(report.ok).toBe(false);
+        expect(report.transaction).toBeUndefined();
+        expect(failed(report)).toEqual(['decode']);
+    });
+
+    it('should reject malformed expectations', () => {
+        try {
+            verifyKeylessDeployment(factory.rawTx, {
+                contractAddress: factory.address.toLowerCase(),
+            });
+            expect.unreachable();
+        } catch (error) {
+            expect(isNickMethodError(error, 'NON_CHECKSUM_ADDRESS')).toBe(true);
+            expect((error as Error & { field: string }).field).toBe('contractAddress');
+        }
+        expect(() => verifyKeylessDeployment(factory.rawTx, { bytecodeHash: '0x1234' })).toThrow(
+            'Invalid bytecodeHash: expected 32 bytes',
+        );
+    });
+});
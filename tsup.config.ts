@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import { defineConfig } from 'tsup';
+
+const { name, version } = JSON.parse(readFileSync('./package.json', 'utf8'));
+
+// Constants of src/package/package.ts, inlined instead of bundling package.json
+export const define = {
+    __PACKAGE_NAME__: JSON.stringify(name),
+    __PACKAGE_VERSION__: JSON.stringify(version),
+};
+
+export default defineConfig([
+    {
+        entry: { index: 'src/index.ts' },
+        format: ['cjs', 'esm'],
+        dts: true,
+        shims: true,
+        // The ESM shim of __dirname reads import.meta.url, which esbuild drops below es2020
+        target: 'es2020',
+        define,
+    },
+    {
+        // Entry point for browsers and edge runtimes, which must not import Node built-ins
+        entry: { browser: 'src/browser.ts' },
+        format: ['esm'],
+        platform: 'browser',
+        dts: true,
+        define,
+    },
+    {
+        // Node-only entry points, resolved next to the bundle at runtime
+        entry: { cli: 'src/cli/cli.ts', vanityWorker: 'src/mineVanityR/vanityWorker.ts' },
+        format: ['cjs'],
+        define,
+    },
+]);
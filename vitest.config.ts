@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+import { define } from './tsup.config';
+
+export default defineConfig({
+    define,
+    test: {
+        poolOptions: {
+            forks: {
+                // Worker threads inherit it, so that the vanity miner can run its TypeScript worker from src/
+                execArgv: ['--require', 'tsx/cjs'],
+            },
+        },
+    },
+});